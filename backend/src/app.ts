@@ -39,6 +39,8 @@ app.use(cors({
     credentials: true,
 }));
 
+// Deck and question bank imports carry whole files; everything else keeps the default body limit
+app.use(['/api/library/import', '/api/sessions/questions/import'], express.json({ limit: '2mb' }));
 app.use(express.json());
 app.use(cookieParser());
 
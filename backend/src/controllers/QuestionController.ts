@@ -4,34 +4,115 @@ import db from '../services/database.js';
 import { aiService } from '../services/aiService.js';
 import { sanitizeInput } from '../utils/helpers.js';
 import socketService from '../services/socketService.js';
+import { ScoringService } from '../services/ScoringService.js';
 import { SocketEvents } from '../socket/events.js';
+import { QuestionTimerService } from '../services/QuestionTimerService.js';
+import { QuestionImportService } from '../services/QuestionImportService.js';
+import { CoHostService, hasPermission } from '../services/CoHostService.js';
+import { QuestionType } from '../types/index.js';
+
+const QUESTION_TYPES: [QuestionType, ...QuestionType[]] = [
+    'poll', 'word_cloud', 'open_ended', 'scale', 'ranking', 'pin_image', 'brainstorm', 'nps',
+    'quiz_mc', 'quiz_tf', 'quiz_order', 'quiz_slider', 'quiz_typed', 'quiz_audio',
+];
 
 // Validation Schemas
 const CreateQuestionSchema = z.object({
-    questionType: z.string(),
+    questionType: z.enum(QUESTION_TYPES),
     questionText: z.string().min(1).max(1000),
     options: z.any().nullable().optional(),
     settings: z.any().nullable().optional(),
     correctAnswer: z.any().nullable().optional(),
     timeLimit: z.number().nullable().optional(),
     displayOrder: z.number().optional().default(0),
+    audioUrl: z.string().url().nullable().optional(),
+    mediaUrl: z.string().url().nullable().optional(),
+});
+
+export type QuestionInput = z.infer<typeof CreateQuestionSchema>;
+
+// Every field optional; displayOrder is re-declared so the create default doesn't clobber it
+const UpdateQuestionSchema = CreateQuestionSchema
+    .omit({ displayOrder: true })
+    .partial()
+    .extend({
+        displayOrder: z.number().optional(),
+        reset: z.boolean().optional(), // Discard existing responses so the edit can go through
+    });
+
+const ReorderQuestionsSchema = z.object({
+    questionIds: z.array(z.string()).min(1),
+});
+
+const ImportQuestionsSchema = z.object({
+    format: z.enum(['csv', 'gift', 'aiken']),
+    content: z.string().min(1).max(1_000_000),
 });
 
 const ExtractQuestionsSchema = z.object({
     sourceText: z.string().min(50, "Source text must be at least 50 characters"),
 });
 
+/**
+ * Validate a new question: the create schema plus the scoring strategy check.
+ * Shared with deck import so both paths accept exactly the same questions.
+ */
+export function validateQuestionInput(input: unknown): { data?: QuestionInput; error?: unknown } {
+    const validation = CreateQuestionSchema.safeParse(input);
+    if (!validation.success) {
+        return { error: validation.error.format() };
+    }
+
+    const strategy = validation.data.settings?.scoring_strategy;
+    if (strategy && !ScoringService.getStrategies(validation.data.questionType).includes(strategy)) {
+        return { error: `Scoring strategy "${strategy}" is not supported for ${validation.data.questionType} questions` };
+    }
+
+    return { data: validation.data };
+}
+
 export class QuestionController {
+    /**
+     * Resolve the session and make sure the caller may edit it: the owner or a full-control co-host.
+     * Sends the error response and returns null otherwise.
+     */
+    private static async authorizePresenter(req: Request, res: Response, sessionId: string) {
+        const session = await db.getSessionById(sessionId);
+        if (!session) {
+            res.status(404).json({ error: 'Session not found' });
+            return null;
+        }
+
+        if (!hasPermission(await CoHostService.getRole(session, req.user?.id), 'manage')) {
+            res.status(403).json({ error: 'Not authorized' });
+            return null;
+        }
+
+        return session;
+    }
+
+    /**
+     * Resolve a question and make sure it belongs to the session in the URL
+     */
+    private static async findSessionQuestion(res: Response, sessionId: string, questionId: string) {
+        const question = await db.getQuestionById(questionId);
+        if (!question || question.session_id !== sessionId) {
+            res.status(404).json({ error: 'Question not found' });
+            return null;
+        }
+        return question;
+    }
+
     /**
      * Create a new question
      */
     static async create(req: Request, res: Response) {
         try {
             const { sessionId } = req.params;
-            const validation = CreateQuestionSchema.safeParse(req.body);
+            const { data, error } = validateQuestionInput(req.body);
 
-            if (!validation.success) {
-                return res.status(400).json({ error: validation.error.format() });
+            if (!data) {
+                return res.status(400).json({ error });
             }
 
             const {
@@ -41,18 +122,22 @@ export class QuestionController {
                 settings,
                 correctAnswer,
                 timeLimit,
-                displayOrder
-            } = validation.data;
+                displayOrder,
+                audioUrl,
+                mediaUrl
+            } = data;
 
             const question = await db.createQuestion({
                 session_id: sessionId,
-                question_type: questionType as any,
+                question_type: questionType,
                 question_text: sanitizeInput(questionText, 1000),
                 options: options || null,
                 settings: settings || {},
                 correct_answer: correctAnswer || null,
                 time_limit: timeLimit || null,
                 display_order: displayOrder,
+                audio_url: audioUrl || null,
+                media_url: mediaUrl || null,
             });
 
             socketService.emitToSession(sessionId, SocketEvents.QUESTION_ADDED, {
@@ -80,6 +165,148 @@ export class QuestionController {
         }
     }
 
+    /**
+     * Edit a question
+     * Refused once participants have answered, unless `reset` discards their responses
+     */
+    static async update(req: Request, res: Response) {
+        try {
+            const { sessionId, questionId } = req.params;
+            const validation = UpdateQuestionSchema.safeParse(req.body);
+
+            if (!validation.success) {
+                return res.status(400).json({ error: validation.error.format() });
+            }
+
+            if (!await QuestionController.authorizePresenter(req, res, sessionId)) return;
+            const existing = await QuestionController.findSessionQuestion(res, sessionId, questionId);
+            if (!existing) return;
+
+            const {
+                questionType,
+                questionText,
+                options,
+                settings,
+                correctAnswer,
+                timeLimit,
+                displayOrder,
+                audioUrl,
+                mediaUrl,
+                reset
+            } = validation.data;
+
+            const strategy = (settings ?? existing.settings)?.scoring_strategy;
+            const type = questionType ?? existing.question_type;
+            if (strategy && !ScoringService.getStrategies(type).includes(strategy)) {
+                return res.status(400).json({
+                    error: `Scoring strategy "${strategy}" is not supported for ${type} questions`,
+                });
+            }
+
+            // Reordering alone never invalidates answers; anything else does
+            const changesContent = [questionType, questionText, options, settings, correctAnswer, timeLimit, audioUrl, mediaUrl]
+                .some(value => value !== undefined);
+
+            if (changesContent) {
+                const activity = await db.getQuestionActivityCount(questionId);
+                if (activity > 0 && !reset) {
+                    return res.status(409).json({
+                        error: 'Question already has responses. Resend with "reset": true to discard them and apply the edit.',
+                        responseCount: activity,
+                    });
+                }
+                if (activity > 0) {
+                    await db.resetQuestionResponses(questionId);
+                }
+            }
+
+            const question = await db.updateQuestion(questionId, {
+                question_type: questionType,
+                question_text: questionText !== undefined ? sanitizeInput(questionText, 1000) : undefined,
+                options,
+                settings,
+                correct_answer: correctAnswer,
+                time_limit: timeLimit,
+                display_order: displayOrder,
+                audio_url: audioUrl,
+                media_url: mediaUrl,
+            });
+
+            socketService.emitToSession(sessionId, SocketEvents.QUESTION_UPDATED, {
+                question,
+                was_reset: changesContent && !!reset,
+            });
+
+            res.json({ question });
+        } catch (error) {
+            console.error('Error updating question:', error);
+            res.status(500).json({ error: 'Failed to update question' });
+        }
+    }
+
+    /**
+     * Delete a question and everything submitted for it
+     */
+    static async remove(req: Request, res: Response) {
+        try {
+            const { sessionId, questionId } = req.params;
+
+            if (!await QuestionController.authorizePresenter(req, res, sessionId)) return;
+            if (!await QuestionController.findSessionQuestion(res, sessionId, questionId)) return;
+
+            if (QuestionTimerService.getRemainingMs(sessionId, questionId) !== null) {
+                QuestionTimerService.stop(sessionId);
+            }
+
+            await db.deleteQuestion(questionId);
+
+            socketService.emitToSession(sessionId, SocketEvents.QUESTION_REMOVED, {
+                question_id: questionId,
+            });
+
+            res.json({ success: true });
+        } catch (error) {
+            console.error('Error deleting question:', error);
+            res.status(500).json({ error: 'Failed to delete question' });
+        }
+    }
+
+    /**
+     * Reorder a session's questions to match the given id list
+     */
+    static async reorder(req: Request, res: Response) {
+        try {
+            const { sessionId } = req.params;
+            const validation = ReorderQuestionsSchema.safeParse(req.body);
+
+            if (!validation.success) {
+                return res.status(400).json({ error: validation.error.format() });
+            }
+
+            if (!await QuestionController.authorizePresenter(req, res, sessionId)) return;
+
+            const { questionIds } = validation.data;
+            const current = await db.getQuestionsBySession(sessionId);
+            const known = new Set(current.map(q => q.id));
+
+            if (questionIds.length !== current.length || questionIds.some(id => !known.has(id)) ||
+                new Set(questionIds).size !== questionIds.length) {
+                return res.status(400).json({ error: 'questionIds must list every question in the session exactly once' });
+            }
+
+            const questions = await db.reorderQuestions(sessionId, questionIds);
+
+            socketService.emitToSession(sessionId, SocketEvents.QUESTIONS_REORDERED, {
+                question_ids: questions.map(q => q.id),
+            });
+
+            res.json({ questions });
+        } catch (error) {
+            console.error('Error reordering questions:', error);
+            res.status(500).json({ error: 'Failed to reorder questions' });
+        }
+    }
+
     /**
      * AI Question Extractor
      */
@@ -107,6 +334,26 @@ export class QuestionController {
         }
     }
 
+    /**
+     * Parse a CSV, GIFT or Aiken question bank into a preview.
+     * Nothing is saved; malformed or unsupported entries come back with line numbers.
+     */
+    static async importPreview(req: Request, res: Response) {
+        try {
+            const validation = ImportQuestionsSchema.safeParse(req.body);
+
+            if (!validation.success) {
+                return res.status(400).json({ error: validation.error.format() });
+            }
+
+            const { format, content } = validation.data;
+            res.json(QuestionImportService.preview(format, content));
+        } catch (error) {
+            console.error('Error importing questions:', error);
+            res.status(500).json({ error: 'Failed to import questions' });
+        }
+    }
+
     /**
      * Get poll/quiz results for a question
      */
@@ -133,7 +380,7 @@ export class QuestionController {
                     results = await db.getWordCloudData(questionId);
                     break;
                 case 'open_ended':
-                    results = await db.getTextResponses(questionId, 'approved');
+                    results = await db.getVisibleTextResponses(questionId);
                     break;
                 default:
                     results = await db.getPollResults(questionId);
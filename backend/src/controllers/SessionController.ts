@@ -3,6 +3,9 @@ import { z } from 'zod';
 import db from '../services/database.js';
 import { ExportService } from '../services/ExportService.js';
 import socketService from '../services/socketService.js';
+import { QuestionTimerService } from '../services/QuestionTimerService.js';
+import { PersonalResultsService } from '../services/PersonalResultsService.js';
+import { CoHostService, hasPermission } from '../services/CoHostService.js';
 import { SocketEvents } from '../socket/events.js';
 import {
     generateJoinCode,
@@ -153,6 +156,7 @@ export class SessionController {
 
             const participantCount = await db.getConnectedParticipantCount(session.id);
             const questions = await db.getQuestionsBySession(session.id);
+            const teamMode = !!session.settings?.team_mode;
 
             res.json({
                 session: {
@@ -163,6 +167,16 @@ export class SessionController {
                     status: session.status,
                     currentQuestionId: session.current_question_id,
                     expiresAt: session.expires_at,
+                    joinFields: session.settings?.join_fields || [],
+                    randomNicknames: !!session.settings?.random_nicknames,
+                    teamMode,
+                    teamAssignment: teamMode ? session.settings?.team_assignment || 'presenter' : null,
+                    teams: teamMode
+                        ? (await db.getTeams(session.id)).map(t => ({ id: t.id, name: t.name, color: t.color }))
+                        : [],
+                    selfPaced: !!session.settings?.self_paced,
+                    opensAt: session.settings?.opens_at ?? null,
+                    closesAt: session.settings?.closes_at ?? null,
                 },
                 participantCount,
                 questions,
@@ -185,7 +199,7 @@ export class SessionController {
                 return res.status(404).json({ error: 'Session not found or ended' });
             }
 
-            if (session.status !== 'active' && session.status !== 'live') {
+            if (session.status === 'ended') {
                 return res.status(400).json({ error: 'Session is not active' });
             }
 
@@ -210,6 +224,35 @@ export class SessionController {
         }
     }
 
+    /**
+     * A participant's own answers, score and rank, found by their participant cookie
+     */
+    static async myResults(req: Request, res: Response) {
+        try {
+            const { sessionId } = req.params;
+            const cookieId = req.get('X-Participant-Cookie') || req.cookies[PARTICIPANT_COOKIE_NAME];
+
+            const session = await db.getSessionById(sessionId);
+            if (!session) {
+                return res.status(404).json({ error: 'Session not found' });
+            }
+
+            const participant = cookieId ? await db.getParticipantByCookie(session.id, cookieId) : null;
+            if (!participant || participant.is_removed) {
+                return res.status(404).json({ error: 'You did not take part in this session' });
+            }
+
+            if (!await PersonalResultsService.isAvailable(session, participant.id)) {
+                return res.status(403).json({ error: 'Results are not available for this session' });
+            }
+
+            res.json(await PersonalResultsService.build(session, participant.id, participant.nickname));
+        } catch (error) {
+            console.error('Error getting personal results:', error);
+            res.status(500).json({ error: 'Failed to get results' });
+        }
+    }
+
     /**
      * Start a session (set status live + broadcast)
      */
@@ -222,12 +265,9 @@ export class SessionController {
                 return res.status(404).json({ ok: false, error: 'Session not found' });
             }
 
-            // Presenter authorization
-            const userId = req.user?.id;
-            const isAuthorizedPresenter =
-                !!userId && (userId === session.presenter_id || userId === session.user_id);
-
-            if (!isAuthorizedPresenter) {
+            // Presenter authorization: the owner or a co-host who drives the session
+            const role = await CoHostService.getRole(session, req.user?.id);
+            if (!hasPermission(role, 'drive')) {
                 return res.status(403).json({ ok: false, error: 'Not authorized' });
             }
 
@@ -235,7 +275,16 @@ export class SessionController {
                 return res.status(400).json({ ok: false, error: 'Session has already ended' });
             }
 
+            if (session.status === 'paused') {
+                return res.status(400).json({ ok: false, error: 'Session is paused; resume it instead' });
+            }
+
+            if (session.status !== 'live') {
+                await db.recordSessionPlay(sessionId);
+            }
+
             const updated = await db.updateSession(sessionId, { status: 'live' });
+            await db.createAuditLog(req.user!.id, 'SESSION_STARTED', { session_id: sessionId, role });
 
             socketService.emitToSession(sessionId, SocketEvents.SESSION_STARTED, {
                 sessionId,
@@ -261,18 +310,18 @@ export class SessionController {
                 return res.status(404).json({ success: false, error: 'Session not found' });
             }
 
-            const userId = req.user?.id;
-            const isAuthorizedPresenter =
-                !!userId && (userId === session.presenter_id || userId === session.user_id);
-
-            if (!isAuthorizedPresenter) {
+            const role = await CoHostService.getRole(session, req.user?.id);
+            if (!hasPermission(role, 'manage')) {
                 return res.status(403).json({ success: false, error: 'Not authorized' });
             }
 
             await db.updateSessionStatus(sessionId, 'ended');
+            await db.createAuditLog(req.user!.id, 'SESSION_ENDED', { session_id: sessionId, role });
+            QuestionTimerService.stop(sessionId);
 
             socketService.emitToSession(sessionId, SocketEvents.SESSION_ENDED, {
                 message: 'The session has ended',
+                personal_results: PersonalResultsService.isEnabled(session),
             });
 
             res.json({ success: true });
@@ -290,6 +339,16 @@ export class SessionController {
             const { sessionId } = req.params;
             const { format = 'json' } = req.query;
 
+            // Exports include participants' join-form answers, so only the presenter side may download them
+            const session = await db.getSessionById(sessionId);
+            if (!session) {
+                return res.status(404).json({ error: 'Session not found' });
+            }
+            const role = await CoHostService.getRole(session, req.user?.id);
+            if (!hasPermission(role, 'manage')) {
+                return res.status(403).json({ error: 'Not authorized' });
+            }
+
             if (format === 'csv') {
                 const csv = await ExportService.exportToCsv(sessionId);
                 res.setHeader('Content-Type', 'text/csv');
@@ -2,6 +2,7 @@ import { Request, Response, Router } from 'express';
 import { authorize } from '../middleware/rbac.js';
 import { authenticate } from '../middleware/auth.js';
 import db from '../services/database.js';
+import { ProfanitySettingsSchema } from '../services/ProfanityService.js';
 import logger from '../utils/logger.js';
 
 const router: Router = Router();
@@ -94,4 +95,65 @@ router.get('/audit-logs', authorize(['admin', 'owner']), (async (req: Request, r
     }
 }));
 
+/**
+ * Organisation whose settings an admin request targets. Admins always act on
+ * their own; owners pick one with ?organizationId=
+ */
+function getTargetOrganizationId(req: Request): string | null {
+    if (req.user!.role === 'owner' && typeof req.query.organizationId === 'string') {
+        return req.query.organizationId;
+    }
+    return req.user!.organizationId;
+}
+
+/**
+ * GET /api/admin/profanity
+ * Fetch the organization's profanity block/allow lists and input actions
+ */
+router.get('/profanity', authorize(['admin', 'owner']), (async (req: Request, res: Response) => {
+    const organizationId = getTargetOrganizationId(req);
+    if (!organizationId) return res.status(400).json({ error: 'Organization required' });
+
+    try {
+        const organization = await db.getOrganizationById(organizationId);
+        if (!organization) return res.status(404).json({ error: 'Organization not found' });
+
+        res.json(await db.getOrganizationProfanitySettings(organizationId));
+    } catch (error) {
+        logger.error({ error, organizationId }, 'Admin: failed to fetch profanity settings');
+        res.status(500).json({ error: 'Failed to fetch profanity settings' });
+    }
+}));
+
+/**
+ * PUT /api/admin/profanity
+ * Replace the organization's profanity block/allow lists and input actions
+ */
+router.put('/profanity', authorize(['admin', 'owner']), (async (req: Request, res: Response) => {
+    const organizationId = getTargetOrganizationId(req);
+    if (!organizationId) return res.status(400).json({ error: 'Organization required' });
+
+    const validation = ProfanitySettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+        return res.status(400).json({ error: validation.error.issues[0].message });
+    }
+
+    try {
+        const settings = await db.updateOrganizationProfanitySettings(organizationId, validation.data);
+        if (!settings) return res.status(404).json({ error: 'Organization not found' });
+
+        await db.createAuditLog(req.user!.id, 'PROFANITY_SETTINGS_UPDATED', {
+            organizationId,
+            blockWords: settings.block_words?.length || 0,
+            allowWords: settings.allow_words?.length || 0,
+            actions: settings.actions || {}
+        });
+
+        res.json(settings);
+    } catch (error) {
+        logger.error({ error, organizationId }, 'Admin: failed to update profanity settings');
+        res.status(500).json({ error: 'Failed to update profanity settings' });
+    }
+}));
+
 export default router;
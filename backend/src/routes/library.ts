@@ -1,17 +1,72 @@
 import express, { Router, Request, Response } from 'express';
 import db from '../services/database.js';
 import { authenticate } from '../middleware/auth.js';
+import { getTrashRetentionDays } from '../utils/helpers.js';
+import { TemplateMetadata } from '../types/index.js';
+import { DeckService } from '../services/DeckService.js';
 
 const router: Router = express.Router();
 
+const VALID_VISIBILITIES = ['private', 'public', 'workspace'];
+const VALID_MODES = ['engagement', 'quiz', 'mixed'];
+const VALID_STATUSES = ['active', 'live', 'paused', 'ended'];
+const VALID_SORTS = ['created_at', 'play_count', 'last_played_at'];
+const MAX_FOLDER_NAME_LENGTH = 100;
+const MAX_TEMPLATE_TITLE_LENGTH = 200;
+const MAX_CATEGORY_LENGTH = 50;
+const MAX_TEMPLATE_TAGS = 10;
+
+/**
+ * Load a folder only if it belongs to the user
+ */
+async function getOwnedFolder(folderId: string, userId: string) {
+    const folder = await db.getFolderById(folderId);
+    return folder && folder.user_id === userId ? folder : null;
+}
+
+/**
+ * Load a session only if it belongs to the user
+ */
+async function getOwnedSession(sessionId: string, userId: string) {
+    const session = await db.getSessionById(sessionId);
+    return session && session.user_id === userId ? session : null;
+}
+
+function cleanFolderName(name: unknown): string | null {
+    if (typeof name !== 'string') return null;
+    const trimmed = name.trim();
+    return trimmed && trimmed.length <= MAX_FOLDER_NAME_LENGTH ? trimmed : null;
+}
+
 /**
- * List saved sessions
- * GET /api/library
+ * Search saved sessions
+ * GET /api/library?q=&mode=&status=&folder=<id|none>&favorite=true&sort=&cursor=&limit=
  */
 router.get('/', authenticate, (async (req: Request, res: Response) => {
     try {
-        const sessions = await db.getSessionsByUserId(req.user!.id);
-        res.json(sessions);
+        const { q, mode, status, folder, favorite, sort, cursor, limit } = req.query as Record<string, string | undefined>;
+
+        if (mode && !VALID_MODES.includes(mode)) {
+            return res.status(400).json({ error: 'Invalid mode' });
+        }
+        if (status && !VALID_STATUSES.includes(status)) {
+            return res.status(400).json({ error: 'Invalid status' });
+        }
+        if (sort && !VALID_SORTS.includes(sort)) {
+            return res.status(400).json({ error: 'Invalid sort' });
+        }
+
+        const page = await db.searchLibrary(req.user!.id, {
+            search: q?.trim() || undefined,
+            mode: mode as any,
+            status: status as any,
+            folderId: folder === 'none' ? null : folder || undefined,
+            favorite: favorite === undefined ? undefined : favorite === 'true',
+            sort: sort as any,
+            cursor,
+            limit: limit ? parseInt(limit, 10) || undefined : undefined,
+        });
+        res.json(page);
     } catch (error) {
         console.error('List library error:', error);
         res.status(500).json({ error: 'Failed to fetch library' });
@@ -42,7 +97,57 @@ router.post('/:id/duplicate', authenticate, (async (req: Request, res: Response)
 }));
 
 /**
- * Delete a session (soft delete)
+ * Export a session as a portable JSON deck
+ * GET /api/library/:id/export
+ */
+router.get('/:id/export', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const session = await getOwnedSession(req.params.id, req.user!.id);
+        if (!session) {
+            return res.status(403).json({ error: 'Unauthorized or session not found' });
+        }
+
+        const deck = await DeckService.exportSession(session.id);
+        const filename = session.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'session';
+
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.deck.json"`);
+        res.json(deck);
+    } catch (error) {
+        console.error('Export deck error:', error);
+        res.status(500).json({ error: 'Failed to export session' });
+    }
+}));
+
+/**
+ * Import a JSON deck as a new session. Invalid questions are skipped
+ * and reported by their position in the file.
+ * POST /api/library/import  { deck, title? }
+ */
+router.post('/import', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { deck, title } = req.body || {};
+        if (title !== undefined && typeof title !== 'string') {
+            return res.status(400).json({ error: 'Invalid title' });
+        }
+
+        const { deck: parsed, error } = DeckService.parseDeck(deck);
+        if (!parsed) {
+            return res.status(400).json({ error });
+        }
+        if (parsed.questions.length === 0 && parsed.errors.length > 0) {
+            return res.status(400).json({ error: 'No valid questions in deck', errors: parsed.errors });
+        }
+
+        const result = await DeckService.importDeck(parsed, req.user!.id, title?.trim() || undefined);
+        res.status(201).json(result);
+    } catch (error) {
+        console.error('Import deck error:', error);
+        res.status(500).json({ error: 'Failed to import deck' });
+    }
+}));
+
+/**
+ * Move a session to the trash (soft delete)
  * DELETE /api/library/:id
  */
 router.delete('/:id', authenticate, (async (req: Request, res: Response) => {
@@ -56,24 +161,420 @@ router.delete('/:id', authenticate, (async (req: Request, res: Response) => {
         }
 
         await db.deleteSession(id);
-        res.json({ message: 'Session deleted' });
+        res.json({ message: 'Session moved to trash' });
     } catch (error) {
         console.error('Delete library error:', error);
         res.status(500).json({ error: 'Failed to delete session' });
     }
 }));
 
+// ============================================
+// TRASH
+// ============================================
+
 /**
- * Get templates
- * GET /api/library/templates
+ * List trashed sessions
+ * GET /api/library/trash
  */
-router.get('/templates', (async (req: Request, res: Response) => {
+router.get('/trash', authenticate, (async (req: Request, res: Response) => {
     try {
-        const sessions = await db.getSessionsByUserId('system-template-id');
-        res.json(sessions);
+        const sessions = await db.getTrashedSessions(req.user!.id);
+        res.json({ sessions, retentionDays: getTrashRetentionDays() });
     } catch (error) {
+        console.error('List trash error:', error);
+        res.status(500).json({ error: 'Failed to fetch trash' });
+    }
+}));
+
+/**
+ * Restore a session from the trash
+ * POST /api/library/:id/restore
+ */
+router.post('/:id/restore', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const session = await getOwnedSession(id, req.user!.id);
+        if (!session || !session.is_deleted) {
+            return res.status(404).json({ error: 'Session not found in trash' });
+        }
+
+        await db.restoreSession(id);
+        res.json({ message: 'Session restored' });
+    } catch (error) {
+        console.error('Restore library error:', error);
+        res.status(500).json({ error: 'Failed to restore session' });
+    }
+}));
+
+/**
+ * Delete a trashed session forever
+ * DELETE /api/library/:id/permanent
+ */
+router.delete('/:id/permanent', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const session = await getOwnedSession(id, req.user!.id);
+        if (!session || !session.is_deleted) {
+            return res.status(404).json({ error: 'Session not found in trash' });
+        }
+
+        await db.purgeSession(id);
+        res.json({ message: 'Session permanently deleted' });
+    } catch (error) {
+        console.error('Purge library error:', error);
+        res.status(500).json({ error: 'Failed to delete session' });
+    }
+}));
+
+// ============================================
+// FOLDERS
+// ============================================
+
+/**
+ * List the user's folders (flat, with parent_id, for building the tree)
+ * GET /api/library/folders
+ */
+router.get('/folders', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const folders = await db.getFoldersByUser(req.user!.id);
+        res.json(folders);
+    } catch (error) {
+        console.error('List folders error:', error);
+        res.status(500).json({ error: 'Failed to fetch folders' });
+    }
+}));
+
+/**
+ * Create a folder, optionally inside another one
+ * POST /api/library/folders
+ */
+router.post('/folders', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const name = cleanFolderName(req.body.name);
+        const { parentId } = req.body;
+
+        if (!name) {
+            return res.status(400).json({ error: `Folder name must be 1-${MAX_FOLDER_NAME_LENGTH} characters` });
+        }
+
+        if (parentId && !await getOwnedFolder(parentId, req.user!.id)) {
+            return res.status(404).json({ error: 'Parent folder not found' });
+        }
+
+        const folder = await db.createFolder(req.user!.id, name, parentId || undefined);
+        res.status(201).json(folder);
+    } catch (error) {
+        console.error('Create folder error:', error);
+        res.status(500).json({ error: 'Failed to create folder' });
+    }
+}));
+
+/**
+ * Rename a folder and/or move it under another parent (null = top level)
+ * PATCH /api/library/folders/:folderId
+ */
+router.patch('/folders/:folderId', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { folderId } = req.params;
+        const { name, parentId } = req.body;
+
+        const folder = await getOwnedFolder(folderId, req.user!.id);
+        if (!folder) {
+            return res.status(404).json({ error: 'Folder not found' });
+        }
+
+        if (name !== undefined) {
+            const cleanName = cleanFolderName(name);
+            if (!cleanName) {
+                return res.status(400).json({ error: `Folder name must be 1-${MAX_FOLDER_NAME_LENGTH} characters` });
+            }
+            await db.updateFolder(folderId, cleanName);
+        }
+
+        if (parentId !== undefined) {
+            if (parentId !== null) {
+                const folders = await db.getFoldersByUser(req.user!.id);
+                const parents = new Map(folders.map((f: any) => [f.id, f.parent_id]));
+
+                if (!parents.has(parentId)) {
+                    return res.status(404).json({ error: 'Parent folder not found' });
+                }
+
+                // Refuse to move a folder into itself or one of its descendants
+                for (let id: string | null = parentId; id; id = parents.get(id) ?? null) {
+                    if (id === folderId) {
+                        return res.status(400).json({ error: 'A folder cannot be moved inside itself' });
+                    }
+                }
+            }
+            await db.moveFolder(folderId, parentId);
+        }
+
+        res.json(await db.getFolderById(folderId));
+    } catch (error) {
+        console.error('Update folder error:', error);
+        res.status(500).json({ error: 'Failed to update folder' });
+    }
+}));
+
+/**
+ * Delete a folder; its sessions and subfolders move up to the top level
+ * DELETE /api/library/folders/:folderId
+ */
+router.delete('/folders/:folderId', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { folderId } = req.params;
+
+        if (!await getOwnedFolder(folderId, req.user!.id)) {
+            return res.status(404).json({ error: 'Folder not found' });
+        }
+
+        await db.deleteFolder(folderId);
+        res.json({ message: 'Folder deleted' });
+    } catch (error) {
+        console.error('Delete folder error:', error);
+        res.status(500).json({ error: 'Failed to delete folder' });
+    }
+}));
+
+// ============================================
+// SESSION ORGANISATION
+// ============================================
+
+/**
+ * Move a session into a folder (null = top level)
+ * PATCH /api/library/:id/folder
+ */
+router.patch('/:id/folder', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const folderId: string | null = req.body.folderId ?? null;
+
+        if (!await getOwnedSession(id, req.user!.id)) {
+            return res.status(403).json({ error: 'Unauthorized or session not found' });
+        }
+
+        if (folderId && !await getOwnedFolder(folderId, req.user!.id)) {
+            return res.status(404).json({ error: 'Folder not found' });
+        }
+
+        await db.moveSessionToFolder(id, folderId);
+        res.json({ id, folder_id: folderId });
+    } catch (error) {
+        console.error('Move session error:', error);
+        res.status(500).json({ error: 'Failed to move session' });
+    }
+}));
+
+/**
+ * Toggle a session's favourite flag
+ * POST /api/library/:id/favorite
+ */
+router.post('/:id/favorite', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!await getOwnedSession(id, req.user!.id)) {
+            return res.status(403).json({ error: 'Unauthorized or session not found' });
+        }
+
+        const isFavorite = await db.toggleFavorite(id);
+        res.json({ id, is_favorite: isFavorite });
+    } catch (error) {
+        console.error('Favorite session error:', error);
+        res.status(500).json({ error: 'Failed to update favorite' });
+    }
+}));
+
+/**
+ * Change who can see a session
+ * PATCH /api/library/:id/visibility
+ */
+router.patch('/:id/visibility', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { visibility } = req.body;
+
+        if (!VALID_VISIBILITIES.includes(visibility)) {
+            return res.status(400).json({ error: 'Invalid visibility' });
+        }
+
+        if (!await getOwnedSession(id, req.user!.id)) {
+            return res.status(403).json({ error: 'Unauthorized or session not found' });
+        }
+
+        await db.updateSessionVisibility(id, visibility);
+        res.json({ id, visibility });
+    } catch (error) {
+        console.error('Visibility update error:', error);
+        res.status(500).json({ error: 'Failed to update visibility' });
+    }
+}));
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+/**
+ * Validate template fields from a request body. Only fields present
+ * in the body are returned, so the result also suits partial updates.
+ */
+function parseTemplateMetadata(body: any): { meta?: TemplateMetadata; error?: string } {
+    const { title, description, category, tags, thumbnailUrl, visibility } = body || {};
+    const meta: TemplateMetadata = {};
+
+    if (title !== undefined) {
+        if (typeof title !== 'string' || !title.trim() || title.length > MAX_TEMPLATE_TITLE_LENGTH) {
+            return { error: 'Invalid title' };
+        }
+        meta.title = title.trim();
+    }
+    if (description !== undefined) {
+        if (typeof description !== 'string') return { error: 'Invalid description' };
+        meta.description = description.trim();
+    }
+    if (category !== undefined) {
+        if (typeof category !== 'string' || !category.trim() || category.length > MAX_CATEGORY_LENGTH) {
+            return { error: 'Invalid category' };
+        }
+        meta.category = category.trim().toLowerCase();
+    }
+    if (tags !== undefined) {
+        if (!Array.isArray(tags) || tags.length > MAX_TEMPLATE_TAGS || tags.some(t => typeof t !== 'string')) {
+            return { error: `Tags must be a list of at most ${MAX_TEMPLATE_TAGS} strings` };
+        }
+        meta.tags = [...new Set(tags.map((t: string) => t.trim().toLowerCase()).filter(Boolean))];
+    }
+    if (thumbnailUrl !== undefined) {
+        if (thumbnailUrl !== null && typeof thumbnailUrl !== 'string') return { error: 'Invalid thumbnail URL' };
+        meta.thumbnail_url = thumbnailUrl || null;
+    }
+    if (visibility !== undefined) {
+        if (!VALID_VISIBILITIES.includes(visibility)) {
+            return { error: 'Invalid visibility. Must be one of: ' + VALID_VISIBILITIES.join(', ') };
+        }
+        meta.visibility = visibility;
+    }
+
+    return { meta };
+}
+
+/**
+ * Browse templates visible to the user
+ * GET /api/library/templates?category=&q=
+ */
+router.get('/templates', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { category, q } = req.query as Record<string, string | undefined>;
+
+        const templates = await db.getTemplates(req.user!.id, req.user!.organizationId ?? null, {
+            category: category?.trim().toLowerCase() || undefined,
+            search: q?.trim() || undefined,
+        });
+        res.json(templates);
+    } catch (error) {
+        console.error('List templates error:', error);
         res.status(500).json({ error: 'Failed to fetch templates' });
     }
 }));
 
+/**
+ * Publish a copy of a session as a template
+ * POST /api/library/:id/template
+ */
+router.post('/:id/template', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const session = await getOwnedSession(req.params.id, req.user!.id);
+        if (!session || session.is_deleted) {
+            return res.status(403).json({ error: 'Unauthorized or session not found' });
+        }
+        if (session.is_template) {
+            return res.status(400).json({ error: 'Session is already a template' });
+        }
+
+        const { meta, error } = parseTemplateMetadata(req.body);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        const template = await db.publishTemplate(session.id, meta!);
+        res.status(201).json(template);
+    } catch (error) {
+        console.error('Publish template error:', error);
+        res.status(500).json({ error: 'Failed to publish template' });
+    }
+}));
+
+/**
+ * Edit a template's details
+ * PATCH /api/library/templates/:id
+ */
+router.patch('/templates/:id', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const template = await getOwnedSession(req.params.id, req.user!.id);
+        if (!template || !template.is_template || template.is_deleted) {
+            return res.status(403).json({ error: 'Unauthorized or template not found' });
+        }
+
+        const { meta, error } = parseTemplateMetadata(req.body);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        const updated = await db.updateTemplate(template.id, meta!);
+        res.json(updated);
+    } catch (error) {
+        console.error('Update template error:', error);
+        res.status(500).json({ error: 'Failed to update template' });
+    }
+}));
+
+/**
+ * Move a template to the trash
+ * DELETE /api/library/templates/:id
+ */
+router.delete('/templates/:id', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const template = await getOwnedSession(req.params.id, req.user!.id);
+        if (!template || !template.is_template) {
+            return res.status(403).json({ error: 'Unauthorized or template not found' });
+        }
+
+        await db.deleteSession(template.id);
+        res.json({ message: 'Template moved to trash' });
+    } catch (error) {
+        console.error('Delete template error:', error);
+        res.status(500).json({ error: 'Failed to delete template' });
+    }
+}));
+
+/**
+ * Create a new session from a template
+ * POST /api/library/templates/:id/use
+ */
+router.post('/templates/:id/use', authenticate, (async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { title } = req.body || {};
+
+        if (title !== undefined && (typeof title !== 'string' || title.length > MAX_TEMPLATE_TITLE_LENGTH)) {
+            return res.status(400).json({ error: 'Invalid title' });
+        }
+
+        // Only templates the user could find in the gallery may be used
+        const visible = await db.getTemplates(req.user!.id, req.user!.organizationId ?? null);
+        if (!visible.some(t => t.id === id)) {
+            return res.status(404).json({ error: 'Template not found' });
+        }
+
+        const session = await db.createSessionFromTemplate(id, req.user!.id, req.user!.id, title?.trim() || undefined);
+        res.status(201).json(session);
+    } catch (error) {
+        console.error('Use template error:', error);
+        res.status(500).json({ error: 'Failed to create session from template' });
+    }
+}));
+
 export default router;
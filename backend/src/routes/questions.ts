@@ -1,11 +1,18 @@
 import express, { Router } from 'express';
 import { QuestionController } from '../controllers/QuestionController.js';
+import { authenticate } from '../middleware/auth.js';
 
 const router: Router = Router();
 
+// Bulk import preview, before any session exists (mounted under /api/sessions)
+router.post('/questions/import', authenticate as any, QuestionController.importPreview);
+
 // Session-specific question routes (mounted under /api/sessions)
 router.post('/:sessionId/questions', QuestionController.create);
 router.get('/:sessionId/questions', QuestionController.getBySession);
+router.put('/:sessionId/questions/order', authenticate as any, QuestionController.reorder);
+router.patch('/:sessionId/questions/:questionId', authenticate as any, QuestionController.update);
+router.delete('/:sessionId/questions/:questionId', authenticate as any, QuestionController.remove);
 router.post('/:sessionId/extract-questions', QuestionController.extract);
 
 export default router;
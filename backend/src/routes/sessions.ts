@@ -8,7 +8,8 @@ router.post('/', SessionController.create);
 router.get('/:idOrCode', SessionController.getOne);
 router.get('/join/:joinCode', SessionController.join);
 router.post('/:sessionId/duplicate', SessionController.duplicate);
-router.get('/:sessionId/export', SessionController.exportResults);
+router.get('/:sessionId/export', authenticate as any, SessionController.exportResults);
+router.get('/:sessionId/my-results', SessionController.myResults);
 router.post('/:sessionId/start', authenticate as any, SessionController.start);
 router.post('/:sessionId/end', authenticate as any, SessionController.end);
 
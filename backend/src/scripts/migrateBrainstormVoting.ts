@@ -0,0 +1,56 @@
+/**
+ * Migration: Brainstorm Voting
+ * Adds brainstorm phases to questions and weighted votes so a participant
+ * can spend several of their dots on one idea.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateBrainstormVoting() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding brainstorm phase to questions...');
+        await client.query(`
+      ALTER TABLE questions ADD COLUMN IF NOT EXISTS brainstorm_phase VARCHAR(20) DEFAULT 'submit'
+        CHECK (brainstorm_phase IN ('submit', 'vote', 'results'))
+    `);
+        console.log('   questions.brainstorm_phase added');
+
+        console.log('Adding vote weights to brainstorm votes...');
+        await client.query(`
+      ALTER TABLE brainstorm_votes ADD COLUMN IF NOT EXISTS weight INTEGER DEFAULT 1 CHECK (weight > 0)
+    `);
+        console.log('   brainstorm_votes.weight added');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateBrainstormVoting();
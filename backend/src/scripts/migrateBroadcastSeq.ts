@@ -0,0 +1,49 @@
+/**
+ * Migration: Broadcast Sequence
+ * Keeps each session's broadcast sequence number on the session row, so all
+ * server instances share one counter and it survives restarts.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateBroadcastSeq() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding broadcast_seq to sessions...');
+        await client.query(`
+      ALTER TABLE sessions ADD COLUMN IF NOT EXISTS broadcast_seq BIGINT NOT NULL DEFAULT 0
+    `);
+        console.log('   sessions.broadcast_seq added');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateBroadcastSeq();
@@ -0,0 +1,60 @@
+/**
+ * Migration: Session Co-Hosts
+ * Adds co-hosts invited by email to help run a session, each with a role.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateCoHosts() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        // Matched to accounts by email when they join, so people can be invited before signing up
+        console.log('Creating session_cohosts table...');
+        await client.query(`
+      CREATE TABLE IF NOT EXISTS session_cohosts (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        email VARCHAR(255) NOT NULL,
+        role VARCHAR(20) NOT NULL CHECK (role IN ('moderator', 'driver', 'full')),
+        invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(session_id, email)
+      )
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_session_cohosts_email ON session_cohosts (LOWER(email))
+    `);
+        console.log('   session_cohosts created');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateCoHosts();
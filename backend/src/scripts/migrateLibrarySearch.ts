@@ -0,0 +1,69 @@
+/**
+ * Migration: Library Search
+ * Adds last-played tracking and full-text indexes for library search.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateLibrarySearch() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        // ============================================
+        // STEP 1: Track when a session was last played
+        // ============================================
+        console.log('Adding last_played_at to sessions...');
+        await client.query(`
+      ALTER TABLE sessions ADD COLUMN IF NOT EXISTS last_played_at TIMESTAMP WITH TIME ZONE
+    `);
+        console.log('   last_played_at column added');
+
+        // ============================================
+        // STEP 2: Full-text and sort indexes
+        // ============================================
+        console.log('Creating library search indexes...');
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_search ON sessions
+      USING GIN (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, '')))
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_questions_search ON questions
+      USING GIN (to_tsvector('english', question_text))
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_user_created ON sessions(user_id, created_at DESC, id DESC)
+      WHERE is_deleted = false
+    `);
+        console.log('   indexes created');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateLibrarySearch();
@@ -0,0 +1,50 @@
+/**
+ * Migration: Lobby
+ * Adds participant admission, so people can wait in the lobby until the presenter lets them in.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateLobby() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        // Everyone already in a session counts as admitted
+        console.log('Adding admission to participants...');
+        await client.query(`
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS admission VARCHAR(10) NOT NULL DEFAULT 'admitted'
+        CHECK (admission IN ('admitted', 'pending', 'rejected'))
+    `);
+        console.log('   participants.admission added');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateLobby();
@@ -0,0 +1,69 @@
+/**
+ * Migration: Participant Bans
+ * Records participants banned from a session by cookie and hashed network address.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateParticipantBans() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding ip_hash to participants...');
+        await client.query(`
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS ip_hash VARCHAR(64)
+    `);
+        console.log('   participants.ip_hash added');
+
+        console.log('Creating participant_bans table...');
+        await client.query(`
+      CREATE TABLE IF NOT EXISTS participant_bans (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+        cookie_id VARCHAR(100) NOT NULL,
+        ip_hash VARCHAR(64),
+        banned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(session_id, participant_id)
+      )
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_participant_bans_cookie ON participant_bans (session_id, cookie_id)
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_participant_bans_ip ON participant_bans (session_id, ip_hash)
+    `);
+        console.log('   participant_bans created');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateParticipantBans();
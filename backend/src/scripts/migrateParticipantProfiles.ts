@@ -0,0 +1,56 @@
+/**
+ * Migration: Participant Profiles
+ * Stores answers to presenter-defined join fields on the participant and
+ * indexes nicknames for the unique-nickname check.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateParticipantProfiles() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding profile to participants...');
+        await client.query(`
+      ALTER TABLE participants ADD COLUMN IF NOT EXISTS profile JSONB DEFAULT '{}'::jsonb
+    `);
+        console.log('   participants.profile added');
+
+        console.log('Indexing participant nicknames...');
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_participants_session_nickname
+        ON participants (session_id, LOWER(nickname))
+    `);
+        console.log('   idx_participants_session_nickname created');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateParticipantProfiles();
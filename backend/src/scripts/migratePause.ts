@@ -0,0 +1,62 @@
+/**
+ * Migration: Pause
+ * Records when a session was paused and how long each question spent paused,
+ * so paused time can be left out of response times, and the countdown time a
+ * question had left when it was paused.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migratePause() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding paused_at to sessions...');
+        await client.query(`
+      ALTER TABLE sessions ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ
+    `);
+        console.log('   sessions.paused_at added');
+
+        console.log('Adding paused_ms to questions...');
+        await client.query(`
+      ALTER TABLE questions ADD COLUMN IF NOT EXISTS paused_ms INTEGER NOT NULL DEFAULT 0
+    `);
+        console.log('   questions.paused_ms added');
+
+        console.log('Adding paused_remaining_ms to questions...');
+        await client.query(`
+      ALTER TABLE questions ADD COLUMN IF NOT EXISTS paused_remaining_ms INTEGER
+    `);
+        console.log('   questions.paused_remaining_ms added');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migratePause();
@@ -0,0 +1,49 @@
+/**
+ * Migration: Profanity Settings
+ * Adds organisation-level block/allow lists and per-input filter actions.
+ * Session-level overrides live in sessions.settings.profanity.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateProfanitySettings() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding profanity settings to organizations...');
+        await client.query(`
+      ALTER TABLE organizations ADD COLUMN IF NOT EXISTS profanity_settings JSONB DEFAULT '{}'::jsonb
+    `);
+        console.log('   organizations.profanity_settings added');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateProfanitySettings();
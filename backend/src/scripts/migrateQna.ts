@@ -0,0 +1,71 @@
+/**
+ * Migration: Audience Q&A
+ * Adds session-level Q&A questions and their upvotes.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateQna() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Creating Q&A tables...');
+        await client.query(`
+      CREATE TABLE IF NOT EXISTS qna_questions (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        is_anonymous BOOLEAN DEFAULT false,
+        status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'answered', 'archived')),
+        is_pinned BOOLEAN DEFAULT false,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        answered_at TIMESTAMP WITH TIME ZONE
+      )
+    `);
+        await client.query(`CREATE INDEX IF NOT EXISTS idx_qna_questions_session ON qna_questions(session_id)`);
+        console.log('   qna_questions table created');
+
+        await client.query(`
+      CREATE TABLE IF NOT EXISTS qna_votes (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        qna_question_id UUID NOT NULL REFERENCES qna_questions(id) ON DELETE CASCADE,
+        participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(qna_question_id, participant_id)
+      )
+    `);
+        await client.query(`CREATE INDEX IF NOT EXISTS idx_qna_votes_question ON qna_votes(qna_question_id)`);
+        console.log('   qna_votes table created');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateQna();
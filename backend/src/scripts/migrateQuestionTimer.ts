@@ -0,0 +1,49 @@
+/**
+ * Migration: Question Timer
+ * Records when the active question's countdown runs out, so every server
+ * instance refuses late answers even if it isn't the one running the timer.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateQuestionTimer() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding ends_at to questions...');
+        await client.query(`
+      ALTER TABLE questions ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ
+    `);
+        console.log('   questions.ends_at added');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateQuestionTimer();
@@ -0,0 +1,54 @@
+/**
+ * Migration: Response Integrity
+ * Adds review flags to responses so suspicious quiz answers can be audited.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateResponseIntegrity() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding review flags to responses...');
+        await client.query(`
+      ALTER TABLE responses ADD COLUMN IF NOT EXISTS is_flagged BOOLEAN DEFAULT false
+    `);
+        await client.query(`
+      ALTER TABLE responses ADD COLUMN IF NOT EXISTS flag_reason VARCHAR(50)
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_responses_flagged ON responses(session_id) WHERE is_flagged = true
+    `);
+        console.log('   is_flagged, flag_reason columns added');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateResponseIntegrity();
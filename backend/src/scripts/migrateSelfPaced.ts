@@ -0,0 +1,61 @@
+/**
+ * Migration: Self-Paced Sessions
+ * Adds participant attempts for sessions that run without a presenter.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateSelfPaced() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Creating self_paced_attempts table...');
+        await client.query(`
+      CREATE TABLE IF NOT EXISTS self_paced_attempts (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+        attempt_number INTEGER NOT NULL,
+        question_index INTEGER NOT NULL DEFAULT 0,
+        question_started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP WITH TIME ZONE,
+        UNIQUE(participant_id, attempt_number)
+      )
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_self_paced_attempts_session ON self_paced_attempts (session_id)
+    `);
+        console.log('   self_paced_attempts created');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateSelfPaced();
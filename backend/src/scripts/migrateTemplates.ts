@@ -0,0 +1,58 @@
+/**
+ * Migration: Templates
+ * Turns templates into a first-class kind of session.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateTemplates() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding template columns to sessions...');
+        await client.query(`
+      ALTER TABLE sessions ADD COLUMN IF NOT EXISTS is_template BOOLEAN DEFAULT false
+    `);
+        await client.query(`
+      ALTER TABLE sessions ADD COLUMN IF NOT EXISTS template_category VARCHAR(50)
+    `);
+        // tags normally comes from migrateLibrary; keep this migration self-contained
+        await client.query(`
+      ALTER TABLE sessions ADD COLUMN IF NOT EXISTS tags JSONB DEFAULT '[]'
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_templates ON sessions(template_category) WHERE is_template = true
+    `);
+        console.log('   is_template, template_category columns added');
+
+        console.log('\nMigration complete! Run seedTemplates to install the built-in templates.');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateTemplates();
@@ -0,0 +1,56 @@
+/**
+ * Migration: Trash
+ * Records when a session was moved to the trash so it can be purged later.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function migrateTrash() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        console.log('Adding deleted_at to sessions...');
+        await client.query(`
+      ALTER TABLE sessions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE
+    `);
+
+        // Sessions trashed before this column existed start their retention clock now
+        await client.query(`
+      UPDATE sessions SET deleted_at = NOW() WHERE is_deleted = true AND deleted_at IS NULL
+    `);
+        await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_trash ON sessions(deleted_at) WHERE is_deleted = true
+    `);
+        console.log('   deleted_at column added');
+
+        console.log('\nMigration complete!');
+
+    } catch (error) {
+        console.error('\nMigration error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+migrateTrash();
@@ -0,0 +1,159 @@
+/**
+ * Seed Script: Built-in Templates
+ * Installs the template gallery's starter decks. Safe to re-run:
+ * a built-in template is only created if none with its title exists.
+ */
+
+import { Client } from 'pg';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+interface TemplateQuestion {
+    question_type: string;
+    question_text: string;
+    options?: string[];
+    correct_answer?: unknown;
+    time_limit?: number;
+    settings?: Record<string, unknown>;
+}
+
+interface BuiltInTemplate {
+    title: string;
+    description: string;
+    mode: 'engagement' | 'quiz' | 'mixed';
+    category: string;
+    tags: string[];
+    questions: TemplateQuestion[];
+}
+
+const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+    {
+        title: 'Meeting Icebreaker',
+        description: 'Warm up the room before any meeting or workshop.',
+        mode: 'engagement',
+        category: 'icebreaker',
+        tags: ['warm-up', 'team'],
+        questions: [
+            { question_type: 'word_cloud', question_text: 'In one word, how are you feeling today?' },
+            { question_type: 'poll', question_text: 'Coffee or tea?', options: ['Coffee', 'Tea', 'Neither', 'Both!'] },
+            { question_type: 'open_ended', question_text: 'Share one thing that made you smile this week.' },
+        ],
+    },
+    {
+        title: 'Team Retrospective',
+        description: 'Look back on a sprint or project and agree on improvements.',
+        mode: 'engagement',
+        category: 'retrospective',
+        tags: ['agile', 'team', 'feedback'],
+        questions: [
+            { question_type: 'scale', question_text: 'How satisfied are you with the last sprint?', settings: { min_value: 1, max_value: 5, min_label: 'Not at all', max_label: 'Very' } },
+            { question_type: 'brainstorm', question_text: 'What went well?' },
+            { question_type: 'brainstorm', question_text: 'What should we change?' },
+            { question_type: 'poll', question_text: 'Which area should we focus on next?', options: ['Process', 'Communication', 'Tooling', 'Quality'] },
+        ],
+    },
+    {
+        title: 'Quick Knowledge Check',
+        description: 'A five-minute quiz to check understanding after a lesson.',
+        mode: 'quiz',
+        category: 'education',
+        tags: ['quiz', 'classroom'],
+        questions: [
+            { question_type: 'quiz_mc', question_text: 'What is the capital of France?', options: ['Berlin', 'Paris', 'Madrid', 'Rome'], correct_answer: 1, time_limit: 20 },
+            { question_type: 'quiz_tf', question_text: 'The Earth orbits the Sun.', options: ['True', 'False'], correct_answer: 0, time_limit: 15 },
+            { question_type: 'quiz_mc', question_text: 'Which planet is known as the Red Planet?', options: ['Venus', 'Jupiter', 'Mars', 'Saturn'], correct_answer: 2, time_limit: 20 },
+        ],
+    },
+    {
+        title: 'Training Feedback',
+        description: 'Collect feedback at the end of a course or training day.',
+        mode: 'engagement',
+        category: 'feedback',
+        tags: ['training', 'survey'],
+        questions: [
+            { question_type: 'nps', question_text: 'How likely are you to recommend this training to a colleague?' },
+            { question_type: 'scale', question_text: 'How relevant was the content to your role?', settings: { min_value: 1, max_value: 5 } },
+            { question_type: 'open_ended', question_text: 'What one thing would you improve?' },
+        ],
+    },
+];
+
+async function seedTemplates() {
+    const connectionString = process.env.DATABASE_URL;
+
+    if (!connectionString) {
+        console.error('DATABASE_URL not set');
+        process.exit(1);
+    }
+
+    const client = new Client({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+        console.log('Connecting to database...');
+        await client.connect();
+        console.log('Connected!\n');
+
+        for (const template of BUILT_IN_TEMPLATES) {
+            const existing = await client.query(
+                'SELECT id FROM sessions WHERE is_template = true AND user_id IS NULL AND title = $1',
+                [template.title]
+            );
+
+            if (existing.rows.length > 0) {
+                console.log(`   ${template.title} already installed`);
+                continue;
+            }
+
+            // Templates are never joined, so the code only has to be unique
+            const joinCode = Math.random().toString(36).substring(2, 8).toUpperCase();
+            const session = await client.query(
+                `INSERT INTO sessions (
+                    join_code, title, presenter_id, mode, status, expires_at, description,
+                    is_template, template_category, tags, visibility
+                 )
+                 VALUES ($1, $2, 'MojoQuiz', $3, 'ended', NOW(), $4, true, $5, $6, 'public')
+                 RETURNING id`,
+                [joinCode, template.title, template.mode, template.description, template.category, JSON.stringify(template.tags)]
+            );
+
+            for (const [index, question] of template.questions.entries()) {
+                await client.query(
+                    `INSERT INTO questions (
+                        session_id, question_type, question_text, options, settings,
+                        correct_answer, time_limit, display_order
+                     )
+                     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+                    [
+                        session.rows[0].id,
+                        question.question_type,
+                        question.question_text,
+                        JSON.stringify(question.options ? question.options.map((text, i) => ({ id: `opt-${i}`, text })) : null),
+                        JSON.stringify(question.settings || {}),
+                        JSON.stringify(question.correct_answer ?? null),
+                        question.time_limit ?? null,
+                        index,
+                    ]
+                );
+            }
+
+            console.log(`   ${template.title} installed (${template.questions.length} questions)`);
+        }
+
+        console.log('\nBuilt-in templates ready!');
+
+    } catch (error) {
+        console.error('\nSeed error:', error);
+        process.exit(1);
+    } finally {
+        await client.end();
+    }
+}
+
+seedTemplates();
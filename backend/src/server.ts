@@ -11,7 +11,8 @@ import dotenv from 'dotenv';
 
 import app from './app.js';
 import initializeSocketHandlers from './socket/socketHandler.js';
-import { expireOldSessions } from './services/database.js';
+import { expireOldSessions, purgeTrashedSessions } from './services/database.js';
+import { getTrashRetentionDays } from './utils/helpers.js';
 import logger from './utils/logger.js';
 import './services/WorkerService.js'; // Initialize the worker
 import socketService from './services/socketService.js';
@@ -120,6 +121,15 @@ class SessionExpirationManager {
         } catch (error) {
             logger.error({ error }, 'Error checking expired sessions:');
         }
+
+        try {
+            const purgedCount = await purgeTrashedSessions(getTrashRetentionDays());
+            if (purgedCount > 0) {
+                logger.info(`🗑️ Purged ${purgedCount} trashed session(s)`);
+            }
+        } catch (error) {
+            logger.error({ error }, 'Error purging trashed sessions:');
+        }
     }
 }
 
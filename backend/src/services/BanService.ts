@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import db from './database.js';
+import { ErrorCodes, Participant } from '../types/index.js';
+
+/**
+ * The address a participant connects from. X-Forwarded-For is only read when
+ * TRUSTED_PROXY_HOPS says how many proxies sit in front of the server; each of
+ * them appends the address it saw, so the client is the right-most entry those
+ * proxies didn't add. Anything further left is whatever the client sent.
+ */
+export function getClientIp(
+    forwardedFor: string | string[] | undefined,
+    address: string,
+    trustedHops: number = Number(process.env.TRUSTED_PROXY_HOPS) || 0
+): string {
+    if (trustedHops <= 0 || !forwardedFor) return address;
+
+    const forwarded = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor)
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean);
+    const chain = [...forwarded, address];
+
+    return chain[Math.max(0, chain.length - 1 - trustedHops)];
+}
+
+/**
+ * Keyed, and salted with the session, so stored hashes can't be reversed by
+ * trying every address or matched up between sessions
+ */
+export function hashIp(sessionId: string, ip: string): string {
+    return crypto.createHmac('sha256', process.env.JWT_SECRET || '').update(`${sessionId}:${ip}`).digest('hex');
+}
+
+/**
+ * Ban Service
+ *
+ * Presenters can remove a participant, which shuts out that participant's
+ * cookie, or ban them, which also turns away newcomers from the same network
+ * address for the rest of the session. Either can be undone.
+ */
+export class BanService {
+    /**
+     * Why someone can't enter the session, or null if they can. `existing` is
+     * the participant already registered with their cookie, if any; address
+     * bans only apply to newcomers so others on a shared network keep their place.
+     */
+    static async checkEntry(
+        sessionId: string,
+        existing: Participant | null,
+        cookieId: string,
+        ipHash: string | null
+    ): Promise<{ code: string; message: string } | null> {
+        if (existing && !existing.is_removed) return null;
+
+        if (await db.isBanned(sessionId, cookieId, existing ? null : ipHash)) {
+            return { code: ErrorCodes.PARTICIPANT_BANNED, message: 'You have been banned from this session' };
+        }
+        if (existing?.is_removed) {
+            return { code: ErrorCodes.PARTICIPANT_REMOVED, message: 'You have been removed from this session' };
+        }
+        return null;
+    }
+
+    /**
+     * Remove a participant from the session, banning them if asked
+     */
+    static async remove(
+        sessionId: string,
+        participantId: string,
+        options: { ban: boolean; bannedBy: string | null }
+    ): Promise<Participant | null> {
+        const participant = await db.removeParticipant(sessionId, participantId);
+        if (participant && options.ban) {
+            await db.banParticipant(participant, options.bannedBy);
+        }
+        return participant;
+    }
+}
@@ -0,0 +1,164 @@
+import db from './database.js';
+import { EngagementService } from './EngagementService.js';
+import { BrainstormGroup, BrainstormIdea, BrainstormResults } from '../types/index.js';
+import { fuzzyMatch, normalizeWord } from '../utils/helpers.js';
+
+export interface IdeaCluster {
+    label: string;
+    idea_ids: string[];
+}
+
+const MAX_LABEL_LENGTH = 100;
+
+// Keywords this similar (see fuzzyMatch) count as the same word, e.g. "meeting"/"meetings"
+const KEYWORD_TOLERANCE = 0.8;
+
+// Filler words that would otherwise chain unrelated ideas together
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+    'our', 'out', 'has', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'who', 'did', 'get', 'let',
+    'too', 'use', 'that', 'this', 'with', 'have', 'from', 'they', 'will', 'would', 'there', 'their',
+    'what', 'about', 'which', 'when', 'make', 'like', 'just', 'into', 'than', 'them', 'some', 'could',
+    'should', 'more', 'less', 'much', 'many', 'very', 'also', 'been', 'were', 'each', 'other', 'need',
+    'want', 'better', 'able', 'over', 'only', 'your', 'then', 'these', 'those',
+]);
+
+function extractKeywords(content: string): string[] {
+    const words = normalizeWord(content).split(' ');
+    return [...new Set(words.filter(w => w.length >= 3 && !STOP_WORDS.has(w)))];
+}
+
+function formatLabel(text: string): string {
+    return (text.charAt(0).toUpperCase() + text.slice(1)).substring(0, MAX_LABEL_LENGTH);
+}
+
+/**
+ * Group ideas that share a keyword (allowing small spelling differences) or
+ * say the same thing. Ideas with nothing in common stay out of every cluster.
+ * Each cluster is labelled with the keyword most of its ideas share.
+ */
+export function clusterIdeas(ideas: { id: string; content: string }[]): IdeaCluster[] {
+    // Map every keyword onto the first similar keyword seen
+    const roots: string[] = [];
+    const canonical = new Map<string, string>();
+    const ideaKeywords = ideas.map(idea => extractKeywords(idea.content).map(word => {
+        let root = canonical.get(word);
+        if (!root) {
+            root = roots.find(r => fuzzyMatch(word, r, KEYWORD_TOLERANCE)) ?? word;
+            if (root === word) roots.push(word);
+            canonical.set(word, root);
+        }
+        return root;
+    }));
+
+    // Union-find over idea indexes
+    const parent = ideas.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const union = (a: number, b: number) => { parent[find(b)] = find(a); };
+
+    const firstOwner = new Map<string, number>();
+    ideas.forEach((idea, i) => {
+        const keys = [...ideaKeywords[i], `text:${normalizeWord(idea.content)}`];
+        for (const key of keys) {
+            const owner = firstOwner.get(key);
+            if (owner === undefined) firstOwner.set(key, i);
+            else union(owner, i);
+        }
+    });
+
+    const components = new Map<number, number[]>();
+    ideas.forEach((_, i) => {
+        const root = find(i);
+        components.set(root, [...(components.get(root) || []), i]);
+    });
+
+    const clusters: IdeaCluster[] = [];
+    for (const members of components.values()) {
+        if (members.length < 2) continue;
+
+        const counts = new Map<string, number>();
+        for (const i of members) {
+            for (const word of new Set(ideaKeywords[i])) {
+                counts.set(word, (counts.get(word) || 0) + 1);
+            }
+        }
+
+        let label = normalizeWord(ideas[members[0]].content);
+        let best = 1;
+        for (const [word, count] of counts) {
+            if (count > best) {
+                label = word;
+                best = count;
+            }
+        }
+
+        clusters.push({ label: formatLabel(label), idea_ids: members.map(i => ideas[i].id) });
+    }
+
+    return clusters;
+}
+
+/**
+ * Brainstorm Service
+ *
+ * Turns presenter grouping into results and clusters similar ideas
+ * without calling out to an AI service.
+ */
+export class BrainstormService {
+    /**
+     * Split visible ideas into their groups, most voted group first.
+     * Ideas keep the vote order they were given in.
+     */
+    static groupResults(ideas: BrainstormIdea[]): BrainstormResults {
+        const groups = new Map<string, BrainstormGroup>();
+        const ungrouped: BrainstormIdea[] = [];
+
+        for (const idea of ideas) {
+            if (idea.status === 'hidden') continue;
+            if (!idea.group_label) {
+                ungrouped.push(idea);
+                continue;
+            }
+
+            const group = groups.get(idea.group_label) || { label: idea.group_label, vote_count: 0, ideas: [] };
+            group.ideas.push(idea);
+            group.vote_count += idea.vote_count || 0;
+            groups.set(idea.group_label, group);
+        }
+
+        return {
+            groups: [...groups.values()].sort((a, b) => b.vote_count - a.vote_count),
+            ungrouped,
+        };
+    }
+
+    /**
+     * Cluster a question's ungrouped ideas; existing groups are left alone.
+     * Returns the clusters that were applied.
+     */
+    static async autoCluster(questionId: string): Promise<IdeaCluster[]> {
+        const ideas = await db.getBrainstormIdeas(questionId);
+        const clusters = clusterIdeas(ideas.filter(idea => idea.status === 'active'));
+
+        for (const cluster of clusters) {
+            await db.setIdeaGroup(questionId, cluster.idea_ids, cluster.label);
+        }
+
+        return clusters;
+    }
+
+    /**
+     * Score each idea author on the votes their ideas received and record
+     * it against the question, replacing any earlier award
+     */
+    static async awardCreativityScores(sessionId: string, questionId: string) {
+        const authors = await db.getIdeaVotesByAuthor(questionId);
+        const scores = authors.map(author => ({
+            ...author,
+            score: EngagementService.calculateCreativityScore(author.votes_received),
+        }));
+
+        await db.replaceBrainstormScores(sessionId, questionId, scores);
+        return scores;
+    }
+}
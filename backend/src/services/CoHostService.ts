@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import db from './database.js';
+import { emailService } from './emailService.js';
+import { CoHost, CoHostRole, Session } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export const COHOST_ROLES: CoHostRole[] = ['moderator', 'driver', 'full'];
+
+// The session owner plus whatever role a co-host was invited with
+export type PresenterRole = 'owner' | CoHostRole;
+
+// moderate: text, Q&A and idea moderation, removing participants
+// drive: starting the session and moving through questions (activate, lock, reveal, phases)
+// manage: session settings, teams, questions, co-hosts and ending the session
+export type PresenterPermission = 'moderate' | 'drive' | 'manage';
+
+const ROLE_PERMISSIONS: Record<PresenterRole, PresenterPermission[]> = {
+    owner: ['moderate', 'drive', 'manage'],
+    full: ['moderate', 'drive', 'manage'],
+    driver: ['drive'],
+    moderator: ['moderate'],
+};
+
+export const InviteCoHostSchema = z.object({
+    email: z.email().max(255),
+    role: z.enum(COHOST_ROLES as [CoHostRole, ...CoHostRole[]]),
+});
+
+export function hasPermission(role: PresenterRole | null | undefined, permission: PresenterPermission): boolean {
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Co-Host Service
+ *
+ * Lets a session owner bring in colleagues to help run a session. Co-hosts
+ * are invited by email and matched to an account when they open the host
+ * page; their role decides which presenter controls they may use.
+ */
+export class CoHostService {
+    static isOwner(session: Session, userId: string): boolean {
+        return userId === session.presenter_id || userId === session.user_id;
+    }
+
+    /**
+     * How a user may present a session, or null if they can't
+     */
+    static async getRole(session: Session, userId: string | undefined): Promise<PresenterRole | null> {
+        if (!userId) return null;
+        if (CoHostService.isOwner(session, userId)) return 'owner';
+        return db.getCoHostRole(session.id, userId);
+    }
+
+    /**
+     * Save the invitation and email it. The invitation stands even if the
+     * email can't be sent; the co-host can still open the session link.
+     */
+    static async invite(
+        session: Session,
+        email: string,
+        role: CoHostRole,
+        invitedBy: { id: string; name: string }
+    ): Promise<{ coHost: CoHost; emailSent: boolean }> {
+        const coHost = await db.upsertCoHost(session.id, email, role, invitedBy.id);
+
+        const frontendUrl = process.env.CORS_ORIGIN || 'http://localhost:5173';
+        try {
+            await emailService.sendCoHostInvite(coHost.email, {
+                inviter: invitedBy.name,
+                sessionTitle: session.title,
+                role,
+                link: `${frontendUrl}/host/${session.id}`,
+            });
+            return { coHost, emailSent: true };
+        } catch (error) {
+            logger.warn({ error, sessionId: session.id }, 'Co-host invite email failed');
+            return { coHost, emailSent: false };
+        }
+    }
+}
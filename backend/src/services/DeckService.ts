@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import db from './database.js';
+import { validateQuestionInput, QuestionInput } from '../controllers/QuestionController.js';
+import { JoinSettingsSchema } from './ParticipantService.js';
+import { ProfanitySettingsSchema } from './ProfanityService.js';
+import { TeamSettingsSchema } from './TeamService.js';
+import { SelfPacedSettingsSchema } from './SelfPacedService.js';
+import { LobbySettingsSchema } from './LobbyService.js';
+import { DeckImportError, Session, SessionDeck, SessionSettings } from '../types/index.js';
+import { generateJoinCode, getExpirationDate, sanitizeInput } from '../utils/helpers.js';
+
+export const DECK_FORMAT = 'mojoquiz.deck';
+export const DECK_VERSION = 1;
+const MAX_DECK_QUESTIONS = 500;
+
+// Only the envelope is checked here; each question goes through validateQuestionInput
+const DeckEnvelopeSchema = z.object({
+    format: z.literal(DECK_FORMAT),
+    version: z.number().int().min(1),
+    session: z.object({
+        title: z.string().min(1).max(200),
+        description: z.string().max(2000).nullable().optional(),
+        mode: z.enum(['engagement', 'quiz', 'mixed']).optional(),
+        settings: z.record(z.string(), z.any()).nullable().optional(),
+    }),
+    questions: z.array(z.unknown()).max(MAX_DECK_QUESTIONS),
+});
+
+// Each group of session settings a deck may carry, checked with the schema its own
+// settings screen uses. A group that fails is dropped; keys in no group are dropped too.
+const DECK_SETTINGS_SCHEMAS = [
+    JoinSettingsSchema,
+    TeamSettingsSchema,
+    SelfPacedSettingsSchema,
+    LobbySettingsSchema,
+    z.object({
+        show_participant_count: z.boolean().optional(),
+        anonymous_responses: z.boolean().optional(),
+        auto_approve_text: z.boolean().optional(),
+        qna_enabled: z.boolean().optional(),
+        qna_allow_anonymous: z.boolean().optional(),
+        personal_results: z.boolean().optional(),
+    }),
+];
+
+/**
+ * Keep only the deck settings that pass the session settings schemas
+ */
+export function sanitizeDeckSettings(settings: Record<string, unknown> | null | undefined): SessionSettings {
+    const input = settings ?? {};
+    const sanitized: SessionSettings = {};
+
+    for (const schema of DECK_SETTINGS_SCHEMAS) {
+        const group = Object.fromEntries(
+            Object.keys(schema.shape).filter(key => key in input).map(key => [key, input[key]])
+        );
+        const validation = schema.safeParse(group);
+        if (validation.success) {
+            Object.assign(sanitized, validation.data);
+        }
+    }
+
+    if (input.profanity !== undefined) {
+        const validation = ProfanitySettingsSchema.safeParse(input.profanity);
+        if (validation.success) {
+            sanitized.profanity = validation.data;
+        }
+    }
+
+    return sanitized;
+}
+
+export interface ParsedDeck {
+    session: Omit<z.infer<typeof DeckEnvelopeSchema>['session'], 'settings'> & { settings: SessionSettings };
+    questions: QuestionInput[];
+    errors: DeckImportError[];
+}
+
+export interface DeckImportResult {
+    session: Session;
+    imported: number;
+    errors: DeckImportError[];
+}
+
+/**
+ * Deck Service
+ *
+ * Converts sessions to and from the portable, versioned JSON deck format
+ * so decks can move between instances or live in version control.
+ */
+export class DeckService {
+    /**
+     * Export a session and its questions, in display order
+     */
+    static async exportSession(sessionId: string): Promise<SessionDeck> {
+        const session = await db.getSessionById(sessionId);
+        if (!session) throw new Error('Session not found');
+
+        const questions = await db.getQuestionsBySession(sessionId);
+
+        return {
+            format: DECK_FORMAT,
+            version: DECK_VERSION,
+            exportedAt: new Date().toISOString(),
+            session: {
+                title: session.title,
+                description: session.description || '',
+                mode: session.mode,
+                settings: session.settings || {},
+            },
+            questions: questions.map(q => ({
+                questionType: q.question_type,
+                questionText: q.question_text,
+                options: q.options,
+                settings: q.settings || {},
+                correctAnswer: q.correct_answer,
+                timeLimit: q.time_limit,
+                audioUrl: q.audio_url ?? null,
+                mediaUrl: q.media_url ?? null,
+            })),
+        };
+    }
+
+    /**
+     * Check a deck file. A bad envelope rejects the whole file; bad questions
+     * are collected in `errors` and the rest are still importable.
+     */
+    static parseDeck(payload: unknown): { deck?: ParsedDeck; error?: unknown } {
+        const validation = DeckEnvelopeSchema.safeParse(payload);
+        if (!validation.success) {
+            return { error: validation.error.format() };
+        }
+
+        const { version, session, questions } = validation.data;
+        if (version > DECK_VERSION) {
+            return { error: `Deck version ${version} is newer than this server supports (${DECK_VERSION})` };
+        }
+
+        const valid: QuestionInput[] = [];
+        const errors: DeckImportError[] = [];
+
+        questions.forEach((input, index) => {
+            const { data, error } = validateQuestionInput(input);
+            if (data) {
+                valid.push(data);
+            } else {
+                const text = typeof input === 'object' && input !== null && 'questionText' in input
+                    ? input.questionText
+                    : undefined;
+                errors.push({ index, questionText: typeof text === 'string' ? text : undefined, error });
+            }
+        });
+
+        return {
+            deck: {
+                session: { ...session, settings: sanitizeDeckSettings(session.settings) },
+                questions: valid,
+                errors,
+            },
+        };
+    }
+
+    /**
+     * Create a new session owned by the user from a parsed deck
+     */
+    static async importDeck(deck: ParsedDeck, userId: string, title?: string): Promise<DeckImportResult> {
+        let joinCode = generateJoinCode();
+        for (let attempts = 0; attempts < 10 && await db.getSessionByCode(joinCode); attempts++) {
+            joinCode = generateJoinCode();
+        }
+
+        const created = await db.createSession(
+            joinCode,
+            sanitizeInput(title || deck.session.title, 200),
+            userId,
+            deck.session.mode || 'mixed',
+            getExpirationDate(parseInt(process.env.SESSION_EXPIRY_HOURS || '24')),
+            userId
+        );
+
+        const session = await db.updateSession(created.id, {
+            description: deck.session.description || '',
+            settings: deck.session.settings,
+        });
+
+        for (const [index, q] of deck.questions.entries()) {
+            await db.createQuestion({
+                session_id: session.id,
+                question_type: q.questionType,
+                question_text: sanitizeInput(q.questionText, 1000),
+                options: q.options || null,
+                settings: q.settings || {},
+                correct_answer: q.correctAnswer ?? null,
+                time_limit: q.timeLimit || null,
+                display_order: index,
+                audio_url: q.audioUrl || null,
+                media_url: q.mediaUrl || null,
+            });
+        }
+
+        return { session, imported: deck.questions.length, errors: deck.errors };
+    }
+}
@@ -1,22 +1,50 @@
 import { EngagementService } from './EngagementService.js';
+import { TeamService } from './TeamService.js';
 import db from './database.js';
 import logger from '../utils/logger.js';
 
+/**
+ * Quote a value for CSV. Participant text a spreadsheet would read as a
+ * formula gets a leading apostrophe so it opens as plain text.
+ */
+export function csvCell(value: unknown): string {
+    let text = String(value);
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return `"${text.replace(/"/g, '""')}"`;
+}
+
 export class ExportService {
     /**
      * Export session results to JSON
      */
     static async exportToJson(sessionId: string) {
         const analytics = await EngagementService.getSessionAnalytics(sessionId);
+        const session = await db.getSessionById(sessionId);
         const participants = await db.getSessionParticipants(sessionId);
 
+        const teams = session && TeamService.isEnabled(session) ? await TeamService.getLeaderboard(session) : [];
+        const teamNames = new Map(teams.map(t => [t.team_id, t.name]));
+
         return {
             ...analytics,
             participants: participants.map(p => ({
                 nickname: p.nickname,
                 score: p.total_score,
-                joinedAt: p.joined_at
-            }))
+                joinedAt: p.joined_at,
+                profile: p.profile || {},
+                ...(teams.length > 0 && { team: p.team_id ? teamNames.get(p.team_id) ?? null : null })
+            })),
+            // Team mode: teams in leaderboard order with their members
+            ...(teams.length > 0 && {
+                teams: teams.map(team => ({
+                    ...team,
+                    members: participants
+                        .filter(p => p.team_id === team.team_id)
+                        .map(p => ({ nickname: p.nickname, score: p.total_score }))
+                }))
+            })
         };
     }
 
@@ -25,12 +53,35 @@ export class ExportService {
      */
     static async exportToCsv(sessionId: string): Promise<string> {
         try {
+            const session = await db.getSessionById(sessionId);
             const participants = await db.getSessionParticipants(sessionId);
 
-            const header = 'Nickname,Score,JoinedAt\n';
-            const rows = participants.map(p =>
-                `"${p.nickname || 'Anonymous'}","${p.total_score}","${new Date(p.joined_at).toISOString()}"`
-            ).join('\n');
+            // One column per join field the presenter asked for
+            const fields = session?.settings?.join_fields || [];
+
+            // Team mode groups rows by team, best team first, with unassigned participants last
+            const teams = session && TeamService.isEnabled(session) ? await TeamService.getLeaderboard(session) : [];
+            const teamOrder = new Map(teams.map((t, i) => [t.team_id, i]));
+            const teamNames = new Map(teams.map(t => [t.team_id, t.name]));
+            if (teams.length > 0) {
+                participants.sort((a, b) =>
+                    (teamOrder.get(a.team_id ?? '') ?? teams.length) - (teamOrder.get(b.team_id ?? '') ?? teams.length)
+                    || b.total_score - a.total_score
+                );
+            }
+
+            const header = [
+                ...(teams.length > 0 ? ['Team'] : []),
+                'Nickname', 'Score', 'JoinedAt',
+                ...fields.map(f => f.label),
+            ].map(csvCell).join(',') + '\n';
+            const rows = participants.map(p => [
+                ...(teams.length > 0 ? [teamNames.get(p.team_id ?? '') ?? ''] : []),
+                p.nickname || 'Anonymous',
+                p.total_score,
+                new Date(p.joined_at).toISOString(),
+                ...fields.map(f => p.profile?.[f.key] ?? ''),
+            ].map(csvCell).join(',')).join('\n');
 
             return header + rows;
         } catch (error) {
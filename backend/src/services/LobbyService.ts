@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { Admission, ErrorCodes, Participant, Session } from '../types/index.js';
+
+export const LobbySettingsSchema = z.object({
+    join_approval: z.boolean().optional(),
+    allow_late_join: z.boolean().optional(),
+});
+
+/**
+ * Whether someone joining now goes straight in or waits for the presenter:
+ * everyone waits with join approval on, and latecomers wait once the session
+ * has started if late joining is off
+ */
+export function getNewcomerAdmission(session: Pick<Session, 'status' | 'settings'>): Admission {
+    if (session.settings?.join_approval) return 'pending';
+    if (session.status !== 'active' && session.settings?.allow_late_join === false) return 'pending';
+    return 'admitted';
+}
+
+/**
+ * Lobby Service
+ *
+ * People who join before the session starts wait in the lobby, where the
+ * presenter watches them arrive. Anyone held for approval stays out of the
+ * session room until the presenter admits them, or is turned away.
+ */
+export class LobbyService {
+    static getSettings(session: Session): z.infer<typeof LobbySettingsSchema> {
+        return {
+            join_approval: !!session.settings?.join_approval,
+            allow_late_join: session.settings?.allow_late_join !== false,
+        };
+    }
+
+    /**
+     * Why a participant can't take part yet, or null if they have been let in
+     */
+    static checkAdmission(participant: Pick<Participant, 'admission'>): { code: string; message: string } | null {
+        switch (participant.admission) {
+            case 'pending':
+                return { code: ErrorCodes.AWAITING_ADMISSION, message: 'Waiting for the host to let you in' };
+            case 'rejected':
+                return { code: ErrorCodes.JOIN_REJECTED, message: 'The host did not let you into this session' };
+            default:
+                return null;
+        }
+    }
+}
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import db from './database.js';
+import { ProfanityService } from './ProfanityService.js';
+import { ErrorCodes, JoinField, Session } from '../types/index.js';
+import { generateFunNickname, sanitizeInput, sanitizeNickname } from '../utils/helpers.js';
+
+const MAX_JOIN_FIELDS = 10;
+const MAX_FIELD_LENGTH = 100;
+const MAX_RANDOM_NICKNAME_ATTEMPTS = 10;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const JoinSettingsSchema = z.object({
+    unique_nicknames: z.boolean().optional(),
+    random_nicknames: z.boolean().optional(),
+    join_fields: z.array(z.object({
+        key: z.string().regex(/^[a-z][a-z0-9_]{0,29}$/, 'Field keys must be lowercase letters, digits or underscores'),
+        label: z.string().trim().min(1).max(60),
+        type: z.enum(['text', 'email', 'select']),
+        required: z.boolean().optional(),
+        options: z.array(z.string().trim().min(1).max(MAX_FIELD_LENGTH)).max(30).optional(),
+    }).refine(field => field.type !== 'select' || (field.options?.length ?? 0) > 0, {
+        message: 'Select fields need at least one option',
+    })).max(MAX_JOIN_FIELDS)
+        .refine(fields => new Set(fields.map(f => f.key)).size === fields.length, { message: 'Field keys must be unique' })
+        .optional(),
+});
+
+/**
+ * `details.field` names the join form input a participant has to change
+ */
+export interface JoinError {
+    code: string;
+    message: string;
+    details: { field: string };
+}
+
+/**
+ * Check a participant's answers against the session's join fields. Unknown
+ * keys are dropped; values are trimmed and length-limited.
+ */
+export function validateProfile(fields: JoinField[] = [], input: unknown): { profile?: Record<string, string>; error?: JoinError } {
+    const answers = input && typeof input === 'object' ? input as Record<string, unknown> : {};
+    const profile: Record<string, string> = {};
+
+    for (const field of fields) {
+        const raw = answers[field.key];
+        const value = typeof raw === 'string' ? sanitizeInput(raw, MAX_FIELD_LENGTH) : '';
+        const invalid = (message: string) => ({
+            error: { code: ErrorCodes.INVALID_INPUT, message, details: { field: field.key } },
+        });
+
+        if (!value) {
+            if (field.required) return invalid(`${field.label} is required`);
+            continue;
+        }
+        if (field.type === 'email' && !EMAIL_PATTERN.test(value)) {
+            return invalid(`${field.label} must be a valid email address`);
+        }
+        if (field.type === 'select' && !field.options?.includes(value)) {
+            return invalid(`Please choose one of the options for ${field.label}`);
+        }
+
+        profile[field.key] = value;
+    }
+
+    return { profile };
+}
+
+/**
+ * Participant Service
+ *
+ * Applies a session's nickname policy to joining participants: random
+ * names, the profanity filter and unique nicknames.
+ */
+export class ParticipantService {
+    /**
+     * Work out the nickname a new participant joins with. Returns no
+     * nickname (an anonymous participant) when none was given.
+     */
+    static async resolveNickname(
+        session: Session,
+        cookieId: string,
+        requested?: string
+    ): Promise<{ nickname?: string; error?: JoinError }> {
+        if (session.settings?.random_nicknames) {
+            return { nickname: await ParticipantService.randomNickname(session.id, cookieId) };
+        }
+
+        let nickname = requested ? sanitizeNickname(requested) : '';
+        if (!nickname) return {};
+
+        const check = ProfanityService.check(await ProfanityService.getPolicy(session), 'nicknames', nickname);
+        if (check.action === 'mask') {
+            nickname = check.text;
+        } else if (check.action !== 'allow') {
+            return {
+                error: {
+                    code: ErrorCodes.PROFANITY_DETECTED,
+                    message: 'Please choose a different nickname',
+                    details: { field: 'nickname' },
+                },
+            };
+        }
+
+        if (session.settings?.unique_nicknames && await db.isNicknameTaken(session.id, nickname, cookieId)) {
+            return {
+                error: {
+                    code: ErrorCodes.NICKNAME_TAKEN,
+                    message: 'That nickname is already taken',
+                    details: { field: 'nickname' },
+                },
+            };
+        }
+
+        return { nickname };
+    }
+
+    /**
+     * A generated name nobody else in the session has; a number is added
+     * if the session has used up the easy combinations
+     */
+    private static async randomNickname(sessionId: string, cookieId: string): Promise<string> {
+        for (let attempt = 0; attempt < MAX_RANDOM_NICKNAME_ATTEMPTS; attempt++) {
+            const nickname = generateFunNickname();
+            if (!await db.isNicknameTaken(sessionId, nickname, cookieId)) return nickname;
+        }
+        return `${generateFunNickname()} ${Math.floor(100 + Math.random() * 900)}`;
+    }
+}
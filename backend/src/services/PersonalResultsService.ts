@@ -0,0 +1,148 @@
+import db from './database.js';
+import { ScoringService } from './ScoringService.js';
+import { Question, Session } from '../types/index.js';
+
+export interface AnswerReview {
+    question_id: string;
+    question_text: string;
+    question_type: Question['question_type'];
+    answer: string | null;
+    correct_answer: string | null;
+    is_correct: boolean | null;
+    score: number;
+    response_time_ms: number | null;
+}
+
+export interface PersonalResults {
+    session_id: string;
+    session_title: string;
+    nickname: string | null;
+    total_score: number;
+    rank: number | null;
+    participant_count: number;
+    answers: AnswerReview[];
+}
+
+const OPTION_TYPES: Question['question_type'][] = ['poll', 'quiz_mc', 'quiz_tf', 'quiz_audio'];
+const VALUE_TYPES: Question['question_type'][] = ['scale', 'nps', 'quiz_slider'];
+const ORDER_TYPES: Question['question_type'][] = ['ranking', 'quiz_order'];
+
+function optionText(question: Pick<Question, 'options'>, item: unknown): string {
+    const options = question.options || [];
+    const option = typeof item === 'number' ? options[item] : options.find(o => o.id === item || o.text === item);
+    return option?.text ?? String(item);
+}
+
+/**
+ * Turn a stored answer (response_data, or a correct_answer) into the text a
+ * participant would recognise, e.g. the option they picked rather than its index
+ */
+export function describeAnswer(question: Pick<Question, 'question_type' | 'options'>, data: any, isCorrectAnswer = false): string | null {
+    if (data === null || data === undefined) return null;
+
+    if (OPTION_TYPES.includes(question.question_type)) {
+        return optionText(question, isCorrectAnswer ? data : data.option_index);
+    }
+    if (VALUE_TYPES.includes(question.question_type)) {
+        return String(isCorrectAnswer ? data : data.value);
+    }
+    if (ORDER_TYPES.includes(question.question_type)) {
+        const order = isCorrectAnswer ? data : data.order;
+        return Array.isArray(order) ? order.map(item => optionText(question, item)).join(' → ') : null;
+    }
+    if (question.question_type === 'quiz_typed') {
+        return String(isCorrectAnswer ? data : data.answer ?? '');
+    }
+    if (question.question_type === 'pin_image') {
+        return 'Pin placed';
+    }
+    return typeof data === 'string' ? data : null;
+}
+
+/**
+ * Competition rank ("1, 2, 2, 4") of a participant on the leaderboard,
+ * counting participants without responses as 0
+ */
+export function rankParticipant(
+    leaderboard: { id: string; total_score: number | null }[],
+    participantId: string
+): { rank: number | null; total_score: number } {
+    const entry = leaderboard.find(e => e.id === participantId);
+    if (!entry) return { rank: null, total_score: 0 };
+
+    const score = entry.total_score ?? 0;
+    return {
+        rank: 1 + leaderboard.filter(e => (e.total_score ?? 0) > score).length,
+        total_score: score,
+    };
+}
+
+/**
+ * Personal Results Service
+ *
+ * Builds the summary a participant can open after a session: each
+ * question with what they answered, the correct answer for quiz
+ * questions, and their score, rank and response time.
+ */
+export class PersonalResultsService {
+    static isEnabled(session: Session): boolean {
+        return !!session.settings?.personal_results;
+    }
+
+    /**
+     * Results are shown once the session has ended, or in self-paced sessions
+     * once the participant has finished their attempt
+     */
+    static async isAvailable(session: Session, participantId: string): Promise<boolean> {
+        if (!PersonalResultsService.isEnabled(session)) return false;
+        if (session.status === 'ended') return true;
+        if (!session.settings?.self_paced) return false;
+
+        const attempt = await db.getLatestAttempt(session.id, participantId);
+        return !!attempt?.completed_at;
+    }
+
+    static async build(session: Session, participantId: string, nickname: string | null): Promise<PersonalResults> {
+        const [questions, answers, leaderboard] = await Promise.all([
+            db.getQuestionsBySession(session.id),
+            db.getParticipantAnswers(session.id, participantId),
+            db.getLeaderboard(session.id, null),
+        ]);
+
+        const responses = new Map(answers.responses.map(r => [r.question_id, r]));
+        const texts = new Map(answers.texts.map(t => [t.question_id, t.content]));
+        const words = new Map<string, string[]>();
+        for (const w of answers.words) {
+            words.set(w.question_id, [...(words.get(w.question_id) || []), w.original_word]);
+        }
+
+        const reviews = questions.map((question): AnswerReview => {
+            const response = responses.get(question.id);
+            const scored = ScoringService.isScored(question.question_type);
+
+            let answer = response ? describeAnswer(question, response.response_data) : null;
+            if (question.question_type === 'open_ended') answer = texts.get(question.id) ?? null;
+            if (question.question_type === 'word_cloud') answer = words.get(question.id)?.join(', ') ?? null;
+
+            return {
+                question_id: question.id,
+                question_text: question.question_text,
+                question_type: question.question_type,
+                answer,
+                correct_answer: scored ? describeAnswer(question, question.correct_answer, true) : null,
+                is_correct: scored && response ? !!response.is_correct : null,
+                score: response?.score || 0,
+                response_time_ms: response?.response_time_ms ?? null,
+            };
+        });
+
+        return {
+            session_id: session.id,
+            session_title: session.title,
+            nickname,
+            ...rankParticipant(leaderboard, participantId),
+            participant_count: leaderboard.length,
+            answers: reviews,
+        };
+    }
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import db from './database.js';
+import { ProfanityAction, ProfanityInputType, ProfanitySettings, Session } from '../types/index.js';
+import { cleanText, containsProfanity, ProfanityFilterConfig } from '../utils/profanityFilter.js';
+
+const MAX_LIST_SIZE = 500;
+const MAX_ENTRY_LENGTH = 50;
+
+// What happens to flagged input when nothing is configured
+export const DEFAULT_PROFANITY_ACTIONS: Record<ProfanityInputType, ProfanityAction> = {
+    words: 'moderate',
+    text: 'moderate',
+    ideas: 'moderate',
+    qna: 'reject',
+    nicknames: 'reject',
+};
+
+const WordListSchema = z.array(z.string().trim().min(1).max(MAX_ENTRY_LENGTH)).max(MAX_LIST_SIZE);
+const ActionSchema = z.enum(['reject', 'mask', 'moderate']);
+
+export const ProfanitySettingsSchema = z.object({
+    block_words: WordListSchema.optional(),
+    allow_words: WordListSchema.optional(),
+    actions: z.object({
+        words: ActionSchema.optional(),
+        text: ActionSchema.optional(),
+        ideas: ActionSchema.optional(),
+        qna: ActionSchema.optional(),
+        // Nicknames have no moderation queue to send them to
+        nicknames: z.enum(['reject', 'mask']).optional(),
+    }).strict().optional(),
+}).strict();
+
+export interface ProfanityPolicy {
+    filter: ProfanityFilterConfig;
+    actions: Record<ProfanityInputType, ProfanityAction>;
+}
+
+export interface ProfanityCheck {
+    action: 'allow' | ProfanityAction;
+    text: string;
+}
+
+/**
+ * Combine organisation and session settings. Block and allow lists are
+ * merged (an allowed word always wins); session actions override the
+ * organisation's.
+ */
+export function resolvePolicy(organization: ProfanitySettings = {}, session: ProfanitySettings = {}): ProfanityPolicy {
+    return {
+        filter: {
+            blockWords: [...(organization.block_words || []), ...(session.block_words || [])],
+            allowWords: [...(organization.allow_words || []), ...(session.allow_words || [])],
+        },
+        actions: { ...DEFAULT_PROFANITY_ACTIONS, ...organization.actions, ...session.actions },
+    };
+}
+
+/**
+ * Profanity Service
+ *
+ * Resolves which block/allow lists and actions apply to a session and
+ * decides what happens to each piece of participant input.
+ */
+export class ProfanityService {
+    static async getPolicy(session: Session): Promise<ProfanityPolicy> {
+        const organizationId = await db.getSessionOrganizationId(session.id);
+        const organization = organizationId ? await db.getOrganizationProfanitySettings(organizationId) : {};
+        return resolvePolicy(organization, session.settings?.profanity);
+    }
+
+    /**
+     * Check input against the policy. Clean input comes back as 'allow';
+     * flagged input gets the action configured for its type, with the
+     * text masked when that action is 'mask'.
+     */
+    static check(policy: ProfanityPolicy, type: ProfanityInputType, text: string): ProfanityCheck {
+        if (!containsProfanity(text, policy.filter)) {
+            return { action: 'allow', text };
+        }
+
+        const action = policy.actions[type];
+        return { action, text: action === 'mask' ? cleanText(text, policy.filter) : text };
+    }
+}
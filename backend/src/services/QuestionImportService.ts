@@ -0,0 +1,419 @@
+import { validateQuestionInput, QuestionInput } from '../controllers/QuestionController.js';
+import { QuestionImportFormat, QuestionImportIssue } from '../types/index.js';
+
+const IMPORTABLE_TYPES = ['quiz_mc', 'quiz_tf', 'quiz_typed', 'poll', 'scale'];
+const MAX_IMPORT_QUESTIONS = 500;
+
+export interface ImportedQuestion {
+    line: number; // Where the question starts in the source text
+    question: QuestionInput;
+}
+
+export interface QuestionImportPreview {
+    questions: ImportedQuestion[];
+    errors: QuestionImportIssue[];
+}
+
+// Parsers return unvalidated candidates; the service runs them through the create schema
+interface Candidate {
+    line: number;
+    input: Record<string, unknown>;
+}
+
+interface ParseResult {
+    candidates: Candidate[];
+    errors: QuestionImportIssue[];
+}
+
+const toOptions = (texts: string[]) => texts.map((text, i) => ({ id: `opt-${i}`, text }));
+
+const TRUE_FALSE_OPTIONS = toOptions(['True', 'False']);
+
+// ============================================
+// CSV / SPREADSHEET
+// ============================================
+
+/**
+ * Split CSV text into records, honouring quoted fields (which may contain
+ * delimiters, doubled quotes and line breaks). Each record keeps the line it started on.
+ */
+export function splitCsvRecords(text: string, delimiter: string): { line: number; fields: string[] }[] {
+    const records: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            fields.push(field);
+            if (fields.some(f => f.trim() !== '')) records.push({ line: recordLine, fields });
+            fields = [];
+            field = '';
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    fields.push(field);
+    if (fields.some(f => f.trim() !== '')) records.push({ line: recordLine, fields });
+    return records;
+}
+
+/**
+ * Spreadsheet export with a header row. Recognised columns:
+ * type, question, options (pipe-separated) or option1..optionN,
+ * correct (option number, option text, true/false or typed answer),
+ * time_limit, min, max.
+ */
+export function parseCsv(text: string): ParseResult {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    // Spreadsheets in comma-decimal locales export with semicolons
+    const delimiter = [',', ';', '\t'].reduce((best, d) =>
+        firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+    const [header, ...rows] = splitCsvRecords(text, delimiter);
+    const candidates: Candidate[] = [];
+    const errors: QuestionImportIssue[] = [];
+
+    if (!header) {
+        return { candidates, errors: [{ line: 1, error: 'File is empty' }] };
+    }
+
+    const columns = header.fields.map(h => h.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+    const questionColumn = columns.findIndex(c => c === 'question' || c === 'question_text');
+    if (questionColumn === -1) {
+        return { candidates, errors: [{ line: header.line, error: 'Header row needs a "question" column' }] };
+    }
+
+    const optionColumns = columns
+        .map((c, i) => ({ c, i }))
+        .filter(({ c }) => /^option_?\d+$/.test(c))
+        .map(({ i }) => i);
+
+    for (const { line, fields } of rows) {
+        const cell = (name: string) => {
+            const index = columns.indexOf(name);
+            return index === -1 ? '' : (fields[index] ?? '').trim();
+        };
+
+        const questionText = (fields[questionColumn] ?? '').trim();
+        if (!questionText) {
+            errors.push({ line, error: 'Missing question text' });
+            continue;
+        }
+
+        const options = optionColumns.length > 0
+            ? optionColumns.map(i => (fields[i] ?? '').trim()).filter(Boolean)
+            : cell('options').split('|').map(o => o.trim()).filter(Boolean);
+        const correct = cell('correct') || cell('answer');
+        const type = (cell('type') || (correct ? 'quiz_mc' : 'poll')).toLowerCase();
+
+        if (!IMPORTABLE_TYPES.includes(type)) {
+            errors.push({ line, error: `Unsupported question type "${type}"` });
+            continue;
+        }
+
+        const input: Record<string, unknown> = { questionType: type, questionText };
+        const timeLimit = parseInt(cell('time_limit'), 10);
+        if (Number.isFinite(timeLimit)) input.timeLimit = timeLimit;
+
+        if (type === 'quiz_mc' || type === 'poll') {
+            if (options.length < 2) {
+                errors.push({ line, error: 'Needs at least two options' });
+                continue;
+            }
+            input.options = toOptions(options);
+
+            if (type === 'quiz_mc') {
+                // Accept a 1-based option number or the option's text
+                const byNumber = /^\d+$/.test(correct) ? parseInt(correct, 10) - 1 : -1;
+                const index = byNumber >= 0 ? byNumber : options.findIndex(o => o.toLowerCase() === correct.toLowerCase());
+                if (index < 0 || index >= options.length) {
+                    errors.push({ line, error: correct ? `Correct answer "${correct}" is not one of the options` : 'Missing correct answer' });
+                    continue;
+                }
+                input.correctAnswer = index;
+            }
+        } else if (type === 'quiz_tf') {
+            const value = correct.toLowerCase();
+            if (!['true', 'false', 't', 'f'].includes(value)) {
+                errors.push({ line, error: 'True/false questions need "true" or "false" as the correct answer' });
+                continue;
+            }
+            input.options = TRUE_FALSE_OPTIONS;
+            input.correctAnswer = value.startsWith('t') ? 0 : 1;
+        } else if (type === 'quiz_typed') {
+            if (!correct) {
+                errors.push({ line, error: 'Missing correct answer' });
+                continue;
+            }
+            input.correctAnswer = correct;
+        } else if (type === 'scale') {
+            const min = cell('min') ? Number(cell('min')) : 1;
+            const max = cell('max') ? Number(cell('max')) : 5;
+            if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+                errors.push({ line, error: 'Scale needs a numeric min below max' });
+                continue;
+            }
+            input.settings = { min_value: min, max_value: max };
+        }
+
+        candidates.push({ line, input });
+    }
+
+    return { candidates, errors };
+}
+
+// ============================================
+// PLAIN-TEXT BLOCK FORMATS
+// ============================================
+
+/**
+ * Split text into blank-line separated blocks, keeping each block's first line number
+ */
+function splitBlocks(text: string, skip: (line: string) => boolean = () => false) {
+    const blocks: { line: number; lines: string[] }[] = [];
+    let current: { line: number; lines: string[] } | null = null;
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+        const trimmed = raw.trim();
+        if (!trimmed) {
+            current = null;
+            return;
+        }
+        if (skip(trimmed)) return;
+
+        if (!current) {
+            current = { line: i + 1, lines: [] };
+            blocks.push(current);
+        }
+        current.lines.push(trimmed);
+    });
+
+    return blocks;
+}
+
+/**
+ * Aiken: question line, lettered options ("A." or "A)"), then "ANSWER: X"
+ */
+export function parseAiken(text: string): ParseResult {
+    const candidates: Candidate[] = [];
+    const errors: QuestionImportIssue[] = [];
+
+    for (const block of splitBlocks(text)) {
+        const [questionText, ...rest] = block.lines;
+        const options: string[] = [];
+        let answer = -1;
+        let problem: QuestionImportIssue | null = null;
+
+        for (const [i, entry] of rest.entries()) {
+            const line = block.line + i + 1;
+            const option = entry.match(/^([A-Z])[.)]\s+(.+)$/);
+            const answerLine = entry.match(/^ANSWER:\s*([A-Z])$/i);
+
+            if (answerLine) {
+                answer = answerLine[1].toUpperCase().charCodeAt(0) - 65;
+            } else if (option && answer === -1 && option[1].charCodeAt(0) - 65 === options.length) {
+                options.push(option[2].trim());
+            } else if (option && answer === -1) {
+                problem = { line, error: `Expected option ${String.fromCharCode(65 + options.length)}, found ${option[1]}` };
+            } else {
+                problem = { line, error: `Unrecognised line "${entry}"` };
+            }
+            if (problem) break;
+        }
+
+        if (problem) {
+            errors.push(problem);
+        } else if (options.length < 2) {
+            errors.push({ line: block.line, error: 'Needs at least two options' });
+        } else if (answer === -1) {
+            errors.push({ line: block.line, error: 'Missing "ANSWER:" line' });
+        } else if (answer >= options.length) {
+            errors.push({ line: block.line, error: `Answer ${String.fromCharCode(65 + answer)} is not one of the options` });
+        } else {
+            candidates.push({
+                line: block.line,
+                input: {
+                    questionType: 'quiz_mc',
+                    questionText,
+                    options: toOptions(options),
+                    correctAnswer: answer,
+                },
+            });
+        }
+    }
+
+    return { candidates, errors };
+}
+
+// Characters GIFT lets authors escape with a backslash
+const unescapeGift = (value: string) => value.replace(/\\([~=#{}:])/g, '$1').trim();
+
+/**
+ * Split a GIFT answer block on unescaped "=" / "~" markers
+ */
+function splitGiftAnswers(body: string): { correct: boolean; text: string }[] {
+    const answers: { correct: boolean; text: string }[] = [];
+    const pattern = /(?<!\\)[=~]/g;
+    const markers = [...body.matchAll(pattern)];
+
+    markers.forEach((marker, i) => {
+        const end = i + 1 < markers.length ? markers[i + 1].index : body.length;
+        let text = body.slice(marker.index! + 1, end);
+        text = text.replace(/(?<!\\)#.*$/s, '');          // answer feedback
+        text = text.replace(/^%-?\d+(\.\d+)?%/, '');      // answer weight
+        answers.push({ correct: marker[0] === '=', text: unescapeGift(text) });
+    });
+
+    return answers;
+}
+
+/**
+ * Moodle GIFT subset: true/false, multiple choice and short answer.
+ * Numeric, matching and essay questions are reported as unsupported.
+ */
+export function parseGift(text: string): ParseResult {
+    const candidates: Candidate[] = [];
+    const errors: QuestionImportIssue[] = [];
+    const isIgnored = (line: string) => line.startsWith('//') || line.startsWith('$CATEGORY:');
+
+    for (const block of splitBlocks(text, isIgnored)) {
+        const source = block.lines.join('\n');
+        const open = source.search(/(?<!\\)\{/);
+        const close = source.search(/(?<!\\)\}(?![\s\S]*(?<!\\)\})/);
+
+        if (open === -1 || close === -1 || close < open) {
+            errors.push({ line: block.line, error: 'Missing "{...}" answer block' });
+            continue;
+        }
+
+        // Text continuing after the answers is a fill-in-the-blank; mark where the blank was
+        const after = source.slice(close + 1);
+        const stem = (after.trim() ? source.slice(0, open).trimEnd() + ' _____' + after : source.slice(0, open))
+            .replace(/^::(.*?)::/s, '')
+            .replace(/^\s*\[(html|moodle|plain|markdown)\]/i, '');
+        const questionText = unescapeGift(stem.replace(/\s+/g, ' '));
+        const body = source.slice(open + 1, close).trim();
+
+        if (!questionText) {
+            errors.push({ line: block.line, error: 'Missing question text' });
+            continue;
+        }
+
+        const trueFalse = body.replace(/(?<!\\)#.*$/s, '').trim().toUpperCase();
+        if (['T', 'TRUE', 'F', 'FALSE'].includes(trueFalse)) {
+            candidates.push({
+                line: block.line,
+                input: {
+                    questionType: 'quiz_tf',
+                    questionText,
+                    options: TRUE_FALSE_OPTIONS,
+                    correctAnswer: trueFalse.startsWith('T') ? 0 : 1,
+                },
+            });
+            continue;
+        }
+
+        if (body === '') {
+            errors.push({ line: block.line, error: 'Essay questions are not supported' });
+            continue;
+        }
+        if (body.startsWith('#')) {
+            errors.push({ line: block.line, error: 'Numeric questions are not supported' });
+            continue;
+        }
+
+        const answers = splitGiftAnswers(body);
+        if (answers.length === 0) {
+            errors.push({ line: block.line, error: 'No answers found in "{...}"' });
+            continue;
+        }
+        if (answers.some(a => a.text.includes('->'))) {
+            errors.push({ line: block.line, error: 'Matching questions are not supported' });
+            continue;
+        }
+
+        const correct = answers.filter(a => a.correct);
+        if (answers.every(a => a.correct)) {
+            // Short answer: every entry is an accepted answer; the first one is graded against
+            candidates.push({
+                line: block.line,
+                input: { questionType: 'quiz_typed', questionText, correctAnswer: correct[0].text },
+            });
+        } else if (correct.length !== 1) {
+            errors.push({ line: block.line, error: 'Multiple choice needs exactly one "=" answer' });
+        } else {
+            candidates.push({
+                line: block.line,
+                input: {
+                    questionType: 'quiz_mc',
+                    questionText,
+                    options: toOptions(answers.map(a => a.text)),
+                    correctAnswer: answers.findIndex(a => a.correct),
+                },
+            });
+        }
+    }
+
+    return { candidates, errors };
+}
+
+const PARSERS: Record<QuestionImportFormat, (text: string) => ParseResult> = {
+    csv: parseCsv,
+    gift: parseGift,
+    aiken: parseAiken,
+};
+
+/**
+ * Question Import Service
+ *
+ * Turns question banks from spreadsheets (CSV), Moodle GIFT and Aiken
+ * into questions for review. Nothing is saved here: the preview is shown
+ * to the presenter, who creates the questions they keep.
+ */
+export class QuestionImportService {
+    static preview(format: QuestionImportFormat, text: string): QuestionImportPreview {
+        const { candidates, errors } = PARSERS[format](text);
+        const questions: ImportedQuestion[] = [];
+
+        for (const { line, input } of candidates) {
+            if (questions.length >= MAX_IMPORT_QUESTIONS) {
+                errors.push({ line, error: `Only the first ${MAX_IMPORT_QUESTIONS} questions are imported` });
+                break;
+            }
+
+            const { data, error } = validateQuestionInput(input);
+            if (data) {
+                questions.push({ line, question: data });
+            } else {
+                errors.push({ line, error: typeof error === 'string' ? error : 'Question failed validation' });
+            }
+        }
+
+        errors.sort((a, b) => a.line - b.line);
+        return { questions, errors };
+    }
+}
@@ -0,0 +1,181 @@
+import socketService from './socketService.js';
+import db from './database.js';
+import type { Question } from '../types/index.js';
+import { SocketEvents } from '../socket/events.js';
+import logger from '../utils/logger.js';
+
+const TICK_INTERVAL_MS = 1000;
+
+interface QuestionTimer {
+    sessionId: string;
+    questionId: string;
+    endsAt: number;
+    interval: NodeJS.Timeout | null;
+    pausedRemainingMs: number | null; // Frozen time left while the session is paused
+    onExpire: () => Promise<void>;
+}
+
+// One countdown per session: activating a new question replaces the previous timer.
+// These only drive the ticks and expiry; the deadline itself is kept on the question row.
+const timers: Map<string, QuestionTimer> = new Map();
+
+/**
+ * Question Timer Service
+ *
+ * Owns the countdown for the active question of each session. The server,
+ * not the client, decides when time is up: ticks are broadcast to the room
+ * and the expiry callback locks (and optionally reveals) the question. The
+ * deadline is stored as the question's `ends_at`, so any server instance can
+ * refuse late answers.
+ * Pausing a session freezes its countdown until it is resumed; the time left
+ * is stored as the question's `paused_remaining_ms` while paused.
+ */
+export class QuestionTimerService {
+    /**
+     * Start a countdown for a question, replacing any timer running in the session
+     */
+    static async start(
+        sessionId: string,
+        questionId: string,
+        durationMs: number,
+        onExpire: () => Promise<void>
+    ): Promise<void> {
+        QuestionTimerService.stop(sessionId);
+
+        const endsAt = Date.now() + durationMs;
+        await db.setQuestionDeadline(questionId, new Date(endsAt));
+        QuestionTimerService.run(sessionId, questionId, endsAt, onExpire);
+    }
+
+    /**
+     * Cancel the countdown for a session (manual lock, new question, session end)
+     */
+    static stop(sessionId: string): void {
+        const timer = timers.get(sessionId);
+        if (!timer) return;
+
+        if (timer.interval) clearInterval(timer.interval);
+        timers.delete(sessionId);
+    }
+
+    /**
+     * Freeze the ticks for a session, keeping the time left. The stored time
+     * left is written when the session is paused.
+     */
+    static pause(sessionId: string): void {
+        const timer = timers.get(sessionId);
+        if (!timer || timer.pausedRemainingMs !== null) return;
+
+        if (timer.interval) clearInterval(timer.interval);
+        timer.interval = null;
+        timer.pausedRemainingMs = Math.max(0, timer.endsAt - Date.now());
+        QuestionTimerService.broadcast(timer);
+    }
+
+    /**
+     * Restart the countdown from the deadline stored when the session resumed.
+     * Works on any server instance, whichever one ran it before the pause.
+     */
+    static resume(
+        sessionId: string,
+        question: Pick<Question, 'id' | 'ends_at'>,
+        onExpire: () => Promise<void>
+    ): void {
+        QuestionTimerService.stop(sessionId);
+        if (!question.ends_at) return;
+
+        QuestionTimerService.run(sessionId, question.id, new Date(question.ends_at).getTime(), onExpire);
+    }
+
+    /**
+     * Remaining time on this instance's countdown for a question, or null when
+     * it isn't running one for it
+     */
+    static getRemainingMs(sessionId: string, questionId: string): number | null {
+        const timer = timers.get(sessionId);
+        if (!timer || timer.questionId !== questionId) return null;
+        return QuestionTimerService.remainingMs(timer);
+    }
+
+    /**
+     * Remaining time for a question from its stored deadline, frozen while the
+     * session is paused, or null when it has no countdown
+     */
+    static getQuestionRemainingMs(
+        question: Pick<Question, 'ends_at' | 'paused_remaining_ms'>,
+        now: number = Date.now()
+    ): number | null {
+        if (question.paused_remaining_ms != null) return question.paused_remaining_ms;
+        if (!question.ends_at) return null;
+        return Math.max(0, new Date(question.ends_at).getTime() - now);
+    }
+
+    /**
+     * True once the question's countdown deadline has passed.
+     * Covers the window between expiry and the lock being persisted.
+     */
+    static hasExpired(question: Pick<Question, 'ends_at'>, now: number = Date.now()): boolean {
+        return !!question.ends_at && now >= new Date(question.ends_at).getTime();
+    }
+
+    private static run(
+        sessionId: string,
+        questionId: string,
+        endsAt: number,
+        onExpire: () => Promise<void>
+    ): void {
+        const timer: QuestionTimer = {
+            sessionId,
+            questionId,
+            endsAt,
+            interval: setInterval(() => QuestionTimerService.tick(sessionId), TICK_INTERVAL_MS),
+            pausedRemainingMs: null,
+            onExpire,
+        };
+
+        timers.set(sessionId, timer);
+        QuestionTimerService.broadcast(timer);
+    }
+
+    private static tick(sessionId: string): void {
+        const timer = timers.get(sessionId);
+        if (!timer) return;
+
+        QuestionTimerService.broadcast(timer);
+
+        if (Date.now() >= timer.endsAt) {
+            QuestionTimerService.expire(timer);
+        }
+    }
+
+    private static async expire(timer: QuestionTimer): Promise<void> {
+        if (timer.interval) clearInterval(timer.interval);
+
+        try {
+            await timer.onExpire();
+        } catch (error) {
+            logger.error({ error, questionId: timer.questionId }, 'Error expiring question timer:');
+        } finally {
+            // Only drop the entry if it hasn't been replaced in the meantime
+            if (timers.get(timer.sessionId) === timer) {
+                timers.delete(timer.sessionId);
+            }
+        }
+    }
+
+    private static remainingMs(timer: QuestionTimer): number {
+        return timer.pausedRemainingMs ?? Math.max(0, timer.endsAt - Date.now());
+    }
+
+    private static broadcast(timer: QuestionTimer): void {
+        const paused = timer.pausedRemainingMs !== null;
+
+        socketService.emitToSession(timer.sessionId, SocketEvents.QUESTION_TIMER, {
+            question_id: timer.questionId,
+            remaining_ms: QuestionTimerService.remainingMs(timer),
+            ends_at: paused ? null : new Date(timer.endsAt),
+            paused,
+            server_time: new Date(),
+        });
+    }
+}
@@ -0,0 +1,84 @@
+import db from './database.js';
+import socketService from './socketService.js';
+import { QuestionTimerService } from './QuestionTimerService.js';
+import { PersonalResultsService, rankParticipant } from './PersonalResultsService.js';
+import { SelfPacedService } from './SelfPacedService.js';
+import { Participant, Question, Response, Session, TextResponse, WordSubmission } from '../types/index.js';
+
+// Bumped whenever the snapshot shape changes in a way older clients can't read
+export const RESYNC_PROTOCOL_VERSION = 1;
+
+export interface ResyncState {
+    version: number;
+    seq: number;
+    server_time: Date;
+    session: { id: string; title: string; status: Session['status'] };
+    participant: { id: string; nickname: string | null; team_id: string | null; total_score: number; rank: number | null };
+    participant_count: number;
+    active_question: Question | null;
+    has_responded: boolean;
+    response: { is_correct: boolean | null; score: number } | null;
+    remaining_ms: number | null;
+    personal_results: boolean;
+    self_paced: ReturnType<typeof SelfPacedService.getSettings> | null;
+}
+
+/**
+ * Whether the participant has already answered a question, whichever table holds it
+ */
+export function hasAnswered(
+    answers: { responses: Pick<Response, 'question_id'>[]; texts: Pick<TextResponse, 'question_id'>[]; words: Pick<WordSubmission, 'question_id'>[] },
+    questionId: string
+): boolean {
+    return [...answers.responses, ...answers.texts, ...answers.words].some(a => a.question_id === questionId);
+}
+
+/**
+ * Resync Service
+ *
+ * Builds the snapshot a participant gets after reconnecting or spotting a
+ * gap in the session's event numbers: where the session is, the active
+ * question with its lock, results and timer state, whether they have
+ * answered it, and their score. Self-paced sessions carry no active
+ * question here; the client resumes its attempt instead.
+ */
+export class ResyncService {
+    static async buildState(session: Session, participant: Participant): Promise<ResyncState> {
+        const selfPaced = SelfPacedService.isEnabled(session);
+
+        // Read the sequence number first: anything broadcast while the snapshot
+        // is built arrives afterwards with a higher number and is applied on top
+        const seq = await socketService.getSeq(session.id);
+
+        const [activeQuestion, answers, leaderboard, participantCount] = await Promise.all([
+            selfPaced ? null : db.getActiveQuestion(session.id),
+            db.getParticipantAnswers(session.id, participant.id),
+            db.getLeaderboard(session.id, null),
+            db.getConnectedParticipantCount(session.id),
+        ]);
+
+        const response = activeQuestion
+            ? answers.responses.find(r => r.question_id === activeQuestion.id)
+            : undefined;
+
+        return {
+            version: RESYNC_PROTOCOL_VERSION,
+            seq,
+            server_time: new Date(),
+            session: { id: session.id, title: session.title, status: session.status },
+            participant: {
+                id: participant.id,
+                nickname: participant.nickname,
+                team_id: participant.team_id ?? null,
+                ...rankParticipant(leaderboard, participant.id),
+            },
+            participant_count: participantCount,
+            active_question: activeQuestion,
+            has_responded: !!activeQuestion && hasAnswered(answers, activeQuestion.id),
+            response: response ? { is_correct: response.is_correct ?? null, score: response.score || 0 } : null,
+            remaining_ms: activeQuestion ? QuestionTimerService.getQuestionRemainingMs(activeQuestion) : null,
+            personal_results: session.status === 'ended' && PersonalResultsService.isEnabled(session),
+            self_paced: selfPaced ? SelfPacedService.getSettings(session) : null,
+        };
+    }
+}
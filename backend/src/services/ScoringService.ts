@@ -0,0 +1,149 @@
+import { Question, QuestionType, ScoringStrategy } from '../types/index.js';
+import { calculateQuizScore, fuzzyMatch } from '../utils/helpers.js';
+
+export interface ScoreResult {
+    isCorrect: boolean;
+    credit: number; // 0–1 share of the full score
+    score: number;
+}
+
+export interface QuestionScorer {
+    // First entry is the default when the question doesn't pick one
+    strategies: ScoringStrategy[];
+    grade(question: Question, answer: any, strategy: ScoringStrategy): { isCorrect: boolean; credit: number };
+}
+
+const exact = (isCorrect: boolean) => ({ isCorrect, credit: isCorrect ? 1 : 0 });
+
+// Proportional slider answers right at the tolerance edge still earn this share
+const MIN_SLIDER_CREDIT = 0.1;
+
+const optionScorer: QuestionScorer = {
+    strategies: ['exact'],
+    grade: (question, answer) => exact(answer?.option_index === question.correct_answer),
+};
+
+/**
+ * Share of items placed in the same slot as the correct order
+ */
+export function positionalCredit(order: unknown[], correct: unknown[]): number {
+    if (correct.length === 0) return 0;
+    const hits = correct.filter((item, i) => order[i] === item).length;
+    return hits / correct.length;
+}
+
+/**
+ * Share of item pairs kept in the correct relative order (normalised Kendall tau distance).
+ * Items missing from the answer count against every pair they belong to.
+ */
+export function kendallTauCredit(order: unknown[], correct: unknown[]): number {
+    if (correct.length < 2) return positionalCredit(order, correct);
+
+    const position = new Map(order.map((item, i) => [item, i]));
+    let concordant = 0;
+    let pairs = 0;
+
+    for (let i = 0; i < correct.length; i++) {
+        for (let j = i + 1; j < correct.length; j++) {
+            pairs++;
+            const a = position.get(correct[i]);
+            const b = position.get(correct[j]);
+            if (a !== undefined && b !== undefined && a < b) concordant++;
+        }
+    }
+
+    return concordant / pairs;
+}
+
+const scorers: Map<QuestionType, QuestionScorer> = new Map([
+    ['quiz_mc', optionScorer],
+    ['quiz_tf', optionScorer],
+    ['quiz_audio', optionScorer],
+    ['quiz_typed', {
+        strategies: ['exact'],
+        grade: (question, answer) => exact(
+            typeof answer?.answer === 'string' &&
+            fuzzyMatch(answer.answer, String(question.correct_answer), question.settings?.tolerance || 0.8)
+        ),
+    }],
+    ['quiz_slider', {
+        strategies: ['exact', 'proportional'],
+        grade: (question, answer, strategy) => {
+            const tolerance = question.settings?.tolerance || 5;
+            const distance = Math.abs(Number(answer?.value) - Number(question.correct_answer));
+            if (!Number.isFinite(distance) || distance > tolerance) return exact(false);
+
+            // Credit falls off linearly across the tolerance, in the slider's own units
+            return strategy === 'proportional'
+                ? { isCorrect: true, credit: Math.max(MIN_SLIDER_CREDIT, 1 - distance / tolerance) }
+                : exact(true);
+        },
+    }],
+    ['quiz_order', {
+        strategies: ['exact', 'positional', 'kendall_tau'],
+        grade: (question, answer, strategy) => {
+            const order: unknown[] = Array.isArray(answer?.order) ? answer.order : [];
+            const correct: unknown[] = Array.isArray(question.correct_answer) ? question.correct_answer : [];
+            const isCorrect = correct.length > 0 &&
+                order.length === correct.length &&
+                positionalCredit(order, correct) === 1;
+
+            switch (strategy) {
+                case 'positional':
+                    return { isCorrect, credit: positionalCredit(order, correct) };
+                case 'kendall_tau':
+                    return { isCorrect, credit: kendallTauCredit(order, correct) };
+                default:
+                    return exact(isCorrect);
+            }
+        },
+    }],
+]);
+
+/**
+ * Scoring Service
+ *
+ * Registry of scorers keyed by question type. Every quiz answer is graded
+ * here: the scorer returns a 0–1 credit, which scales the usual base
+ * score plus time bonus.
+ */
+export class ScoringService {
+    /**
+     * Add or replace the scorer for a question type
+     */
+    static register(type: QuestionType, scorer: QuestionScorer): void {
+        scorers.set(type, scorer);
+    }
+
+    static isScored(type: QuestionType): boolean {
+        return scorers.has(type);
+    }
+
+    /**
+     * Strategies a presenter may pick for a question type (empty if unscored)
+     */
+    static getStrategies(type: QuestionType): ScoringStrategy[] {
+        return scorers.get(type)?.strategies ?? [];
+    }
+
+    /**
+     * Grade an answer and turn its credit into points
+     */
+    static score(question: Question, answer: any, responseTimeMs: number, timeLimitMs: number): ScoreResult {
+        const scorer = scorers.get(question.question_type);
+        if (!scorer) {
+            return { isCorrect: false, credit: 0, score: 0 };
+        }
+
+        const requested = question.settings?.scoring_strategy;
+        const strategy = requested && scorer.strategies.includes(requested) ? requested : scorer.strategies[0];
+        const { isCorrect, credit } = scorer.grade(question, answer, strategy);
+        const clamped = Math.max(0, Math.min(1, credit));
+
+        return {
+            isCorrect,
+            credit: clamped,
+            score: Math.round(calculateQuizScore(clamped > 0, responseTimeMs, timeLimitMs) * clamped),
+        };
+    }
+}
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import db from './database.js';
+import { ErrorCodes, Question, SelfPacedAttempt, Session } from '../types/index.js';
+import { calculateResponseTime } from '../utils/helpers.js';
+
+export const DEFAULT_MAX_ATTEMPTS = 1;
+
+// Brainstorms need the presenter to move them between phases
+const LIVE_ONLY_TYPES: Question['question_type'][] = ['brainstorm'];
+
+export const SelfPacedSettingsSchema = z.object({
+    self_paced: z.boolean().optional(),
+    opens_at: z.iso.datetime({ offset: true }).nullable().optional(),
+    closes_at: z.iso.datetime({ offset: true }).nullable().optional(),
+    max_attempts: z.number().int().min(1).max(100).optional(),
+}).refine(s => !s.opens_at || !s.closes_at || new Date(s.opens_at) < new Date(s.closes_at), {
+    message: 'The session must open before it closes',
+});
+
+export interface SelfPacedError {
+    code: string;
+    message: string;
+}
+
+/**
+ * Whether self-paced attempts can be made right now. Sessions close at
+ * whichever comes first of the presenter's close time and expiry.
+ */
+export function checkWindow(session: Pick<Session, 'settings' | 'expires_at'>, now: number = Date.now()): SelfPacedError | null {
+    const { opens_at, closes_at } = session.settings || {};
+
+    if (opens_at && now < new Date(opens_at).getTime()) {
+        return { code: ErrorCodes.SESSION_NOT_OPEN, message: `This session opens at ${new Date(opens_at).toISOString()}` };
+    }
+    if ((closes_at && now >= new Date(closes_at).getTime()) || now >= new Date(session.expires_at).getTime()) {
+        return { code: ErrorCodes.SESSION_ENDED, message: 'This session has closed' };
+    }
+    return null;
+}
+
+/**
+ * When the current question of an attempt times out, or null if it is untimed
+ */
+export function getQuestionDeadline(question: Pick<Question, 'time_limit'>, attempt: Pick<SelfPacedAttempt, 'question_started_at'>): Date | null {
+    if (!question.time_limit || question.time_limit <= 0) return null;
+    return new Date(new Date(attempt.question_started_at).getTime() + question.time_limit * 1000);
+}
+
+/**
+ * Self-Paced Service
+ *
+ * Runs sessions without a presenter: each participant works through the
+ * questions in order on their own attempt, with the question clock kept
+ * on the server. Answers go through the normal submit handlers and land
+ * in the usual responses tables.
+ */
+export class SelfPacedService {
+    static isEnabled(session: Session): boolean {
+        return !!session.settings?.self_paced;
+    }
+
+    static getSettings(session: Session) {
+        return {
+            self_paced: SelfPacedService.isEnabled(session),
+            opens_at: session.settings?.opens_at ?? null,
+            closes_at: session.settings?.closes_at ?? null,
+            max_attempts: session.settings?.max_attempts || DEFAULT_MAX_ATTEMPTS,
+        };
+    }
+
+    /**
+     * Questions in the order participants meet them
+     */
+    static async getQuestions(sessionId: string): Promise<Question[]> {
+        const questions = await db.getQuestionsBySession(sessionId);
+        return questions.filter(q => !LIVE_ONLY_TYPES.includes(q.question_type));
+    }
+
+    /**
+     * Resume the participant's unfinished attempt, or start a new one. A
+     * finished attempt is only replaced when they ask to retake and still
+     * have attempts left.
+     */
+    static async start(
+        session: Session,
+        participantId: string,
+        retake = false
+    ): Promise<{ attempt?: SelfPacedAttempt; error?: SelfPacedError }> {
+        const latest = await db.getLatestAttempt(session.id, participantId);
+        if (latest && (!latest.completed_at || !retake)) {
+            return { attempt: latest };
+        }
+
+        const windowError = checkWindow(session);
+        if (windowError) return { error: windowError };
+
+        const used = latest?.attempt_number ?? 0;
+        if (used >= SelfPacedService.getSettings(session).max_attempts) {
+            return { error: { code: ErrorCodes.NO_ATTEMPTS_LEFT, message: 'You have used all your attempts' } };
+        }
+
+        return { attempt: await db.startAttempt(session.id, participantId, used + 1) };
+    }
+
+    /**
+     * Check that an answer is for the question the participant is on and
+     * arrived in time. Returns when that question was shown to them, which
+     * is what response times are measured from.
+     */
+    static async checkSubmission(
+        session: Session,
+        participantId: string,
+        question: Question,
+        receivedAt: number,
+        roundTripMs?: number
+    ): Promise<{ startedAt?: Date; error?: SelfPacedError }> {
+        const windowError = checkWindow(session, receivedAt);
+        if (windowError) return { error: windowError };
+
+        const attempt = await db.getLatestAttempt(session.id, participantId);
+        const questions = await SelfPacedService.getQuestions(session.id);
+        if (!attempt || attempt.completed_at || questions[attempt.question_index]?.id !== question.id) {
+            return { error: { code: ErrorCodes.QUESTION_LOCKED, message: 'This question is not open for you' } };
+        }
+
+        const timeLimitMs = question.time_limit && question.time_limit > 0 ? question.time_limit * 1000 : null;
+        if (timeLimitMs && calculateResponseTime(attempt.question_started_at, receivedAt, roundTripMs) > timeLimitMs) {
+            return { error: { code: ErrorCodes.QUESTION_LOCKED, message: 'Time is up for this question' } };
+        }
+
+        return { startedAt: new Date(attempt.question_started_at) };
+    }
+}
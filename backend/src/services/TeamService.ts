@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import db from './database.js';
+import { JoinError } from './ParticipantService.js';
+import { ErrorCodes, Session, Team, TeamLeaderboardEntry, TeamScoring } from '../types/index.js';
+
+export const DEFAULT_BEST_N = 3;
+const MAX_TEAMS = 20;
+const TEAM_COLORS = ['#EF4444', '#3B82F6', '#22C55E', '#F59E0B', '#A855F7', '#EC4899', '#14B8A6', '#F97316'];
+
+export const TeamSettingsSchema = z.object({
+    team_mode: z.boolean().optional(),
+    team_assignment: z.enum(['presenter', 'choose', 'auto']).optional(),
+    team_scoring: z.enum(['sum', 'average', 'best_n']).optional(),
+    team_best_n: z.number().int().min(1).max(50).optional(),
+});
+
+export const TeamNamesSchema = z.array(z.string().trim().min(1).max(50)).min(1).max(MAX_TEAMS);
+
+/**
+ * Score every team from its members' scores and rank them, highest first.
+ * Tied teams share a rank; teams without members score 0.
+ */
+export function rankTeams(
+    teams: Pick<Team, 'id' | 'name' | 'color'>[],
+    members: { team_id: string; total_score: number }[],
+    scoring: TeamScoring = 'sum',
+    bestN: number = DEFAULT_BEST_N
+): TeamLeaderboardEntry[] {
+    const memberScores = new Map<string, number[]>();
+    for (const member of members) {
+        memberScores.set(member.team_id, [...(memberScores.get(member.team_id) || []), member.total_score]);
+    }
+
+    const entries = teams.map(team => {
+        const scores = (memberScores.get(team.id) || []).sort((a, b) => b - a);
+        const total = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+        let score: number;
+        switch (scoring) {
+            case 'average':
+                score = scores.length > 0 ? Math.round(total(scores) / scores.length) : 0;
+                break;
+            case 'best_n':
+                score = total(scores.slice(0, bestN));
+                break;
+            default:
+                score = total(scores);
+        }
+
+        return { team_id: team.id, name: team.name, color: team.color, score, member_count: scores.length, rank: 0 };
+    }).sort((a, b) => b.score - a.score);
+
+    entries.forEach((entry, i) => {
+        entry.rank = i > 0 && entry.score === entries[i - 1].score ? entries[i - 1].rank : i + 1;
+    });
+
+    return entries;
+}
+
+/**
+ * Team Service
+ *
+ * Team mode for a session: building teams, placing participants on them
+ * and turning member scores into a team leaderboard.
+ */
+export class TeamService {
+    static isEnabled(session: Session): boolean {
+        return !!session.settings?.team_mode;
+    }
+
+    static async getLeaderboard(session: Session): Promise<TeamLeaderboardEntry[]> {
+        const [teams, members] = await Promise.all([
+            db.getTeams(session.id),
+            db.getTeamMemberScores(session.id),
+        ]);
+        return rankTeams(teams, members, session.settings?.team_scoring, session.settings?.team_best_n);
+    }
+
+    /**
+     * Add teams, colouring them in turn from the palette
+     */
+    static async createTeams(sessionId: string, names: string[]): Promise<void> {
+        const existing = await db.getTeams(sessionId);
+        if (existing.length + names.length > MAX_TEAMS) {
+            throw new Error(`A session can have at most ${MAX_TEAMS} teams`);
+        }
+
+        await db.createTeams(sessionId, names.map((name, i) => ({
+            name,
+            color: TEAM_COLORS[(existing.length + i) % TEAM_COLORS.length],
+        })));
+    }
+
+    /**
+     * Team a new participant should join: the one they picked when teams are
+     * chosen at join, or the smallest team when teams are auto-balanced.
+     * Presenter-assigned sessions leave them without a team.
+     */
+    static async resolveJoinTeam(session: Session, requestedTeamId?: string): Promise<{ teamId?: string; error?: JoinError }> {
+        if (!TeamService.isEnabled(session)) return {};
+
+        const teams = await db.getTeams(session.id);
+        if (teams.length === 0) return {};
+
+        switch (session.settings?.team_assignment) {
+            case 'choose': {
+                const team = teams.find(t => t.id === requestedTeamId);
+                if (!team) {
+                    return {
+                        error: { code: ErrorCodes.INVALID_INPUT, message: 'Please choose a team', details: { field: 'team' } },
+                    };
+                }
+                return { teamId: team.id };
+            }
+            case 'auto':
+                return { teamId: TeamService.smallestTeam(teams).id };
+            default:
+                return {};
+        }
+    }
+
+    /**
+     * Spread every participant evenly across the session's teams, in random order
+     */
+    static async autoBalance(sessionId: string): Promise<number> {
+        const teams = await db.getTeams(sessionId);
+        if (teams.length === 0) return 0;
+
+        const shuffled = await db.getSessionParticipants(sessionId);
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+
+        for (let i = 0; i < shuffled.length; i++) {
+            await db.setParticipantTeam(sessionId, shuffled[i].id, teams[i % teams.length].id);
+        }
+
+        return shuffled.length;
+    }
+
+    private static smallestTeam(teams: Team[]): Team {
+        return teams.reduce((smallest, team) => (team.member_count < smallest.member_count ? team : smallest));
+    }
+}
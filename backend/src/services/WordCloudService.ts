@@ -0,0 +1,125 @@
+import db from './database.js';
+import socketService from './socketService.js';
+import { SocketEvents } from '../socket/events.js';
+import { QuestionSettings, WordCloudDelta } from '../types/index.js';
+import { fuzzyMatch } from '../utils/helpers.js';
+import { containsProfanity, ProfanityFilterConfig } from '../utils/profanityFilter.js';
+import { isSupportedLanguage, normalizePhrase } from '../utils/textNormalizer.js';
+import logger from '../utils/logger.js';
+
+export const DEFAULT_MAX_WORDS = 3;
+const MERGE_TOLERANCE = 0.85;
+const FLUSH_INTERVAL_MS = 500;
+
+export interface PreparedWord {
+    original: string;
+    normalized: string;
+    filtered: boolean;
+}
+
+interface PendingDeltas {
+    sessionId: string;
+    weights: Map<string, number>;
+    timeout: NodeJS.Timeout;
+}
+
+// Weight changes not yet sent to presenters, by question
+const pending: Map<string, PendingDeltas> = new Map();
+
+/**
+ * Word Cloud Service
+ *
+ * Normalises submissions according to the question's language settings and
+ * batches weight changes so presenters get one small delta event per flush
+ * interval instead of the full cloud on every submission.
+ */
+export class WordCloudService {
+    /**
+     * Normalise submitted words, dropping empty entries and repeats. With
+     * merge_similar, near-duplicates of words already in the cloud take that
+     * word's spelling so they add to its weight. Words caught by `filter`
+     * are kept but marked as filtered.
+     */
+    static prepareWords(
+        words: unknown[],
+        settings: QuestionSettings = {},
+        existingWords: string[] = [],
+        filter?: ProfanityFilterConfig
+    ): PreparedWord[] {
+        const options = {
+            language: isSupportedLanguage(settings.language) ? settings.language : 'en',
+            removeStopWords: settings.filter_stop_words !== false,
+            customStopWords: settings.custom_stop_words,
+            stem: !!settings.stemming,
+        } as const;
+
+        const known = [...existingWords];
+        const seen = new Set<string>();
+        const prepared: PreparedWord[] = [];
+
+        for (const word of words) {
+            if (typeof word !== 'string') continue;
+
+            let normalized = normalizePhrase(word, options);
+            if (normalized.length < 2) continue;
+
+            if (settings.merge_similar) {
+                normalized = known.find(k => fuzzyMatch(normalized, k, MERGE_TOLERANCE)) ?? normalized;
+            }
+            if (seen.has(normalized)) continue;
+
+            seen.add(normalized);
+            known.push(normalized);
+            prepared.push({
+                original: word.substring(0, 50),
+                normalized,
+                filtered: containsProfanity(word, filter),
+            });
+        }
+
+        return prepared;
+    }
+
+    /**
+     * Add weight changes for a question; they are sent on the next flush
+     */
+    static queueDeltas(sessionId: string, questionId: string, words: string[]): void {
+        if (words.length === 0) return;
+
+        let entry = pending.get(questionId);
+        if (!entry) {
+            entry = {
+                sessionId,
+                weights: new Map(),
+                timeout: setTimeout(() => {
+                    WordCloudService.flush(questionId).catch((error) => {
+                        logger.error({ error, questionId }, 'Error flushing word cloud deltas:');
+                    });
+                }, FLUSH_INTERVAL_MS),
+            };
+            pending.set(questionId, entry);
+        }
+
+        for (const word of words) {
+            entry.weights.set(word, (entry.weights.get(word) || 0) + 1);
+        }
+    }
+
+    /**
+     * Send a question's pending deltas to the presenters now
+     */
+    static async flush(questionId: string): Promise<void> {
+        const entry = pending.get(questionId);
+        if (!entry) return;
+
+        clearTimeout(entry.timeout);
+        pending.delete(questionId);
+
+        const deltas: WordCloudDelta[] = [...entry.weights].map(([word, delta]) => ({ word, delta }));
+        socketService.emitToPresenters(entry.sessionId, SocketEvents.WORD_CLOUD_UPDATED, {
+            question_id: questionId,
+            deltas,
+            response_count: await db.getResponseCount(questionId),
+        });
+    }
+}
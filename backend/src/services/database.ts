@@ -10,15 +10,31 @@ dotenv.config();
 import type {
   Session,
   Participant,
+  ParticipantRosterEntry,
+  Admission,
+  LobbyEntry,
   Question,
   Response,
   WordSubmission,
   TextResponse,
+  QnaQuestion,
+  QnaStatus,
+  ProfanitySettings,
+  Team,
+  SelfPacedAttempt,
+  CoHost,
+  CoHostRole,
+  BrainstormIdea,
+  BrainstormPhase,
   WordCloudWord,
   LeaderboardEntry,
   User,
   AuthToken,
-  RefreshToken
+  RefreshToken,
+  LibraryQuery,
+  LibraryPage,
+  LibrarySort,
+  TemplateMetadata
 } from '../types/index.js';
 export type QuestionType = 'poll' | 'quiz_mc' | 'scale' | 'nps' | 'brainstorm' | 'word_cloud';
 import logger from '../utils/logger.js';
@@ -35,12 +51,36 @@ const pool = new Pool({
   ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
 });
 
+function toQueryText(strings: TemplateStringsArray, values: any[]): string {
+  return strings.reduce((acc, str, i) => acc + str + (i < values.length ? `$${i + 1}` : ''), '');
+}
+
 async function sql(strings: TemplateStringsArray, ...values: any[]) {
-  const text = strings.reduce((acc, str, i) => acc + str + (i < values.length ? `$${i + 1}` : ''), '');
-  const result = await pool.query(text, values);
+  const result = await pool.query(toQueryText(strings, values), values);
   return result.rows;
 }
 
+/**
+ * Run queries on one connection inside a transaction, rolling back if any fail
+ */
+async function transaction<T>(work: (tx: typeof sql) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  const tx = async (strings: TemplateStringsArray, ...values: any[]) =>
+    (await client.query(toQueryText(strings, values), values)).rows;
+
+  try {
+    await client.query('BEGIN');
+    const result = await work(tx);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Map DB session to camelCase interface
  */
@@ -105,17 +145,205 @@ export async function getSessionsByUserId(userId: string): Promise<Session[]> {
   return result as Session[];
 }
 
+// Sort keys are selected as text so they round-trip through the cursor unchanged
+const LIBRARY_SORTS: Record<LibrarySort, { expr: string; cast: string }> = {
+  created_at: { expr: 's.created_at', cast: 'timestamptz' },
+  play_count: { expr: 'COALESCE(s.play_count, 0)', cast: 'int' },
+  last_played_at: { expr: "COALESCE(s.last_played_at, '-infinity'::timestamptz)", cast: 'timestamptz' },
+};
+
+/**
+ * Search a user's library with filters, newest/most played first, paged by cursor.
+ * The cursor is the (sort key, id) of the last row of the previous page.
+ */
+export async function searchLibrary(userId: string, query: LibraryQuery): Promise<LibraryPage> {
+  const sort = LIBRARY_SORTS[query.sort || 'created_at'];
+  const limit = Math.min(Math.max(query.limit || 24, 1), 100);
+
+  const conditions: string[] = ['s.user_id = $1', 's.is_deleted = false', 'COALESCE(s.is_template, false) = false'];
+  const values: unknown[] = [userId];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (query.search) {
+    const q = param(query.search);
+    conditions.push(`(
+      to_tsvector('english', coalesce(s.title, '') || ' ' || coalesce(s.description, '')) @@ websearch_to_tsquery('english', ${q})
+      OR EXISTS (
+        SELECT 1 FROM questions q
+        WHERE q.session_id = s.id
+          AND to_tsvector('english', q.question_text) @@ websearch_to_tsquery('english', ${q})
+      )
+    )`);
+  }
+  if (query.mode) {
+    conditions.push(`s.mode = ${param(query.mode)}`);
+  }
+  if (query.status) {
+    conditions.push(`s.status = ${param(query.status)}`);
+  }
+  if (query.folderId === null) {
+    conditions.push('s.folder_id IS NULL');
+  } else if (query.folderId) {
+    conditions.push(`s.folder_id = ${param(query.folderId)}`);
+  }
+  if (query.favorite !== undefined) {
+    conditions.push(`COALESCE(s.is_favorite, false) = ${param(query.favorite)}`);
+  }
+  if (query.cursor) {
+    const cursor = decodeLibraryCursor(query.cursor);
+    if (cursor) {
+      conditions.push(`(${sort.expr}, s.id) < (${param(cursor.key)}::${sort.cast}, ${param(cursor.id)}::uuid)`);
+    }
+  }
+
+  const result = await pool.query(`
+    SELECT s.*, (${sort.expr})::text AS sort_key
+    FROM sessions s
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${sort.expr} DESC, s.id DESC
+    LIMIT ${param(limit + 1)}
+  `, values);
+
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+  const nextCursor = result.rows.length > limit && last
+    ? Buffer.from(JSON.stringify({ key: last.sort_key, id: last.id })).toString('base64url')
+    : null;
+
+  return {
+    sessions: rows.map(({ sort_key, ...session }) => session as Session),
+    nextCursor,
+  };
+}
+
+function decodeLibraryCursor(cursor: string): { key: string; id: string } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.key === 'string' && typeof decoded?.id === 'string' ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Count a run of the session for library stats and "last played" sorting
+ */
+export async function recordSessionPlay(sessionId: string): Promise<void> {
+  await sql`
+    UPDATE sessions
+    SET play_count = COALESCE(play_count, 0) + 1, last_played_at = NOW()
+    WHERE id = ${sessionId}
+  `;
+}
+
 export async function deleteSession(sessionId: string): Promise<void> {
   await sql`
-    UPDATE sessions SET is_deleted = true WHERE id = ${sessionId}
+    UPDATE sessions SET is_deleted = true, deleted_at = NOW() WHERE id = ${sessionId}
   `;
 }
 
-export async function duplicateSession(sessionId: string, newTitle?: string): Promise<Session> {
-  const session = await getSessionById(sessionId);
-  if (!session) throw new Error('Session not found');
+export async function getTrashedSessions(userId: string): Promise<Session[]> {
+  const result = await sql`
+    SELECT * FROM sessions
+    WHERE user_id = ${userId} AND is_deleted = true
+    ORDER BY deleted_at DESC NULLS LAST
+  `;
+  return result as Session[];
+}
 
-  const questions = await getQuestionsBySession(sessionId);
+export async function restoreSession(sessionId: string): Promise<void> {
+  await sql`
+    UPDATE sessions SET is_deleted = false, deleted_at = NULL WHERE id = ${sessionId}
+  `;
+}
+
+// Tables added by feature migrations; a purge skips any that haven't been created
+const PURGE_FEATURE_TABLES = [
+  'brainstorm_ideas', 'brainstorm_votes', 'qna_questions', 'qna_votes',
+  'participant_bans', 'self_paced_attempts', 'session_cohosts', 'teams',
+];
+
+/**
+ * Permanently delete a session and everything collected in it, all or nothing.
+ * Children are removed explicitly rather than relying on every FK cascading.
+ */
+export async function purgeSession(sessionId: string): Promise<void> {
+  await transaction(async (tx) => {
+    const present = await tx`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = current_schema() AND table_name = ANY(${PURGE_FEATURE_TABLES})
+    `;
+    const has = new Set(present.map((row) => row.table_name as string));
+
+    if (has.has('brainstorm_votes')) {
+      await tx`
+        DELETE FROM brainstorm_votes WHERE idea_id IN (
+          SELECT bi.id FROM brainstorm_ideas bi
+          JOIN questions q ON q.id = bi.question_id
+          WHERE q.session_id = ${sessionId}
+        )
+      `;
+    }
+    if (has.has('brainstorm_ideas')) {
+      await tx`DELETE FROM brainstorm_ideas WHERE question_id IN (SELECT id FROM questions WHERE session_id = ${sessionId})`;
+    }
+    if (has.has('qna_votes')) {
+      await tx`DELETE FROM qna_votes WHERE qna_question_id IN (SELECT id FROM qna_questions WHERE session_id = ${sessionId})`;
+    }
+    if (has.has('qna_questions')) {
+      await tx`DELETE FROM qna_questions WHERE session_id = ${sessionId}`;
+    }
+    await tx`DELETE FROM text_responses WHERE question_id IN (SELECT id FROM questions WHERE session_id = ${sessionId})`;
+    await tx`DELETE FROM word_submissions WHERE question_id IN (SELECT id FROM questions WHERE session_id = ${sessionId})`;
+    await tx`DELETE FROM responses WHERE session_id = ${sessionId}`;
+    await tx`DELETE FROM questions WHERE session_id = ${sessionId}`;
+    if (has.has('participant_bans')) {
+      await tx`DELETE FROM participant_bans WHERE session_id = ${sessionId}`;
+    }
+    await tx`DELETE FROM participants WHERE session_id = ${sessionId}`;
+    if (has.has('self_paced_attempts')) {
+      await tx`DELETE FROM self_paced_attempts WHERE session_id = ${sessionId}`;
+    }
+    if (has.has('session_cohosts')) {
+      await tx`DELETE FROM session_cohosts WHERE session_id = ${sessionId}`;
+    }
+    if (has.has('teams')) {
+      await tx`DELETE FROM teams WHERE session_id = ${sessionId}`;
+    }
+    await tx`DELETE FROM sessions WHERE id = ${sessionId}`;
+  });
+}
+
+/**
+ * Purge sessions that have sat in the trash longer than the retention period
+ */
+export async function purgeTrashedSessions(retentionDays: number): Promise<number> {
+  const result = await sql`
+    SELECT id FROM sessions
+    WHERE is_deleted = true
+      AND deleted_at IS NOT NULL
+      AND deleted_at < NOW() - make_interval(days => ${retentionDays}::int)
+  `;
+
+  for (const row of result) {
+    await purgeSession(row.id);
+  }
+  return result.length;
+}
+
+/**
+ * Deep-copy a session and its questions into a new, unplayed session
+ */
+async function copySession(
+  source: Session,
+  title: string,
+  presenterId: string,
+  ownerId?: string
+): Promise<Session> {
+  const questions = await getQuestionsBySession(source.id);
 
   // Create new session
   const joinCode = Math.random().toString(36).substring(2, 8).toUpperCase();
@@ -123,11 +351,11 @@ export async function duplicateSession(sessionId: string, newTitle?: string): Pr
 
   const newSession = await createSession(
     joinCode,
-    newTitle || `${session.title} (Copy)`,
-    session.presenter_id,
-    session.mode,
+    title,
+    presenterId,
+    source.mode,
     expiresAt,
-    session.user_id || undefined
+    ownerId
   );
 
   // Copy questions
@@ -143,10 +371,128 @@ export async function duplicateSession(sessionId: string, newTitle?: string): Pr
   return newSession;
 }
 
+export async function duplicateSession(sessionId: string, newTitle?: string): Promise<Session> {
+  const session = await getSessionById(sessionId);
+  if (!session) throw new Error('Session not found');
+
+  return copySession(
+    session,
+    newTitle || `${session.title} (Copy)`,
+    session.presenter_id,
+    session.user_id || undefined
+  );
+}
+
+// ============================================
+// TEMPLATE OPERATIONS
+// ============================================
+
+/**
+ * Publish a copy of a session as a template. The copy is closed to
+ * participants (status 'ended') and hidden from the owner's library.
+ */
+export async function publishTemplate(
+  sessionId: string,
+  meta: TemplateMetadata
+): Promise<Session> {
+  const session = await getSessionById(sessionId);
+  if (!session) throw new Error('Session not found');
+
+  const template = await copySession(
+    session,
+    meta.title || session.title,
+    session.presenter_id,
+    session.user_id || undefined
+  );
+
+  const result = await sql`
+    UPDATE sessions
+    SET is_template = true,
+        status = 'ended',
+        description = ${meta.description ?? session.description ?? ''},
+        template_category = ${meta.category ?? null},
+        tags = ${JSON.stringify(meta.tags ?? [])},
+        thumbnail_url = ${meta.thumbnail_url ?? null},
+        visibility = ${meta.visibility ?? 'private'}
+    WHERE id = ${template.id}
+    RETURNING *
+  `;
+  return result[0] as Session;
+}
+
+export async function updateTemplate(templateId: string, meta: TemplateMetadata): Promise<Session> {
+  const result = await sql`
+    UPDATE sessions
+    SET title = COALESCE(${meta.title ?? null}, title),
+        description = COALESCE(${meta.description ?? null}, description),
+        template_category = COALESCE(${meta.category ?? null}, template_category),
+        tags = COALESCE(${meta.tags ? JSON.stringify(meta.tags) : null}::jsonb, tags),
+        thumbnail_url = COALESCE(${meta.thumbnail_url ?? null}, thumbnail_url),
+        visibility = COALESCE(${meta.visibility ?? null}, visibility)
+    WHERE id = ${templateId} AND is_template = true
+    RETURNING *
+  `;
+  if (result.length === 0) throw new Error('Template not found');
+  return result[0] as Session;
+}
+
+/**
+ * Templates a user may see: built-ins (no owner), their own, public ones,
+ * and workspace ones from their organisation
+ */
+export async function getTemplates(
+  userId: string,
+  organizationId: string | null,
+  filters: { category?: string; search?: string } = {}
+): Promise<Session[]> {
+  const result = await sql`
+    SELECT s.*, (s.user_id IS NULL) AS is_builtin,
+      (SELECT COUNT(*) FROM questions q WHERE q.session_id = s.id)::int AS question_count
+    FROM sessions s
+    LEFT JOIN users u ON u.id = s.user_id
+    WHERE s.is_template = true
+      AND s.is_deleted = false
+      AND (
+        s.user_id IS NULL
+        OR s.user_id = ${userId}
+        OR s.visibility = 'public'
+        OR (s.visibility = 'workspace' AND ${organizationId}::uuid IS NOT NULL AND u.organization_id = ${organizationId}::uuid)
+      )
+      AND (${filters.category ?? null}::text IS NULL OR s.template_category = ${filters.category ?? null})
+      AND (${filters.search ?? null}::text IS NULL OR s.title ILIKE '%' || ${filters.search ?? null} || '%')
+    ORDER BY (s.user_id IS NULL) DESC, s.play_count DESC NULLS LAST, s.created_at DESC
+  `;
+  return result as Session[];
+}
+
+/**
+ * Start a new session owned by the user from a template
+ */
+export async function createSessionFromTemplate(
+  templateId: string,
+  userId: string,
+  presenterId: string,
+  title?: string
+): Promise<Session> {
+  const template = await getSessionById(templateId);
+  if (!template || !template.is_template) throw new Error('Template not found');
+
+  const session = await copySession(template, title || template.title, presenterId, userId);
+
+  // Popularity for the gallery's sort order
+  await sql`UPDATE sessions SET play_count = COALESCE(play_count, 0) + 1 WHERE id = ${templateId}`;
+
+  if (template.description) {
+    await sql`UPDATE sessions SET description = ${template.description} WHERE id = ${session.id}`;
+    session.description = template.description;
+  }
+  return session;
+}
+
 export async function getSessionByCode(joinCode: string): Promise<Session | null> {
   const result = await sql`
     SELECT * FROM sessions 
-    WHERE join_code = ${joinCode} AND status IN ('active', 'live')
+    WHERE join_code = ${joinCode} AND status IN ('active', 'live', 'paused')
   `;
   return result[0] as Session || null;
 }
@@ -175,9 +521,66 @@ export async function updateSessionStatus(
   }
 }
 
+/**
+ * Pause a live session, freezing the active question's countdown with the
+ * time it had left. Returns false if the session wasn't live.
+ */
+export async function pauseSession(sessionId: string): Promise<boolean> {
+  return transaction(async (tx) => {
+    const result = await tx`
+      UPDATE sessions
+      SET status = 'paused', paused_at = NOW()
+      WHERE id = ${sessionId} AND status = 'live'
+      RETURNING id
+    `;
+    if (result.length === 0) return false;
+
+    await tx`
+      UPDATE questions
+      SET paused_remaining_ms = GREATEST(0, EXTRACT(EPOCH FROM (ends_at - NOW())) * 1000)::int, ends_at = NULL
+      WHERE session_id = ${sessionId} AND is_active = true AND ends_at IS NOT NULL
+    `;
+    return true;
+  });
+}
+
+/**
+ * Resume a paused session, adding the time it spent paused to the active
+ * question so it is left out of response times, and restarting its countdown
+ * with the time it had left. Returns the paused time, or null if the session
+ * wasn't paused.
+ */
+export async function resumeSession(sessionId: string): Promise<number | null> {
+  return transaction(async (tx) => {
+    const result = await tx`
+      WITH paused AS (
+        SELECT id, paused_at FROM sessions
+        WHERE id = ${sessionId} AND status = 'paused'
+        FOR UPDATE
+      )
+      UPDATE sessions s
+      SET status = 'live', paused_at = NULL
+      FROM paused
+      WHERE s.id = paused.id
+      RETURNING GREATEST(0, EXTRACT(EPOCH FROM (NOW() - paused.paused_at)) * 1000)::int AS paused_ms
+    `;
+    if (result.length === 0) return null;
+
+    const pausedMs = result[0].paused_ms ?? 0;
+    await tx`
+      UPDATE questions
+      SET paused_ms = paused_ms + ${pausedMs},
+          ends_at = COALESCE(NOW() + paused_remaining_ms * INTERVAL '1 millisecond', ends_at),
+          paused_remaining_ms = NULL
+      WHERE session_id = ${sessionId} AND is_active = true
+    `;
+    return pausedMs;
+  });
+}
+
 export async function updateSession(
   sessionId: string,
-  updates: Partial<Pick<Session, 'status' | 'current_question_id' | 'title' | 'mode' | 'ended_at'>>
+  updates: Partial<Pick<Session, 'status' | 'current_question_id' | 'title' | 'mode' | 'ended_at' | 'description' | 'settings'>>
 ): Promise<Session> {
   const fields: string[] = [];
   const values: unknown[] = [];
@@ -202,6 +605,14 @@ export async function updateSession(
     fields.push(`ended_at = $${fields.length + 1}`);
     values.push(updates.ended_at);
   }
+  if (updates.description !== undefined) {
+    fields.push(`description = $${fields.length + 1}`);
+    values.push(updates.description);
+  }
+  if (updates.settings !== undefined) {
+    fields.push(`settings = $${fields.length + 1}`);
+    values.push(JSON.stringify(updates.settings));
+  }
 
   if (fields.length === 0) {
     const existing = await getSessionById(sessionId);
@@ -237,11 +648,36 @@ export async function setCurrentQuestion(
   `;
 }
 
+/**
+ * Take the next broadcast sequence number for a session. Kept on the session
+ * row so every server instance numbers from the same counter and a restart
+ * carries on where it left off. Returns null if the session is gone.
+ */
+export async function nextBroadcastSeq(sessionId: string): Promise<number | null> {
+  const result = await sql`
+    UPDATE sessions
+    SET broadcast_seq = broadcast_seq + 1
+    WHERE id = ${sessionId}
+    RETURNING broadcast_seq
+  `;
+  return result.length > 0 ? Number(result[0].broadcast_seq) : null;
+}
+
+/**
+ * The session's last broadcast sequence number, 0 before the first
+ */
+export async function getBroadcastSeq(sessionId: string): Promise<number> {
+  const result = await sql`
+    SELECT broadcast_seq FROM sessions WHERE id = ${sessionId}
+  `;
+  return result.length > 0 ? Number(result[0].broadcast_seq) : 0;
+}
+
 export async function expireOldSessions(): Promise<number> {
   const result = await sql`
     UPDATE sessions 
     SET status = 'ended', ended_at = NOW()
-    WHERE status IN ('active', 'live') AND expires_at < NOW()
+    WHERE status IN ('active', 'live', 'paused') AND expires_at < NOW()
     RETURNING id
   `;
   return result.length;
@@ -251,12 +687,23 @@ export async function expireOldSessions(): Promise<number> {
 // PARTICIPANT OPERATIONS
 // ============================================
 
+/**
+ * `nickname`, `profile`, `avatarColor` and `admission` only apply to a new participant
+ */
 export async function getOrCreateParticipant(
   sessionId: string,
   cookieId: string,
   socketId: string,
-  nickname?: string
+  options: {
+    nickname?: string;
+    profile?: Record<string, string>;
+    avatarColor?: string;
+    admission?: Admission;
+    ipHash?: string | null;
+  } = {}
 ): Promise<Participant> {
+  const { nickname, profile = {}, avatarColor = '#3B82F6', admission = 'admitted', ipHash = null } = options;
+
   // Try to find existing participant
   const existing = await sql`
     SELECT * FROM participants 
@@ -267,7 +714,8 @@ export async function getOrCreateParticipant(
     // Update socket_id and connection status
     const updated = await sql`
       UPDATE participants 
-      SET socket_id = ${socketId}, is_connected = true, last_seen_at = NOW()
+      SET socket_id = ${socketId}, is_connected = true, last_seen_at = NOW(),
+          ip_hash = COALESCE(${ipHash}, ip_hash)
       WHERE id = ${existing[0].id}
       RETURNING *
     `;
@@ -276,13 +724,35 @@ export async function getOrCreateParticipant(
 
   // Create new participant
   const result = await sql`
-    INSERT INTO participants (session_id, cookie_id, socket_id, nickname)
-    VALUES (${sessionId}, ${cookieId}, ${socketId}, ${nickname})
+    INSERT INTO participants (session_id, cookie_id, socket_id, nickname, profile, avatar_color, admission, ip_hash)
+    VALUES (${sessionId}, ${cookieId}, ${socketId}, ${nickname}, ${JSON.stringify(profile)}::jsonb, ${avatarColor}, ${admission}, ${ipHash})
     RETURNING *
   `;
   return result[0] as Participant;
 }
 
+export async function getParticipantByCookie(sessionId: string, cookieId: string): Promise<Participant | null> {
+  const result = await sql`
+    SELECT * FROM participants WHERE session_id = ${sessionId} AND cookie_id = ${cookieId}
+  `;
+  return result[0] as Participant || null;
+}
+
+/**
+ * Whether another participant in the session already uses this nickname (case-insensitive)
+ */
+export async function isNicknameTaken(sessionId: string, nickname: string, exceptCookieId: string): Promise<boolean> {
+  const result = await sql`
+    SELECT 1 FROM participants
+    WHERE session_id = ${sessionId}
+      AND LOWER(nickname) = LOWER(${nickname})
+      AND cookie_id != ${exceptCookieId}
+      AND is_removed = false
+    LIMIT 1
+  `;
+  return result.length > 0;
+}
+
 export async function updateParticipantNickname(
   participantId: string,
   nickname: string
@@ -302,17 +772,79 @@ export async function disconnectParticipant(socketId: string): Promise<Participa
   return result[0] as Participant || null;
 }
 
-export async function removeParticipant(participantId: string): Promise<void> {
-  await sql`
+export async function removeParticipant(sessionId: string, participantId: string): Promise<Participant | null> {
+  const result = await sql`
     UPDATE participants SET is_removed = true, is_connected = false 
-    WHERE id = ${participantId}
+    WHERE id = ${participantId} AND session_id = ${sessionId}
+    RETURNING *
+  `;
+  return result[0] as Participant || null;
+}
+
+/**
+ * Let a removed participant back in, lifting any ban on them
+ */
+export async function restoreParticipant(sessionId: string, participantId: string): Promise<Participant | null> {
+  await sql`
+    DELETE FROM participant_bans WHERE session_id = ${sessionId} AND participant_id = ${participantId}
+  `;
+  const result = await sql`
+    UPDATE participants SET is_removed = false
+    WHERE id = ${participantId} AND session_id = ${sessionId}
+    RETURNING *
+  `;
+  return result[0] as Participant || null;
+}
+
+/**
+ * Whether a participant is still allowed to take part: not removed, and let in from the lobby
+ */
+export async function getParticipantStanding(participantId: string): Promise<Pick<Participant, 'is_removed' | 'admission'> | null> {
+  const result = await sql`
+    SELECT is_removed, admission FROM participants WHERE id = ${participantId}
+  `;
+  return result[0] as Pick<Participant, 'is_removed' | 'admission'> || null;
+}
+
+export async function banParticipant(participant: Participant, bannedBy: string | null): Promise<void> {
+  await sql`
+    INSERT INTO participant_bans (session_id, participant_id, cookie_id, ip_hash, banned_by)
+    VALUES (${participant.session_id}, ${participant.id}, ${participant.cookie_id}, ${participant.ip_hash ?? null}, ${bannedBy})
+    ON CONFLICT (session_id, participant_id) DO NOTHING
+  `;
+}
+
+/**
+ * Whether a ban in the session covers this browser cookie or network address
+ */
+export async function isBanned(sessionId: string, cookieId: string, ipHash: string | null): Promise<boolean> {
+  const result = await sql`
+    SELECT 1 FROM participant_bans
+    WHERE session_id = ${sessionId}
+      AND (cookie_id = ${cookieId} OR ip_hash = ${ipHash})
+    LIMIT 1
   `;
+  return result.length > 0;
+}
+
+/**
+ * Everyone who has joined, removed participants included, for the presenter's list
+ */
+export async function getParticipantRoster(sessionId: string): Promise<ParticipantRosterEntry[]> {
+  const result = await sql`
+    SELECT p.id AS participant_id, p.nickname, p.is_connected, p.is_removed, p.joined_at,
+           EXISTS (SELECT 1 FROM participant_bans b WHERE b.participant_id = p.id) AS is_banned
+    FROM participants p
+    WHERE p.session_id = ${sessionId}
+    ORDER BY p.is_removed, p.joined_at
+  `;
+  return result as ParticipantRosterEntry[];
 }
 
 export async function getSessionParticipants(sessionId: string): Promise<Participant[]> {
   const result = await sql`
     SELECT * FROM participants 
-    WHERE session_id = ${sessionId} AND is_removed = false
+    WHERE session_id = ${sessionId} AND is_removed = false AND admission = 'admitted'
     ORDER BY joined_at
   `;
   return result as Participant[];
@@ -321,11 +853,51 @@ export async function getSessionParticipants(sessionId: string): Promise<Partici
 export async function getConnectedParticipantCount(sessionId: string): Promise<number> {
   const result = await sql`
     SELECT COUNT(*) as count FROM participants 
-    WHERE session_id = ${sessionId} AND is_connected = true AND is_removed = false
+    WHERE session_id = ${sessionId} AND is_connected = true AND is_removed = false AND admission = 'admitted'
   `;
   return parseInt(result[0].count, 10);
 }
 
+/**
+ * Connected participants, admitted or waiting, in the order they arrived
+ */
+export async function getLobby(sessionId: string): Promise<LobbyEntry[]> {
+  const result = await sql`
+    SELECT id AS participant_id, nickname, avatar_color, admission, joined_at
+    FROM participants
+    WHERE session_id = ${sessionId} AND is_connected = true AND is_removed = false AND admission != 'rejected'
+    ORDER BY joined_at
+  `;
+  return result as LobbyEntry[];
+}
+
+/**
+ * Let waiting participants in; all of them when `participantIds` is null. Returns who was admitted.
+ */
+export async function admitParticipants(sessionId: string, participantIds: string[] | null): Promise<string[]> {
+  const result = participantIds === null
+    ? await sql`
+        UPDATE participants SET admission = 'admitted'
+        WHERE session_id = ${sessionId} AND admission = 'pending'
+        RETURNING id
+      `
+    : await sql`
+        UPDATE participants SET admission = 'admitted'
+        WHERE session_id = ${sessionId} AND admission = 'pending' AND id = ANY(${participantIds}::uuid[])
+        RETURNING id
+      `;
+  return result.map((row: { id: string }) => row.id);
+}
+
+export async function rejectParticipant(sessionId: string, participantId: string): Promise<boolean> {
+  const result = await sql`
+    UPDATE participants SET admission = 'rejected', is_connected = false
+    WHERE id = ${participantId} AND session_id = ${sessionId} AND admission = 'pending'
+    RETURNING id
+  `;
+  return result.length > 0;
+}
+
 export async function getParticipantBySocket(socketId: string): Promise<Participant | null> {
   const result = await sql`
     SELECT * FROM participants WHERE socket_id = ${socketId}
@@ -341,13 +913,13 @@ export async function createQuestion(question: Partial<Question>): Promise<Quest
   const result = await sql`
     INSERT INTO questions (
       session_id, question_type, question_text, options, settings,
-      correct_answer, time_limit, display_order
+      correct_answer, time_limit, display_order, audio_url, media_url
     )
     VALUES (
       ${question.session_id}, ${question.question_type}, ${question.question_text},
       ${JSON.stringify(question.options)}, ${JSON.stringify(question.settings || {})},
       ${JSON.stringify(question.correct_answer)}, ${question.time_limit},
-      ${question.display_order}
+      ${question.display_order}, ${question.audio_url ?? null}, ${question.media_url ?? null}
     )
     RETURNING *
   `;
@@ -384,8 +956,8 @@ export async function activateQuestion(
   // Activate the specified question
   await sql`
     UPDATE questions 
-    SET is_active = true, activated_at = NOW(), is_locked = false, is_results_visible = false
-    WHERE id = ${questionId}
+    SET is_active = true, activated_at = NOW(), paused_ms = 0, ends_at = NULL, paused_remaining_ms = NULL, is_locked = false, is_results_visible = false
+    WHERE id = ${questionId} AND session_id = ${sessionId}
   `;
   // Update session's current question
   await setCurrentQuestion(sessionId, questionId);
@@ -395,8 +967,16 @@ export async function lockQuestion(questionId: string): Promise<void> {
   await sql`UPDATE questions SET is_locked = true WHERE id = ${questionId}`;
 }
 
+// Unlocking hands the question back to the presenter, so any countdown deadline goes too
 export async function unlockQuestion(questionId: string): Promise<void> {
-  await sql`UPDATE questions SET is_locked = false WHERE id = ${questionId}`;
+  await sql`UPDATE questions SET is_locked = false, ends_at = NULL, paused_remaining_ms = NULL WHERE id = ${questionId}`;
+}
+
+/**
+ * Record when a question's countdown runs out, or clear it with null
+ */
+export async function setQuestionDeadline(questionId: string, endsAt: Date | null): Promise<void> {
+  await sql`UPDATE questions SET ends_at = ${endsAt} WHERE id = ${questionId}`;
 }
 
 export async function showResults(questionId: string): Promise<void> {
@@ -411,6 +991,134 @@ export async function getActiveQuestion(sessionId: string): Promise<Question | n
   return result[0] as Question || null;
 }
 
+export async function updateQuestion(
+  questionId: string,
+  updates: Partial<Pick<Question, 'question_type' | 'question_text' | 'options' | 'settings' | 'correct_answer' | 'time_limit' | 'display_order' | 'audio_url' | 'media_url'>>
+): Promise<Question> {
+  const fields: string[] = [];
+  const values: unknown[] = [];
+
+  if (updates.question_type !== undefined) {
+    fields.push(`question_type = $${fields.length + 1}`);
+    values.push(updates.question_type);
+  }
+  if (updates.question_text !== undefined) {
+    fields.push(`question_text = $${fields.length + 1}`);
+    values.push(updates.question_text);
+  }
+  if (updates.options !== undefined) {
+    fields.push(`options = $${fields.length + 1}`);
+    values.push(JSON.stringify(updates.options));
+  }
+  if (updates.settings !== undefined) {
+    fields.push(`settings = $${fields.length + 1}`);
+    values.push(JSON.stringify(updates.settings || {}));
+  }
+  if (updates.correct_answer !== undefined) {
+    fields.push(`correct_answer = $${fields.length + 1}`);
+    values.push(JSON.stringify(updates.correct_answer));
+  }
+  if (updates.time_limit !== undefined) {
+    fields.push(`time_limit = $${fields.length + 1}`);
+    values.push(updates.time_limit);
+  }
+  if (updates.display_order !== undefined) {
+    fields.push(`display_order = $${fields.length + 1}`);
+    values.push(updates.display_order);
+  }
+  if (updates.audio_url !== undefined) {
+    fields.push(`audio_url = $${fields.length + 1}`);
+    values.push(updates.audio_url);
+  }
+  if (updates.media_url !== undefined) {
+    fields.push(`media_url = $${fields.length + 1}`);
+    values.push(updates.media_url);
+  }
+
+  if (fields.length === 0) {
+    const existing = await getQuestionById(questionId);
+    if (!existing) {
+      throw new Error('Question not found');
+    }
+    return existing;
+  }
+
+  const queryText = `
+    UPDATE questions
+    SET ${fields.join(', ')}
+    WHERE id = $${fields.length + 1}
+    RETURNING *
+  `;
+
+  const result = await pool.query(queryText, [...values, questionId]);
+  if (result.rows.length === 0) {
+    throw new Error('Question not found');
+  }
+
+  return result.rows[0] as Question;
+}
+
+export async function deleteQuestion(questionId: string): Promise<void> {
+  // current_question_id has no FK, so clear it by hand
+  await sql`
+    UPDATE sessions SET current_question_id = NULL WHERE current_question_id = ${questionId}
+  `;
+  await sql`DELETE FROM questions WHERE id = ${questionId}`;
+}
+
+/**
+ * Set display_order from the position of each id in the list.
+ * Ids that don't belong to the session are ignored.
+ */
+export async function reorderQuestions(sessionId: string, questionIds: string[]): Promise<Question[]> {
+  await transaction(async (tx) => {
+    for (const [index, questionId] of questionIds.entries()) {
+      await tx`
+        UPDATE questions SET display_order = ${index}
+        WHERE id = ${questionId} AND session_id = ${sessionId}
+      `;
+    }
+  });
+  return getQuestionsBySession(sessionId);
+}
+
+/**
+ * Count everything participants have submitted for a question, across all response tables
+ */
+export async function getQuestionActivityCount(questionId: string): Promise<number> {
+  const result = await sql`
+    SELECT
+      (SELECT COUNT(*) FROM responses WHERE question_id = ${questionId}) +
+      (SELECT COUNT(*) FROM word_submissions WHERE question_id = ${questionId}) +
+      (SELECT COUNT(*) FROM text_responses WHERE question_id = ${questionId}) +
+      (SELECT COUNT(*) FROM brainstorm_ideas WHERE question_id = ${questionId}) as count
+  `;
+  return parseInt(result[0].count, 10);
+}
+
+/**
+ * Wipe all submissions for a question and take its points back off the leaderboard
+ */
+export async function resetQuestionResponses(questionId: string): Promise<void> {
+  await transaction(async (tx) => {
+    await tx`
+      UPDATE participants p
+      SET total_score = GREATEST(0, p.total_score - r.score)
+      FROM responses r
+      WHERE r.participant_id = p.id AND r.question_id = ${questionId} AND r.score > 0
+    `;
+    await tx`DELETE FROM responses WHERE question_id = ${questionId}`;
+    await tx`DELETE FROM word_submissions WHERE question_id = ${questionId}`;
+    await tx`DELETE FROM text_responses WHERE question_id = ${questionId}`;
+    await tx`DELETE FROM brainstorm_ideas WHERE question_id = ${questionId}`;
+    await tx`
+      UPDATE questions
+      SET is_locked = false, is_results_visible = false, brainstorm_phase = 'submit', ends_at = NULL, paused_remaining_ms = NULL
+      WHERE id = ${questionId}
+    `;
+  });
+}
+
 // ============================================
 // RESPONSE OPERATIONS
 // ============================================
@@ -422,18 +1130,20 @@ export async function submitResponse(
   responseData: any,
   isCorrect?: boolean,
   score?: number,
-  responseTimeMs?: number
+  responseTimeMs?: number,
+  flagReason?: string | null
 ): Promise<{ success: boolean; isDuplicate: boolean; response?: Response }> {
   try {
     const result = await sql`
       INSERT INTO responses (
         question_id, participant_id, session_id, response_data,
-        is_correct, score, response_time_ms
+        is_correct, score, response_time_ms, is_flagged, flag_reason
       )
       VALUES (
         ${questionId}, ${participantId}, ${sessionId},
         ${JSON.stringify(responseData)},
-        ${isCorrect ?? null}, ${score ?? 0}, ${responseTimeMs ?? null}
+        ${isCorrect ?? null}, ${score ?? 0}, ${responseTimeMs ?? null},
+        ${!!flagReason}, ${flagReason ?? null}
       )
       RETURNING *
     `;
@@ -457,6 +1167,29 @@ export async function submitResponse(
   }
 }
 
+/**
+ * Everything a participant answered in a session, for their personal results
+ */
+export async function getParticipantAnswers(sessionId: string, participantId: string): Promise<{
+  responses: Response[];
+  texts: TextResponse[];
+  words: WordSubmission[];
+}> {
+  const responses = await sql`
+    SELECT * FROM responses WHERE session_id = ${sessionId} AND participant_id = ${participantId}
+  `;
+  const texts = await sql`
+    SELECT * FROM text_responses
+    WHERE participant_id = ${participantId} AND question_id IN (SELECT id FROM questions WHERE session_id = ${sessionId})
+  `;
+  const words = await sql`
+    SELECT * FROM word_submissions
+    WHERE participant_id = ${participantId} AND question_id IN (SELECT id FROM questions WHERE session_id = ${sessionId})
+    ORDER BY submitted_at
+  `;
+  return { responses: responses as Response[], texts: texts as TextResponse[], words: words as WordSubmission[] };
+}
+
 export async function getResponseCount(questionId: string): Promise<number> {
   const result = await sql`
     SELECT COUNT(*) as count FROM responses WHERE question_id = ${questionId}
@@ -553,6 +1286,17 @@ export async function submitWords(
   }
 }
 
+/**
+ * Words a participant has already submitted to a question, filtered ones included
+ */
+export async function countWordSubmissions(questionId: string, participantId: string): Promise<number> {
+  const result = await sql`
+    SELECT COUNT(*)::int AS count FROM word_submissions
+    WHERE question_id = ${questionId} AND participant_id = ${participantId}
+  `;
+  return result[0].count;
+}
+
 export async function getWordCloudData(
   questionId: string,
   limit: number = 100
@@ -578,12 +1322,13 @@ export async function getWordCloudData(
 export async function submitTextResponse(
   questionId: string,
   participantId: string,
-  content: string
+  content: string,
+  status: TextResponse['moderation_status'] = 'pending'
 ): Promise<{ success: boolean; isDuplicate: boolean; response?: TextResponse }> {
   try {
     const result = await sql`
-      INSERT INTO text_responses (question_id, participant_id, content)
-      VALUES (${questionId}, ${participantId}, ${content})
+      INSERT INTO text_responses (question_id, participant_id, content, moderation_status, moderated_at)
+      VALUES (${questionId}, ${participantId}, ${content}, ${status}, ${status === 'pending' ? null : new Date()})
       RETURNING *
     `;
     return { success: true, isDuplicate: false, response: result[0] as TextResponse };
@@ -616,15 +1361,45 @@ export async function getTextResponses(
   return result as TextResponse[];
 }
 
+/**
+ * Responses shown on screen: highlighted ones first, then approved
+ */
+export async function getVisibleTextResponses(questionId: string): Promise<TextResponse[]> {
+  const result = await sql`
+    SELECT * FROM text_responses
+    WHERE question_id = ${questionId} AND moderation_status IN ('approved', 'highlighted')
+    ORDER BY (moderation_status = 'highlighted') DESC, submitted_at
+  `;
+  return result as TextResponse[];
+}
+
+/**
+ * Set a response's moderation status. Scoped to the session so a presenter
+ * can only moderate their own responses; returns null if it isn't there.
+ */
 export async function moderateTextResponse(
+  sessionId: string,
   responseId: string,
-  status: 'approved' | 'hidden' | 'highlighted'
-): Promise<void> {
-  await sql`
-    UPDATE text_responses 
+  status: TextResponse['moderation_status']
+): Promise<TextResponse | null> {
+  const result = await sql`
+    UPDATE text_responses
     SET moderation_status = ${status}, moderated_at = NOW()
     WHERE id = ${responseId}
+      AND question_id IN (SELECT id FROM questions WHERE session_id = ${sessionId})
+    RETURNING *
   `;
+  return result[0] as TextResponse || null;
+}
+
+export async function approvePendingTextResponses(questionId: string): Promise<TextResponse[]> {
+  const result = await sql`
+    UPDATE text_responses
+    SET moderation_status = 'approved', moderated_at = NOW()
+    WHERE question_id = ${questionId} AND moderation_status = 'pending'
+    RETURNING *
+  `;
+  return result as TextResponse[];
 }
 
 // ============================================
@@ -706,129 +1481,420 @@ export async function updateUser(id: string, updates: Partial<User>): Promise<Us
     values.push(updates.role);
   }
 
-  if (fields.length === 0) return (await getUserById(id))!;
+  if (fields.length === 0) return (await getUserById(id))!;
+
+  if (fields.length === 0) return (await getUserById(id))!;
+
+  const queryText = `UPDATE public.users SET ${fields.join(', ')} WHERE id = $${fields.length + 1} RETURNING *`;
+
+  // Custom call to pool.query but with our error helper logic
+  try {
+    const result = await pool.query(queryText, [...values, id]);
+    return mapUser(result.rows[0]) as User;
+  } catch (error) {
+    const pathResult = await pool.query('SHOW search_path').catch(() => ({ rows: [{ search_path: 'unknown' }] }));
+    logger.error({
+      query: queryText,
+      values: [...values, id],
+      error,
+      search_path: pathResult.rows[0].search_path
+    }, '❌ updateUser Database Error');
+    throw error;
+  }
+}
+
+export async function createAuthToken(tokenData: Partial<AuthToken>): Promise<AuthToken> {
+  const result = await sql`
+    INSERT INTO auth_tokens (user_id, email, token_type, code, expires_at)
+    VALUES (${tokenData.user_id}, ${tokenData.email}, ${tokenData.token_type}, ${tokenData.code}, ${tokenData.expires_at})
+    RETURNING *
+  `;
+  return result[0] as AuthToken;
+}
+
+export async function getValidAuthToken(email: string, code: string, type: string): Promise<AuthToken | null> {
+  const result = await sql`
+    SELECT * FROM auth_tokens 
+    WHERE (email = ${email} OR user_id IN (SELECT id FROM users WHERE email = ${email}))
+    AND code = ${code} 
+    AND token_type = ${type}
+    AND expires_at > NOW()
+    AND used_at IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+  return (result[0] as AuthToken) || null;
+}
+
+export async function markAuthTokenUsed(tokenId: string): Promise<void> {
+  await sql`UPDATE auth_tokens SET used_at = NOW() WHERE id = ${tokenId}`;
+}
+
+// ============================================
+// BRAINSTORM OPERATIONS
+// ============================================
+
+async function submitIdea(
+  questionId: string,
+  participantId: string,
+  content: string,
+  status: 'active' | 'hidden' = 'active'
+): Promise<{ success: boolean; idea?: any }> {
+  const existing = await sql`
+    SELECT id FROM brainstorm_ideas
+    WHERE question_id = ${questionId} AND participant_id = ${participantId}
+  `;
+  // Check max ideas per user (from question settings)
+  const question = await getQuestionById(questionId);
+  const maxIdeas = question?.settings?.max_ideas_per_user || 10;
+  if (existing.length >= maxIdeas) {
+    return { success: false };
+  }
+  const rows = await sql`
+    INSERT INTO brainstorm_ideas (question_id, participant_id, content, status)
+    VALUES (${questionId}, ${participantId}, ${content}, ${status})
+    RETURNING *
+  `;
+  return { success: true, idea: rows[0] };
+}
+
+/**
+ * Get a question's ideas with vote counts, grouped ones included.
+ * Hidden ideas are only returned for the presenter's view.
+ */
+async function getBrainstormIdeas(questionId: string, includeHidden = false): Promise<BrainstormIdea[]> {
+  const rows = await sql`
+    SELECT bi.*, COALESCE(bv.vote_count, 0)::int AS vote_count
+    FROM brainstorm_ideas bi
+    LEFT JOIN (
+      SELECT idea_id, SUM(weight) AS vote_count FROM brainstorm_votes GROUP BY idea_id
+    ) bv ON bv.idea_id = bi.id
+    WHERE bi.question_id = ${questionId}
+      AND (${includeHidden}::boolean OR bi.status != 'hidden')
+    ORDER BY vote_count DESC, bi.created_at ASC
+  `;
+  return rows as BrainstormIdea[];
+}
+
+/**
+ * Put ideas into a group, or take them out of any group when label is null.
+ * Hidden ideas are left alone. Returns how many ideas moved.
+ */
+async function setIdeaGroup(questionId: string, ideaIds: string[], label: string | null): Promise<number> {
+  const status = label ? 'grouped' : 'active';
+  const rows = await sql`
+    UPDATE brainstorm_ideas SET group_label = ${label}, status = ${status}
+    WHERE question_id = ${questionId} AND id = ANY(${ideaIds}::uuid[]) AND status != 'hidden'
+    RETURNING id
+  `;
+  return rows.length;
+}
+
+/**
+ * Move every idea in the source groups to the target label. Renaming a
+ * group is a merge of one group into a new label.
+ */
+async function mergeIdeaGroups(questionId: string, sourceLabels: string[], targetLabel: string): Promise<number> {
+  const rows = await sql`
+    UPDATE brainstorm_ideas SET group_label = ${targetLabel}
+    WHERE question_id = ${questionId} AND group_label = ANY(${sourceLabels}::text[])
+    RETURNING id
+  `;
+  return rows.length;
+}
+
+/**
+ * Hide an idea, or restore it to its group (or ungrouped) when unhiding
+ */
+async function setIdeaHidden(questionId: string, ideaId: string, hidden: boolean): Promise<boolean> {
+  const rows = await sql`
+    UPDATE brainstorm_ideas
+    SET status = CASE
+      WHEN ${hidden}::boolean THEN 'hidden'
+      WHEN group_label IS NOT NULL THEN 'grouped'
+      ELSE 'active'
+    END
+    WHERE id = ${ideaId} AND question_id = ${questionId}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+async function getBrainstormIdeaById(ideaId: string): Promise<BrainstormIdea | null> {
+  const rows = await sql`
+    SELECT bi.*, COALESCE((SELECT SUM(weight) FROM brainstorm_votes WHERE idea_id = bi.id), 0)::int AS vote_count
+    FROM brainstorm_ideas bi
+    WHERE bi.id = ${ideaId}
+  `;
+  return (rows[0] as BrainstormIdea) || null;
+}
+
+/**
+ * Toggle a vote on an idea. With allowMultiple, 'add' and 'remove' spend or
+ * take back one dot at a time instead. A budget caps the dots a participant
+ * can have out across the question's ideas.
+ */
+async function voteIdea(
+  ideaId: string,
+  participantId: string,
+  options: { budget?: number; allowMultiple?: boolean; action?: 'add' | 'remove' } = {}
+): Promise<{ success: boolean; action: 'voted' | 'unvoted'; reason?: 'already_voted' | 'budget_exceeded' | 'not_voted' }> {
+  const existing = await sql`
+    SELECT id, weight FROM brainstorm_votes
+    WHERE idea_id = ${ideaId} AND participant_id = ${participantId}
+  `;
+  const removing = options.action === 'remove' ||
+    (!options.action && existing.length > 0 && !options.allowMultiple);
 
-  if (fields.length === 0) return (await getUserById(id))!;
+  if (removing) {
+    if (existing.length === 0) {
+      return { success: false, action: 'unvoted', reason: 'not_voted' };
+    }
+    if (existing[0].weight > 1) {
+      await sql`UPDATE brainstorm_votes SET weight = weight - 1 WHERE id = ${existing[0].id}`;
+    } else {
+      await sql`DELETE FROM brainstorm_votes WHERE id = ${existing[0].id}`;
+    }
+    return { success: true, action: 'unvoted' };
+  }
 
-  const queryText = `UPDATE public.users SET ${fields.join(', ')} WHERE id = $${fields.length + 1} RETURNING *`;
+  if (existing.length > 0 && !options.allowMultiple) {
+    return { success: false, action: 'voted', reason: 'already_voted' };
+  }
 
-  // Custom call to pool.query but with our error helper logic
-  try {
-    const result = await pool.query(queryText, [...values, id]);
-    return mapUser(result.rows[0]) as User;
-  } catch (error) {
-    const pathResult = await pool.query('SHOW search_path').catch(() => ({ rows: [{ search_path: 'unknown' }] }));
-    logger.error({
-      query: queryText,
-      values: [...values, id],
-      error,
-      search_path: pathResult.rows[0].search_path
-    }, '❌ updateUser Database Error');
-    throw error;
+  if (options.budget !== undefined) {
+    const used = await sql`
+      SELECT COALESCE(SUM(bv.weight), 0)::int AS used FROM brainstorm_votes bv
+      JOIN brainstorm_ideas bi ON bi.id = bv.idea_id
+      WHERE bv.participant_id = ${participantId}
+        AND bi.question_id = (SELECT question_id FROM brainstorm_ideas WHERE id = ${ideaId})
+    `;
+    if (used[0].used >= options.budget) {
+      return { success: false, action: 'voted', reason: 'budget_exceeded' };
+    }
   }
+
+  if (existing.length > 0) {
+    await sql`UPDATE brainstorm_votes SET weight = weight + 1 WHERE id = ${existing[0].id}`;
+  } else {
+    await sql`
+      INSERT INTO brainstorm_votes (idea_id, participant_id)
+      VALUES (${ideaId}, ${participantId})
+    `;
+  }
+  return { success: true, action: 'voted' };
 }
 
-export async function createAuthToken(tokenData: Partial<AuthToken>): Promise<AuthToken> {
-  const result = await sql`
-    INSERT INTO auth_tokens (user_id, email, token_type, code, expires_at)
-    VALUES (${tokenData.user_id}, ${tokenData.email}, ${tokenData.token_type}, ${tokenData.code}, ${tokenData.expires_at})
-    RETURNING *
+/**
+ * Dots the participant has on each of the question's ideas
+ */
+async function getIdeaVotesForParticipant(
+  questionId: string,
+  participantId: string
+): Promise<Record<string, number>> {
+  const rows = await sql`
+    SELECT bv.idea_id, bv.weight FROM brainstorm_votes bv
+    JOIN brainstorm_ideas bi ON bi.id = bv.idea_id
+    WHERE bi.question_id = ${questionId} AND bv.participant_id = ${participantId}
   `;
-  return result[0] as AuthToken;
+  return Object.fromEntries(rows.map((r: any) => [r.idea_id, r.weight]));
 }
 
-export async function getValidAuthToken(email: string, code: string, type: string): Promise<AuthToken | null> {
-  const result = await sql`
-    SELECT * FROM auth_tokens 
-    WHERE (email = ${email} OR user_id IN (SELECT id FROM users WHERE email = ${email}))
-    AND code = ${code} 
-    AND token_type = ${type}
-    AND expires_at > NOW()
-    AND used_at IS NULL
-    ORDER BY created_at DESC
-    LIMIT 1
+async function setBrainstormPhase(questionId: string, phase: BrainstormPhase): Promise<void> {
+  await sql`UPDATE questions SET brainstorm_phase = ${phase} WHERE id = ${questionId}`;
+}
+
+/**
+ * Votes received by each author across a question's visible ideas
+ */
+async function getIdeaVotesByAuthor(questionId: string): Promise<{ participant_id: string; votes_received: number }[]> {
+  const rows = await sql`
+    SELECT bi.participant_id, COALESCE(SUM(bv.weight), 0)::int AS votes_received
+    FROM brainstorm_ideas bi
+    LEFT JOIN brainstorm_votes bv ON bv.idea_id = bi.id
+    WHERE bi.question_id = ${questionId} AND bi.status != 'hidden'
+    GROUP BY bi.participant_id
   `;
-  return (result[0] as AuthToken) || null;
+  return rows as { participant_id: string; votes_received: number }[];
 }
 
-export async function markAuthTokenUsed(tokenId: string): Promise<void> {
-  await sql`UPDATE auth_tokens SET used_at = NOW() WHERE id = ${tokenId}`;
+/**
+ * Record brainstorm scores as responses to the question so they count on the
+ * leaderboard. Replaces any scores from an earlier results phase, all or nothing.
+ */
+async function replaceBrainstormScores(
+  sessionId: string,
+  questionId: string,
+  scores: { participant_id: string; votes_received: number; score: number }[]
+): Promise<void> {
+  await transaction(async (tx) => {
+    await tx`
+      UPDATE participants p
+      SET total_score = GREATEST(0, p.total_score - r.score)
+      FROM responses r
+      WHERE r.participant_id = p.id AND r.question_id = ${questionId} AND r.score > 0
+    `;
+    await tx`DELETE FROM responses WHERE question_id = ${questionId}`;
+
+    for (const entry of scores) {
+      await tx`
+        INSERT INTO responses (question_id, participant_id, session_id, response_data, score)
+        VALUES (
+          ${questionId}, ${entry.participant_id}, ${sessionId},
+          ${JSON.stringify({ votes_received: entry.votes_received })}, ${entry.score}
+        )
+      `;
+      if (entry.score > 0) {
+        await tx`
+          UPDATE participants SET total_score = total_score + ${entry.score}
+          WHERE id = ${entry.participant_id}
+        `;
+      }
+    }
+  });
 }
 
 // ============================================
-// BRAINSTORM OPERATIONS
+// Q&A OPERATIONS
 // ============================================
 
-async function submitIdea(
-  questionId: string,
+const MAX_QNA_QUESTIONS_PER_PARTICIPANT = 10;
+
+async function askQnaQuestion(
+  sessionId: string,
   participantId: string,
-  content: string
-): Promise<{ success: boolean; idea?: any }> {
+  content: string,
+  isAnonymous: boolean,
+  status: QnaStatus = 'open'
+): Promise<{ success: boolean; question?: QnaQuestion }> {
   const existing = await sql`
-    SELECT id FROM brainstorm_ideas
-    WHERE question_id = ${questionId} AND participant_id = ${participantId}
+    SELECT id FROM qna_questions
+    WHERE session_id = ${sessionId} AND participant_id = ${participantId}
   `;
-  // Check max ideas per user (from question settings)
-  const question = await getQuestionById(questionId);
-  const maxIdeas = question?.settings?.max_ideas_per_user || 10;
-  if (existing.length >= maxIdeas) {
+  if (existing.length >= MAX_QNA_QUESTIONS_PER_PARTICIPANT) {
     return { success: false };
   }
   const rows = await sql`
-    INSERT INTO brainstorm_ideas (question_id, participant_id, content)
-    VALUES (${questionId}, ${participantId}, ${content})
-    RETURNING *
+    INSERT INTO qna_questions (session_id, participant_id, content, is_anonymous, status)
+    VALUES (${sessionId}, ${participantId}, ${content}, ${isAnonymous}, ${status})
+    RETURNING id
   `;
-  return { success: true, idea: rows[0] };
+  const question = await getQnaQuestionById(rows[0].id);
+  return { success: true, question: question! };
 }
 
-async function getBrainstormIdeas(questionId: string): Promise<any[]> {
+/**
+ * Get a session's Q&A questions with vote counts. Authors of anonymous
+ * questions are never returned.
+ * Order: pinned first, answered last, then most voted, then oldest.
+ */
+async function getQnaQuestions(sessionId: string, includeArchived = true): Promise<QnaQuestion[]> {
   const rows = await sql`
-    SELECT bi.*, COALESCE(bv.vote_count, 0)::int AS vote_count
-    FROM brainstorm_ideas bi
+    SELECT
+      qq.id, qq.session_id, qq.content, qq.is_anonymous, qq.status, qq.is_pinned,
+      qq.created_at, qq.answered_at,
+      CASE WHEN qq.is_anonymous THEN NULL ELSE qq.participant_id END AS participant_id,
+      CASE WHEN qq.is_anonymous THEN NULL ELSE p.nickname END AS nickname,
+      COALESCE(qv.vote_count, 0)::int AS vote_count
+    FROM qna_questions qq
+    LEFT JOIN participants p ON p.id = qq.participant_id
     LEFT JOIN (
-      SELECT idea_id, COUNT(*) AS vote_count FROM brainstorm_votes GROUP BY idea_id
-    ) bv ON bv.idea_id = bi.id
-    WHERE bi.question_id = ${questionId} AND bi.status = 'active'
-    ORDER BY vote_count DESC, bi.created_at ASC
+      SELECT qna_question_id, COUNT(*) AS vote_count FROM qna_votes GROUP BY qna_question_id
+    ) qv ON qv.qna_question_id = qq.id
+    WHERE qq.session_id = ${sessionId}
+      AND (${includeArchived}::boolean OR qq.status != 'archived')
+    ORDER BY qq.is_pinned DESC, (qq.status = 'answered') ASC, vote_count DESC, qq.created_at ASC
   `;
-  return rows;
+  return rows as QnaQuestion[];
 }
 
-async function voteIdea(
-  ideaId: string,
+async function getQnaQuestionById(qnaQuestionId: string): Promise<QnaQuestion | null> {
+  const rows = await sql`
+    SELECT
+      qq.id, qq.session_id, qq.content, qq.is_anonymous, qq.status, qq.is_pinned,
+      qq.created_at, qq.answered_at,
+      CASE WHEN qq.is_anonymous THEN NULL ELSE qq.participant_id END AS participant_id,
+      CASE WHEN qq.is_anonymous THEN NULL ELSE p.nickname END AS nickname,
+      (SELECT COUNT(*) FROM qna_votes WHERE qna_question_id = qq.id)::int AS vote_count
+    FROM qna_questions qq
+    LEFT JOIN participants p ON p.id = qq.participant_id
+    WHERE qq.id = ${qnaQuestionId}
+  `;
+  return (rows[0] as QnaQuestion) || null;
+}
+
+async function voteQnaQuestion(
+  qnaQuestionId: string,
   participantId: string
 ): Promise<{ success: boolean; action: 'voted' | 'unvoted' }> {
   // Toggle vote
   const existing = await sql`
-    SELECT id FROM brainstorm_votes
-    WHERE idea_id = ${ideaId} AND participant_id = ${participantId}
+    SELECT id FROM qna_votes
+    WHERE qna_question_id = ${qnaQuestionId} AND participant_id = ${participantId}
   `;
   if (existing.length > 0) {
     await sql`
-      DELETE FROM brainstorm_votes
-      WHERE idea_id = ${ideaId} AND participant_id = ${participantId}
+      DELETE FROM qna_votes
+      WHERE qna_question_id = ${qnaQuestionId} AND participant_id = ${participantId}
     `;
     return { success: true, action: 'unvoted' };
   } else {
     await sql`
-      INSERT INTO brainstorm_votes (idea_id, participant_id)
-      VALUES (${ideaId}, ${participantId})
+      INSERT INTO qna_votes (qna_question_id, participant_id)
+      VALUES (${qnaQuestionId}, ${participantId})
     `;
     return { success: true, action: 'voted' };
   }
 }
 
-async function getIdeaVotesForParticipant(
-  questionId: string,
+async function getQnaVotesForParticipant(
+  sessionId: string,
   participantId: string
 ): Promise<string[]> {
   const rows = await sql`
-    SELECT bv.idea_id FROM brainstorm_votes bv
-    JOIN brainstorm_ideas bi ON bi.id = bv.idea_id
-    WHERE bi.question_id = ${questionId} AND bv.participant_id = ${participantId}
+    SELECT qv.qna_question_id FROM qna_votes qv
+    JOIN qna_questions qq ON qq.id = qv.qna_question_id
+    WHERE qq.session_id = ${sessionId} AND qv.participant_id = ${participantId}
   `;
-  return rows.map((r: any) => r.idea_id);
+  return rows.map((r: any) => r.qna_question_id);
+}
+
+/**
+ * Update a Q&A question's state. Scoped to the session so presenters can
+ * only touch their own questions; returns null when nothing matched.
+ */
+async function updateQnaQuestion(
+  sessionId: string,
+  qnaQuestionId: string,
+  updates: { status?: QnaStatus; is_pinned?: boolean }
+): Promise<QnaQuestion | null> {
+  const fields: string[] = [];
+  const values: unknown[] = [];
+
+  if (updates.status !== undefined) {
+    fields.push(`status = $${fields.length + 1}`);
+    values.push(updates.status);
+    fields.push(updates.status === 'answered' ? 'answered_at = NOW()' : 'answered_at = NULL');
+  }
+  if (updates.is_pinned !== undefined) {
+    fields.push(`is_pinned = $${fields.length + 1}`);
+    values.push(updates.is_pinned);
+  }
+
+  if (fields.length === 0) {
+    return getQnaQuestionById(qnaQuestionId);
+  }
+
+  values.push(qnaQuestionId, sessionId);
+  const result = await pool.query(
+    `UPDATE qna_questions SET ${fields.join(', ')}
+     WHERE id = $${values.length - 1} AND session_id = $${values.length}
+     RETURNING id`,
+    values
+  );
+
+  if (result.rows.length === 0) return null;
+  return getQnaQuestionById(qnaQuestionId);
 }
 
 // ============================================
@@ -901,7 +1967,8 @@ async function getSessionReport(sessionId: string): Promise<any> {
 /**
  * Get leaderboard for a session based on scores
  */
-async function getLeaderboard(sessionId: string, limit: number = 50): Promise<any[]> {
+// A null limit returns every participant
+async function getLeaderboard(sessionId: string, limit: number | null = 50): Promise<any[]> {
   const rows = await sql`
         SELECT 
             p.id,
@@ -918,6 +1985,200 @@ async function getLeaderboard(sessionId: string, limit: number = 50): Promise<an
   return rows;
 }
 
+// ============================================
+// TEAM OPERATIONS
+// ============================================
+
+/**
+ * A session's teams with their current (non-removed) member counts
+ */
+async function getTeams(sessionId: string): Promise<Team[]> {
+  const rows = await sql`
+    SELECT t.*, COUNT(p.id)::int AS member_count
+    FROM teams t
+    LEFT JOIN participants p ON p.team_id = t.id AND p.is_removed = false
+    WHERE t.session_id = ${sessionId}
+    GROUP BY t.id
+    ORDER BY t.created_at, t.name
+  `;
+  return rows as Team[];
+}
+
+async function getTeamById(sessionId: string, teamId: string): Promise<Team | null> {
+  const rows = await sql`SELECT * FROM teams WHERE id = ${teamId} AND session_id = ${sessionId}`;
+  return rows[0] as Team || null;
+}
+
+/**
+ * Add teams by name; names the session already has are skipped
+ */
+async function createTeams(sessionId: string, teams: { name: string; color: string }[]): Promise<void> {
+  for (const team of teams) {
+    await sql`
+      INSERT INTO teams (session_id, name, color)
+      VALUES (${sessionId}, ${team.name}, ${team.color})
+      ON CONFLICT (session_id, name) DO NOTHING
+    `;
+  }
+}
+
+async function deleteTeam(sessionId: string, teamId: string): Promise<boolean> {
+  const rows = await sql`DELETE FROM teams WHERE id = ${teamId} AND session_id = ${sessionId} RETURNING id`;
+  return rows.length > 0;
+}
+
+/**
+ * Put a participant on a team (or take them off with null). Returns the
+ * updated participant, or null if they are not in the session.
+ */
+async function setParticipantTeam(sessionId: string, participantId: string, teamId: string | null): Promise<Participant | null> {
+  const rows = await sql`
+    UPDATE participants SET team_id = ${teamId}
+    WHERE id = ${participantId} AND session_id = ${sessionId}
+    RETURNING *
+  `;
+  return rows[0] as Participant || null;
+}
+
+/**
+ * Each team member's quiz score, for team aggregation and exports
+ */
+async function getTeamMemberScores(sessionId: string): Promise<{
+  participant_id: string;
+  nickname: string | null;
+  team_id: string;
+  total_score: number;
+}[]> {
+  const rows = await sql`
+    SELECT p.id AS participant_id, p.nickname, p.team_id, COALESCE(SUM(r.score), 0)::int AS total_score
+    FROM participants p
+    LEFT JOIN responses r ON r.participant_id = p.id
+    WHERE p.session_id = ${sessionId} AND p.team_id IS NOT NULL AND p.is_removed = false
+    GROUP BY p.id, p.nickname, p.team_id
+    ORDER BY total_score DESC
+  `;
+  return rows as any[];
+}
+
+// ============================================
+// SELF-PACED OPERATIONS
+// ============================================
+
+async function getLatestAttempt(sessionId: string, participantId: string): Promise<SelfPacedAttempt | null> {
+  const rows = await sql`
+    SELECT * FROM self_paced_attempts
+    WHERE session_id = ${sessionId} AND participant_id = ${participantId}
+    ORDER BY attempt_number DESC
+    LIMIT 1
+  `;
+  return rows[0] as SelfPacedAttempt || null;
+}
+
+/**
+ * Begin a new attempt. Answers from earlier attempts are cleared so the
+ * responses table only ever holds the participant's latest run.
+ */
+async function startAttempt(sessionId: string, participantId: string, attemptNumber: number): Promise<SelfPacedAttempt> {
+  const removed = await sql`
+    DELETE FROM responses
+    WHERE session_id = ${sessionId} AND participant_id = ${participantId}
+    RETURNING score
+  `;
+  await sql`
+    DELETE FROM word_submissions
+    WHERE participant_id = ${participantId} AND question_id IN (SELECT id FROM questions WHERE session_id = ${sessionId})
+  `;
+  await sql`
+    DELETE FROM text_responses
+    WHERE participant_id = ${participantId} AND question_id IN (SELECT id FROM questions WHERE session_id = ${sessionId})
+  `;
+
+  const removedScore = removed.reduce((sum: number, row: any) => sum + (row.score || 0), 0);
+  if (removedScore > 0) {
+    await sql`
+      UPDATE participants SET total_score = GREATEST(0, total_score - ${removedScore})
+      WHERE id = ${participantId}
+    `;
+  }
+
+  const rows = await sql`
+    INSERT INTO self_paced_attempts (session_id, participant_id, attempt_number)
+    VALUES (${sessionId}, ${participantId}, ${attemptNumber})
+    RETURNING *
+  `;
+  return rows[0] as SelfPacedAttempt;
+}
+
+/**
+ * Move an attempt on from the given question, restarting the question clock.
+ * Returns null if the attempt has already moved past that question.
+ */
+async function advanceAttempt(attemptId: string, fromIndex: number, completed: boolean): Promise<SelfPacedAttempt | null> {
+  const rows = await sql`
+    UPDATE self_paced_attempts
+    SET question_index = ${fromIndex + 1},
+        question_started_at = NOW(),
+        completed_at = ${completed ? new Date() : null}
+    WHERE id = ${attemptId} AND question_index = ${fromIndex} AND completed_at IS NULL
+    RETURNING *
+  `;
+  return rows[0] as SelfPacedAttempt || null;
+}
+
+async function getSelfPacedProgress(sessionId: string): Promise<{ started: number; completed: number }> {
+  const rows = await sql`
+    SELECT COUNT(DISTINCT participant_id)::int AS started,
+           COUNT(DISTINCT participant_id) FILTER (WHERE completed_at IS NOT NULL)::int AS completed
+    FROM self_paced_attempts
+    WHERE session_id = ${sessionId}
+  `;
+  return { started: rows[0]?.started || 0, completed: rows[0]?.completed || 0 };
+}
+
+// ============================================
+// CO-HOST OPERATIONS
+// ============================================
+
+async function getCoHosts(sessionId: string): Promise<CoHost[]> {
+  const rows = await sql`
+    SELECT * FROM session_cohosts WHERE session_id = ${sessionId} ORDER BY created_at
+  `;
+  return rows as CoHost[];
+}
+
+/**
+ * Invite a co-host, or change the role of one already invited
+ */
+async function upsertCoHost(sessionId: string, email: string, role: CoHostRole, invitedBy: string): Promise<CoHost> {
+  const rows = await sql`
+    INSERT INTO session_cohosts (session_id, email, role, invited_by)
+    VALUES (${sessionId}, ${email.toLowerCase()}, ${role}, ${invitedBy})
+    ON CONFLICT (session_id, email) DO UPDATE SET role = EXCLUDED.role
+    RETURNING *
+  `;
+  return rows[0] as CoHost;
+}
+
+async function removeCoHost(sessionId: string, coHostId: string): Promise<CoHost | null> {
+  const rows = await sql`
+    DELETE FROM session_cohosts WHERE id = ${coHostId} AND session_id = ${sessionId}
+    RETURNING *
+  `;
+  return rows[0] as CoHost || null;
+}
+
+/**
+ * The role a user has been invited to in a session, matched on their account email
+ */
+async function getCoHostRole(sessionId: string, userId: string): Promise<CoHostRole | null> {
+  const rows = await sql`
+    SELECT c.role FROM session_cohosts c
+    JOIN users u ON LOWER(u.email) = c.email
+    WHERE c.session_id = ${sessionId} AND u.id = ${userId}
+  `;
+  return rows[0]?.role as CoHostRole || null;
+}
+
 // ============================================
 // FOLDER OPERATIONS
 // ============================================
@@ -936,7 +2197,7 @@ async function getFoldersByUser(userId: string): Promise<any[]> {
     SELECT f.*, COALESCE(sc.count, 0)::int AS item_count
     FROM folders f
     LEFT JOIN (
-      SELECT folder_id, COUNT(*) AS count FROM sessions WHERE folder_id IS NOT NULL GROUP BY folder_id
+      SELECT folder_id, COUNT(*) AS count FROM sessions WHERE folder_id IS NOT NULL AND is_deleted = false GROUP BY folder_id
     ) sc ON sc.folder_id = f.id
     WHERE f.user_id = ${userId}
     ORDER BY f.name ASC
@@ -944,6 +2205,15 @@ async function getFoldersByUser(userId: string): Promise<any[]> {
   return rows;
 }
 
+async function getFolderById(folderId: string): Promise<any | null> {
+  const rows = await sql`SELECT * FROM folders WHERE id = ${folderId}`;
+  return rows[0] || null;
+}
+
+async function moveFolder(folderId: string, parentId: string | null): Promise<void> {
+  await sql`UPDATE folders SET parent_id = ${parentId}, updated_at = NOW() WHERE id = ${folderId}`;
+}
+
 async function updateFolder(folderId: string, name: string): Promise<void> {
   await sql`UPDATE folders SET name = ${name}, updated_at = NOW() WHERE id = ${folderId}`;
 }
@@ -976,16 +2246,30 @@ export default {
   getSessionById,
   updateSession,
   updateSessionStatus,
+  pauseSession,
+  resumeSession,
   setCurrentQuestion,
+  nextBroadcastSeq,
+  getBroadcastSeq,
   expireOldSessions,
 
   // Participant
   getOrCreateParticipant,
+  getParticipantByCookie,
+  isNicknameTaken,
   updateParticipantNickname,
   disconnectParticipant,
   removeParticipant,
+  restoreParticipant,
+  getParticipantStanding,
+  banParticipant,
+  isBanned,
+  getParticipantRoster,
   getSessionParticipants,
   getConnectedParticipantCount,
+  getLobby,
+  admitParticipants,
+  rejectParticipant,
   getParticipantBySocket,
 
   // Question
@@ -995,11 +2279,18 @@ export default {
   activateQuestion,
   lockQuestion,
   unlockQuestion,
+  setQuestionDeadline,
   showResults,
   getActiveQuestion,
+  updateQuestion,
+  deleteQuestion,
+  reorderQuestions,
+  getQuestionActivityCount,
+  resetQuestionResponses,
 
   // Response & Result Utilities
   getResponseCount,
+  getParticipantAnswers,
   getPollResults,
   getScaleStatistics,
   getRankingResults,
@@ -1009,18 +2300,36 @@ export default {
 
   // Word Cloud
   submitWords,
+  countWordSubmissions,
   getWordCloudData,
 
   // Text Response
   submitTextResponse,
   getTextResponses,
+  getVisibleTextResponses,
   moderateTextResponse,
+  approvePendingTextResponses,
 
   // Brainstorm
   submitIdea,
   getBrainstormIdeas,
+  getBrainstormIdeaById,
+  setIdeaGroup,
+  mergeIdeaGroups,
+  setIdeaHidden,
   voteIdea,
   getIdeaVotesForParticipant,
+  setBrainstormPhase,
+  getIdeaVotesByAuthor,
+  replaceBrainstormScores,
+
+  // Q&A
+  askQnaQuestion,
+  getQnaQuestions,
+  getQnaQuestionById,
+  voteQnaQuestion,
+  getQnaVotesForParticipant,
+  updateQnaQuestion,
 
   // NPS
   getNpsResults,
@@ -1028,12 +2337,44 @@ export default {
   // Leaderboard
   getLeaderboard,
 
+  // Teams
+  getTeams,
+  getTeamById,
+  createTeams,
+  deleteTeam,
+  setParticipantTeam,
+  getTeamMemberScores,
+
+  // Self-paced
+  getLatestAttempt,
+  startAttempt,
+  advanceAttempt,
+  getSelfPacedProgress,
+
+  // Co-hosts
+  getCoHosts,
+  upsertCoHost,
+  removeCoHost,
+  getCoHostRole,
+
   // Library & Folders
   getSessionsByUserId,
+  searchLibrary,
+  recordSessionPlay,
   duplicateSession,
   deleteSession,
+  getTrashedSessions,
+  publishTemplate,
+  updateTemplate,
+  getTemplates,
+  createSessionFromTemplate,
+  restoreSession,
+  purgeSession,
+  purgeTrashedSessions,
   createFolder,
+  getFolderById,
   getFoldersByUser,
+  moveFolder,
   updateFolder,
   deleteFolder,
   moveSessionToFolder,
@@ -1066,6 +2407,11 @@ export default {
   createAuditLog,
   getOrganizationById,
   getSessionVoteResults,
+
+  // Profanity settings
+  getSessionOrganizationId,
+  getOrganizationProfanitySettings,
+  updateOrganizationProfanitySettings,
 };
 
 // ============================================
@@ -1129,7 +2475,7 @@ export async function getDashboardStats(userId: string) {
   const stats = await sql`
     SELECT
       COUNT(DISTINCT s.id)::int AS total_sessions,
-      COALESCE(SUM(CASE WHEN s.status IN ('active', 'live') THEN 1 ELSE 0 END), 0)::int AS active_drafts,
+      COALESCE(SUM(CASE WHEN s.status IN ('active', 'live', 'paused') THEN 1 ELSE 0 END), 0)::int AS active_drafts,
       COALESCE((
         SELECT COUNT(DISTINCT p.id)::int
         FROM participants p
@@ -1233,3 +2579,37 @@ export async function getOrganizationById(id: string): Promise<any | null> {
   return result[0] || null;
 }
 
+// ============================================
+// PROFANITY SETTINGS
+// ============================================
+
+/**
+ * Organisation whose filter settings apply to a session: the session's own,
+ * falling back to its owner's
+ */
+export async function getSessionOrganizationId(sessionId: string): Promise<string | null> {
+  const rows = await sql`
+    SELECT COALESCE(s.organization_id, u.organization_id) AS organization_id
+    FROM sessions s
+    LEFT JOIN users u ON u.id = s.user_id
+    WHERE s.id = ${sessionId}
+  `;
+  return rows[0]?.organization_id || null;
+}
+
+export async function getOrganizationProfanitySettings(organizationId: string): Promise<ProfanitySettings> {
+  const rows = await sql`SELECT profanity_settings FROM organizations WHERE id = ${organizationId}`;
+  return rows[0]?.profanity_settings || {};
+}
+
+export async function updateOrganizationProfanitySettings(
+  organizationId: string,
+  settings: ProfanitySettings
+): Promise<ProfanitySettings | null> {
+  const rows = await sql`
+    UPDATE organizations SET profanity_settings = ${JSON.stringify(settings)}::jsonb
+    WHERE id = ${organizationId}
+    RETURNING profanity_settings
+  `;
+  return rows[0]?.profanity_settings ?? null;
+}
@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
+import { sanitizeInput } from '../utils/helpers.js';
 
 dotenv.config();
 
@@ -95,5 +96,45 @@ export const emailService = {
             console.error('Error sending password reset:', error);
             throw new Error('Failed to send password reset email');
         }
+    },
+
+    async sendCoHostInvite(email: string, invite: { inviter: string; sessionTitle: string; role: string; link: string }) {
+        const inviter = sanitizeInput(invite.inviter, 100);
+        const sessionTitle = sanitizeInput(invite.sessionTitle, 200);
+        const mailOptions = {
+            from: `"MojoQuiz" <${process.env.SMTP_USER || 'noreply@mojoquiz.co.zw'}>`,
+            to: email,
+            subject: `${inviter} invited you to co-host "${sessionTitle}"`,
+            html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: auto; padding: 20px; border: 1px solid #eee; border-radius: 10px;">
+          <h2 style="color: #3b82f6;">You're a MojoQuiz co-host</h2>
+          <p>Hello,</p>
+          <p>${inviter} has invited you to help run <strong>${sessionTitle}</strong> as a <strong>${invite.role}</strong> co-host.</p>
+          <p style="text-align: center; margin: 30px 0;">
+            <a href="${invite.link}" style="background: #3b82f6; color: #fff; padding: 12px 24px; border-radius: 5px; text-decoration: none;">Open the session</a>
+          </p>
+          <p>Sign in with this email address to get your presenter controls.</p>
+          <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;" />
+          <p style="font-size: 12px; color: #6b7280; text-align: center;">Sent by MojoQuiz - Your world-class engagement platform</p>
+        </div>
+      `,
+        };
+
+        if (!process.env.SMTP_USER) {
+            console.log('--- EMAIL FALLBACK (SMTP NOT CONFIGURED) ---');
+            console.log(`To: ${email}`);
+            console.log(`Subject: ${mailOptions.subject}`);
+            console.log(`Link: ${invite.link}`);
+            console.log('---------------------------------------------');
+            return true;
+        }
+
+        try {
+            await transporter.sendMail(mailOptions);
+            return true;
+        } catch (error) {
+            console.error('Error sending co-host invite:', error);
+            throw new Error('Failed to send co-host invite email');
+        }
     }
 };
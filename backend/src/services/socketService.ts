@@ -1,18 +1,69 @@
 import type { Server } from 'socket.io';
 import type { SocketEventName } from '../socket/events.js';
+import db from './database.js';
+import logger from '../utils/logger.js';
 
 let io: Server | null = null;
 
+// Each session's broadcasts still waiting on a sequence number. Chaining them keeps
+// this server sending a session's broadcasts in the order they were made.
+const pending: Map<string, Promise<void>> = new Map();
+
 function setIo(server: Server) {
     io = server;
 }
 
-function emitToSession(sessionId: string, event: SocketEventName | string, payload: unknown) {
+/**
+ * The sequence number of the last broadcast to a session, 0 before the first
+ */
+function getSeq(sessionId: string): Promise<number> {
+    return db.getBroadcastSeq(sessionId);
+}
+
+/**
+ * Broadcast to everyone in the session. Each broadcast carries the next `seq`
+ * so participants can tell when they have missed one and ask to resync.
+ * When `presenterPayload` is given, presenters get it in place of `payload`
+ * under the same `seq`.
+ */
+function emitToSession(
+    sessionId: string,
+    event: SocketEventName | string,
+    payload: object = {},
+    presenterPayload?: object
+): Promise<void> {
+    if (!io) return Promise.resolve();
+    const server = io;
+
+    const sent = (pending.get(sessionId) ?? Promise.resolve())
+        .then(async () => {
+            const seq = await db.nextBroadcastSeq(sessionId) ?? undefined;
+            if (presenterPayload) {
+                server.to(`presenter:${sessionId}`).emit(event, { ...presenterPayload, seq });
+                server.to(`session:${sessionId}`).except(`presenter:${sessionId}`).emit(event, { ...payload, seq });
+            } else {
+                server.to(`session:${sessionId}`).emit(event, { ...payload, seq });
+            }
+        })
+        .catch((error) => {
+            logger.error({ error, sessionId, event }, 'Session broadcast failed:');
+        });
+
+    pending.set(sessionId, sent);
+    sent.then(() => {
+        if (pending.get(sessionId) === sent) pending.delete(sessionId);
+    });
+    return sent;
+}
+
+function emitToPresenters(sessionId: string, event: SocketEventName | string, payload: unknown) {
     if (!io) return;
-    io.to(`session:${sessionId}`).emit(event, payload);
+    io.to(`presenter:${sessionId}`).emit(event, payload);
 }
 
 export default {
     setIo,
+    getSeq,
     emitToSession,
+    emitToPresenters,
 };
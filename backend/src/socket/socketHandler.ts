@@ -6,15 +6,28 @@
 import { Server, Socket } from 'socket.io';
 import db from '../services/database.js';
 import {
-    sanitizeNickname,
-    normalizeWord,
-    calculateQuizScore,
-    fuzzyMatch,
+    calculateResponseTime,
+    detectSuspiciousResponse,
+    getRandomAvatarColor,
+    sanitizeInput,
 } from '../utils/helpers.js';
-import { shouldFilterWord, containsProfanity } from '../utils/profanityFilter.js';
-import { ErrorCodes } from '../types/index.js';
+import { BrainstormPhase, ErrorCodes, Participant, QnaStatus, Question, SelfPacedAttempt, Session, TextResponse } from '../types/index.js';
 import logger from '../utils/logger.js';
 import { SocketEvents } from './events.js';
+import socketService from '../services/socketService.js';
+import { QuestionTimerService } from '../services/QuestionTimerService.js';
+import { ScoringService } from '../services/ScoringService.js';
+import { BrainstormService } from '../services/BrainstormService.js';
+import { DEFAULT_MAX_WORDS, WordCloudService } from '../services/WordCloudService.js';
+import { ProfanityService, ProfanitySettingsSchema } from '../services/ProfanityService.js';
+import { JoinSettingsSchema, ParticipantService, validateProfile } from '../services/ParticipantService.js';
+import { DEFAULT_BEST_N, TeamNamesSchema, TeamService, TeamSettingsSchema } from '../services/TeamService.js';
+import { checkWindow, getQuestionDeadline, SelfPacedService, SelfPacedSettingsSchema } from '../services/SelfPacedService.js';
+import { PersonalResultsService } from '../services/PersonalResultsService.js';
+import { CoHostService, hasPermission, InviteCoHostSchema, PresenterPermission, PresenterRole } from '../services/CoHostService.js';
+import { RESYNC_PROTOCOL_VERSION, ResyncService } from '../services/ResyncService.js';
+import { BanService, getClientIp, hashIp } from '../services/BanService.js';
+import { getNewcomerAdmission, LobbyService, LobbySettingsSchema } from '../services/LobbyService.js';
 
 interface SocketData {
     sessionId: string;
@@ -23,6 +36,301 @@ interface SocketData {
     nickname?: string;
     isPresenter: boolean;
     presenterUserId?: string;
+    presenterRole?: PresenterRole;
+    roundTripMs?: number;
+}
+
+const MODERATION_STATUSES: TextResponse['moderation_status'][] = ['pending', 'approved', 'hidden', 'highlighted'];
+
+const QNA_STATUSES: QnaStatus[] = ['open', 'answered', 'archived'];
+const MAX_QNA_LENGTH = 280;
+const BRAINSTORM_PHASES: BrainstormPhase[] = ['submit', 'vote', 'results'];
+
+const LATENCY_PROBES = 3;
+const LATENCY_PROBE_TIMEOUT_MS = 3000;
+
+/**
+ * Measure a participant's round trip with acknowledged pings.
+ * Keeps the best sample, which is the closest to pure network delay.
+ */
+async function measureLatency(socket: Socket, socketData: SocketData): Promise<void> {
+    for (let i = 0; i < LATENCY_PROBES; i++) {
+        const sentAt = Date.now();
+        try {
+            await socket.timeout(LATENCY_PROBE_TIMEOUT_MS).emitWithAck(SocketEvents.LATENCY_PING, { sent_at: sentAt });
+        } catch {
+            // No ack in time (or disconnected): skip this sample
+            continue;
+        }
+
+        const roundTripMs = Date.now() - sentAt;
+        socketData.roundTripMs = Math.min(socketData.roundTripMs ?? roundTripMs, roundTripMs);
+    }
+}
+
+/**
+ * Current results of a question in the shape its results view expects
+ */
+async function getQuestionResults(question: Question | null): Promise<any> {
+    if (!question) return undefined;
+
+    const questionId = question.id;
+    let results: any;
+
+    switch (question.question_type) {
+        case 'poll':
+        case 'quiz_mc':
+        case 'quiz_tf':
+        case 'quiz_audio':
+            results = await db.getPollResults(questionId);
+            break;
+        case 'scale':
+            results = await db.getScaleStatistics(questionId);
+            break;
+        case 'word_cloud':
+            results = await db.getWordCloudData(questionId);
+            break;
+        case 'open_ended':
+            results = await db.getVisibleTextResponses(questionId);
+            break;
+        case 'nps':
+            results = await db.getNpsResults(questionId);
+            break;
+        case 'brainstorm':
+            results = BrainstormService.groupResults(await db.getBrainstormIdeas(questionId));
+            break;
+        case 'ranking':
+            results = await db.getRankingResults(questionId);
+            break;
+        case 'pin_image':
+            results = await db.getPinImageResults(questionId);
+            break;
+        case 'quiz_slider':
+            results = await db.getScaleStatistics(questionId);
+            break;
+    }
+
+    return results;
+}
+
+/**
+ * Reveal results for a question to everyone in the session
+ */
+async function revealResults(sessionId: string, questionId: string): Promise<void> {
+    await db.showResults(questionId);
+
+    const question = await db.getQuestionById(questionId);
+    const results = await getQuestionResults(question);
+
+    socketService.emitToSession(sessionId, SocketEvents.RESULTS_REVEALED, {
+        question_id: questionId,
+        results,
+        correct_answer: question?.correct_answer,
+    });
+
+    // Update leaderboard for quiz questions
+    if (question?.question_type.startsWith('quiz_')) {
+        await emitLeaderboard(sessionId);
+    }
+}
+
+/**
+ * Send the individual leaderboard, followed by the team leaderboard in team mode
+ */
+async function emitLeaderboard(sessionId: string): Promise<void> {
+    socketService.emitToSession(sessionId, SocketEvents.LEADERBOARD_UPDATED, {
+        leaderboard: await db.getLeaderboard(sessionId),
+    });
+
+    const session = await db.getSessionById(sessionId);
+    if (session && TeamService.isEnabled(session)) {
+        socketService.emitToSession(sessionId, SocketEvents.TEAM_LEADERBOARD_UPDATED, {
+            teams: await TeamService.getLeaderboard(session),
+        });
+    }
+}
+
+/**
+ * Re-send a question's results after moderation or regrouping, if they are already on screen
+ */
+async function refreshVisibleResults(sessionId: string, questionId: string): Promise<void> {
+    const question = await db.getQuestionById(questionId);
+    if (question?.is_results_visible) {
+        await revealResults(sessionId, questionId);
+    }
+}
+
+/**
+ * Send the Q&A list to the session. Presenters see archived questions
+ * too; participants only see open and answered ones.
+ */
+async function broadcastQna(sessionId: string): Promise<void> {
+    const questions = await db.getQnaQuestions(sessionId);
+
+    await socketService.emitToSession(sessionId, SocketEvents.QNA_UPDATED, {
+        questions: questions.filter(q => q.status !== 'archived'),
+    }, { questions });
+}
+
+/**
+ * Send a brainstorm's ideas to the session. Presenters also get hidden ideas
+ * so they can restore them.
+ */
+async function broadcastIdeas(sessionId: string, questionId: string): Promise<void> {
+    await socketService.emitToSession(sessionId, SocketEvents.IDEAS_UPDATED, {
+        question_id: questionId,
+        ideas: await db.getBrainstormIdeas(questionId),
+    }, {
+        question_id: questionId,
+        ideas: await db.getBrainstormIdeas(questionId, true),
+    });
+}
+
+function getQnaSettings(session: Session): { enabled: boolean; allow_anonymous: boolean } {
+    return {
+        enabled: !!session.settings?.qna_enabled,
+        allow_anonymous: !!session.settings?.qna_allow_anonymous,
+    };
+}
+
+/**
+ * Teams plus every participant's team, for the presenter's team panel
+ */
+async function getTeamRoster(sessionId: string) {
+    const participants = await db.getSessionParticipants(sessionId);
+    return {
+        teams: await db.getTeams(sessionId),
+        participants: participants.map(p => ({ participant_id: p.id, nickname: p.nickname, team_id: p.team_id ?? null })),
+    };
+}
+
+/**
+ * Send the session's teams. Presenters also get the roster so they can
+ * move people between teams.
+ */
+async function broadcastTeams(sessionId: string): Promise<void> {
+    const roster = await getTeamRoster(sessionId);
+
+    await socketService.emitToSession(sessionId, SocketEvents.TEAMS_UPDATED, { teams: roster.teams }, roster);
+}
+
+/**
+ * Tell a connected participant which team they are on now
+ */
+function notifyTeamAssigned(io: Server, participant: Participant): void {
+    if (participant.socket_id) {
+        io.to(participant.socket_id).emit(SocketEvents.TEAM_ASSIGNED, { team_id: participant.team_id ?? null });
+    }
+}
+
+function getTeamSettings(session: Session) {
+    return {
+        team_mode: !!session.settings?.team_mode,
+        team_assignment: session.settings?.team_assignment || 'presenter',
+        team_scoring: session.settings?.team_scoring || 'sum',
+        team_best_n: session.settings?.team_best_n || DEFAULT_BEST_N,
+    };
+}
+
+/**
+ * Send a participant the question their self-paced attempt is on, or their
+ * result once they have been through every question
+ */
+async function emitSelfPacedState(socket: Socket, session: Session, cookieId: string, attempt: SelfPacedAttempt): Promise<void> {
+    const questions = await SelfPacedService.getQuestions(session.id);
+    const question = attempt.completed_at ? undefined : questions[attempt.question_index];
+
+    if (!question) {
+        const participant = await db.getParticipantByCookie(session.id, cookieId);
+        const attemptsLeft = Math.max(0, SelfPacedService.getSettings(session).max_attempts - attempt.attempt_number);
+        socket.emit(SocketEvents.SELF_PACED_COMPLETED, {
+            attempt_number: attempt.attempt_number,
+            attempts_left: attemptsLeft,
+            can_retake: attemptsLeft > 0 && !checkWindow(session),
+            total_score: participant?.total_score || 0,
+            question_count: questions.length,
+            personal_results: PersonalResultsService.isEnabled(session),
+        });
+        return;
+    }
+
+    socket.emit(SocketEvents.SELF_PACED_QUESTION, {
+        question,
+        index: attempt.question_index,
+        total: questions.length,
+        attempt_number: attempt.attempt_number,
+        ends_at: getQuestionDeadline(question, attempt),
+        server_time: new Date(),
+    });
+}
+
+/**
+ * Tell presenters how many participants have started and finished a self-paced session
+ */
+async function emitSelfPacedProgress(io: Server, sessionId: string): Promise<void> {
+    io.to(`presenter:${sessionId}`).emit(SocketEvents.SELF_PACED_PROGRESS, await db.getSelfPacedProgress(sessionId));
+}
+
+/**
+ * Send presenters the co-host list, and tell co-hosts already on the host page
+ * their current role. Anyone whose invitation was withdrawn loses the presenter room.
+ */
+async function syncCoHosts(io: Server, session: Session): Promise<void> {
+    io.to(`presenter:${session.id}`).emit(SocketEvents.COHOSTS_UPDATED, {
+        cohosts: await db.getCoHosts(session.id),
+    });
+
+    for (const presenter of await io.in(`presenter:${session.id}`).fetchSockets()) {
+        const userId = presenter.data.userId;
+        if (typeof userId !== 'string' || CoHostService.isOwner(session, userId)) continue;
+
+        const role = await db.getCoHostRole(session.id, userId);
+        presenter.emit(SocketEvents.PRESENTER_ROLE_UPDATED, { role });
+        if (!role) {
+            presenter.leave(`presenter:${session.id}`);
+        }
+    }
+}
+
+/**
+ * Send presenters everyone who has joined, including removed and banned participants
+ */
+async function emitParticipantRoster(io: Server, sessionId: string): Promise<void> {
+    io.to(`presenter:${sessionId}`).emit(SocketEvents.PARTICIPANTS_LIST, {
+        participants: await db.getParticipantRoster(sessionId),
+    });
+}
+
+/**
+ * Send presenters who is in the lobby, admitted or waiting to be let in
+ */
+async function emitLobby(io: Server, sessionId: string): Promise<void> {
+    io.to(`presenter:${sessionId}`).emit(SocketEvents.LOBBY_UPDATED, {
+        participants: await db.getLobby(sessionId),
+    });
+}
+
+/**
+ * Lock a question when its server-side countdown reaches zero,
+ * then reveal results if the presenter asked for it
+ */
+async function expireQuestion(sessionId: string, questionId: string): Promise<void> {
+    // The stored deadline wins: another instance may have paused or restarted the countdown
+    const current = await db.getQuestionById(questionId);
+    if (!current || !QuestionTimerService.hasExpired(current)) return;
+
+    await db.lockQuestion(questionId);
+
+    socketService.emitToSession(sessionId, SocketEvents.QUESTION_LOCKED, {
+        question_id: questionId,
+        is_locked: true,
+        reason: 'time_up',
+    });
+
+    const question = await db.getQuestionById(questionId);
+    if (question?.settings?.auto_reveal) {
+        await revealResults(sessionId, questionId);
+    }
 }
 
 /**
@@ -39,6 +347,76 @@ export function initializeSocketHandlers(io: Server): void {
             cookieId: '',
             isPresenter: false,
         };
+        const clientIp = getClientIp(socket.handshake.headers['x-forwarded-for'], socket.handshake.address);
+
+        // A removed participant's socket may still be open, and someone waiting in the
+        // lobby has one too; turn away everything they send. Joining and resyncing
+        // run their own checks.
+        socket.use(async ([event], next) => {
+            if (!socketData.participantId || event === 'join_session' || event === SocketEvents.RESYNC) {
+                return next();
+            }
+
+            try {
+                const standing = await db.getParticipantStanding(socketData.participantId);
+                const error = !standing || standing.is_removed
+                    ? { code: ErrorCodes.PARTICIPANT_REMOVED, message: 'You have been removed from this session' }
+                    : LobbyService.checkAdmission(standing);
+                if (!error) return next();
+
+                socket.emit('error', error);
+            } catch (error) {
+                logger.error({ error }, 'Error checking participant standing:');
+            }
+        });
+
+        /**
+         * Why word and text answers to a question can't be taken right now, if they can't.
+         * Self-paced sessions follow the participant's attempt rather than the presenter's lock.
+         */
+        const getSubmissionError = async (session: Session, question: Question | null) => {
+            if (!question) return null;
+            if (session.status === 'paused') {
+                return { code: ErrorCodes.SESSION_PAUSED, message: 'The session is paused' };
+            }
+            if (!SelfPacedService.isEnabled(session)) {
+                return question.is_locked ? { code: ErrorCodes.QUESTION_LOCKED, message: 'Submissions closed' } : null;
+            }
+
+            const check = await SelfPacedService.checkSubmission(
+                session, socketData.participantId, question, Date.now(), socketData.roundTripMs
+            );
+            return check.error || null;
+        };
+
+        /**
+         * Whether this presenter may use a control. Co-host roles are read again
+         * each time so a changed or withdrawn invitation applies straight away.
+         */
+        const canPresent = async (permission: PresenterPermission): Promise<boolean> => {
+            if (!socketData.isPresenter) return false;
+
+            if (socketData.presenterRole !== 'owner') {
+                socketData.presenterRole = await db.getCoHostRole(socketData.sessionId, socketData.presenterUserId!) ?? undefined;
+            }
+            if (hasPermission(socketData.presenterRole, permission)) return true;
+
+            socket.emit('error', { code: ErrorCodes.FORBIDDEN, message: 'Your co-host role does not allow this' });
+            return false;
+        };
+
+        /**
+         * Record a presenter action against whoever made it, owner or co-host
+         */
+        const auditPresenterAction = (action: string, metadata: Record<string, unknown> = {}) => {
+            db.createAuditLog(socketData.presenterUserId!, action, {
+                session_id: socketData.sessionId,
+                role: socketData.presenterRole,
+                ...metadata,
+            }).catch((error) => {
+                logger.warn({ error }, 'Failed to write audit log:');
+            });
+        };
 
         // ============================================
         // JOIN EVENTS
@@ -51,6 +429,8 @@ export function initializeSocketHandlers(io: Server): void {
             join_code: string;
             cookie_id: string;
             nickname?: string;
+            profile?: Record<string, string>;
+            team_id?: string;
         }) => {
             try {
                 const { join_code, cookie_id, nickname } = payload;
@@ -65,7 +445,7 @@ export function initializeSocketHandlers(io: Server): void {
                     return;
                 }
 
-                if (session.status !== 'active' && session.status !== 'live') {
+                if (session.status === 'ended') {
                     socket.emit('error', {
                         code: ErrorCodes.SESSION_ENDED,
                         message: 'Session has ended',
@@ -73,40 +453,80 @@ export function initializeSocketHandlers(io: Server): void {
                     return;
                 }
 
-                // Sanitize and filter nickname
-                let cleanNickname = nickname ? sanitizeNickname(nickname) : undefined;
-                if (cleanNickname && containsProfanity(cleanNickname)) {
-                    socket.emit('error', {
-                        code: ErrorCodes.PROFANITY_DETECTED,
-                        message: 'Please choose a different nickname',
-                    });
+                // New participants go through the nickname policy and join fields;
+                // returning ones keep what they registered with
+                let cleanNickname: string | undefined;
+                let profile: Record<string, string> | undefined;
+                let teamId: string | undefined;
+                const ipHash = hashIp(session.id, clientIp);
+                const existing = await db.getParticipantByCookie(session.id, cookie_id);
+
+                const entryError = await BanService.checkEntry(session.id, existing, cookie_id, ipHash);
+                if (entryError) {
+                    socket.emit('error', entryError);
                     return;
                 }
 
-                // Get or create participant
-                const participant = await db.getOrCreateParticipant(
-                    session.id,
-                    cookie_id,
-                    socket.id,
-                    cleanNickname
-                );
-
-                // Check if participant was removed by presenter
-                if (participant.is_removed) {
-                    socket.emit('error', {
-                        code: ErrorCodes.PARTICIPANT_REMOVED,
-                        message: 'You have been removed from this session',
-                    });
+                // Turned away from the lobby: they don't get to ask again
+                if (existing?.admission === 'rejected') {
+                    socket.emit('error', LobbyService.checkAdmission(existing));
                     return;
                 }
 
+                if (!existing) {
+                    // Self-paced sessions only take newcomers while they are open
+                    const windowError = SelfPacedService.isEnabled(session) ? checkWindow(session) : null;
+                    if (windowError) {
+                        socket.emit('error', windowError);
+                        return;
+                    }
+
+                    const resolved = await ParticipantService.resolveNickname(session, cookie_id, nickname);
+                    const validated = validateProfile(session.settings?.join_fields, payload.profile);
+                    const team = await TeamService.resolveJoinTeam(session, payload.team_id);
+                    const joinError = resolved.error || validated.error || team.error;
+                    if (joinError) {
+                        socket.emit('error', joinError);
+                        return;
+                    }
+                    cleanNickname = resolved.nickname;
+                    profile = validated.profile;
+                    teamId = team.teamId;
+                }
+
+                // Get or create participant
+                let participant = await db.getOrCreateParticipant(session.id, cookie_id, socket.id, {
+                    nickname: cleanNickname,
+                    profile,
+                    avatarColor: getRandomAvatarColor(),
+                    admission: getNewcomerAdmission(session),
+                    ipHash,
+                });
+                if (teamId) {
+                    participant = await db.setParticipantTeam(session.id, participant.id, teamId) ?? participant;
+                }
+
                 // Store data on socket
                 socketData.sessionId = session.id;
                 socketData.participantId = participant.id;
+                socket.data.participantId = participant.id;
                 socketData.cookieId = cookie_id;
-                socketData.nickname = cleanNickname;
+                socketData.nickname = participant.nickname || undefined;
                 socketData.isPresenter = false;
 
+                // Held for approval: wait outside the session room until admitted
+                if (participant.admission === 'pending') {
+                    socket.join(`lobby:${session.id}`);
+                    socket.emit(SocketEvents.JOIN_PENDING, {
+                        session_id: session.id,
+                        session_title: session.title,
+                        participant_id: participant.id,
+                        nickname: participant.nickname,
+                    });
+                    await emitLobby(io, session.id);
+                    return;
+                }
+
                 // Join session room
                 socket.join(`session:${session.id}`);
 
@@ -121,19 +541,39 @@ export function initializeSocketHandlers(io: Server): void {
                     session_id: session.id,
                     session_title: session.title,
                     participant_id: participant.id,
+                    nickname: participant.nickname,
                     active_question: activeQuestion,
                     participant_count: participantCount,
+                    paused: session.status === 'paused',
+                    remaining_ms: activeQuestion ? QuestionTimerService.getQuestionRemainingMs(activeQuestion) : null,
+                    qna: getQnaSettings(session),
+                    team_mode: TeamService.isEnabled(session),
+                    team_assignment: getTeamSettings(session).team_assignment,
+                    teams: TeamService.isEnabled(session) ? await db.getTeams(session.id) : [],
+                    team_id: participant.team_id ?? null,
+                    self_paced: SelfPacedService.isEnabled(session) ? SelfPacedService.getSettings(session) : null,
+                    seq: await socketService.getSeq(session.id),
                 });
 
                 // Broadcast to room that someone joined
-                socket.to(`session:${session.id}`).emit(SocketEvents.PARTICIPANT_JOINED, {
+                socketService.emitToSession(session.id, SocketEvents.PARTICIPANT_JOINED, {
                     participant_id: participant.id,
-                    nickname: cleanNickname,
+                    nickname: participant.nickname,
                     participant_count: participantCount,
                 });
 
+                if (teamId) {
+                    await broadcastTeams(session.id);
+                }
+                await emitLobby(io, session.id);
+
                 logger.info(`Participant ${participant.id} joined session ${session.id}`);
 
+                // Latency allowance for server-side response timing
+                measureLatency(socket, socketData).catch((error) => {
+                    logger.warn({ error }, 'Latency measurement failed:');
+                });
+
             } catch (error) {
                 logger.error({ error }, 'Error joining session:');
                 socket.emit('error', {
@@ -162,7 +602,8 @@ export function initializeSocketHandlers(io: Server): void {
                 }
 
                 const userId = typeof socket.data.userId === 'string' ? socket.data.userId : '';
-                if (!userId || (userId !== session.presenter_id && userId !== session.user_id)) {
+                const role = await CoHostService.getRole(session, userId);
+                if (!role) {
                     socket.emit('error', {
                         code: 'UNAUTHORIZED',
                         message: 'Not authorized as presenter',
@@ -173,6 +614,7 @@ export function initializeSocketHandlers(io: Server): void {
                 socketData.sessionId = session_id;
                 socketData.isPresenter = true;
                 socketData.presenterUserId = userId;
+                socketData.presenterRole = role;
 
                 // Join session room and presenter room
                 socket.join(`session:${session_id}`);
@@ -182,13 +624,25 @@ export function initializeSocketHandlers(io: Server): void {
                 const questions = await db.getQuestionsBySession(session_id);
                 const activeQuestion = await db.getActiveQuestion(session_id);
 
+                // Whatever device or co-host joins picks up the live state as it stands
                 socket.emit('presenter_joined', {
                     session,
                     questions,
                     active_question: activeQuestion,
                     participant_count: participantCount,
+                    response_count: activeQuestion ? await db.getResponseCount(activeQuestion.id) : 0,
+                    results: await getQuestionResults(activeQuestion),
+                    leaderboard: await db.getLeaderboard(session_id),
+                    role,
+                    cohosts: await db.getCoHosts(session_id),
+                    lobby: await db.getLobby(session_id),
+                    lobby_settings: LobbyService.getSettings(session),
                 });
 
+                if (SelfPacedService.isEnabled(session)) {
+                    await emitSelfPacedProgress(io, session_id);
+                }
+
                 logger.info(`Presenter joined session ${session_id}`);
 
             } catch (error) {
@@ -197,6 +651,71 @@ export function initializeSocketHandlers(io: Server): void {
             }
         });
 
+        /**
+         * Participant asks for a full state snapshot, either on a new socket after
+         * reconnecting (which also rejoins the room) or after spotting a gap in `seq`
+         */
+        socket.on(SocketEvents.RESYNC, async (payload: {
+            version: number;
+            session_id: string;
+            cookie_id: string;
+        }) => {
+            try {
+                if (payload?.version !== RESYNC_PROTOCOL_VERSION) {
+                    socket.emit('error', {
+                        code: ErrorCodes.RESYNC_UNSUPPORTED,
+                        message: 'Please reload the page to reconnect',
+                        details: { supported_version: RESYNC_PROTOCOL_VERSION },
+                    });
+                    return;
+                }
+
+                const session = await db.getSessionById(payload.session_id);
+                if (!session) {
+                    socket.emit('error', { code: ErrorCodes.SESSION_NOT_FOUND, message: 'Session not found' });
+                    return;
+                }
+
+                // Only participants who already joined can resync; newcomers go through join_session
+                let participant = await db.getParticipantByCookie(session.id, payload.cookie_id);
+                if (!participant) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_SESSION, message: 'Not in a session' });
+                    return;
+                }
+                const entryError = await BanService.checkEntry(session.id, participant, payload.cookie_id, null)
+                    || LobbyService.checkAdmission(participant);
+                if (entryError) {
+                    socket.emit('error', entryError);
+                    return;
+                }
+
+                if (socketData.participantId !== participant.id) {
+                    participant = await db.getOrCreateParticipant(session.id, payload.cookie_id, socket.id, {
+                        ipHash: hashIp(session.id, clientIp),
+                    });
+
+                    socketData.sessionId = session.id;
+                    socketData.participantId = participant.id;
+                    socket.data.participantId = participant.id;
+                    socketData.cookieId = payload.cookie_id;
+                    socketData.nickname = participant.nickname || undefined;
+                    socketData.isPresenter = false;
+
+                    socket.join(`session:${session.id}`);
+
+                    measureLatency(socket, socketData).catch((error) => {
+                        logger.warn({ error }, 'Latency measurement failed:');
+                    });
+                }
+
+                socket.emit(SocketEvents.RESYNC_STATE, await ResyncService.buildState(session, participant));
+
+            } catch (error) {
+                logger.error({ error }, 'Error resyncing participant:');
+                socket.emit('error', { code: 'RESYNC_ERROR', message: 'Failed to restore your session' });
+            }
+        });
+
         // ============================================
         // RESPONSE EVENTS
         // ============================================
@@ -222,43 +741,60 @@ export function initializeSocketHandlers(io: Server): void {
                     return;
                 }
 
-                if (question.is_locked) {
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                if (session.status === 'paused') {
+                    socket.emit('error', { code: ErrorCodes.SESSION_PAUSED, message: 'The session is paused' });
+                    return;
+                }
+
+                // Response time is measured from server clocks; the client's own figure
+                // is kept only to cross-check, never stored or scored
+                const receivedAt = Date.now();
+                let openedAt = question.activated_at;
+                let pausedMs = question.paused_ms ?? 0;
+
+                if (SelfPacedService.isEnabled(session)) {
+                    // Each participant's own question clock applies instead of the presenter's
+                    const check = await SelfPacedService.checkSubmission(
+                        session, socketData.participantId, question, receivedAt, socketData.roundTripMs
+                    );
+                    if (check.error) {
+                        socket.emit('error', check.error);
+                        return;
+                    }
+                    openedAt = check.startedAt ?? null;
+                    pausedMs = 0;
+                } else if (question.is_locked || QuestionTimerService.hasExpired(question)) {
+                    // The server-side countdown is authoritative, whatever the client claims
                     socket.emit('error', { code: ErrorCodes.QUESTION_LOCKED, message: 'Voting is closed' });
                     return;
                 }
 
+                const { response_time_ms: clientResponseTimeMs, ...answer } = response_data;
+
                 // Calculate score for quiz questions
                 let isCorrect: boolean | undefined;
                 let score = 0;
                 let responseTimeMs: number | undefined;
+                let flagReason: string | null = null;
 
-                if (question.question_type.startsWith('quiz_')) {
-                    responseTimeMs = response_data.response_time_ms;
+                if (ScoringService.isScored(question.question_type)) {
                     const timeLimitMs = (question.time_limit || 30) * 1000;
-
-                    // Determine correctness based on question type
-                    switch (question.question_type) {
-                        case 'quiz_mc':
-                        case 'quiz_tf':
-                            isCorrect = response_data.option_index === question.correct_answer;
-                            break;
-                        case 'quiz_typed':
-                            isCorrect = fuzzyMatch(
-                                response_data.answer,
-                                question.correct_answer,
-                                question.settings?.tolerance || 0.8
-                            );
-                            break;
-                        case 'quiz_slider':
-                            const tolerance = question.settings?.tolerance || 5;
-                            isCorrect = Math.abs(response_data.value - question.correct_answer) <= tolerance;
-                            break;
-                        case 'quiz_order':
-                            isCorrect = JSON.stringify(response_data.order) === JSON.stringify(question.correct_answer);
-                            break;
+                    responseTimeMs = openedAt
+                        ? calculateResponseTime(openedAt, receivedAt, socketData.roundTripMs, timeLimitMs, pausedMs)
+                        : timeLimitMs;
+
+                    ({ isCorrect, score } = ScoringService.score(question, answer, responseTimeMs, timeLimitMs));
+                    flagReason = detectSuspiciousResponse(responseTimeMs, question.question_text, clientResponseTimeMs);
+
+                    if (flagReason) {
+                        logger.warn(
+                            { questionId: question_id, participantId: socketData.participantId, responseTimeMs, flagReason },
+                            'Suspicious response flagged'
+                        );
                     }
-
-                    score = calculateQuizScore(isCorrect || false, responseTimeMs || timeLimitMs, timeLimitMs);
                 }
 
                 // Submit response
@@ -266,10 +802,11 @@ export function initializeSocketHandlers(io: Server): void {
                     question_id,
                     socketData.participantId,
                     socketData.sessionId,
-                    response_data,
+                    answer,
                     isCorrect,
                     score,
-                    responseTimeMs
+                    responseTimeMs,
+                    flagReason
                 );
 
                 if (result.isDuplicate) {
@@ -290,7 +827,7 @@ export function initializeSocketHandlers(io: Server): void {
 
                 // Broadcast updated count to room
                 const responseCount = await db.getResponseCount(question_id);
-                socket.to(`session:${socketData.sessionId}`).emit('response_count_updated', {
+                socketService.emitToSession(socketData.sessionId, 'response_count_updated', {
                     question_id,
                     response_count: responseCount,
                 });
@@ -302,6 +839,7 @@ export function initializeSocketHandlers(io: Server): void {
                     case 'poll':
                     case 'quiz_mc':
                     case 'quiz_tf':
+                    case 'quiz_audio':
                         results = await db.getPollResults(question_id);
                         break;
                     case 'scale':
@@ -350,35 +888,58 @@ export function initializeSocketHandlers(io: Server): void {
                     return;
                 }
 
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
                 const question = await db.getQuestionById(question_id);
-                if (!question || question.is_locked) {
-                    socket.emit('error', { code: ErrorCodes.QUESTION_LOCKED, message: 'Submissions closed' });
+                const closedError = await getSubmissionError(session, question);
+                if (!question || closedError) {
+                    socket.emit('error', closedError || { code: ErrorCodes.QUESTION_LOCKED, message: 'Submissions closed' });
+                    return;
+                }
+
+                // max_words is a per-participant allowance, not per submission
+                const maxWords = question.settings?.max_words || DEFAULT_MAX_WORDS;
+                const remaining = maxWords - await db.countWordSubmissions(question_id, socketData.participantId);
+                if (remaining <= 0) {
+                    socket.emit('error', { code: 'MAX_WORDS', message: `You can submit up to ${maxWords} words` });
                     return;
                 }
 
-                // Process and filter words
-                const maxWords = question.settings?.max_words || 5;
-                const processedWords = words
-                    .slice(0, maxWords)
-                    .map(word => ({
-                        original: word.substring(0, 50),
-                        normalized: normalizeWord(word),
-                        filtered: shouldFilterWord(word),
-                    }))
-                    .filter(w => w.normalized.length >= 2);
+                // Rejected words fail the whole submission; masked ones lose the flagged part
+                const policy = await ProfanityService.getPolicy(session);
+                const submitted: string[] = [];
+                for (const word of Array.isArray(words) ? words.slice(0, maxWords) : []) {
+                    if (typeof word !== 'string') continue;
+
+                    const check = ProfanityService.check(policy, 'words', word);
+                    if (check.action === 'reject') {
+                        socket.emit('error', {
+                            code: ErrorCodes.PROFANITY_DETECTED,
+                            message: 'Please choose different words',
+                        });
+                        return;
+                    }
+                    submitted.push(check.text);
+                }
+
+                const existingWords = question.settings?.merge_similar
+                    ? (await db.getWordCloudData(question_id, 500)).map(w => w.word)
+                    : [];
+                const processedWords = WordCloudService
+                    .prepareWords(submitted, question.settings, existingWords, policy.filter)
+                    .slice(0, remaining);
 
                 await db.submitWords(question_id, socketData.participantId, processedWords);
 
                 socket.emit('words_submitted', { success: true, question_id });
 
-                // Send updated word cloud to presenter
-                const wordCloud = await db.getWordCloudData(question_id);
-                const responseCount = await db.getResponseCount(question_id);
-                io.to(`presenter:${socketData.sessionId}`).emit('word_cloud_updated', {
+                // Presenters get batched weight deltas
+                WordCloudService.queueDeltas(
+                    socketData.sessionId,
                     question_id,
-                    words: wordCloud,
-                    response_count: responseCount,
-                });
+                    processedWords.filter(w => !w.filtered).map(w => w.normalized)
+                );
 
             } catch (error) {
                 logger.error({ error }, 'Error submitting words:');
@@ -401,16 +962,35 @@ export function initializeSocketHandlers(io: Server): void {
                     return;
                 }
 
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
                 const question = await db.getQuestionById(question_id);
-                if (!question || question.is_locked) {
-                    socket.emit('error', { code: ErrorCodes.QUESTION_LOCKED, message: 'Submissions closed' });
+                const closedError = await getSubmissionError(session, question);
+                if (!question || closedError) {
+                    socket.emit('error', closedError || { code: ErrorCodes.QUESTION_LOCKED, message: 'Submissions closed' });
+                    return;
+                }
+
+                const check = ProfanityService.check(
+                    await ProfanityService.getPolicy(session),
+                    'text',
+                    content.substring(0, 500).trim()
+                );
+                if (check.action === 'reject') {
+                    socket.emit('error', {
+                        code: ErrorCodes.PROFANITY_DETECTED,
+                        message: 'Please rephrase your answer',
+                    });
                     return;
                 }
 
-                // Check for profanity (but still allow - will be moderated)
-                const cleanContent = content.substring(0, 500).trim();
+                // Flagged answers are never auto-approved; they wait in the presenter's queue
+                const status = session.settings?.auto_approve_text && check.action !== 'moderate'
+                    ? 'approved'
+                    : 'pending';
 
-                const result = await db.submitTextResponse(question_id, socketData.participantId, cleanContent);
+                const result = await db.submitTextResponse(question_id, socketData.participantId, check.text, status);
 
                 if (result.isDuplicate) {
                     socket.emit('error', {
@@ -430,6 +1010,10 @@ export function initializeSocketHandlers(io: Server): void {
                     response_count: responseCount,
                 });
 
+                if (status === 'approved') {
+                    await refreshVisibleResults(socketData.sessionId, question_id);
+                }
+
             } catch (error) {
                 logger.error({ error }, 'Error submitting text:');
                 socket.emit('error', { code: 'SUBMIT_ERROR', message: 'Failed to submit text' });
@@ -449,21 +1033,46 @@ export function initializeSocketHandlers(io: Server): void {
                     socket.emit('error', { code: 'UNAUTHORIZED', message: 'Not a presenter' });
                     return;
                 }
+                if (!await canPresent('drive')) return;
 
                 const { question_id } = payload;
 
+                // Co-hosts drive their own session only
+                const target = await db.getQuestionById(question_id);
+                if (!target || target.session_id !== socketData.sessionId) {
+                    socket.emit('error', { code: 'QUESTION_NOT_FOUND', message: 'Question not found' });
+                    return;
+                }
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (session?.status === 'paused') {
+                    socket.emit('error', { code: ErrorCodes.SESSION_PAUSED, message: 'Resume the session first' });
+                    return;
+                }
+
                 await db.activateQuestion(socketData.sessionId, question_id);
+                auditPresenterAction('QUESTION_ACTIVATED', { question_id });
 
                 const question = await db.getQuestionById(question_id);
                 const responseCount = await db.getResponseCount(question_id);
 
                 // Broadcast to all participants
-                io.to(`session:${socketData.sessionId}`).emit('question_activated', {
+                socketService.emitToSession(socketData.sessionId, 'question_activated', {
                     question,
                     response_count: responseCount,
                     server_time: new Date(),
                 });
 
+                // Start the server-owned countdown for timed questions
+                const sessionId = socketData.sessionId;
+                if (question?.time_limit && question.time_limit > 0) {
+                    await QuestionTimerService.start(sessionId, question_id, question.time_limit * 1000, () =>
+                        expireQuestion(sessionId, question_id)
+                    );
+                } else {
+                    QuestionTimerService.stop(sessionId);
+                }
+
             } catch (error) {
                 logger.error({ error }, 'Error activating question:');
                 socket.emit('error', { code: 'ACTIVATE_ERROR', message: 'Failed to activate' });
@@ -475,17 +1084,29 @@ export function initializeSocketHandlers(io: Server): void {
          */
         socket.on('lock_question', async (payload: { question_id: string; locked: boolean }) => {
             try {
-                if (!socketData.isPresenter) return;
+                if (!await canPresent('drive')) return;
 
                 const { question_id, locked } = payload;
 
+                const question = await db.getQuestionById(question_id);
+                if (!question || question.session_id !== socketData.sessionId) {
+                    socket.emit('error', { code: 'QUESTION_NOT_FOUND', message: 'Question not found' });
+                    return;
+                }
+
                 if (locked) {
                     await db.lockQuestion(question_id);
                 } else {
                     await db.unlockQuestion(question_id);
                 }
+                auditPresenterAction(locked ? 'QUESTION_LOCKED' : 'QUESTION_UNLOCKED', { question_id });
+
+                // A manual lock or unlock takes over from the countdown
+                if (QuestionTimerService.getRemainingMs(socketData.sessionId, question_id) !== null) {
+                    QuestionTimerService.stop(socketData.sessionId);
+                }
 
-                io.to(`session:${socketData.sessionId}`).emit('question_locked', {
+                socketService.emitToSession(socketData.sessionId, SocketEvents.QUESTION_LOCKED, {
                     question_id,
                     is_locked: locked,
                 });
@@ -500,83 +1121,166 @@ export function initializeSocketHandlers(io: Server): void {
          */
         socket.on('show_results', async (payload: { question_id: string }) => {
             try {
-                if (!socketData.isPresenter) return;
+                if (!await canPresent('drive')) return;
 
                 const { question_id } = payload;
 
-                await db.showResults(question_id);
-
                 const question = await db.getQuestionById(question_id);
-                let results: any;
+                if (!question || question.session_id !== socketData.sessionId) {
+                    socket.emit('error', { code: 'QUESTION_NOT_FOUND', message: 'Question not found' });
+                    return;
+                }
 
-                switch (question?.question_type) {
-                    case 'poll':
-                    case 'quiz_mc':
-                    case 'quiz_tf':
-                        results = await db.getPollResults(question_id);
-                        break;
-                    case 'scale':
-                        results = await db.getScaleStatistics(question_id);
-                        break;
-                    case 'word_cloud':
-                        results = await db.getWordCloudData(question_id);
-                        break;
-                    case 'open_ended':
-                        results = await db.getTextResponses(question_id, 'approved');
-                        break;
-                    case 'nps':
-                        results = await db.getNpsResults(question_id);
-                        break;
-                    case 'brainstorm':
-                        results = await db.getBrainstormIdeas(question_id);
-                        break;
-                    case 'ranking':
-                        results = await db.getRankingResults(question_id);
-                        break;
-                    case 'pin_image':
-                        results = await db.getPinImageResults(question_id);
-                        break;
-                    case 'quiz_slider':
-                        results = await db.getScaleStatistics(question_id);
-                        break;
+                await revealResults(socketData.sessionId, question_id);
+                auditPresenterAction('RESULTS_REVEALED', { question_id });
+
+            } catch (error) {
+                logger.error({ error }, 'Error showing results:');
+            }
+        });
+
+        /**
+         * Remove a participant, or with `ban` also keep their network out for the session
+         */
+        socket.on(SocketEvents.REMOVE_PARTICIPANT, async (payload: { participant_id: string; ban?: boolean }) => {
+            try {
+                if (!await canPresent('moderate')) return;
+
+                const { participant_id } = payload;
+                const ban = payload.ban === true;
+
+                const participant = await BanService.remove(socketData.sessionId, participant_id, {
+                    ban,
+                    bannedBy: socketData.presenterUserId || null,
+                });
+                if (!participant) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: 'Participant not found' });
+                    return;
                 }
+                auditPresenterAction(ban ? 'PARTICIPANT_BANNED' : 'PARTICIPANT_REMOVED', { participant_id });
 
-                io.to(`session:${socketData.sessionId}`).emit('results_revealed', {
-                    question_id,
-                    results,
-                    correct_answer: question?.correct_answer,
+                socketService.emitToSession(socketData.sessionId, 'participant_removed', {
+                    participant_id,
+                    banned: ban,
                 });
 
-                // Update leaderboard for quiz questions
-                if (question?.question_type.startsWith('quiz_')) {
-                    const leaderboard = await db.getLeaderboard(socketData.sessionId);
-                    io.to(`session:${socketData.sessionId}`).emit('leaderboard_updated', {
-                        leaderboard,
-                    });
+                // Stop their open sockets getting session broadcasts
+                for (const other of await io.in(`session:${socketData.sessionId}`).fetchSockets()) {
+                    if (other.data.participantId === participant_id) {
+                        other.leave(`session:${socketData.sessionId}`);
+                    }
                 }
 
+                await emitParticipantRoster(io, socketData.sessionId);
+                await emitLobby(io, socketData.sessionId);
+
             } catch (error) {
-                logger.error({ error }, 'Error showing results:');
+                logger.error({ error }, 'Error removing participant:');
+            }
+        });
+
+        /**
+         * Undo a removal or ban; the participant can join again with their old answers and score
+         */
+        socket.on(SocketEvents.RESTORE_PARTICIPANT, async (payload: { participant_id: string }) => {
+            try {
+                if (!await canPresent('moderate')) return;
+
+                const participant = await db.restoreParticipant(socketData.sessionId, payload.participant_id);
+                if (!participant) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: 'Participant not found' });
+                    return;
+                }
+                auditPresenterAction('PARTICIPANT_RESTORED', { participant_id: participant.id });
+
+                await emitParticipantRoster(io, socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error restoring participant:');
             }
         });
 
         /**
-         * Remove a participant
+         * Presenter fetches the participant list
          */
-        socket.on('remove_participant', async (payload: { participant_id: string }) => {
+        socket.on(SocketEvents.GET_PARTICIPANTS, async () => {
             try {
                 if (!socketData.isPresenter) return;
 
-                const { participant_id } = payload;
+                socket.emit(SocketEvents.PARTICIPANTS_LIST, {
+                    participants: await db.getParticipantRoster(socketData.sessionId),
+                });
 
-                await db.removeParticipant(participant_id);
+            } catch (error) {
+                logger.error({ error }, 'Error fetching participants:');
+            }
+        });
 
-                io.to(`session:${socketData.sessionId}`).emit('participant_removed', {
-                    participant_id,
+        /**
+         * Pause a live session: the countdown freezes and submissions are refused
+         * until it is resumed. Self-paced sessions have no shared clock to pause.
+         */
+        socket.on(SocketEvents.PAUSE_SESSION, async () => {
+            try {
+                if (!await canPresent('drive')) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+                if (SelfPacedService.isEnabled(session)) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: 'Self-paced sessions cannot be paused' });
+                    return;
+                }
+
+                if (!await db.pauseSession(session.id)) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: 'Only a live session can be paused' });
+                    return;
+                }
+                QuestionTimerService.pause(session.id);
+                auditPresenterAction('SESSION_PAUSED');
+
+                const questionId = session.current_question_id;
+                const question = questionId ? await db.getQuestionById(questionId) : null;
+                socketService.emitToSession(session.id, SocketEvents.SESSION_PAUSED, {
+                    question_id: questionId,
+                    remaining_ms: question ? QuestionTimerService.getQuestionRemainingMs(question) : null,
                 });
 
             } catch (error) {
-                logger.error({ error }, 'Error removing participant:');
+                logger.error({ error }, 'Error pausing session:');
+                socket.emit('error', { code: 'PAUSE_ERROR', message: 'Failed to pause session' });
+            }
+        });
+
+        /**
+         * Resume a paused session; the countdown picks up with the time it had left
+         */
+        socket.on(SocketEvents.RESUME_SESSION, async () => {
+            try {
+                if (!await canPresent('drive')) return;
+
+                const pausedMs = await db.resumeSession(socketData.sessionId);
+                if (pausedMs === null) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: 'The session is not paused' });
+                    return;
+                }
+                auditPresenterAction('SESSION_RESUMED', { paused_ms: pausedMs });
+
+                const sessionId = socketData.sessionId;
+                const session = await db.getSessionById(sessionId);
+                const questionId = session?.current_question_id ?? null;
+                const question = questionId ? await db.getQuestionById(questionId) : null;
+                if (question) {
+                    QuestionTimerService.resume(sessionId, question, () => expireQuestion(sessionId, question.id));
+                }
+
+                socketService.emitToSession(sessionId, SocketEvents.SESSION_RESUMED, {
+                    question_id: questionId,
+                    remaining_ms: question ? QuestionTimerService.getQuestionRemainingMs(question) : null,
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error resuming session:');
+                socket.emit('error', { code: 'RESUME_ERROR', message: 'Failed to resume session' });
             }
         });
 
@@ -585,12 +1289,16 @@ export function initializeSocketHandlers(io: Server): void {
          */
         socket.on('end_session', async () => {
             try {
-                if (!socketData.isPresenter) return;
+                if (!await canPresent('manage')) return;
 
                 await db.updateSessionStatus(socketData.sessionId, 'ended');
+                QuestionTimerService.stop(socketData.sessionId);
+                auditPresenterAction('SESSION_ENDED');
 
-                io.to(`session:${socketData.sessionId}`).emit(SocketEvents.SESSION_ENDED, {
+                const session = await db.getSessionById(socketData.sessionId);
+                socketService.emitToSession(socketData.sessionId, SocketEvents.SESSION_ENDED, {
                     message: 'The session has ended',
+                    personal_results: !!session && PersonalResultsService.isEnabled(session),
                 });
 
             } catch (error) {
@@ -598,85 +1306,1166 @@ export function initializeSocketHandlers(io: Server): void {
             }
         });
 
+        /**
+         * Send the presenter the full word cloud; word_cloud_updated deltas apply on top of it
+         */
+        socket.on(SocketEvents.GET_WORD_CLOUD, async (payload: { question_id: string }) => {
+            try {
+                if (!socketData.isPresenter) return;
+
+                const question = await db.getQuestionById(payload.question_id);
+                if (!question || question.session_id !== socketData.sessionId) return;
+
+                // Send anything queued first so it isn't counted twice on top of the snapshot
+                await WordCloudService.flush(question.id);
+
+                socket.emit(SocketEvents.WORD_CLOUD_SNAPSHOT, {
+                    question_id: question.id,
+                    words: await db.getWordCloudData(question.id),
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error loading word cloud:');
+            }
+        });
+
         // ============================================
-        // BRAINSTORM EVENTS
+        // MODERATION EVENTS
         // ============================================
 
         /**
-         * Submit an idea for brainstorming
+         * Send the presenter every text response for a question, whatever its status
          */
-        socket.on('submit_idea', async (payload: {
-            question_id: string;
-            content: string;
+        socket.on(SocketEvents.GET_MODERATION_QUEUE, async (payload: { question_id: string }) => {
+            try {
+                if (!socketData.isPresenter) return;
+
+                const question = await db.getQuestionById(payload.question_id);
+                if (!question || question.session_id !== socketData.sessionId) return;
+
+                socket.emit(SocketEvents.MODERATION_QUEUE, {
+                    question_id: question.id,
+                    responses: await db.getTextResponses(question.id),
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error loading moderation queue:');
+            }
+        });
+
+        /**
+         * Approve, hide, highlight (or send back to pending) one response
+         */
+        socket.on(SocketEvents.MODERATE_RESPONSE, async (payload: {
+            response_id: string;
+            status: TextResponse['moderation_status'];
         }) => {
             try {
-                const { question_id, content } = payload;
+                if (!await canPresent('moderate')) return;
+
+                const { response_id, status } = payload;
+                if (!MODERATION_STATUSES.includes(status)) {
+                    socket.emit('error', { code: 'INVALID_STATUS', message: 'Unknown moderation status' });
+                    return;
+                }
+
+                const response = await db.moderateTextResponse(socketData.sessionId, response_id, status);
+                if (!response) {
+                    socket.emit('error', { code: 'RESPONSE_NOT_FOUND', message: 'Response not found' });
+                    return;
+                }
+
+                io.to(`presenter:${socketData.sessionId}`).emit(SocketEvents.TEXT_RESPONSES_MODERATED, {
+                    question_id: response.question_id,
+                    responses: [response],
+                });
+
+                await refreshVisibleResults(socketData.sessionId, response.question_id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error moderating response:');
+            }
+        });
+
+        /**
+         * Approve every pending response to a question
+         */
+        socket.on(SocketEvents.APPROVE_ALL_RESPONSES, async (payload: { question_id: string }) => {
+            try {
+                if (!await canPresent('moderate')) return;
+
+                const question = await db.getQuestionById(payload.question_id);
+                if (!question || question.session_id !== socketData.sessionId) return;
+
+                const responses = await db.approvePendingTextResponses(question.id);
+
+                io.to(`presenter:${socketData.sessionId}`).emit(SocketEvents.TEXT_RESPONSES_MODERATED, {
+                    question_id: question.id,
+                    responses,
+                });
+
+                if (responses.length > 0) {
+                    await refreshVisibleResults(socketData.sessionId, question.id);
+                }
+
+            } catch (error) {
+                logger.error({ error }, 'Error approving responses:');
+            }
+        });
+
+        /**
+         * Toggle auto-approval of open-ended responses for the session
+         */
+        socket.on(SocketEvents.UPDATE_MODERATION_SETTINGS, async (payload: { auto_approve_text: boolean }) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const updated = await db.updateSession(session.id, {
+                    settings: { ...session.settings, auto_approve_text: !!payload.auto_approve_text },
+                });
+
+                io.to(`presenter:${socketData.sessionId}`).emit(SocketEvents.MODERATION_SETTINGS_UPDATED, {
+                    auto_approve_text: !!updated.settings?.auto_approve_text,
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating moderation settings:');
+            }
+        });
+
+        /**
+         * Let participants open their personal results once the session is over
+         */
+        socket.on(SocketEvents.UPDATE_RESULTS_SETTINGS, async (payload: { personal_results: boolean }) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const updated = await db.updateSession(session.id, {
+                    settings: { ...session.settings, personal_results: !!payload?.personal_results },
+                });
+
+                io.to(`presenter:${socketData.sessionId}`).emit(SocketEvents.RESULTS_SETTINGS_UPDATED, {
+                    personal_results: PersonalResultsService.isEnabled(updated),
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating results settings:');
+            }
+        });
+
+        /**
+         * Replace the session's own block/allow lists and input actions.
+         * They apply on top of the organisation's settings.
+         */
+        socket.on(SocketEvents.UPDATE_PROFANITY_SETTINGS, async (payload: unknown) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const validation = ProfanitySettingsSchema.safeParse(payload);
+                if (!validation.success) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: validation.error.issues[0].message });
+                    return;
+                }
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const updated = await db.updateSession(session.id, {
+                    settings: { ...session.settings, profanity: validation.data },
+                });
+
+                io.to(`presenter:${socketData.sessionId}`).emit(SocketEvents.PROFANITY_SETTINGS_UPDATED, {
+                    settings: updated.settings?.profanity || {},
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating profanity settings:');
+            }
+        });
+
+        /**
+         * Nickname policy and the extra fields participants fill in before joining
+         */
+        socket.on(SocketEvents.UPDATE_JOIN_SETTINGS, async (payload: unknown) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const validation = JoinSettingsSchema.safeParse(payload);
+                if (!validation.success) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: validation.error.issues[0].message });
+                    return;
+                }
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const updated = await db.updateSession(session.id, {
+                    settings: { ...session.settings, ...validation.data },
+                });
+
+                io.to(`presenter:${socketData.sessionId}`).emit(SocketEvents.JOIN_SETTINGS_UPDATED, {
+                    unique_nicknames: !!updated.settings?.unique_nicknames,
+                    random_nicknames: !!updated.settings?.random_nicknames,
+                    join_fields: updated.settings?.join_fields || [],
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating join settings:');
+            }
+        });
+
+        // ============================================
+        // Q&A EVENTS
+        // ============================================
+
+        /**
+         * Load the session's Q&A list, plus the caller's own votes for participants
+         */
+        socket.on(SocketEvents.QNA_GET, async () => {
+            try {
+                if (!socketData.sessionId) return;
 
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                if (socketData.isPresenter) {
+                    socket.emit(SocketEvents.QNA_UPDATED, {
+                        questions: await db.getQnaQuestions(session.id),
+                        settings: getQnaSettings(session),
+                    });
+                    return;
+                }
+
+                socket.emit(SocketEvents.QNA_UPDATED, {
+                    questions: await db.getQnaQuestions(session.id, false),
+                    settings: getQnaSettings(session),
+                    my_votes: await db.getQnaVotesForParticipant(session.id, socketData.participantId),
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error loading Q&A:');
+            }
+        });
+
+        /**
+         * Participant asks a question, optionally anonymously
+         */
+        socket.on(SocketEvents.QNA_ASK, async (payload: { content: string; anonymous?: boolean }) => {
+            try {
                 if (!socketData.participantId) {
                     socket.emit('error', { code: ErrorCodes.INVALID_SESSION, message: 'Not in a session' });
                     return;
                 }
 
-                const question = await db.getQuestionById(question_id);
-                if (!question || question.is_locked) {
-                    socket.emit('error', { code: ErrorCodes.QUESTION_LOCKED, message: 'Submissions closed' });
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const settings = getQnaSettings(session);
+                if (!settings.enabled) {
+                    socket.emit('error', { code: 'QNA_DISABLED', message: 'Q&A is not open' });
                     return;
                 }
 
-                const cleanContent = content.substring(0, 280).trim();
-                if (!cleanContent) return;
+                const content = sanitizeInput(payload.content || '', MAX_QNA_LENGTH);
+                if (!content) return;
+
+                const check = ProfanityService.check(await ProfanityService.getPolicy(session), 'qna', content);
+                if (check.action === 'reject') {
+                    socket.emit('error', {
+                        code: ErrorCodes.PROFANITY_DETECTED,
+                        message: 'Please rephrase your question',
+                    });
+                    return;
+                }
 
-                const result = await db.submitIdea(question_id, socketData.participantId, cleanContent);
+                // Flagged questions start archived, where only presenters see them, until reopened
+                const pendingReview = check.action === 'moderate';
+                const anonymous = settings.allow_anonymous && !!payload.anonymous;
+                const result = await db.askQnaQuestion(
+                    session.id,
+                    socketData.participantId,
+                    check.text,
+                    anonymous,
+                    pendingReview ? 'archived' : 'open'
+                );
 
                 if (!result.success) {
-                    socket.emit('error', { code: 'MAX_IDEAS', message: 'Maximum ideas reached' });
+                    socket.emit('error', { code: 'MAX_QNA_QUESTIONS', message: 'Maximum questions reached' });
                     return;
                 }
 
-                socket.emit('idea_submitted', { success: true, idea: result.idea });
-
-                // Broadcast updated ideas to everyone in the session
-                const ideas = await db.getBrainstormIdeas(question_id);
-                io.to(`session:${socketData.sessionId}`).emit('ideas_updated', {
-                    question_id,
-                    ideas,
-                });
+                socket.emit(SocketEvents.QNA_ASKED, { success: true, question: result.question, pending_review: pendingReview });
+                await broadcastQna(session.id);
 
             } catch (error) {
-                logger.error({ error }, 'Error submitting idea:');
-                socket.emit('error', { code: 'SUBMIT_ERROR', message: 'Failed to submit idea' });
+                logger.error({ error }, 'Error asking Q&A question:');
+                socket.emit('error', { code: 'SUBMIT_ERROR', message: 'Failed to submit question' });
             }
         });
 
         /**
-         * Vote/unvote an idea in brainstorming
+         * Upvote/un-upvote a Q&A question
          */
-        socket.on('vote_idea', async (payload: { idea_id: string }) => {
+        socket.on(SocketEvents.QNA_VOTE, async (payload: { qna_question_id: string }) => {
             try {
                 if (!socketData.participantId) {
                     socket.emit('error', { code: ErrorCodes.INVALID_SESSION, message: 'Not in a session' });
                     return;
                 }
 
-                const { idea_id } = payload;
-                const result = await db.voteIdea(idea_id, socketData.participantId);
+                const { qna_question_id } = payload;
+                const question = await db.getQnaQuestionById(qna_question_id);
+                if (!question || question.session_id !== socketData.sessionId || question.status === 'archived') {
+                    socket.emit('error', { code: 'QNA_NOT_FOUND', message: 'Question not found' });
+                    return;
+                }
 
-                socket.emit('vote_toggled', { idea_id, action: result.action });
+                const result = await db.voteQnaQuestion(qna_question_id, socketData.participantId);
 
-                // Get parent question for room broadcast
-                // We need to find the question_id from the idea
-                // Small optimization: we broadcast all ideas
-                io.to(`session:${socketData.sessionId}`).emit('vote_updated', {
-                    idea_id,
-                    action: result.action,
-                });
+                socket.emit(SocketEvents.QNA_VOTE_TOGGLED, { qna_question_id, action: result.action });
+                await broadcastQna(socketData.sessionId);
 
             } catch (error) {
-                logger.error({ error }, 'Error voting on idea:');
+                logger.error({ error }, 'Error voting on Q&A question:');
                 socket.emit('error', { code: 'VOTE_ERROR', message: 'Failed to vote' });
             }
         });
 
+        /**
+         * Presenter marks a question answered, archives, reopens or pins it
+         */
+        socket.on(SocketEvents.QNA_UPDATE, async (payload: {
+            qna_question_id: string;
+            status?: QnaStatus;
+            is_pinned?: boolean;
+        }) => {
+            try {
+                if (!await canPresent('moderate')) return;
+
+                const { qna_question_id, status, is_pinned } = payload;
+                if (status !== undefined && !QNA_STATUSES.includes(status)) {
+                    socket.emit('error', { code: 'INVALID_STATUS', message: 'Unknown Q&A status' });
+                    return;
+                }
+
+                const question = await db.updateQnaQuestion(socketData.sessionId, qna_question_id, {
+                    status,
+                    is_pinned: is_pinned === undefined ? undefined : !!is_pinned,
+                });
+                if (!question) {
+                    socket.emit('error', { code: 'QNA_NOT_FOUND', message: 'Question not found' });
+                    return;
+                }
+
+                await broadcastQna(socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating Q&A question:');
+            }
+        });
+
+        /**
+         * Open/close Q&A and allow or forbid anonymous questions
+         */
+        socket.on(SocketEvents.QNA_SETTINGS, async (payload: { enabled?: boolean; allow_anonymous?: boolean }) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const current = getQnaSettings(session);
+                const updated = await db.updateSession(session.id, {
+                    settings: {
+                        ...session.settings,
+                        qna_enabled: payload.enabled ?? current.enabled,
+                        qna_allow_anonymous: payload.allow_anonymous ?? current.allow_anonymous,
+                    },
+                });
+
+                socketService.emitToSession(socketData.sessionId, SocketEvents.QNA_SETTINGS_UPDATED, getQnaSettings(updated));
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating Q&A settings:');
+            }
+        });
+
+        // ============================================
+        // BRAINSTORM EVENTS
+        // ============================================
+
+        /**
+         * Submit an idea for brainstorming
+         */
+        socket.on('submit_idea', async (payload: {
+            question_id: string;
+            content: string;
+        }) => {
+            try {
+                const { question_id, content } = payload;
+
+                if (!socketData.participantId) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_SESSION, message: 'Not in a session' });
+                    return;
+                }
+
+                const question = await db.getQuestionById(question_id);
+                if (!question || question.is_locked || (question.brainstorm_phase ?? 'submit') !== 'submit') {
+                    socket.emit('error', { code: ErrorCodes.QUESTION_LOCKED, message: 'Submissions closed' });
+                    return;
+                }
+
+                const cleanContent = content.substring(0, 280).trim();
+                if (!cleanContent) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+                if (session.status === 'paused') {
+                    socket.emit('error', { code: ErrorCodes.SESSION_PAUSED, message: 'The session is paused' });
+                    return;
+                }
+
+                const check = ProfanityService.check(await ProfanityService.getPolicy(session), 'ideas', cleanContent);
+                if (check.action === 'reject') {
+                    socket.emit('error', {
+                        code: ErrorCodes.PROFANITY_DETECTED,
+                        message: 'Please rephrase your idea',
+                    });
+                    return;
+                }
+
+                // Flagged ideas stay hidden until the presenter restores them
+                const pendingReview = check.action === 'moderate';
+                const result = await db.submitIdea(
+                    question_id,
+                    socketData.participantId,
+                    check.text,
+                    pendingReview ? 'hidden' : 'active'
+                );
+
+                if (!result.success) {
+                    socket.emit('error', { code: 'MAX_IDEAS', message: 'Maximum ideas reached' });
+                    return;
+                }
+
+                socket.emit('idea_submitted', { success: true, idea: result.idea, pending_review: pendingReview });
+
+                // Broadcast updated ideas to everyone in the session
+                await broadcastIdeas(socketData.sessionId, question_id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error submitting idea:');
+                socket.emit('error', { code: 'SUBMIT_ERROR', message: 'Failed to submit idea' });
+            }
+        });
+
+        /**
+         * Vote/unvote an idea in brainstorming. Only open during the vote phase;
+         * `action` adds or removes a single dot when multiple votes are allowed.
+         */
+        socket.on('vote_idea', async (payload: { idea_id: string; action?: 'add' | 'remove' }) => {
+            try {
+                if (!socketData.participantId) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_SESSION, message: 'Not in a session' });
+                    return;
+                }
+
+                const { idea_id, action } = payload;
+                const idea = await db.getBrainstormIdeaById(idea_id);
+                const question = idea ? await db.getQuestionById(idea.question_id) : null;
+                if (!idea || idea.status === 'hidden' || !question || question.session_id !== socketData.sessionId) {
+                    socket.emit('error', { code: 'IDEA_NOT_FOUND', message: 'Idea not found' });
+                    return;
+                }
+
+                if (question.brainstorm_phase !== 'vote' || question.settings?.allow_voting === false) {
+                    socket.emit('error', { code: 'VOTING_CLOSED', message: 'Voting is not open' });
+                    return;
+                }
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (session?.status === 'paused') {
+                    socket.emit('error', { code: ErrorCodes.SESSION_PAUSED, message: 'The session is paused' });
+                    return;
+                }
+
+                const budget = question.settings?.vote_budget;
+                const result = await db.voteIdea(idea_id, socketData.participantId, {
+                    budget,
+                    allowMultiple: !!question.settings?.allow_multiple_votes,
+                    action: action === 'add' || action === 'remove' ? action : undefined,
+                });
+
+                if (!result.success) {
+                    socket.emit('error', {
+                        code: result.reason === 'budget_exceeded' ? 'VOTE_BUDGET_EXCEEDED' : 'VOTE_ERROR',
+                        message: result.reason === 'budget_exceeded' ? 'No votes left' : 'Vote not changed',
+                    });
+                    return;
+                }
+
+                const myVotes = await db.getIdeaVotesForParticipant(question.id, socketData.participantId);
+                const used = Object.values(myVotes).reduce((sum, weight) => sum + weight, 0);
+
+                socket.emit('vote_toggled', {
+                    idea_id,
+                    action: result.action,
+                    votes_left: budget !== undefined ? Math.max(0, budget - used) : null,
+                });
+
+                const updated = await db.getBrainstormIdeaById(idea_id);
+                socketService.emitToSession(socketData.sessionId, 'vote_updated', {
+                    idea_id,
+                    action: result.action,
+                    vote_count: updated?.vote_count ?? 0,
+                });
+
+            } catch (error) {
+                logger.error({ error }, 'Error voting on idea:');
+                socket.emit('error', { code: 'VOTE_ERROR', message: 'Failed to vote' });
+            }
+        });
+
+        /**
+         * Load a brainstorm question the presenter may regroup (or, with 'drive', move between phases)
+         */
+        const getPresenterBrainstorm = async (questionId: string, permission: PresenterPermission = 'moderate') => {
+            if (!await canPresent(permission)) return null;
+
+            const question = await db.getQuestionById(questionId);
+            if (!question || question.session_id !== socketData.sessionId || question.question_type !== 'brainstorm') {
+                socket.emit('error', { code: 'QUESTION_NOT_FOUND', message: 'Brainstorm not found' });
+                return null;
+            }
+            return question;
+        };
+
+        const afterRegroup = async (questionId: string) => {
+            await broadcastIdeas(socketData.sessionId, questionId);
+            await refreshVisibleResults(socketData.sessionId, questionId);
+        };
+
+        /**
+         * Start a new group from one or more ideas
+         */
+        socket.on(SocketEvents.BRAINSTORM_CREATE_GROUP, async (payload: {
+            question_id: string;
+            label: string;
+            idea_ids: string[];
+        }) => {
+            try {
+                const question = await getPresenterBrainstorm(payload.question_id);
+                if (!question) return;
+
+                const label = sanitizeInput(payload.label || '', 100);
+                if (!label || !Array.isArray(payload.idea_ids) || payload.idea_ids.length === 0) {
+                    socket.emit('error', { code: 'INVALID_GROUP', message: 'A group needs a name and at least one idea' });
+                    return;
+                }
+
+                const ideas = await db.getBrainstormIdeas(question.id, true);
+                if (ideas.some(idea => idea.group_label === label)) {
+                    socket.emit('error', { code: 'GROUP_EXISTS', message: 'A group with that name already exists' });
+                    return;
+                }
+
+                await db.setIdeaGroup(question.id, payload.idea_ids, label);
+                await afterRegroup(question.id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error creating idea group:');
+            }
+        });
+
+        /**
+         * Drag ideas into a group, or out of every group with a null label
+         */
+        socket.on(SocketEvents.BRAINSTORM_MOVE_IDEAS, async (payload: {
+            question_id: string;
+            idea_ids: string[];
+            group_label: string | null;
+        }) => {
+            try {
+                const question = await getPresenterBrainstorm(payload.question_id);
+                if (!question || !Array.isArray(payload.idea_ids)) return;
+
+                const label = payload.group_label ? sanitizeInput(payload.group_label, 100) : null;
+                await db.setIdeaGroup(question.id, payload.idea_ids, label || null);
+                await afterRegroup(question.id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error moving ideas:');
+            }
+        });
+
+        /**
+         * Rename a group. Renaming onto an existing group's name merges the two.
+         */
+        socket.on(SocketEvents.BRAINSTORM_RENAME_GROUP, async (payload: {
+            question_id: string;
+            group_label: string;
+            new_label: string;
+        }) => {
+            try {
+                const question = await getPresenterBrainstorm(payload.question_id);
+                if (!question) return;
+
+                const newLabel = sanitizeInput(payload.new_label || '', 100);
+                if (!newLabel) return;
+
+                await db.mergeIdeaGroups(question.id, [payload.group_label], newLabel);
+                await afterRegroup(question.id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error renaming idea group:');
+            }
+        });
+
+        /**
+         * Merge several groups into one
+         */
+        socket.on(SocketEvents.BRAINSTORM_MERGE_GROUPS, async (payload: {
+            question_id: string;
+            group_labels: string[];
+            into: string;
+        }) => {
+            try {
+                const question = await getPresenterBrainstorm(payload.question_id);
+                if (!question || !Array.isArray(payload.group_labels)) return;
+
+                const target = sanitizeInput(payload.into || '', 100);
+                if (!target) return;
+
+                await db.mergeIdeaGroups(question.id, payload.group_labels, target);
+                await afterRegroup(question.id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error merging idea groups:');
+            }
+        });
+
+        /**
+         * Hide an idea from participants and results, or restore it
+         */
+        socket.on(SocketEvents.BRAINSTORM_HIDE_IDEA, async (payload: {
+            question_id: string;
+            idea_id: string;
+            hidden: boolean;
+        }) => {
+            try {
+                const question = await getPresenterBrainstorm(payload.question_id);
+                if (!question) return;
+
+                const updated = await db.setIdeaHidden(question.id, payload.idea_id, payload.hidden !== false);
+                if (!updated) {
+                    socket.emit('error', { code: 'IDEA_NOT_FOUND', message: 'Idea not found' });
+                    return;
+                }
+
+                await afterRegroup(question.id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error hiding idea:');
+            }
+        });
+
+        /**
+         * Group similar ungrouped ideas automatically
+         */
+        socket.on(SocketEvents.BRAINSTORM_AUTO_CLUSTER, async (payload: { question_id: string }) => {
+            try {
+                const question = await getPresenterBrainstorm(payload.question_id);
+                if (!question) return;
+
+                const clusters = await BrainstormService.autoCluster(question.id);
+                socket.emit(SocketEvents.BRAINSTORM_CLUSTERED, {
+                    question_id: question.id,
+                    groups_created: clusters.length,
+                });
+
+                if (clusters.length > 0) {
+                    await afterRegroup(question.id);
+                }
+
+            } catch (error) {
+                logger.error({ error }, 'Error clustering ideas:');
+            }
+        });
+
+        /**
+         * Move a brainstorm between its submit, vote and results phases.
+         * Entering results scores the authors and reveals the grouped ideas.
+         */
+        socket.on(SocketEvents.BRAINSTORM_SET_PHASE, async (payload: { question_id: string; phase: BrainstormPhase }) => {
+            try {
+                const question = await getPresenterBrainstorm(payload.question_id, 'drive');
+                if (!question) return;
+
+                const { phase } = payload;
+                if (!BRAINSTORM_PHASES.includes(phase)) {
+                    socket.emit('error', { code: 'INVALID_PHASE', message: 'Unknown brainstorm phase' });
+                    return;
+                }
+                if (phase === 'vote' && question.settings?.allow_voting === false) {
+                    socket.emit('error', { code: 'VOTING_DISABLED', message: 'Voting is turned off for this brainstorm' });
+                    return;
+                }
+
+                await db.setBrainstormPhase(question.id, phase);
+
+                socketService.emitToSession(socketData.sessionId, SocketEvents.BRAINSTORM_PHASE_CHANGED, {
+                    question_id: question.id,
+                    phase,
+                    vote_budget: question.settings?.vote_budget ?? null,
+                    allow_multiple_votes: !!question.settings?.allow_multiple_votes,
+                });
+
+                if (phase === 'results') {
+                    await BrainstormService.awardCreativityScores(socketData.sessionId, question.id);
+                    await revealResults(socketData.sessionId, question.id);
+                    await emitLeaderboard(socketData.sessionId);
+                }
+
+            } catch (error) {
+                logger.error({ error }, 'Error changing brainstorm phase:');
+            }
+        });
+
+        // ============================================
+        // TEAM EVENTS
+        // ============================================
+
+        /**
+         * Load the session's teams (with everyone's assignment for presenters)
+         */
+        socket.on(SocketEvents.GET_TEAMS, async () => {
+            try {
+                if (!socketData.sessionId) return;
+
+                if (socketData.isPresenter) {
+                    socket.emit(SocketEvents.TEAMS_UPDATED, await getTeamRoster(socketData.sessionId));
+                    return;
+                }
+
+                socket.emit(SocketEvents.TEAMS_UPDATED, { teams: await db.getTeams(socketData.sessionId) });
+
+            } catch (error) {
+                logger.error({ error }, 'Error loading teams:');
+            }
+        });
+
+        /**
+         * Turn team mode on/off and choose how teams are filled and scored
+         */
+        socket.on(SocketEvents.UPDATE_TEAM_SETTINGS, async (payload: unknown) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const validation = TeamSettingsSchema.safeParse(payload);
+                if (!validation.success) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: validation.error.issues[0].message });
+                    return;
+                }
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const updated = await db.updateSession(session.id, {
+                    settings: { ...session.settings, ...validation.data },
+                });
+
+                socketService.emitToSession(socketData.sessionId, SocketEvents.TEAM_SETTINGS_UPDATED, getTeamSettings(updated));
+                await emitLeaderboard(socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating team settings:');
+            }
+        });
+
+        /**
+         * Add teams by name
+         */
+        socket.on(SocketEvents.CREATE_TEAMS, async (payload: { names: string[] }) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const validation = TeamNamesSchema.safeParse(payload?.names);
+                if (!validation.success) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: validation.error.issues[0].message });
+                    return;
+                }
+
+                await TeamService.createTeams(socketData.sessionId, validation.data);
+                await broadcastTeams(socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error creating teams:');
+                socket.emit('error', { code: 'TEAM_ERROR', message: (error as Error).message || 'Failed to create teams' });
+            }
+        });
+
+        /**
+         * Delete a team; its members are left without a team
+         */
+        socket.on(SocketEvents.DELETE_TEAM, async (payload: { team_id: string }) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const members = (await db.getSessionParticipants(socketData.sessionId))
+                    .filter(p => p.team_id === payload.team_id);
+
+                if (!await db.deleteTeam(socketData.sessionId, payload.team_id)) {
+                    socket.emit('error', { code: 'TEAM_NOT_FOUND', message: 'Team not found' });
+                    return;
+                }
+
+                members.forEach(member => notifyTeamAssigned(io, { ...member, team_id: null }));
+                await broadcastTeams(socketData.sessionId);
+                await emitLeaderboard(socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error deleting team:');
+            }
+        });
+
+        /**
+         * Move a participant to a team, or off their team with team_id null
+         */
+        socket.on(SocketEvents.ASSIGN_TEAM, async (payload: { participant_id: string; team_id: string | null }) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                if (payload.team_id && !await db.getTeamById(socketData.sessionId, payload.team_id)) {
+                    socket.emit('error', { code: 'TEAM_NOT_FOUND', message: 'Team not found' });
+                    return;
+                }
+
+                const participant = await db.setParticipantTeam(socketData.sessionId, payload.participant_id, payload.team_id || null);
+                if (!participant) {
+                    socket.emit('error', { code: 'PARTICIPANT_NOT_FOUND', message: 'Participant not found' });
+                    return;
+                }
+
+                notifyTeamAssigned(io, participant);
+                await broadcastTeams(socketData.sessionId);
+                await emitLeaderboard(socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error assigning team:');
+            }
+        });
+
+        /**
+         * Spread everyone evenly across the existing teams
+         */
+        socket.on(SocketEvents.AUTO_BALANCE_TEAMS, async () => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                await TeamService.autoBalance(socketData.sessionId);
+
+                for (const participant of await db.getSessionParticipants(socketData.sessionId)) {
+                    notifyTeamAssigned(io, participant);
+                }
+                await broadcastTeams(socketData.sessionId);
+                await emitLeaderboard(socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error balancing teams:');
+            }
+        });
+
+        /**
+         * Participant picks (or switches) team when teams are chosen by participants
+         */
+        socket.on(SocketEvents.CHOOSE_TEAM, async (payload: { team_id: string }) => {
+            try {
+                if (!socketData.participantId) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session || !TeamService.isEnabled(session) || session.settings?.team_assignment !== 'choose') {
+                    socket.emit('error', { code: 'TEAM_CHOICE_CLOSED', message: 'Teams are assigned by the presenter' });
+                    return;
+                }
+
+                if (!await db.getTeamById(session.id, payload.team_id)) {
+                    socket.emit('error', { code: 'TEAM_NOT_FOUND', message: 'Team not found' });
+                    return;
+                }
+
+                const participant = await db.setParticipantTeam(session.id, socketData.participantId, payload.team_id);
+                if (!participant) return;
+
+                socket.emit(SocketEvents.TEAM_ASSIGNED, { team_id: participant.team_id });
+                await broadcastTeams(session.id);
+                await emitLeaderboard(session.id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error choosing team:');
+            }
+        });
+
+        // ============================================
+        // SELF-PACED EVENTS
+        // ============================================
+
+        /**
+         * Open/close window and attempt limit for self-paced sessions (presenter)
+         */
+        socket.on(SocketEvents.UPDATE_SELF_PACED_SETTINGS, async (payload: unknown) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const validation = SelfPacedSettingsSchema.safeParse(payload);
+                if (!validation.success) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: validation.error.issues[0].message });
+                    return;
+                }
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const { closes_at } = validation.data;
+                if (closes_at && new Date(closes_at) > new Date(session.expires_at)) {
+                    socket.emit('error', {
+                        code: ErrorCodes.INVALID_INPUT,
+                        message: `The session expires at ${new Date(session.expires_at).toISOString()}; close it before then`,
+                    });
+                    return;
+                }
+
+                const updated = await db.updateSession(session.id, {
+                    settings: { ...session.settings, ...validation.data },
+                });
+
+                socketService.emitToSession(
+                    socketData.sessionId,
+                    SocketEvents.SELF_PACED_SETTINGS_UPDATED,
+                    SelfPacedService.getSettings(updated)
+                );
+                await emitSelfPacedProgress(io, socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating self-paced settings:');
+            }
+        });
+
+        /**
+         * Resume the participant's attempt, start their first one, or retake
+         */
+        socket.on(SocketEvents.SELF_PACED_START, async (payload?: { retake?: boolean }) => {
+            try {
+                if (!socketData.participantId) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session || !SelfPacedService.isEnabled(session)) return;
+
+                const { attempt, error } = await SelfPacedService.start(session, socketData.participantId, !!payload?.retake);
+                if (error) {
+                    socket.emit('error', error);
+                    return;
+                }
+                if (!attempt) return;
+
+                await emitSelfPacedState(socket, session, socketData.cookieId, attempt);
+                await emitSelfPacedProgress(io, session.id);
+
+            } catch (error) {
+                logger.error({ error }, 'Error starting self-paced attempt:');
+                socket.emit('error', { code: 'SELF_PACED_ERROR', message: 'Failed to start' });
+            }
+        });
+
+        /**
+         * Move on from a question, answered or not. Repeats for a question the
+         * participant has already left just re-send where they are.
+         */
+        socket.on(SocketEvents.SELF_PACED_NEXT, async (payload: { question_id: string }) => {
+            try {
+                if (!socketData.participantId) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session || !SelfPacedService.isEnabled(session)) return;
+
+                let attempt = await db.getLatestAttempt(session.id, socketData.participantId);
+                if (!attempt) return;
+
+                const questions = await SelfPacedService.getQuestions(session.id);
+                const index = attempt.question_index;
+                if (!attempt.completed_at && questions[index]?.id === payload?.question_id) {
+                    const finished = index + 1 >= questions.length;
+                    attempt = await db.advanceAttempt(attempt.id, index, finished)
+                        ?? await db.getLatestAttempt(session.id, socketData.participantId)
+                        ?? attempt;
+
+                    if (finished) {
+                        await emitSelfPacedProgress(io, session.id);
+                        await emitLeaderboard(session.id);
+                    }
+                }
+
+                await emitSelfPacedState(socket, session, socketData.cookieId, attempt);
+
+            } catch (error) {
+                logger.error({ error }, 'Error advancing self-paced attempt:');
+                socket.emit('error', { code: 'SELF_PACED_ERROR', message: 'Failed to load the next question' });
+            }
+        });
+
+        // ============================================
+        // LOBBY EVENTS
+        // ============================================
+
+        /**
+         * Presenter sets who has to wait for approval: everyone, or only latecomers
+         */
+        socket.on(SocketEvents.UPDATE_LOBBY_SETTINGS, async (payload: unknown) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const validation = LobbySettingsSchema.safeParse(payload);
+                if (!validation.success) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: validation.error.issues[0].message });
+                    return;
+                }
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const updated = await db.updateSession(session.id, {
+                    settings: { ...session.settings, ...validation.data },
+                });
+
+                io.to(`presenter:${socketData.sessionId}`).emit(
+                    SocketEvents.LOBBY_SETTINGS_UPDATED,
+                    LobbyService.getSettings(updated)
+                );
+
+            } catch (error) {
+                logger.error({ error }, 'Error updating lobby settings:');
+            }
+        });
+
+        /**
+         * Let waiting participants in, either some of them or `all`
+         */
+        socket.on(SocketEvents.ADMIT_PARTICIPANTS, async (payload: { participant_ids?: string[]; all?: boolean }) => {
+            try {
+                if (!await canPresent('moderate')) return;
+
+                const requested = payload?.all ? null : payload?.participant_ids;
+                if (requested !== null && (!Array.isArray(requested) || requested.some(id => typeof id !== 'string'))) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: 'Choose who to admit' });
+                    return;
+                }
+
+                const admitted = await db.admitParticipants(socketData.sessionId, requested);
+
+                // They join the session proper by joining again, now admitted
+                for (const waiting of await io.in(`lobby:${socketData.sessionId}`).fetchSockets()) {
+                    if (admitted.includes(waiting.data.participantId)) {
+                        waiting.leave(`lobby:${socketData.sessionId}`);
+                        waiting.emit(SocketEvents.JOIN_ADMITTED, { session_id: socketData.sessionId });
+                    }
+                }
+
+                await emitLobby(io, socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error admitting participants:');
+            }
+        });
+
+        /**
+         * Turn away someone waiting in the lobby
+         */
+        socket.on(SocketEvents.REJECT_PARTICIPANT, async (payload: { participant_id: string }) => {
+            try {
+                if (!await canPresent('moderate')) return;
+
+                if (!await db.rejectParticipant(socketData.sessionId, payload?.participant_id)) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: 'Nobody by that id is waiting' });
+                    return;
+                }
+
+                for (const waiting of await io.in(`lobby:${socketData.sessionId}`).fetchSockets()) {
+                    if (waiting.data.participantId === payload.participant_id) {
+                        waiting.leave(`lobby:${socketData.sessionId}`);
+                        waiting.emit('error', LobbyService.checkAdmission({ admission: 'rejected' }));
+                    }
+                }
+
+                await emitLobby(io, socketData.sessionId);
+
+            } catch (error) {
+                logger.error({ error }, 'Error rejecting participant:');
+            }
+        });
+
+        // ============================================
+        // CO-HOST EVENTS
+        // ============================================
+
+        /**
+         * Invite a colleague by email, or change the role of one already invited
+         */
+        socket.on(SocketEvents.INVITE_COHOST, async (payload: unknown) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const validation = InviteCoHostSchema.safeParse(payload);
+                if (!validation.success) {
+                    socket.emit('error', { code: ErrorCodes.INVALID_INPUT, message: validation.error.issues[0].message });
+                    return;
+                }
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const inviter = await db.getUserById(socketData.presenterUserId!);
+                const { coHost, emailSent } = await CoHostService.invite(session, validation.data.email, validation.data.role, {
+                    id: socketData.presenterUserId!,
+                    name: inviter?.display_name || inviter?.email || 'A colleague',
+                });
+                auditPresenterAction('COHOST_INVITED', { cohost_id: coHost.id, email: coHost.email, cohost_role: coHost.role });
+
+                socket.emit(SocketEvents.COHOST_INVITED, { cohost: coHost, email_sent: emailSent });
+                await syncCoHosts(io, session);
+
+            } catch (error) {
+                logger.error({ error }, 'Error inviting co-host:');
+                socket.emit('error', { code: 'COHOST_ERROR', message: 'Failed to invite co-host' });
+            }
+        });
+
+        /**
+         * Withdraw a co-host's invitation; they lose their controls straight away
+         */
+        socket.on(SocketEvents.REMOVE_COHOST, async (payload: { cohost_id: string }) => {
+            try {
+                if (!await canPresent('manage')) return;
+
+                const session = await db.getSessionById(socketData.sessionId);
+                if (!session) return;
+
+                const removed = await db.removeCoHost(session.id, payload.cohost_id);
+                if (!removed) return;
+                auditPresenterAction('COHOST_REMOVED', { cohost_id: removed.id, email: removed.email, cohost_role: removed.role });
+
+                await syncCoHosts(io, session);
+
+            } catch (error) {
+                logger.error({ error }, 'Error removing co-host:');
+                socket.emit('error', { code: 'COHOST_ERROR', message: 'Failed to remove co-host' });
+            }
+        });
+
         // ============================================
         // DISCONNECT
         // ============================================
@@ -690,10 +2479,11 @@ export function initializeSocketHandlers(io: Server): void {
                 if (participant && socketData.sessionId) {
                     const participantCount = await db.getConnectedParticipantCount(socketData.sessionId);
 
-                    io.to(`session:${socketData.sessionId}`).emit('participant_left', {
+                    socketService.emitToSession(socketData.sessionId, 'participant_left', {
                         participant_id: participant.id,
                         participant_count: participantCount,
                     });
+                    await emitLobby(io, socketData.sessionId);
                 }
             } catch (error) {
                 logger.error({ error }, 'Error handling disconnect:');
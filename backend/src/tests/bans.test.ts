@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { getClientIp, hashIp } from '../services/BanService.js';
+
+describe('getClientIp', () => {
+    it('ignores X-Forwarded-For unless proxies are trusted', () => {
+        expect(getClientIp('203.0.113.7', '10.0.0.1')).toBe('10.0.0.1');
+        expect(getClientIp('203.0.113.7', '10.0.0.1', 0)).toBe('10.0.0.1');
+    });
+
+    it('takes the right-most address the trusted proxies did not add', () => {
+        expect(getClientIp('198.51.100.9, 203.0.113.7', '10.0.0.1', 1)).toBe('203.0.113.7');
+        expect(getClientIp(['198.51.100.9', '203.0.113.7, 10.0.0.2'], '10.0.0.1', 2)).toBe('203.0.113.7');
+    });
+
+    it('falls back to the socket address', () => {
+        expect(getClientIp(undefined, '::1', 1)).toBe('::1');
+        expect(getClientIp('', '::1', 1)).toBe('::1');
+    });
+
+    it('never reaches past the left-most entry', () => {
+        expect(getClientIp('203.0.113.7', '10.0.0.1', 5)).toBe('203.0.113.7');
+    });
+});
+
+describe('hashIp', () => {
+    it('gives the same address the same hash within a session', () => {
+        expect(hashIp('s1', '203.0.113.7')).toBe(hashIp('s1', '203.0.113.7'));
+        expect(hashIp('s1', '203.0.113.7')).not.toBe(hashIp('s1', '203.0.113.8'));
+    });
+
+    it('cannot be matched between sessions', () => {
+        expect(hashIp('s1', '203.0.113.7')).not.toBe(hashIp('s2', '203.0.113.7'));
+    });
+
+    it('does not store the address itself', () => {
+        expect(hashIp('s1', '203.0.113.7')).toMatch(/^[0-9a-f]{64}$/);
+    });
+});
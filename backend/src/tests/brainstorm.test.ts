@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { BrainstormService, clusterIdeas } from '../services/BrainstormService.js';
+import { BrainstormIdea } from '../types/index.js';
+
+function makeIdea(id: string, overrides: Partial<BrainstormIdea> = {}): BrainstormIdea {
+    return {
+        id,
+        question_id: 'q1',
+        participant_id: 'p1',
+        content: id,
+        group_label: null,
+        status: 'active',
+        created_at: new Date(),
+        vote_count: 0,
+        ...overrides,
+    };
+}
+
+describe('clusterIdeas', () => {
+    it('groups ideas sharing a keyword, allowing small spelling differences', () => {
+        const clusters = clusterIdeas([
+            { id: 'a', content: 'Fewer meetings' },
+            { id: 'b', content: 'Shorter meetings please!' },
+            { id: 'c', content: 'Free snacks' },
+            { id: 'd', content: 'No meeting on Fridays' },
+            { id: 'e', content: 'Better coffee' },
+        ]);
+
+        expect(clusters).toEqual([{ label: 'Meetings', idea_ids: ['a', 'b', 'd'] }]);
+    });
+
+    it('groups identical ideas that have no keywords and ignores filler words', () => {
+        const clusters = clusterIdeas([
+            { id: 'a', content: 'More of this' },
+            { id: 'b', content: 'more of this.' },
+            { id: 'c', content: 'We need more time' },
+        ]);
+
+        expect(clusters).toEqual([{ label: 'More of this', idea_ids: ['a', 'b'] }]);
+    });
+});
+
+describe('BrainstormService.groupResults', () => {
+    it('orders groups by total votes and leaves out hidden ideas', () => {
+        const results = BrainstormService.groupResults([
+            makeIdea('a', { group_label: 'Process', status: 'grouped', vote_count: 4 }),
+            makeIdea('b', { vote_count: 3 }),
+            makeIdea('c', { group_label: 'Tools', status: 'grouped', vote_count: 3 }),
+            makeIdea('d', { group_label: 'Tools', status: 'grouped', vote_count: 2 }),
+            makeIdea('e', { group_label: 'Process', status: 'hidden', vote_count: 9 }),
+        ]);
+
+        expect(results.groups.map(g => [g.label, g.vote_count, g.ideas.map(i => i.id)])).toEqual([
+            ['Tools', 5, ['c', 'd']],
+            ['Process', 4, ['a']],
+        ]);
+        expect(results.ungrouped.map(i => i.id)).toEqual(['b']);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { hasPermission, InviteCoHostSchema } from '../services/CoHostService.js';
+
+describe('hasPermission', () => {
+    it('gives the owner and full-control co-hosts every control', () => {
+        for (const role of ['owner', 'full'] as const) {
+            expect(hasPermission(role, 'moderate')).toBe(true);
+            expect(hasPermission(role, 'drive')).toBe(true);
+            expect(hasPermission(role, 'manage')).toBe(true);
+        }
+    });
+
+    it('keeps moderators to moderation', () => {
+        expect(hasPermission('moderator', 'moderate')).toBe(true);
+        expect(hasPermission('moderator', 'drive')).toBe(false);
+        expect(hasPermission('moderator', 'manage')).toBe(false);
+    });
+
+    it('lets drivers move through questions but not moderate or change settings', () => {
+        expect(hasPermission('driver', 'drive')).toBe(true);
+        expect(hasPermission('driver', 'moderate')).toBe(false);
+        expect(hasPermission('driver', 'manage')).toBe(false);
+    });
+
+    it('denies users without a role', () => {
+        expect(hasPermission(null, 'moderate')).toBe(false);
+        expect(hasPermission(undefined, 'drive')).toBe(false);
+    });
+});
+
+describe('InviteCoHostSchema', () => {
+    it('accepts an email and a known role', () => {
+        expect(InviteCoHostSchema.safeParse({ email: 'sam@example.com', role: 'driver' }).success).toBe(true);
+    });
+
+    it('rejects bad emails and unknown roles', () => {
+        expect(InviteCoHostSchema.safeParse({ email: 'not-an-email', role: 'driver' }).success).toBe(false);
+        expect(InviteCoHostSchema.safeParse({ email: 'sam@example.com', role: 'owner' }).success).toBe(false);
+    });
+});
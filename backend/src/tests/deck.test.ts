@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { DeckService, DECK_FORMAT, DECK_VERSION } from '../services/DeckService.js';
+
+function makeDeck(questions: unknown[], overrides: Record<string, unknown> = {}) {
+    return {
+        format: DECK_FORMAT,
+        version: DECK_VERSION,
+        exportedAt: '2024-01-01T00:00:00.000Z',
+        session: { title: 'Imported deck', mode: 'quiz' },
+        questions,
+        ...overrides,
+    };
+}
+
+describe('DeckService.parseDeck', () => {
+    it('keeps valid questions and reports invalid ones by position', () => {
+        const { deck } = DeckService.parseDeck(makeDeck([
+            { questionType: 'quiz_mc', questionText: 'Pick one', options: [], correctAnswer: 0, timeLimit: 20 },
+            { questionType: 'poll', questionText: '' },
+            { questionType: 'quiz_mc', questionText: 'Ordered?', settings: { scoring_strategy: 'kendall_tau' } },
+            { questionType: 'word_cloud', questionText: 'One word', mediaUrl: 'https://example.com/a.png' },
+        ]));
+
+        expect(deck!.questions.map(q => q.questionText)).toEqual(['Pick one', 'One word']);
+        expect(deck!.errors.map(e => e.index)).toEqual([1, 2]);
+        expect(deck!.errors[1].questionText).toBe('Ordered?');
+    });
+
+    it('keeps only session settings that pass their schemas', () => {
+        const { deck } = DeckService.parseDeck(makeDeck([], {
+            session: {
+                title: 'Imported deck',
+                settings: {
+                    qna_enabled: true,
+                    team_mode: true,
+                    team_assignment: 'auto',
+                    join_fields: [{ key: 'Bad Key', label: 'Team', type: 'text' }],
+                    max_attempts: 0,
+                    profanity: { actions: { nicknames: 'moderate' } },
+                    join_approval: 'yes',
+                    injected: { anything: true },
+                },
+            },
+        }));
+
+        expect(deck!.session.settings).toEqual({ qna_enabled: true, team_mode: true, team_assignment: 'auto' });
+    });
+
+    it('rejects files that are not decks', () => {
+        expect(DeckService.parseDeck({ questions: [] }).error).toBeDefined();
+        expect(DeckService.parseDeck(makeDeck([], { format: 'other' })).error).toBeDefined();
+    });
+
+    it('rejects decks from a newer format version', () => {
+        const { deck, error } = DeckService.parseDeck(makeDeck([], { version: DECK_VERSION + 1 }));
+
+        expect(deck).toBeUndefined();
+        expect(error).toMatch(/newer/);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getNewcomerAdmission, LobbyService, LobbySettingsSchema } from '../services/LobbyService.js';
+import { ErrorCodes, Session } from '../types/index.js';
+
+describe('getNewcomerAdmission', () => {
+    const session = (status: Session['status'], settings: Session['settings'] = {}) => ({ status, settings });
+
+    it('lets people straight in by default, before and after the start', () => {
+        expect(getNewcomerAdmission(session('active'))).toBe('admitted');
+        expect(getNewcomerAdmission(session('live'))).toBe('admitted');
+    });
+
+    it('holds everyone for approval when join approval is on', () => {
+        expect(getNewcomerAdmission(session('active', { join_approval: true }))).toBe('pending');
+        expect(getNewcomerAdmission(session('live', { join_approval: true }))).toBe('pending');
+    });
+
+    it('only holds latecomers when late joining is off', () => {
+        expect(getNewcomerAdmission(session('active', { allow_late_join: false }))).toBe('admitted');
+        expect(getNewcomerAdmission(session('live', { allow_late_join: false }))).toBe('pending');
+        expect(getNewcomerAdmission(session('paused', { allow_late_join: false }))).toBe('pending');
+    });
+});
+
+describe('LobbyService.checkAdmission', () => {
+    it('keeps waiting and rejected participants out', () => {
+        expect(LobbyService.checkAdmission({ admission: 'admitted' })).toBeNull();
+        expect(LobbyService.checkAdmission({ admission: 'pending' })?.code).toBe(ErrorCodes.AWAITING_ADMISSION);
+        expect(LobbyService.checkAdmission({ admission: 'rejected' })?.code).toBe(ErrorCodes.JOIN_REJECTED);
+    });
+});
+
+describe('LobbySettingsSchema', () => {
+    it('accepts either setting on its own', () => {
+        expect(LobbySettingsSchema.safeParse({ join_approval: true }).success).toBe(true);
+        expect(LobbySettingsSchema.safeParse({ allow_late_join: false }).success).toBe(true);
+        expect(LobbySettingsSchema.safeParse({ join_approval: 'yes' }).success).toBe(false);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { JoinSettingsSchema, validateProfile } from '../services/ParticipantService.js';
+import { csvCell } from '../services/ExportService.js';
+import { generateFunNickname } from '../utils/helpers.js';
+import { JoinField } from '../types/index.js';
+
+const fields: JoinField[] = [
+    { key: 'team', label: 'Team', type: 'select', required: true, options: ['Red', 'Blue'] },
+    { key: 'email', label: 'Email', type: 'email' },
+];
+
+describe('validateProfile', () => {
+    it('keeps answers to known fields only', () => {
+        const result = validateProfile(fields, { team: ' Red ', email: 'ana@example.com', extra: 'x' });
+
+        expect(result).toEqual({ profile: { team: 'Red', email: 'ana@example.com' } });
+    });
+
+    it('reports the field that needs fixing', () => {
+        expect(validateProfile(fields, {}).error).toMatchObject({ details: { field: 'team' } });
+        expect(validateProfile(fields, { team: 'Green' }).error?.details.field).toBe('team');
+        expect(validateProfile(fields, { team: 'Blue', email: 'not-an-email' }).error?.details.field).toBe('email');
+    });
+
+    it('accepts anything when the session asks for nothing', () => {
+        expect(validateProfile(undefined, undefined)).toEqual({ profile: {} });
+    });
+});
+
+describe('join settings', () => {
+    it('rejects select fields without options and duplicate keys', () => {
+        expect(JoinSettingsSchema.safeParse({ join_fields: [{ key: 'team', label: 'Team', type: 'select' }] }).success).toBe(false);
+        expect(JoinSettingsSchema.safeParse({ join_fields: [fields[1], fields[1]] }).success).toBe(false);
+        expect(JoinSettingsSchema.safeParse({ unique_nicknames: true, join_fields: fields }).success).toBe(true);
+    });
+});
+
+describe('generateFunNickname', () => {
+    it('generates two-word nicknames', () => {
+        const nickname = generateFunNickname();
+
+        expect(nickname).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+$/);
+    });
+});
+
+describe('csvCell', () => {
+    it('quotes values and escapes quotes', () => {
+        expect(csvCell('Ana "the Great"')).toBe('"Ana ""the Great"""');
+        expect(csvCell(42)).toBe('"42"');
+    });
+
+    it('stops participant text from running as a spreadsheet formula', () => {
+        expect(csvCell('=HYPERLINK("http://evil")')).toBe(`"'=HYPERLINK(""http://evil"")"`);
+        expect(csvCell('+1')).toBe(`"'+1"`);
+        expect(csvCell('-2')).toBe(`"'-2"`);
+        expect(csvCell('@SUM(A1)')).toBe(`"'@SUM(A1)"`);
+        expect(csvCell('\tcmd')).toBe(`"'\tcmd"`);
+        expect(csvCell('\rcmd')).toBe(`"'\rcmd"`);
+        expect(csvCell('ana@example.com')).toBe('"ana@example.com"');
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { describeAnswer, rankParticipant } from '../services/PersonalResultsService.js';
+import { Question } from '../types/index.js';
+
+const options = [{ id: 'a', text: 'Paris' }, { id: 'b', text: 'Lyon' }, { id: 'c', text: 'Nice' }];
+
+const question = (question_type: Question['question_type']) => ({ question_type, options });
+
+describe('describeAnswer', () => {
+    it('shows the option picked rather than its index', () => {
+        expect(describeAnswer(question('quiz_mc'), { option_index: 1 })).toBe('Lyon');
+        expect(describeAnswer(question('quiz_mc'), 0, true)).toBe('Paris');
+    });
+
+    it('lists ordered answers by option text', () => {
+        expect(describeAnswer(question('quiz_order'), { order: ['c', 'a', 'b'] })).toBe('Nice → Paris → Lyon');
+        expect(describeAnswer(question('quiz_order'), ['a', 'b', 'c'], true)).toBe('Paris → Lyon → Nice');
+    });
+
+    it('handles typed and numeric answers', () => {
+        expect(describeAnswer(question('quiz_typed'), { answer: 'paris' })).toBe('paris');
+        expect(describeAnswer(question('quiz_slider'), { value: 42 })).toBe('42');
+        expect(describeAnswer(question('quiz_slider'), 40, true)).toBe('40');
+    });
+
+    it('returns null when there is no answer', () => {
+        expect(describeAnswer(question('poll'), null)).toBeNull();
+    });
+});
+
+describe('rankParticipant', () => {
+    const leaderboard = [
+        { id: 'p1', total_score: 900 },
+        { id: 'p2', total_score: 700 },
+        { id: 'p3', total_score: 700 },
+        { id: 'p4', total_score: null },
+    ];
+
+    it('gives tied participants the same rank', () => {
+        expect(rankParticipant(leaderboard, 'p3')).toEqual({ rank: 2, total_score: 700 });
+        expect(rankParticipant(leaderboard, 'p1')).toEqual({ rank: 1, total_score: 900 });
+    });
+
+    it('ranks participants without responses last with no score', () => {
+        expect(rankParticipant(leaderboard, 'p4')).toEqual({ rank: 4, total_score: 0 });
+    });
+
+    it('has no rank for someone who is not on the leaderboard', () => {
+        expect(rankParticipant(leaderboard, 'nobody')).toEqual({ rank: null, total_score: 0 });
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { ProfanityService, ProfanitySettingsSchema, resolvePolicy } from '../services/ProfanityService.js';
+import { cleanText, containsProfanity } from '../utils/profanityFilter.js';
+
+describe('profanity filter lists', () => {
+    const config = { blockWords: ['Sprout', 'rotten egg'], allowWords: ['sprouting', 'badword1'] };
+
+    it('blocks custom words and phrases on top of the built-in list', () => {
+        expect(containsProfanity('brussels sprouts', config)).toBe(true);
+        expect(containsProfanity('a Rotten   egg!', config)).toBe(true);
+        expect(containsProfanity('rotten apples', config)).toBe(false);
+        expect(containsProfanity('badword2')).toBe(true);
+    });
+
+    it('never filters allowed words', () => {
+        expect(containsProfanity('sprouting seeds', config)).toBe(false);
+        expect(containsProfanity('badword1', config)).toBe(false);
+    });
+
+    it('masks blocked words and whole phrases', () => {
+        expect(cleanText('a rotten egg and a sprout', config)).toBe('a ****** *** and a ******');
+    });
+});
+
+describe('ProfanityService', () => {
+    it('merges organisation and session settings', () => {
+        const policy = resolvePolicy(
+            { block_words: ['sprout'], actions: { text: 'reject', nicknames: 'mask' } },
+            { allow_words: ['sprout'], actions: { text: 'mask' } }
+        );
+
+        expect(policy.filter).toEqual({ blockWords: ['sprout'], allowWords: ['sprout'] });
+        expect(policy.actions).toEqual({ words: 'moderate', text: 'mask', ideas: 'moderate', qna: 'reject', nicknames: 'mask' });
+    });
+
+    it('applies the action configured for the input type', () => {
+        const policy = resolvePolicy({ block_words: ['sprout'], actions: { ideas: 'mask', words: 'reject' } });
+
+        expect(ProfanityService.check(policy, 'ideas', 'more sprout')).toEqual({ action: 'mask', text: 'more ******' });
+        expect(ProfanityService.check(policy, 'words', 'sprout').action).toBe('reject');
+        expect(ProfanityService.check(policy, 'text', 'sprout').action).toBe('moderate');
+        expect(ProfanityService.check(policy, 'text', 'carrot')).toEqual({ action: 'allow', text: 'carrot' });
+        expect(ProfanityService.check(policy, 'qna', 'why sprout?').action).toBe('reject');
+    });
+
+    it('does not allow nicknames to be sent to moderation', () => {
+        expect(ProfanitySettingsSchema.safeParse({ actions: { nicknames: 'moderate' } }).success).toBe(false);
+        expect(ProfanitySettingsSchema.safeParse({ actions: { nicknames: 'mask' } }).success).toBe(true);
+    });
+});
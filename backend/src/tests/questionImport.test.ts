@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { QuestionImportService, splitCsvRecords } from '../services/QuestionImportService.js';
+
+describe('QuestionImportService', () => {
+    it('reads spreadsheet rows and reports bad ones by line', () => {
+        const csv = [
+            'type;question;options;correct;time_limit',
+            'quiz_mc;"Capital of France; in Europe";Berlin|Paris|Rome;Paris;20',
+            'quiz_tf;The sky is green;;false;',
+            'quiz_mc;Missing answer;A|B;;',
+            'ranking;Rank these;A|B;;',
+            'scale;How was it?;;;',
+        ].join('\n');
+
+        const { questions, errors } = QuestionImportService.preview('csv', csv);
+
+        expect(questions.map(q => [q.line, q.question.questionType, q.question.correctAnswer])).toEqual([
+            [2, 'quiz_mc', 1],
+            [3, 'quiz_tf', 1],
+            [6, 'scale', undefined],
+        ]);
+        expect(questions[0].question.questionText).toBe('Capital of France; in Europe');
+        expect(questions[0].question.timeLimit).toBe(20);
+        expect(errors.map(e => e.line)).toEqual([4, 5]);
+    });
+
+    it('keeps the starting line of quoted multi-line cells', () => {
+        const records = splitCsvRecords('question\n"two\nlines"\nnext', ',');
+
+        expect(records.map(r => r.line)).toEqual([1, 2, 4]);
+        expect(records[1].fields[0]).toBe('two\nlines');
+    });
+
+    it('parses Aiken blocks', () => {
+        const aiken = [
+            'Which planet is largest?',
+            'A. Mars',
+            'B) Jupiter',
+            'ANSWER: B',
+            '',
+            'Broken question',
+            'A. Yes',
+            'C. No',
+            'ANSWER: A',
+        ].join('\n');
+
+        const { questions, errors } = QuestionImportService.preview('aiken', aiken);
+
+        expect(questions).toHaveLength(1);
+        expect(questions[0].question.correctAnswer).toBe(1);
+        expect(errors).toEqual([{ line: 8, error: 'Expected option B, found C' }]);
+    });
+
+    it('parses GIFT true/false, multiple choice and short answer', () => {
+        const gift = [
+            '// comment',
+            '::Q1:: Grant is buried in Grant\'s tomb {T}',
+            '',
+            'Who wrote Hamlet? {~Marlowe =Shakespeare#Correct! ~Bacon}',
+            '',
+            'Two plus two equals {=four =4}.',
+            '',
+            'What is 2+2? {#4}',
+        ].join('\n');
+
+        const { questions, errors } = QuestionImportService.preview('gift', gift);
+
+        expect(questions.map(q => [q.line, q.question.questionType, q.question.correctAnswer])).toEqual([
+            [2, 'quiz_tf', 0],
+            [4, 'quiz_mc', 1],
+            [6, 'quiz_typed', 'four'],
+        ]);
+        expect(questions[0].question.questionText).toBe('Grant is buried in Grant\'s tomb');
+        expect(questions[2].question.questionText).toBe('Two plus two equals _____.');
+        expect(errors).toEqual([{ line: 8, error: 'Numeric questions are not supported' }]);
+    });
+});
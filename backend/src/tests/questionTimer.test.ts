@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuestionTimerService } from '../services/QuestionTimerService.js';
+import db from '../services/database.js';
+
+vi.mock('../services/database.js', () => ({
+    default: { setQuestionDeadline: vi.fn(async () => {}) },
+}));
+
+describe('QuestionTimerService', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        QuestionTimerService.stop('session-1');
+        vi.useRealTimers();
+    });
+
+    it('reports remaining time for the running question only', async () => {
+        await QuestionTimerService.start('session-1', 'question-1', 10000, async () => {});
+
+        vi.advanceTimersByTime(3000);
+
+        expect(QuestionTimerService.getRemainingMs('session-1', 'question-1')).toBe(7000);
+        expect(QuestionTimerService.getRemainingMs('session-1', 'question-2')).toBeNull();
+    });
+
+    it('stores the deadline on the question', async () => {
+        await QuestionTimerService.start('session-1', 'question-1', 10000, async () => {});
+
+        expect(db.setQuestionDeadline).toHaveBeenLastCalledWith('question-1', new Date(Date.now() + 10000));
+    });
+
+    it('treats a question as expired once its stored deadline has passed', () => {
+        const ends_at = new Date(Date.now() + 1000);
+
+        expect(QuestionTimerService.hasExpired({ ends_at }, ends_at.getTime() - 1)).toBe(false);
+        expect(QuestionTimerService.hasExpired({ ends_at }, ends_at.getTime())).toBe(true);
+        expect(QuestionTimerService.hasExpired({ ends_at: null })).toBe(false);
+    });
+
+    it('runs the expiry callback once when the countdown reaches zero', async () => {
+        const onExpire = vi.fn(async () => {});
+        await QuestionTimerService.start('session-1', 'question-1', 2000, onExpire);
+
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(onExpire).toHaveBeenCalledTimes(1);
+        expect(QuestionTimerService.getRemainingMs('session-1', 'question-1')).toBeNull();
+    });
+
+    it('cancels the previous countdown when a new question starts', async () => {
+        const firstExpire = vi.fn(async () => {});
+        await QuestionTimerService.start('session-1', 'question-1', 2000, firstExpire);
+        await QuestionTimerService.start('session-1', 'question-2', 10000, async () => {});
+
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect(firstExpire).not.toHaveBeenCalled();
+        expect(QuestionTimerService.getRemainingMs('session-1', 'question-2')).toBe(7000);
+    });
+
+    it('freezes while paused and resumes with exactly the time left', async () => {
+        const onExpire = vi.fn(async () => {});
+        await QuestionTimerService.start('session-1', 'question-1', 10000, onExpire);
+
+        vi.advanceTimersByTime(4000);
+        QuestionTimerService.pause('session-1');
+        await vi.advanceTimersByTimeAsync(60000);
+
+        expect(onExpire).not.toHaveBeenCalled();
+        expect(QuestionTimerService.getRemainingMs('session-1', 'question-1')).toBe(6000);
+
+        // Resuming stores the new deadline, which the timer restarts from
+        QuestionTimerService.resume('session-1', { id: 'question-1', ends_at: new Date(Date.now() + 6000) }, onExpire);
+        vi.advanceTimersByTime(2000);
+        expect(QuestionTimerService.getRemainingMs('session-1', 'question-1')).toBe(4000);
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(onExpire).toHaveBeenCalledTimes(1);
+    });
+
+    it('reads the time left from the stored deadline, or the frozen time while paused', () => {
+        const now = Date.now();
+
+        expect(QuestionTimerService.getQuestionRemainingMs({ ends_at: new Date(now + 5000) }, now)).toBe(5000);
+        expect(QuestionTimerService.getQuestionRemainingMs({ ends_at: new Date(now - 5000) }, now)).toBe(0);
+        expect(QuestionTimerService.getQuestionRemainingMs({ ends_at: null, paused_remaining_ms: 3000 }, now)).toBe(3000);
+        expect(QuestionTimerService.getQuestionRemainingMs({ ends_at: null }, now)).toBeNull();
+    });
+});
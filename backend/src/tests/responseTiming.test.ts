@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+    calculateResponseTime,
+    detectSuspiciousResponse,
+    MAX_LATENCY_ALLOWANCE_MS,
+} from '../utils/helpers.js';
+
+describe('Response timing', () => {
+    const activatedAt = new Date('2024-01-01T10:00:00.000Z');
+    const activatedMs = activatedAt.getTime();
+
+    it('measures from activation and credits the round trip', () => {
+        expect(calculateResponseTime(activatedAt, activatedMs + 5000)).toBe(5000);
+        expect(calculateResponseTime(activatedAt, activatedMs + 5000, 200)).toBe(4800);
+    });
+
+    it('caps the latency allowance and clamps to the time limit', () => {
+        expect(calculateResponseTime(activatedAt, activatedMs + 5000, 60000))
+            .toBe(5000 - MAX_LATENCY_ALLOWANCE_MS);
+        expect(calculateResponseTime(activatedAt, activatedMs + 45000, 0, 30000)).toBe(30000);
+        expect(calculateResponseTime(activatedAt, activatedMs + 100, 500)).toBe(0);
+    });
+
+    it('leaves out time the session spent paused', () => {
+        expect(calculateResponseTime(activatedAt, activatedMs + 65000, 0, undefined, 60000)).toBe(5000);
+        expect(calculateResponseTime(activatedAt, activatedMs + 65000, 0, 30000, 60000)).toBe(5000);
+    });
+
+    it('flags answers faster than the question can be read', () => {
+        const question = 'Which planet in our solar system has the most moons?';
+
+        expect(detectSuspiciousResponse(100, question)).toBe('too_fast');
+        expect(detectSuspiciousResponse(4000, question)).toBeNull();
+    });
+
+    it('flags clients reporting far less time than the server measured', () => {
+        expect(detectSuspiciousResponse(9000, 'Pick one', 500)).toBe('client_time_mismatch');
+        expect(detectSuspiciousResponse(9000, 'Pick one', 8500)).toBeNull();
+    });
+
+    it('skips the cross-check when the client sent no time', () => {
+        expect(detectSuspiciousResponse(9000, 'Pick one')).toBeNull();
+        expect(detectSuspiciousResponse(9000, 'Pick one', 0)).toBeNull();
+        expect(detectSuspiciousResponse(9000, 'Pick one', null)).toBeNull();
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Server } from 'socket.io';
+import { hasAnswered } from '../services/ResyncService.js';
+import socketService from '../services/socketService.js';
+
+// Stands in for the broadcast_seq column on each session row
+vi.mock('../services/database.js', () => {
+    const seqs = new Map<string, number>();
+    return {
+        default: {
+            nextBroadcastSeq: async (sessionId: string) => {
+                seqs.set(sessionId, (seqs.get(sessionId) ?? 0) + 1);
+                return seqs.get(sessionId);
+            },
+            getBroadcastSeq: async (sessionId: string) => seqs.get(sessionId) ?? 0,
+        },
+    };
+});
+
+describe('hasAnswered', () => {
+    const none = { responses: [], texts: [], words: [] };
+
+    it('finds answers in any of the answer tables', () => {
+        expect(hasAnswered({ ...none, responses: [{ question_id: 'q1' }] }, 'q1')).toBe(true);
+        expect(hasAnswered({ ...none, texts: [{ question_id: 'q2' }] }, 'q2')).toBe(true);
+        expect(hasAnswered({ ...none, words: [{ question_id: 'q3' }] }, 'q3')).toBe(true);
+    });
+
+    it('ignores answers to other questions', () => {
+        expect(hasAnswered({ ...none, responses: [{ question_id: 'q1' }] }, 'q2')).toBe(false);
+    });
+});
+
+describe('session broadcast sequence', () => {
+    const emit = vi.fn();
+    const rooms: string[] = [];
+    const room = (name: string) => ({
+        emit: (...args: unknown[]) => { rooms.push(name); emit(...args); },
+        except: (other: string) => room(`${name} except ${other}`),
+    });
+    socketService.setIo({ to: room } as unknown as Server);
+
+    it('numbers broadcasts per session from the shared counter, in the order they were made', async () => {
+        await Promise.all([
+            socketService.emitToSession('s1', 'question_locked', { question_id: 'q1' }),
+            socketService.emitToSession('s1', 'question_locked', { question_id: 'q2' }),
+            socketService.emitToSession('s2', 'session_started'),
+        ]);
+
+        const sent = emit.mock.calls.map(call => call[1]);
+        expect(sent.filter(payload => payload.question_id)).toEqual([
+            { question_id: 'q1', seq: 1 },
+            { question_id: 'q2', seq: 2 },
+        ]);
+        expect(sent.find(payload => !payload.question_id)).toEqual({ seq: 1 });
+        expect(await socketService.getSeq('s1')).toBe(2);
+        expect(await socketService.getSeq('unknown')).toBe(0);
+    });
+
+    it('gives presenters their own payload under the same number', async () => {
+        emit.mockClear();
+        rooms.length = 0;
+        await socketService.emitToSession('s3', 'qna_updated', { questions: [] }, { questions: ['archived'] });
+
+        expect(rooms).toEqual(['presenter:s3', 'session:s3 except presenter:s3']);
+        expect(emit.mock.calls.map(call => call[1])).toEqual([
+            { questions: ['archived'], seq: 1 },
+            { questions: [], seq: 1 },
+        ]);
+    });
+});
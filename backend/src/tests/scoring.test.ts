@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { ScoringService, kendallTauCredit, positionalCredit } from '../services/ScoringService.js';
+import { Question, QuestionSettings, QuestionType } from '../types/index.js';
+
+function makeQuestion(question_type: QuestionType, correct_answer: any, settings: QuestionSettings = {}): Question {
+    return {
+        id: 'question-1',
+        session_id: 'session-1',
+        question_type,
+        question_text: 'Test question',
+        options: null,
+        settings,
+        correct_answer,
+        time_limit: 30,
+        display_order: 0,
+        is_active: true,
+        is_locked: false,
+        is_results_visible: false,
+        activated_at: null,
+        created_at: new Date(),
+    };
+}
+
+describe('ScoringService', () => {
+    const TIME_LIMIT_MS = 30000;
+
+    it('scores quiz_audio like a multiple choice question', () => {
+        const question = makeQuestion('quiz_audio', 2);
+
+        expect(ScoringService.score(question, { option_index: 2 }, TIME_LIMIT_MS, TIME_LIMIT_MS))
+            .toEqual({ isCorrect: true, credit: 1, score: 1000 });
+        expect(ScoringService.score(question, { option_index: 1 }, 0, TIME_LIMIT_MS).score).toBe(0);
+    });
+
+    it('keeps quiz_order all-or-nothing unless a strategy is chosen', () => {
+        const answer = { order: [0, 2, 1, 3] };
+
+        expect(ScoringService.score(makeQuestion('quiz_order', [0, 1, 2, 3]), answer, TIME_LIMIT_MS, TIME_LIMIT_MS).score)
+            .toBe(0);
+        expect(ScoringService.score(
+            makeQuestion('quiz_order', [0, 1, 2, 3], { scoring_strategy: 'positional' }),
+            answer, TIME_LIMIT_MS, TIME_LIMIT_MS
+        )).toEqual({ isCorrect: false, credit: 0.5, score: 500 });
+    });
+
+    it('gives ordering credit by position or by pair order', () => {
+        expect(positionalCredit(['b', 'c', 'd', 'a'], ['a', 'b', 'c', 'd'])).toBe(0);
+        expect(kendallTauCredit(['b', 'c', 'd', 'a'], ['a', 'b', 'c', 'd'])).toBe(0.5);
+        expect(kendallTauCredit(['a', 'b', 'c', 'd'], ['a', 'b', 'c', 'd'])).toBe(1);
+    });
+
+    it('scales slider credit with distance inside the tolerance', () => {
+        const question = makeQuestion('quiz_slider', 50, { tolerance: 10, scoring_strategy: 'proportional' });
+
+        expect(ScoringService.score(question, { value: 50 }, TIME_LIMIT_MS, TIME_LIMIT_MS).credit).toBe(1);
+        expect(ScoringService.score(question, { value: 55 }, TIME_LIMIT_MS, TIME_LIMIT_MS).credit).toBe(0.5);
+        expect(ScoringService.score(question, { value: 60 }, TIME_LIMIT_MS, TIME_LIMIT_MS).credit).toBe(0.1);
+        expect(ScoringService.score(question, { value: 61 }, TIME_LIMIT_MS, TIME_LIMIT_MS).isCorrect).toBe(false);
+    });
+
+    it('scales slider credit the same way on a fractional range', () => {
+        const question = makeQuestion('quiz_slider', 0.5, { tolerance: 0.1, scoring_strategy: 'proportional' });
+
+        expect(ScoringService.score(question, { value: 0.55 }, TIME_LIMIT_MS, TIME_LIMIT_MS).credit).toBeCloseTo(0.5);
+        expect(ScoringService.score(question, { value: 0.58 }, TIME_LIMIT_MS, TIME_LIMIT_MS).credit).toBeCloseTo(0.2);
+        expect(ScoringService.score(question, { value: 0.6 }, TIME_LIMIT_MS, TIME_LIMIT_MS).credit).toBe(0.1);
+        expect(ScoringService.score(question, { value: 0.7 }, TIME_LIMIT_MS, TIME_LIMIT_MS).isCorrect).toBe(false);
+    });
+
+    it('falls back to the default strategy when the chosen one does not apply', () => {
+        const question = makeQuestion('quiz_mc', 0, { scoring_strategy: 'kendall_tau' });
+
+        expect(ScoringService.score(question, { option_index: 0 }, TIME_LIMIT_MS, TIME_LIMIT_MS).credit).toBe(1);
+    });
+});
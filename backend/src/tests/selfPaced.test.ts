@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { checkWindow, getQuestionDeadline, SelfPacedSettingsSchema } from '../services/SelfPacedService.js';
+import { ErrorCodes } from '../types/index.js';
+
+const now = Date.parse('2026-03-01T12:00:00Z');
+const expires_at = new Date('2026-03-02T12:00:00Z');
+
+describe('checkWindow', () => {
+    it('is open without a window until the session expires', () => {
+        expect(checkWindow({ settings: {}, expires_at }, now)).toBeNull();
+        expect(checkWindow({ settings: {}, expires_at }, expires_at.getTime())?.code).toBe(ErrorCodes.SESSION_ENDED);
+    });
+
+    it('respects the presenter open and close times', () => {
+        const settings = { opens_at: '2026-03-01T13:00:00Z', closes_at: '2026-03-01T14:00:00Z' };
+
+        expect(checkWindow({ settings, expires_at }, now)?.code).toBe(ErrorCodes.SESSION_NOT_OPEN);
+        expect(checkWindow({ settings, expires_at }, Date.parse('2026-03-01T13:30:00Z'))).toBeNull();
+        expect(checkWindow({ settings, expires_at }, Date.parse('2026-03-01T14:00:00Z'))?.code).toBe(ErrorCodes.SESSION_ENDED);
+    });
+});
+
+describe('getQuestionDeadline', () => {
+    const attempt = { question_started_at: new Date(now) };
+
+    it('counts the time limit from when the participant reached the question', () => {
+        expect(getQuestionDeadline({ time_limit: 20 }, attempt)?.getTime()).toBe(now + 20000);
+    });
+
+    it('leaves untimed questions open', () => {
+        expect(getQuestionDeadline({ time_limit: null }, attempt)).toBeNull();
+        expect(getQuestionDeadline({ time_limit: 0 }, attempt)).toBeNull();
+    });
+});
+
+describe('self-paced settings', () => {
+    it('rejects a window that closes before it opens', () => {
+        const result = SelfPacedSettingsSchema.safeParse({
+            opens_at: '2026-03-01T14:00:00Z',
+            closes_at: '2026-03-01T13:00:00Z',
+        });
+
+        expect(result.success).toBe(false);
+    });
+
+    it('limits attempts to a positive whole number', () => {
+        expect(SelfPacedSettingsSchema.safeParse({ self_paced: true, max_attempts: 3 }).success).toBe(true);
+        expect(SelfPacedSettingsSchema.safeParse({ max_attempts: 0 }).success).toBe(false);
+    });
+});
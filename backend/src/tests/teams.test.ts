@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { rankTeams } from '../services/TeamService.js';
+
+const teams = [
+    { id: 'red', name: 'Red', color: '#EF4444' },
+    { id: 'blue', name: 'Blue', color: '#3B82F6' },
+    { id: 'green', name: 'Green', color: '#22C55E' },
+];
+
+const members = [
+    { team_id: 'red', total_score: 900 },
+    { team_id: 'red', total_score: 100 },
+    { team_id: 'red', total_score: 50 },
+    { team_id: 'blue', total_score: 600 },
+    { team_id: 'blue', total_score: 500 },
+];
+
+describe('rankTeams', () => {
+    it('sums member scores by default', () => {
+        const ranked = rankTeams(teams, members);
+
+        expect(ranked.map(t => [t.name, t.score, t.member_count, t.rank])).toEqual([
+            ['Blue', 1100, 2, 1],
+            ['Red', 1050, 3, 2],
+            ['Green', 0, 0, 3],
+        ]);
+    });
+
+    it('averages so bigger teams are not favoured', () => {
+        const ranked = rankTeams(teams, members, 'average');
+
+        expect(ranked.map(t => [t.name, t.score])).toEqual([['Blue', 550], ['Red', 350], ['Green', 0]]);
+    });
+
+    it('counts only the best N members', () => {
+        const ranked = rankTeams(teams, members, 'best_n', 1);
+
+        expect(ranked.map(t => [t.name, t.score])).toEqual([['Red', 900], ['Blue', 600], ['Green', 0]]);
+    });
+
+    it('gives tied teams the same rank', () => {
+        const ranked = rankTeams(teams, [{ team_id: 'red', total_score: 10 }, { team_id: 'blue', total_score: 10 }]);
+
+        expect(ranked.map(t => t.rank)).toEqual([1, 1, 3]);
+    });
+});
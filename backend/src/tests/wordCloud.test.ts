@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { WordCloudService } from '../services/WordCloudService.js';
+import { normalizePhrase, stemWord } from '../utils/textNormalizer.js';
+
+describe('normalizePhrase', () => {
+    it('drops stop words and joins hyphenated phrases', () => {
+        expect(normalizePhrase('The Machine-Learning!', { removeStopWords: true })).toBe('machine learning');
+        expect(normalizePhrase('the', { removeStopWords: true })).toBe('');
+        expect(normalizePhrase('the', {})).toBe('the');
+    });
+
+    it('uses the stop words and stemming rules of the language', () => {
+        expect(normalizePhrase('Les cafés', { language: 'fr', removeStopWords: true, stem: true })).toBe('café');
+        expect(normalizePhrase('custom words', { removeStopWords: true, customStopWords: ['Custom'] })).toBe('words');
+    });
+
+    it('stems English plurals and verb endings', () => {
+        expect(['meetings', 'meeting', 'running', 'ideas', 'stories', 'boxes', 'status'].map(w => stemWord(w)))
+            .toEqual(['meet', 'meet', 'run', 'idea', 'story', 'box', 'status']);
+    });
+});
+
+describe('WordCloudService.prepareWords', () => {
+    it('skips empty entries and repeats within a submission', () => {
+        const words = WordCloudService.prepareWords(['Teamwork', 'teamwork!', 'the', 'x', 42]);
+
+        expect(words.map(w => w.normalized)).toEqual(['teamwork']);
+    });
+
+    it('merges near-duplicates into words already in the cloud when enabled', () => {
+        const settings = { merge_similar: true };
+
+        expect(WordCloudService.prepareWords(['collaboraton'], settings, ['collaboration'])[0].normalized)
+            .toBe('collaboration');
+        expect(WordCloudService.prepareWords(['collaboraton'], {}, ['collaboration'])[0].normalized)
+            .toBe('collaboraton');
+    });
+});
@@ -15,24 +15,118 @@ export interface Session {
     created_at: Date;
     expires_at: Date;
     ended_at: Date | null;
+    paused_at?: Date | null;
+    broadcast_seq?: number; // Last sequence number stamped on a session broadcast
     // Library management
     user_id?: string | null;
     folder_id?: string | null;
     is_favorite?: boolean;
     is_deleted?: boolean;
+    deleted_at?: Date | null;
     visibility?: 'private' | 'public' | 'workspace';
     description?: string;
     thumbnail_url?: string | null;
     play_count?: number;
+    last_played_at?: Date | null;
+    // Templates
+    is_template?: boolean;
+    template_category?: string | null;
+    tags?: string[];
 }
 
 export interface SessionSettings {
-    allow_late_join?: boolean;
+    allow_late_join?: boolean; // When false, people joining after the start wait for approval
+    join_approval?: boolean; // Everyone who joins waits in the lobby until admitted
     show_participant_count?: boolean;
     anonymous_responses?: boolean;
+    auto_approve_text?: boolean; // Open-ended answers skip the queue unless they contain profanity
+    qna_enabled?: boolean;
+    qna_allow_anonymous?: boolean;
+    profanity?: ProfanitySettings; // Added to the organisation's lists and actions
+    unique_nicknames?: boolean;
+    random_nicknames?: boolean; // Participants get a generated name instead of choosing one
+    join_fields?: JoinField[];
+    team_mode?: boolean;
+    team_assignment?: TeamAssignment;
+    team_scoring?: TeamScoring;
+    team_best_n?: number; // Members counted with 'best_n' scoring
+    self_paced?: boolean; // Participants move through the questions on their own
+    opens_at?: string | null; // ISO timestamps bounding when self-paced attempts can start
+    closes_at?: string | null;
+    max_attempts?: number;
+    personal_results?: boolean; // Participants can review their own answers afterwards
+}
+
+// Team mode
+export type TeamAssignment = 'presenter' | 'choose' | 'auto';
+export type TeamScoring = 'sum' | 'average' | 'best_n';
+
+export interface Team {
+    id: string;
+    session_id: string;
+    name: string;
+    color: string;
+    member_count: number;
+    created_at: Date;
+}
+
+export interface TeamLeaderboardEntry {
+    team_id: string;
+    name: string;
+    color: string;
+    score: number;
+    member_count: number;
+    rank: number;
+}
+
+// A participant's run through a self-paced session
+export interface SelfPacedAttempt {
+    id: string;
+    session_id: string;
+    participant_id: string;
+    attempt_number: number;
+    question_index: number;
+    question_started_at: Date;
+    started_at: Date;
+    completed_at: Date | null;
+}
+
+// Colleagues invited by email to help run a session
+export type CoHostRole = 'moderator' | 'driver' | 'full';
+
+export interface CoHost {
+    id: string;
+    session_id: string;
+    email: string;
+    role: CoHostRole;
+    invited_by: string | null;
+    created_at: Date;
+}
+
+// Extra registration fields presenters ask for before joining
+export type JoinFieldType = 'text' | 'email' | 'select';
+
+export interface JoinField {
+    key: string;
+    label: string;
+    type: JoinFieldType;
+    required?: boolean;
+    options?: string[]; // select only
+}
+
+// Profanity filter configuration, stored per organisation and per session
+export type ProfanityInputType = 'words' | 'text' | 'ideas' | 'qna' | 'nicknames';
+export type ProfanityAction = 'reject' | 'mask' | 'moderate';
+
+export interface ProfanitySettings {
+    block_words?: string[];
+    allow_words?: string[];
+    actions?: Partial<Record<ProfanityInputType, ProfanityAction>>;
 }
 
 // Participant types
+export type Admission = 'admitted' | 'pending' | 'rejected';
+
 export interface Participant {
     id: string;
     session_id: string;
@@ -45,6 +139,29 @@ export interface Participant {
     is_removed: boolean;
     joined_at: Date;
     last_seen_at: Date;
+    profile?: Record<string, string>; // Answers to the session's join_fields
+    team_id?: string | null;
+    ip_hash?: string | null; // Keyed per session, see BanService.hashIp
+    admission: Admission;
+}
+
+// Someone in the lobby, as the presenter sees them arrive
+export interface LobbyEntry {
+    participant_id: string;
+    nickname: string | null;
+    avatar_color: string;
+    admission: Admission;
+    joined_at: Date;
+}
+
+// A participant as the presenter's participant list shows them
+export interface ParticipantRosterEntry {
+    participant_id: string;
+    nickname: string | null;
+    is_connected: boolean;
+    is_removed: boolean;
+    is_banned: boolean;
+    joined_at: Date;
 }
 
 // Question types
@@ -78,10 +195,14 @@ export interface Question {
     is_locked: boolean;
     is_results_visible: boolean;
     activated_at: Date | null;
+    paused_ms?: number; // Time spent paused since activation, left out of response times
+    ends_at?: Date | null; // When the server countdown runs out, while one is running
+    paused_remaining_ms?: number | null; // Countdown time left, while the session is paused
     created_at: Date;
     // Media
     audio_url?: string | null;
     media_url?: string | null;
+    brainstorm_phase?: BrainstormPhase;
 }
 
 export interface QuestionOption {
@@ -91,6 +212,13 @@ export interface QuestionOption {
     imageUrl?: string;
 }
 
+// How a quiz answer earns credit
+export type ScoringStrategy =
+    | 'exact'          // All-or-nothing
+    | 'positional'     // Ordering: share of items in the right slot
+    | 'kendall_tau'    // Ordering: share of item pairs in the right relative order
+    | 'proportional';  // Slider: credit falls off linearly with distance, up to tolerance
+
 export interface QuestionSettings {
     // Poll settings
     allow_multiple?: boolean;
@@ -102,7 +230,12 @@ export interface QuestionSettings {
     max_label?: string;
 
     // Word cloud settings
-    max_words?: number;
+    max_words?: number; // Per participant, across submissions
+    language?: string; // Stop words and stemming rules: en, es, fr, de or pt
+    filter_stop_words?: boolean; // On unless set to false
+    custom_stop_words?: string[];
+    stemming?: boolean;
+    merge_similar?: boolean; // Fold near-duplicate spellings into existing words
 
     // Ranking settings
     max_ranking_items?: number;
@@ -113,13 +246,17 @@ export interface QuestionSettings {
     // Quiz settings
     points?: number;
     tolerance?: number; // For slider estimation
+    auto_reveal?: boolean; // Reveal results when the countdown reaches zero
+    scoring_strategy?: ScoringStrategy; // Defaults to the question type's first supported strategy
 
     // NPS settings
     nps_question?: string; // Custom NPS prompt
 
     // Brainstorm settings
     max_ideas_per_user?: number;
-    allow_voting?: boolean;
+    allow_voting?: boolean; // false skips the vote phase
+    vote_budget?: number; // Dots per participant; unlimited when unset
+    allow_multiple_votes?: boolean; // Spend more than one dot on the same idea
 
     // Audio settings
     audio_autoplay?: boolean;
@@ -136,6 +273,8 @@ export interface Response {
     is_correct: boolean | null;
     score: number;
     response_time_ms: number | null;
+    is_flagged: boolean;
+    flag_reason: string | null;
     submitted_at: Date;
 }
 
@@ -175,12 +314,35 @@ export interface TextResponse {
     submitted_at: Date;
 }
 
+// Audience Q&A
+export type QnaStatus = 'open' | 'answered' | 'archived';
+
+export interface QnaQuestion {
+    id: string;
+    session_id: string;
+    participant_id: string | null; // null when asked anonymously
+    nickname: string | null;
+    content: string;
+    is_anonymous: boolean;
+    status: QnaStatus;
+    is_pinned: boolean;
+    vote_count: number;
+    created_at: Date;
+    answered_at: Date | null;
+}
+
 // Aggregated results
 export interface WordCloudWord {
     word: string;
     weight: number;
 }
 
+// Weight change for one word since the last word_cloud_updated
+export interface WordCloudDelta {
+    word: string;
+    delta: number;
+}
+
 export interface PollResults {
     question_id: string;
     total_votes: number;
@@ -252,6 +414,13 @@ export interface ResultsRevealedEvent {
     correct_answer?: any;
 }
 
+export interface QuestionTimerEvent {
+    question_id: string;
+    remaining_ms: number;
+    ends_at: Date;
+    server_time: Date;
+}
+
 export interface LeaderboardUpdatedEvent {
     leaderboard: LeaderboardEntry[];
 }
@@ -266,16 +435,27 @@ export interface ErrorEvent {
 export const ErrorCodes = {
     INVALID_SESSION: 'INVALID_SESSION',
     SESSION_ENDED: 'SESSION_ENDED',
+    SESSION_PAUSED: 'SESSION_PAUSED',
     SESSION_NOT_FOUND: 'SESSION_NOT_FOUND',
     DUPLICATE_RESPONSE: 'DUPLICATE_RESPONSE',
     QUESTION_LOCKED: 'QUESTION_LOCKED',
     PARTICIPANT_REMOVED: 'PARTICIPANT_REMOVED',
+    PARTICIPANT_BANNED: 'PARTICIPANT_BANNED',
+    AWAITING_ADMISSION: 'AWAITING_ADMISSION',
+    JOIN_REJECTED: 'JOIN_REJECTED',
     RATE_LIMITED: 'RATE_LIMITED',
     INVALID_INPUT: 'INVALID_INPUT',
     PROFANITY_DETECTED: 'PROFANITY_DETECTED',
+    NICKNAME_TAKEN: 'NICKNAME_TAKEN',
+    SESSION_NOT_OPEN: 'SESSION_NOT_OPEN',
+    NO_ATTEMPTS_LEFT: 'NO_ATTEMPTS_LEFT',
+    RESYNC_UNSUPPORTED: 'RESYNC_UNSUPPORTED',
+    FORBIDDEN: 'FORBIDDEN',
 } as const;
 
 // Brainstorm types
+export type BrainstormPhase = 'submit' | 'vote' | 'results';
+
 export interface BrainstormIdea {
     id: string;
     question_id: string;
@@ -288,10 +468,23 @@ export interface BrainstormIdea {
     has_voted?: boolean; // For current participant context
 }
 
+export interface BrainstormGroup {
+    label: string;
+    vote_count: number; // Sum of its ideas' votes
+    ideas: BrainstormIdea[];
+}
+
+// Revealed brainstorm results
+export interface BrainstormResults {
+    groups: BrainstormGroup[];
+    ungrouped: BrainstormIdea[];
+}
+
 export interface BrainstormVote {
     id: string;
     idea_id: string;
     participant_id: string;
+    weight: number; // Dots spent on the idea
     created_at: Date;
 }
 
@@ -306,6 +499,75 @@ export interface Folder {
     item_count?: number;
 }
 
+// Template publishing
+export interface TemplateMetadata {
+    title?: string;
+    description?: string;
+    category?: string;
+    tags?: string[];
+    thumbnail_url?: string | null;
+    visibility?: 'private' | 'public' | 'workspace';
+}
+
+// Portable deck format (import/export). Questions use the same
+// camelCase fields as the create-question API.
+export interface DeckQuestion {
+    questionType: QuestionType;
+    questionText: string;
+    options: QuestionOption[] | null;
+    settings: QuestionSettings;
+    correctAnswer: any | null;
+    timeLimit: number | null;
+    audioUrl: string | null;
+    mediaUrl: string | null;
+}
+
+export interface SessionDeck {
+    format: 'mojoquiz.deck';
+    version: number;
+    exportedAt: string;
+    session: {
+        title: string;
+        description: string;
+        mode: Session['mode'];
+        settings: SessionSettings;
+    };
+    questions: DeckQuestion[];
+}
+
+export interface DeckImportError {
+    index: number; // Position in the file's questions array
+    questionText?: string;
+    error: unknown;
+}
+
+// Bulk question import (CSV, Moodle GIFT, Aiken)
+export type QuestionImportFormat = 'csv' | 'gift' | 'aiken';
+
+export interface QuestionImportIssue {
+    line: number; // 1-based line in the uploaded text
+    error: string;
+}
+
+// Library search
+export type LibrarySort = 'created_at' | 'play_count' | 'last_played_at';
+
+export interface LibraryQuery {
+    search?: string;
+    mode?: Session['mode'];
+    status?: Session['status'];
+    folderId?: string | null; // null = sessions not in any folder
+    favorite?: boolean;
+    sort?: LibrarySort;
+    cursor?: string;
+    limit?: number;
+}
+
+export interface LibraryPage {
+    sessions: Session[];
+    nextCursor: string | null;
+}
+
 // Brainstorm socket events
 export interface SubmitIdeaPayload {
     question_id: string;
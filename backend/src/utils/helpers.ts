@@ -77,20 +77,40 @@ export function sanitizeNickname(nickname: string): string {
         .trim();
 }
 
+const NICKNAME_ADJECTIVES = [
+    'Brave', 'Bouncy', 'Clever', 'Cosmic', 'Curious', 'Dizzy', 'Fuzzy', 'Gentle', 'Happy', 'Jolly',
+    'Lucky', 'Mighty', 'Nimble', 'Plucky', 'Quirky', 'Rapid', 'Sneaky', 'Sunny', 'Witty', 'Zesty',
+];
+const NICKNAME_ANIMALS = [
+    'Badger', 'Dolphin', 'Falcon', 'Ferret', 'Fox', 'Gecko', 'Hedgehog', 'Koala', 'Llama', 'Lynx',
+    'Moose', 'Narwhal', 'Octopus', 'Otter', 'Owl', 'Panda', 'Penguin', 'Puffin', 'Tiger', 'Walrus',
+];
+
+/**
+ * Generate a random fun nickname, e.g. "Jolly Narwhal"
+ */
+export function generateFunNickname(): string {
+    const pick = (list: string[]) => list[Math.floor(Math.random() * list.length)];
+    return `${pick(NICKNAME_ADJECTIVES)} ${pick(NICKNAME_ANIMALS)}`;
+}
+
 // ============================================
 // WORD NORMALIZATION
 // ============================================
 
 /**
- * Normalize a word for word cloud aggregation
+ * Normalize a word for word cloud aggregation.
+ * Letters of any script are kept, so "café" doesn't collapse to "caf".
  */
 export function normalizeWord(word: string): string {
     return word
+        .normalize('NFC')
         .toLowerCase()
+        .replace(/[-_/]+/g, ' ')            // "machine-learning" == "machine learning"
+        .replace(/[^\p{L}\p{N}\s]/gu, '') // Remove punctuation
+        .replace(/\s+/g, ' ')              // Normalize whitespace
         .trim()
-        .replace(/[^\w\s]/g, '') // Remove punctuation
-        .replace(/\s+/g, ' ')    // Normalize whitespace
-        .substring(0, 50);       // Limit length
+        .substring(0, 50);                 // Limit length
 }
 
 // ============================================
@@ -167,6 +187,72 @@ function levenshteinDistance(a: string, b: string): number {
     return matrix[b.length][a.length];
 }
 
+// ============================================
+// RESPONSE TIMING
+// ============================================
+
+// Cap on the network allowance, so a client can't buy time by stalling latency pings
+export const MAX_LATENCY_ALLOWANCE_MS = 1000;
+
+// Fastest plausible human answer: reaction time plus a very quick read of the question
+const MIN_REACTION_MS = 250;
+const MIN_READ_MS_PER_WORD = 50;
+
+// How far the client's own stopwatch may undercut the server measurement before we flag it
+const CLIENT_TIME_TOLERANCE_MS = 2000;
+
+/**
+ * Calculate response time from server clocks
+ * - Starts when the question was activated, ends when the answer was received
+ * - The participant's measured round trip (capped) is credited back as network delay
+ * - Time the session spent paused doesn't count
+ */
+export function calculateResponseTime(
+    activatedAt: Date | string,
+    receivedAt: number,
+    roundTripMs: number = 0,
+    timeLimitMs?: number,
+    pausedMs: number = 0
+): number {
+    const allowance = Math.min(Math.max(0, roundTripMs), MAX_LATENCY_ALLOWANCE_MS);
+    const elapsed = Math.max(0, receivedAt - new Date(activatedAt).getTime() - allowance - Math.max(0, pausedMs));
+
+    return timeLimitMs ? Math.min(elapsed, timeLimitMs) : elapsed;
+}
+
+/**
+ * Minimum time a human needs to read a question and react
+ */
+export function getMinimumHumanResponseMs(questionText: string): number {
+    const wordCount = questionText.trim().split(/\s+/).filter(Boolean).length;
+    return MIN_REACTION_MS + wordCount * MIN_READ_MS_PER_WORD;
+}
+
+/**
+ * Flag responses that need review
+ * Returns a reason code, or null when the response looks genuine
+ */
+export function detectSuspiciousResponse(
+    responseTimeMs: number,
+    questionText: string,
+    clientResponseTimeMs?: unknown
+): string | null {
+    if (responseTimeMs < getMinimumHumanResponseMs(questionText)) {
+        return 'too_fast';
+    }
+
+    // Only cross-check a time the client actually measured; older clients send 0 when they don't know
+    if (
+        typeof clientResponseTimeMs === 'number' &&
+        clientResponseTimeMs > 0 &&
+        responseTimeMs - clientResponseTimeMs > CLIENT_TIME_TOLERANCE_MS
+    ) {
+        return 'client_time_mismatch';
+    }
+
+    return null;
+}
+
 // ============================================
 // RANDOM COLORS
 // ============================================
@@ -201,3 +287,11 @@ export function getExpirationDate(hoursFromNow: number = 24): Date {
     date.setHours(date.getHours() + hoursFromNow);
     return date;
 }
+
+/**
+ * Days a session stays in the trash before it is purged for good
+ */
+export function getTrashRetentionDays(): number {
+    const days = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+    return Number.isFinite(days) && days > 0 ? days : 30;
+}
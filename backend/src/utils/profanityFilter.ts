@@ -24,22 +24,43 @@ const LEET_MAP: { [key: string]: string } = {
     '$': 's',
 };
 
+/**
+ * Custom lists layered over the built-in one. Allowed words are never
+ * filtered, even when a block list would catch them; blocked entries may be
+ * single words or multi-word phrases.
+ */
+export interface ProfanityFilterConfig {
+    blockWords?: string[];
+    allowWords?: string[];
+}
+
+interface CompiledConfig {
+    blockWords: Set<string>;
+    blockPhrases: string[][];
+    allowWords: Set<string>;
+}
+
+const EMPTY_CONFIG: CompiledConfig = { blockWords: new Set(), blockPhrases: [], allowWords: new Set() };
+
+// Configs are built once per request and reused for every word in it
+const compiledConfigs = new WeakMap<ProfanityFilterConfig, CompiledConfig>();
+
 /**
  * Normalize text for profanity checking
  * - Lowercase
  * - Replace leet speak
- * - Remove non-alphabetic characters
+ * - Remove non-letter characters (accented letters are kept)
  */
 function normalizeForFilter(text: string): string {
-    let normalized = text.toLowerCase();
+    let normalized = text.normalize('NFC').toLowerCase();
 
     // Replace leet speak
     for (const [leet, letter] of Object.entries(LEET_MAP)) {
         normalized = normalized.replace(new RegExp(leet.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), letter);
     }
 
-    // Remove non-alphabetic characters
-    normalized = normalized.replace(/[^a-z]/g, '');
+    // Remove non-letter characters
+    normalized = normalized.replace(/[^\p{L}]/gu, '');
 
     return normalized;
 }
@@ -74,16 +95,38 @@ function levenshteinDistance(a: string, b: string): number {
     return matrix[b.length][a.length];
 }
 
+function compileConfig(config?: ProfanityFilterConfig): CompiledConfig {
+    if (!config) return EMPTY_CONFIG;
+
+    let compiled = compiledConfigs.get(config);
+    if (!compiled) {
+        compiled = { blockWords: new Set(), blockPhrases: [], allowWords: new Set() };
+        for (const entry of config.blockWords || []) {
+            const tokens = entry.split(/\s+/).map(normalizeForFilter).filter(Boolean);
+            if (tokens.length === 1) compiled.blockWords.add(tokens[0]);
+            else if (tokens.length > 1) compiled.blockPhrases.push(tokens);
+        }
+        for (const entry of config.allowWords || []) {
+            const normalized = normalizeForFilter(entry);
+            if (normalized) compiled.allowWords.add(normalized);
+        }
+        compiledConfigs.set(config, compiled);
+    }
+    return compiled;
+}
+
 /**
  * Check if a word is similar to any profanity
  */
-function isSimilarToProfanity(word: string, threshold: number = 1): boolean {
+function isSimilarToProfanity(word: string, config: CompiledConfig, threshold: number = 1): boolean {
     const normalized = normalizeForFilter(word);
 
     // Skip very short words
     if (normalized.length < 3) return false;
 
-    for (const profanity of PROFANITY_LIST) {
+    if (config.allowWords.has(normalized)) return false;
+
+    for (const profanity of [...PROFANITY_LIST, ...config.blockWords]) {
         // Direct match
         if (normalized === profanity) return true;
 
@@ -100,31 +143,51 @@ function isSimilarToProfanity(word: string, threshold: number = 1): boolean {
     return false;
 }
 
+/**
+ * Indexes of the words in `words` that belong to a blocked phrase
+ */
+function findBlockedPhrases(words: string[], config: CompiledConfig): Set<number> {
+    const covered = new Set<number>();
+    if (config.blockPhrases.length === 0) return covered;
+
+    const normalized = words.map(normalizeForFilter);
+    for (const phrase of config.blockPhrases) {
+        for (let start = 0; start + phrase.length <= normalized.length; start++) {
+            if (phrase.every((token, i) => normalized[start + i] === token)) {
+                for (let i = 0; i < phrase.length; i++) covered.add(start + i);
+            }
+        }
+    }
+    return covered;
+}
+
 /**
  * Filter a single word
  * Returns true if the word should be filtered (blocked)
  */
-export function shouldFilterWord(word: string): boolean {
+export function shouldFilterWord(word: string, config?: ProfanityFilterConfig): boolean {
     if (!word || word.length < 2) return false;
-    return isSimilarToProfanity(word);
+    return isSimilarToProfanity(word, compileConfig(config));
 }
 
 /**
  * Filter a text string
  * Returns true if any profanity is detected
  */
-export function containsProfanity(text: string): boolean {
+export function containsProfanity(text: string, config?: ProfanityFilterConfig): boolean {
     const words = text.split(/\s+/);
-    return words.some(word => shouldFilterWord(word));
+    return words.some(word => shouldFilterWord(word, config))
+        || findBlockedPhrases(words, compileConfig(config)).size > 0;
 }
 
 /**
  * Clean text by replacing profanity with asterisks
  */
-export function cleanText(text: string): string {
+export function cleanText(text: string, config?: ProfanityFilterConfig): string {
     const words = text.split(/\s+/);
-    return words.map(word => {
-        if (shouldFilterWord(word)) {
+    const phraseWords = findBlockedPhrases(words, compileConfig(config));
+    return words.map((word, i) => {
+        if (phraseWords.has(i) || shouldFilterWord(word, config)) {
             return '*'.repeat(word.length);
         }
         return word;
@@ -134,10 +197,10 @@ export function cleanText(text: string): string {
 /**
  * Filter an array of words, returning filtered status for each
  */
-export function filterWords(words: string[]): { word: string; filtered: boolean }[] {
+export function filterWords(words: string[], config?: ProfanityFilterConfig): { word: string; filtered: boolean }[] {
     return words.map(word => ({
         word,
-        filtered: shouldFilterWord(word),
+        filtered: shouldFilterWord(word, config),
     }));
 }
 
@@ -0,0 +1,116 @@
+/**
+ * Text Normalizer
+ * Language-aware clean-up of short free-text entries (word cloud words and phrases):
+ * stop-word removal and light stemming on top of normalizeWord
+ */
+
+import { normalizeWord } from './helpers.js';
+
+export type TextLanguage = 'en' | 'es' | 'fr' | 'de' | 'pt';
+
+export const SUPPORTED_LANGUAGES: TextLanguage[] = ['en', 'es', 'fr', 'de', 'pt'];
+
+const STOP_WORDS: Record<TextLanguage, Set<string>> = {
+    en: new Set([
+        'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'at', 'by', 'for', 'with', 'about', 'to', 'from',
+        'in', 'on', 'up', 'out', 'off', 'over', 'under', 'again', 'then', 'once', 'here', 'there', 'when',
+        'where', 'why', 'how', 'all', 'any', 'both', 'each', 'more', 'most', 'other', 'some', 'such', 'no',
+        'nor', 'not', 'only', 'own', 'same', 'so', 'than', 'too', 'very', 'can', 'will', 'just', 'should',
+        'now', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'him', 'his', 'she', 'her', 'it', 'its',
+        'they', 'them', 'their', 'what', 'which', 'who', 'this', 'that', 'these', 'those', 'am', 'is', 'are',
+        'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'as', 'into',
+    ]),
+    es: new Set([
+        'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero', 'de', 'del', 'al', 'a',
+        'en', 'con', 'por', 'para', 'sin', 'sobre', 'que', 'como', 'mas', 'más', 'muy', 'ya', 'no', 'si',
+        'sí', 'yo', 'tu', 'tú', 'mi', 'su', 'sus', 'nos', 'es', 'son', 'ser', 'fue', 'era', 'lo', 'le', 'se',
+        'este', 'esta', 'esto', 'ese', 'esa', 'eso',
+    ]),
+    fr: new Set([
+        'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'mais', 'donc', 'à', 'au', 'aux',
+        'en', 'dans', 'sur', 'sous', 'avec', 'sans', 'pour', 'par', 'que', 'qui', 'ne', 'pas', 'plus',
+        'très', 'je', 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles', 'mon', 'ma', 'mes', 'son',
+        'sa', 'ses', 'est', 'sont', 'être', 'ce', 'cet', 'cette', 'ces', 'se',
+    ]),
+    de: new Set([
+        'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'und', 'oder',
+        'aber', 'zu', 'zum', 'zur', 'von', 'vom', 'mit', 'ohne', 'für', 'auf', 'in', 'im', 'an', 'am', 'bei',
+        'aus', 'nach', 'nicht', 'kein', 'keine', 'sehr', 'mehr', 'ich', 'du', 'er', 'sie', 'es', 'wir',
+        'ihr', 'mein', 'sein', 'ist', 'sind', 'war', 'dass', 'wie', 'was',
+    ]),
+    pt: new Set([
+        'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'e', 'ou', 'mas', 'de', 'do', 'da', 'dos', 'das',
+        'em', 'no', 'na', 'nos', 'nas', 'com', 'sem', 'por', 'para', 'que', 'como', 'mais', 'muito', 'não',
+        'sim', 'eu', 'tu', 'ele', 'ela', 'nós', 'eles', 'elas', 'meu', 'minha', 'seu', 'sua', 'é', 'são',
+        'ser', 'foi', 'era', 'se', 'este', 'esta', 'isso',
+    ]),
+};
+
+export interface NormalizeOptions {
+    language?: TextLanguage;
+    removeStopWords?: boolean;
+    customStopWords?: string[];
+    stem?: boolean;
+}
+
+export function isSupportedLanguage(language: unknown): language is TextLanguage {
+    return SUPPORTED_LANGUAGES.includes(language as TextLanguage);
+}
+
+/**
+ * Strip common inflection endings so "meetings"/"meeting" or "ideas"/"idea"
+ * land on the same stem. Deliberately light: plurals everywhere, plus
+ * -ing/-ed for English. Short words are left alone.
+ */
+export function stemWord(word: string, language: TextLanguage = 'en'): string {
+    if (word.length <= 3) return word;
+
+    switch (language) {
+        case 'en': {
+            let stem = word;
+            if (stem.endsWith('ies') && stem.length > 4) stem = stem.slice(0, -3) + 'y';
+            else if (/(ss|ch|sh|x|z)es$/.test(stem)) stem = stem.slice(0, -2);
+            else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) stem = stem.slice(0, -1);
+
+            if (stem.endsWith('ing') && stem.length > 6) return undouble(stem.slice(0, -3));
+            if (stem.endsWith('ed') && stem.length > 5) return undouble(stem.slice(0, -2));
+            return stem;
+        }
+        case 'es':
+        case 'pt':
+            if (/[^aeiou]es$/.test(word) && word.length > 4) return word.slice(0, -2);
+            if (word.endsWith('s')) return word.slice(0, -1);
+            return word;
+        case 'fr':
+            if (/[sx]$/.test(word)) return word.slice(0, -1);
+            return word;
+        case 'de':
+            if (word.length > 5 && /(en|er)$/.test(word)) return word.slice(0, -2);
+            if (word.length > 4 && /[ens]$/.test(word)) return word.slice(0, -1);
+            return word;
+    }
+}
+
+// "running" -> "runn" -> "run"
+function undouble(stem: string): string {
+    return /([^aeiouls])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+}
+
+/**
+ * Normalise a word or short phrase. Stop words are dropped from phrases;
+ * an entry made only of stop words normalises to an empty string.
+ */
+export function normalizePhrase(text: string, options: NormalizeOptions = {}): string {
+    const language = options.language || 'en';
+    const custom = new Set((options.customStopWords || []).map(w => normalizeWord(w)));
+
+    let tokens = normalizeWord(text).split(' ').filter(Boolean);
+    if (options.removeStopWords) {
+        tokens = tokens.filter(token => !STOP_WORDS[language].has(token) && !custom.has(token));
+    }
+    if (options.stem) {
+        tokens = tokens.map(token => stemWord(token, language));
+    }
+
+    return tokens.join(' ');
+}
@@ -13,6 +13,7 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import ProtectedRoute from './components/auth/ProtectedRoute';
 import JoinPage from './components/participant/JoinPage';
 import PlayPage from './components/participant/PlayPage';
+import MyResultsPage from './components/participant/MyResultsPage';
 import LoginPage from './components/auth/LoginPage';
 import RegisterPage from './components/auth/RegisterPage';
 import ForgotPasswordPage from './components/auth/ForgotPasswordPage';
@@ -39,6 +40,7 @@ function App() {
                 <Route path="/join" element={<JoinPage />} />
                 <Route path="/join/:code" element={<JoinPage />} />
                 <Route path="/play/:code" element={<PlayPage />} />
+                <Route path="/results/:sessionId" element={<MyResultsPage />} />
                 <Route path="/auth/login" element={<LoginPage />} />
                 <Route path="/auth/register" element={<RegisterPage />} />
                 <Route path="/auth/forgot-password" element={<ForgotPasswordPage />} />
@@ -0,0 +1,104 @@
+/**
+ * Profanity Settings Form
+ * Edits custom block/allow lists and what happens to flagged input of each type.
+ * Used for organisation settings (admin) and per-session overrides (presenter).
+ */
+
+import { useEffect, useState } from 'react';
+import type { ProfanityAction, ProfanityInputType, ProfanitySettings } from '../../types';
+
+interface ProfanitySettingsFormProps {
+    settings: ProfanitySettings;
+    saving?: boolean;
+    // Session overrides can leave an action unset to inherit the organisation's
+    allowInherit?: boolean;
+    onSave: (settings: ProfanitySettings) => void;
+}
+
+const INPUT_TYPES: { type: ProfanityInputType; label: string; actions: ProfanityAction[] }[] = [
+    { type: 'words', label: 'Word cloud words', actions: ['moderate', 'mask', 'reject'] },
+    { type: 'text', label: 'Open-ended answers', actions: ['moderate', 'mask', 'reject'] },
+    { type: 'ideas', label: 'Brainstorm ideas', actions: ['moderate', 'mask', 'reject'] },
+    { type: 'qna', label: 'Q&A questions', actions: ['reject', 'mask', 'moderate'] },
+    { type: 'nicknames', label: 'Nicknames', actions: ['reject', 'mask'] },
+];
+
+const ACTION_LABELS: Record<ProfanityAction, string> = {
+    moderate: 'Send to moderation',
+    mask: 'Mask with ***',
+    reject: 'Reject',
+};
+
+function toList(text: string): string[] {
+    return [...new Set(text.split(/[\n,]/).map(w => w.trim()).filter(Boolean))];
+}
+
+function ProfanitySettingsForm({ settings, saving = false, allowInherit = false, onSave }: ProfanitySettingsFormProps) {
+    const [blockWords, setBlockWords] = useState('');
+    const [allowWords, setAllowWords] = useState('');
+    const [actions, setActions] = useState<ProfanitySettings['actions']>({});
+
+    useEffect(() => {
+        setBlockWords((settings.block_words || []).join('\n'));
+        setAllowWords((settings.allow_words || []).join('\n'));
+        setActions(settings.actions || {});
+    }, [settings]);
+
+    const setAction = (type: ProfanityInputType, action: string) => {
+        const next = { ...actions };
+        if (action) next[type] = action as ProfanityAction;
+        else delete next[type];
+        setActions(next);
+    };
+
+    const handleSave = () => {
+        onSave({ block_words: toList(blockWords), allow_words: toList(allowWords), actions });
+    };
+
+    return (
+        <div className="flex flex-col gap-md">
+            <div>
+                <label className="text-sm font-semibold">Blocked words and phrases</label>
+                <textarea
+                    className="input textarea-noresize"
+                    rows={4}
+                    placeholder="One per line"
+                    value={blockWords}
+                    onChange={(e) => setBlockWords(e.target.value)}
+                />
+            </div>
+            <div>
+                <label className="text-sm font-semibold">Always allowed</label>
+                <textarea
+                    className="input textarea-noresize"
+                    rows={3}
+                    placeholder="Words that should never be filtered"
+                    value={allowWords}
+                    onChange={(e) => setAllowWords(e.target.value)}
+                />
+            </div>
+            <div className="flex flex-col gap-xs">
+                {INPUT_TYPES.map(({ type, label, actions: options }) => (
+                    <label key={type} className="flex justify-between items-center gap-sm text-sm">
+                        {label}
+                        <select
+                            className="input text-xs py-xs px-sm w-auto"
+                            value={actions?.[type] || ''}
+                            onChange={(e) => setAction(type, e.target.value)}
+                        >
+                            <option value="">{allowInherit ? 'Organisation default' : 'Default'}</option>
+                            {options.map(action => (
+                                <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+            <button className="btn btn-primary btn-small" onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save filter settings'}
+            </button>
+        </div>
+    );
+}
+
+export default ProfanitySettingsForm;
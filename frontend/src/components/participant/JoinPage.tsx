@@ -1,13 +1,16 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { api } from '../../hooks/useApi';
 import BouncingBackground from '../common/BouncingBackground';
 import TriviaSection from '../common/TriviaSection';
+import type { JoinField, Team } from '../../types';
 
 function JoinPage() {
     const { code: urlCode } = useParams<{ code: string }>();
     const navigate = useNavigate();
+    // Set when the play page sends a participant back to fix their details
+    const rejoinError = (useLocation().state as { error?: string } | null)?.error;
 
     const [joinCode, setJoinCode] = useState(urlCode || '');
     const [nickname, setNickname] = useState('');
@@ -15,6 +18,14 @@ function JoinPage() {
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
     const [sessionTitle, setSessionTitle] = useState('');
+    const [joinFields, setJoinFields] = useState<JoinField[]>([]);
+    const [randomNicknames, setRandomNicknames] = useState(false);
+    // Only set when the presenter lets participants pick their own team
+    const [teams, setTeams] = useState<Team[]>([]);
+    const [teamId, setTeamId] = useState(() => sessionStorage.getItem('teamId') || '');
+    const [profile, setProfile] = useState<Record<string, string>>(
+        () => JSON.parse(sessionStorage.getItem('profile') || '{}')
+    );
 
     // Check for code in URL on mount
     useEffect(() => {
@@ -30,9 +41,25 @@ function JoinPage() {
 
         try {
             const data = await api.validateSession(code);
-            setSessionTitle(data.title);
+            const session = data.session || data;
+
+            // Self-paced sessions can only be joined inside their window
+            if (session.selfPaced && session.opensAt && Date.now() < Date.parse(session.opensAt)) {
+                setError(`This session opens ${new Date(session.opensAt).toLocaleString()}`);
+                return;
+            }
+            if (session.selfPaced && session.closesAt && Date.now() >= Date.parse(session.closesAt)) {
+                setError('This session has closed');
+                return;
+            }
+
+            setSessionTitle(session.title);
+            setJoinFields(session.joinFields || []);
+            setRandomNicknames(!!session.randomNicknames);
+            setTeams(session.teamMode && session.teamAssignment === 'choose' ? session.teams || [] : []);
             setJoinCode(code.toUpperCase());
             setStep('nickname');
+            if (rejoinError) setError(rejoinError);
         } catch (err: any) {
             setError(err.message || 'Session not found');
         } finally {
@@ -56,13 +83,24 @@ function JoinPage() {
     // Handle nickname submission
     const handleNicknameSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        const cleanNickname = nickname.trim();
+        const cleanNickname = randomNicknames ? '' : nickname.trim();
 
-        if (cleanNickname.length < 2) {
+        if (!randomNicknames && cleanNickname.length < 2) {
             setError('Nickname must be at least 2 characters');
             return;
         }
 
+        const missing = joinFields.find(f => f.required && !profile[f.key]?.trim());
+        if (missing) {
+            setError(`${missing.label} is required`);
+            return;
+        }
+
+        if (teams.length > 0 && !teams.some(t => t.id === teamId)) {
+            setError('Please choose a team');
+            return;
+        }
+
         setLoading(true);
         setError('');
 
@@ -74,6 +112,12 @@ function JoinPage() {
             sessionStorage.setItem('participantId', data.participantId);
             sessionStorage.setItem('participantToken', data.token);
             sessionStorage.setItem('sessionId', data.sessionId);
+            sessionStorage.setItem('profile', JSON.stringify(profile));
+            if (teams.length > 0) sessionStorage.setItem('teamId', teamId);
+            else sessionStorage.removeItem('teamId');
+            if (data.participantCookie) {
+                localStorage.setItem('participantCookie', data.participantCookie);
+            }
 
             // Navigate to play page
             navigate(`/play/${joinCode}`);
@@ -160,19 +204,74 @@ function JoinPage() {
                                 <h2>{sessionTitle}</h2>
                             </div>
 
-                            <input
-                                type="text"
-                                className="input mb-md"
-                                placeholder="Enter your nickname"
-                                value={nickname}
-                                onChange={(e) => {
-                                    setNickname(e.target.value);
-                                    setError('');
-                                }}
-                                maxLength={30}
-                                autoFocus
-                                autoComplete="off"
-                            />
+                            {randomNicknames ? (
+                                <p className="text-center text-muted mb-md">
+                                    You'll be given a random nickname
+                                </p>
+                            ) : (
+                                <input
+                                    type="text"
+                                    className="input mb-md"
+                                    placeholder="Enter your nickname"
+                                    value={nickname}
+                                    onChange={(e) => {
+                                        setNickname(e.target.value);
+                                        setError('');
+                                    }}
+                                    maxLength={30}
+                                    autoFocus
+                                    autoComplete="off"
+                                />
+                            )}
+
+                            {joinFields.map(field => (
+                                field.type === 'select' ? (
+                                    <select
+                                        key={field.key}
+                                        className="input mb-md"
+                                        value={profile[field.key] || ''}
+                                        onChange={(e) => {
+                                            setProfile({ ...profile, [field.key]: e.target.value });
+                                            setError('');
+                                        }}
+                                    >
+                                        <option value="">{field.label}{field.required ? '' : ' (optional)'}</option>
+                                        {(field.options || []).map(option => (
+                                            <option key={option} value={option}>{option}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <input
+                                        key={field.key}
+                                        type={field.type}
+                                        className="input mb-md"
+                                        placeholder={`${field.label}${field.required ? '' : ' (optional)'}`}
+                                        value={profile[field.key] || ''}
+                                        onChange={(e) => {
+                                            setProfile({ ...profile, [field.key]: e.target.value });
+                                            setError('');
+                                        }}
+                                        maxLength={100}
+                                        autoComplete="off"
+                                    />
+                                )
+                            ))}
+
+                            {teams.length > 0 && (
+                                <select
+                                    className="input mb-md"
+                                    value={teamId}
+                                    onChange={(e) => {
+                                        setTeamId(e.target.value);
+                                        setError('');
+                                    }}
+                                >
+                                    <option value="">Choose your team</option>
+                                    {teams.map(team => (
+                                        <option key={team.id} value={team.id}>{team.name}</option>
+                                    ))}
+                                </select>
+                            )}
 
                             {error && (
                                 <p className="error-text mb-md">
@@ -185,7 +284,7 @@ function JoinPage() {
                                 whileTap={{ scale: 0.98 }}
                                 type="submit"
                                 className="btn btn-primary btn-large btn-block"
-                                disabled={loading || nickname.trim().length < 2}
+                                disabled={loading || (!randomNicknames && nickname.trim().length < 2)}
                             >
                                 {loading ? 'Joining...' : 'Join'}
                             </motion.button>
@@ -0,0 +1,109 @@
+/**
+ * My Results Page
+ * A participant's own answers, the correct answers, score and rank
+ * once the presenter has made personal results available
+ */
+
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { api } from '../../hooks/useApi';
+import type { PersonalResults } from '../../types';
+
+function formatTime(ms: number | null): string | null {
+    return ms === null ? null : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function MyResultsPage() {
+    const { sessionId } = useParams<{ sessionId: string }>();
+    const navigate = useNavigate();
+
+    const [results, setResults] = useState<PersonalResults | null>(null);
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!sessionId) return;
+
+        api.getMyResults(sessionId)
+            .then(setResults)
+            .catch((err: any) => setError(err.message || 'Failed to load your results'))
+            .finally(() => setLoading(false));
+    }, [sessionId]);
+
+    if (loading) {
+        return (
+            <div className="page page-centered">
+                <div className="card w-full max-w-md p-xl">
+                    <div className="skeleton-pulse mb-md" style={{ height: '40px', width: '60%', margin: '0 auto' }}></div>
+                    <div className="skeleton-pulse" style={{ height: '20px', width: '80%', margin: '0 auto' }}></div>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !results) {
+        return (
+            <div className="page page-centered">
+                <div className="card text-center w-full max-w-md p-xl">
+                    <h3>No results</h3>
+                    <p className="text-muted mt-md">{error || 'Results are not available'}</p>
+                    <button className="btn btn-primary mt-lg" onClick={() => navigate('/')}>
+                        Back to Home
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="participant-container">
+            <header className="participant-header">
+                <div>
+                    <h3 className="text-sm font-semibold">{results.session_title}</h3>
+                    <div className="text-xs text-muted">{results.nickname || 'Your results'}</div>
+                </div>
+            </header>
+
+            <main className="participant-main">
+                <div className="card text-center mb-md animate-slide-up">
+                    <h2>{results.total_score} pts</h2>
+                    {results.rank !== null && (
+                        <p className="text-muted mt-sm">
+                            Rank {results.rank} of {results.participant_count}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex flex-col gap-sm">
+                    {results.answers.map((review, i) => (
+                        <div key={review.question_id} className="card animate-slide-up">
+                            <div className="text-xs text-muted mb-xs">Question {i + 1}</div>
+                            <h4 className="mb-sm">{review.question_text}</h4>
+                            <p className="text-sm">
+                                <span className="text-muted">Your answer: </span>
+                                {review.answer ?? <em className="text-muted">No answer</em>}
+                                {review.is_correct === true && <span className="text-success"> ✓</span>}
+                                {review.is_correct === false && <span className="text-error"> ✗</span>}
+                            </p>
+                            {review.correct_answer !== null && review.is_correct !== true && (
+                                <p className="text-sm">
+                                    <span className="text-muted">Correct answer: </span>
+                                    {review.correct_answer}
+                                </p>
+                            )}
+                            {(review.score > 0 || review.response_time_ms !== null) && (
+                                <p className="text-xs text-muted mt-xs">
+                                    {review.score > 0 && `+${review.score} pts`}
+                                    {review.score > 0 && review.response_time_ms !== null && ' • '}
+                                    {formatTime(review.response_time_ms)}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </main>
+        </div>
+    );
+}
+
+export default MyResultsPage;
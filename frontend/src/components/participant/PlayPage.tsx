@@ -4,23 +4,39 @@
  * Uses Pusher for real-time updates and PHP API for data
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import useSocket from '../../hooks/useSocket';
 import { api } from '../../hooks/useApi';
-import type { Question, ResponseSubmittedEvent } from '../../types';
-import { SOCKET_EVENTS } from '../../constants/socketEvents';
+import type { Question, ResponseSubmittedEvent, QuestionTimerEvent, QnaQuestion, QnaSettings, Team, TeamAssignment, TeamSettings, SelfPacedResult, ResyncState } from '../../types';
+import { RESYNC_PROTOCOL_VERSION, SOCKET_EVENTS } from '../../constants/socketEvents';
 import PollQuestion from './PollQuestion';
 import WordCloudInput from './WordCloudInput';
 import ScaleQuestion from './ScaleQuestion';
 import QuizQuestion from './QuizQuestion';
 import RankingQuestion from './RankingQuestion';
 import PinImageQuestion from './PinImageQuestion';
+import QnaPanel from './QnaPanel';
+
+// When this tab saw the current question start, kept across reconnects and reloads so
+// the client's stopwatch isn't restarted. A question first seen part-way through has
+// no start, and its answers are sent without a client time.
+const QUESTION_START_KEY = 'questionStart';
+
+function recordQuestionStart(questionId: string) {
+    if (getQuestionStart(questionId) !== null) return;
+    sessionStorage.setItem(QUESTION_START_KEY, JSON.stringify({ question_id: questionId, at: Date.now() }));
+}
+
+function getQuestionStart(questionId: string): number | null {
+    const stored = JSON.parse(sessionStorage.getItem(QUESTION_START_KEY) || 'null');
+    return stored?.question_id === questionId ? stored.at : null;
+}
 
 function PlayPage() {
     const { code } = useParams<{ code: string }>();
     const navigate = useNavigate();
-    const { isConnected, on, off, emit } = useSocket();
+    const { isConnected, error: socketError, on, onAny, off, emit, clearError } = useSocket();
 
     const [sessionId, setSessionId] = useState('');
     const [sessionTitle, setSessionTitle] = useState('');
@@ -29,9 +45,47 @@ function PlayPage() {
     const [activeQuestion, setActiveQuestion] = useState<Question | null>(null);
     const [hasResponded, setHasResponded] = useState(false);
     const [responseResult, setResponseResult] = useState<ResponseSubmittedEvent | null>(null);
+    const [timer, setTimer] = useState<{ question_id: string; seconds_left: number } | null>(null);
     const [error, setError] = useState('');
     const [waiting, setWaiting] = useState(true);
+    // Held in the lobby until the presenter lets them in
+    const [awaitingAdmission, setAwaitingAdmission] = useState(false);
+    const [paused, setPaused] = useState(false);
     const [loading, setLoading] = useState(true);
+    const [tab, setTab] = useState<'question' | 'qna'>('question');
+    const [qnaQuestions, setQnaQuestions] = useState<QnaQuestion[]>([]);
+    const [qnaVotes, setQnaVotes] = useState<string[]>([]);
+    const [qnaSettings, setQnaSettings] = useState<QnaSettings>({ enabled: false, allow_anonymous: false });
+    const [teams, setTeams] = useState<Team[]>([]);
+    const [teamId, setTeamId] = useState<string | null>(null);
+    const [teamAssignment, setTeamAssignment] = useState<TeamAssignment>('presenter');
+
+    // Self-paced sessions: where the participant is, their question clock and their result
+    const [selfPaced, setSelfPaced] = useState(false);
+    const [progress, setProgress] = useState<{ index: number; total: number } | null>(null);
+    const [deadline, setDeadline] = useState<{ question_id: string; ends_at: number } | null>(null);
+    const [selfPacedResult, setSelfPacedResult] = useState<SelfPacedResult | null>(null);
+    const selfPacedQuestionId = useRef<string | null>(null);
+    // Set when the session ends with personal results switched on
+    const [resultsAvailable, setResultsAvailable] = useState(false);
+
+    // Reconnects and missed broadcasts are recovered with a resync snapshot
+    const hasJoined = useRef(false);
+    const lastSeq = useRef<number | null>(null);
+    const resyncing = useRef(false);
+    // Read by socket handlers, which are bound once per connection
+    const activeQuestionRef = useRef<Question | null>(null);
+    activeQuestionRef.current = activeQuestion;
+
+    const requestResync = useCallback(() => {
+        if (!sessionId || resyncing.current) return;
+        resyncing.current = true;
+        emit(SOCKET_EVENTS.RESYNC, {
+            version: RESYNC_PROTOCOL_VERSION,
+            session_id: sessionId,
+            cookie_id: localStorage.getItem('participantCookie') || 'temp-cookie',
+        });
+    }, [sessionId, emit]);
 
     // Load session info from storage and subscribe to Pusher
     useEffect(() => {
@@ -76,26 +130,137 @@ function PlayPage() {
         if (!sessionId || !isConnected) return;
 
         // Join the session via Socket.IO
-        const storedCookieId = localStorage.getItem('participantCookie') || 'temp-cookie';
-        const nickname = sessionStorage.getItem('nickname') || '';
+        const joinSession = () => {
+            const storedCookieId = localStorage.getItem('participantCookie') || 'temp-cookie';
+            const nickname = sessionStorage.getItem('nickname') || '';
+            const profile = JSON.parse(sessionStorage.getItem('profile') || '{}');
+            const teamChoice = sessionStorage.getItem('teamId') || undefined;
+
+            emit('join_session', {
+                join_code: code,
+                cookie_id: storedCookieId,
+                nickname,
+                profile,
+                team_id: teamChoice
+            });
+        };
+
+        if (hasJoined.current) {
+            // Back after a dropped connection: rejoin and catch up in one step.
+            // The server may have restarted and begun numbering again.
+            lastSeq.current = null;
+            resyncing.current = false;
+            requestResync();
+        } else {
+            joinSession();
+        }
 
-        emit('join_session', {
-            join_code: code,
-            cookie_id: storedCookieId,
-            nickname
+        on(SOCKET_EVENTS.JOIN_PENDING, (data: any) => {
+            setAwaitingAdmission(true);
+            setSessionTitle(data.session_title);
+            setActiveQuestion(null);
+            setWaiting(true);
+        });
+
+        // Let in from the lobby: join again to get into the session
+        on(SOCKET_EVENTS.JOIN_ADMITTED, () => {
+            setAwaitingAdmission(false);
+            joinSession();
         });
 
         // Listen for confirmation
         on(SOCKET_EVENTS.SESSION_JOINED, (data: any) => {
+            hasJoined.current = true;
+            setAwaitingAdmission(false);
+            lastSeq.current = data.seq ?? null;
             setParticipantCount(data.participant_count);
-            if (data.active_question) {
+            // The session may have assigned a random nickname
+            if (data.nickname) {
+                sessionStorage.setItem('nickname', data.nickname);
+            }
+            if (data.self_paced) {
+                // The server hands out questions one at a time instead
+                setSelfPaced(true);
+                emit(SOCKET_EVENTS.SELF_PACED_START);
+            } else if (data.active_question) {
                 setActiveQuestion(transformQuestion(data.active_question));
                 setWaiting(false);
+                // A paused countdown doesn't tick, so take the frozen time from here
+                if (data.remaining_ms !== null && data.remaining_ms !== undefined) {
+                    setTimer({ question_id: data.active_question.id, seconds_left: Math.ceil(data.remaining_ms / 1000) });
+                }
+            }
+            setPaused(!!data.paused);
+            if (data.qna) {
+                setQnaSettings(data.qna);
+            }
+            setTeams(data.team_mode ? data.teams || [] : []);
+            setTeamId(data.team_id ?? null);
+            setTeamAssignment(data.team_assignment || 'presenter');
+            emit(SOCKET_EVENTS.QNA_GET);
+        });
+
+        on(SOCKET_EVENTS.RESYNC_STATE, (state: ResyncState) => {
+            resyncing.current = false;
+            lastSeq.current = Math.max(lastSeq.current ?? 0, state.seq);
+
+            setSessionTitle(state.session.title);
+            setParticipantCount(state.participant_count);
+            setTeamId(state.participant.team_id);
+            setPaused(state.session.status === 'paused');
+
+            if (state.session.status === 'ended') {
+                setResultsAvailable(state.personal_results);
+                setWaiting(true);
+                setActiveQuestion(null);
+                setError('Session has ended');
+                return;
             }
+
+            if (state.self_paced) {
+                // The attempt carries the current question and its deadline
+                setSelfPaced(true);
+                emit(SOCKET_EVENTS.SELF_PACED_START);
+                return;
+            }
+
+            const question = state.active_question ? transformQuestion(state.active_question) : null;
+            setActiveQuestion(question);
+            setHasResponded(state.has_responded);
+            setResponseResult(question && state.response ? {
+                success: true,
+                question_id: question.id,
+                participant_id: state.participant.id,
+                is_correct: state.response.is_correct ?? undefined,
+                score: state.response.score,
+                points_earned: state.response.score,
+                total_score: state.participant.total_score,
+                correct_answer_ids: [],
+            } : null);
+            setTimer(question && state.remaining_ms !== null ? {
+                question_id: question.id,
+                seconds_left: Math.ceil(state.remaining_ms / 1000),
+            } : null);
+            setWaiting(!question);
+        });
+
+        on(SOCKET_EVENTS.TEAMS_UPDATED, (data: { teams: Team[] }) => {
+            setTeams(data.teams);
+        });
+
+        on(SOCKET_EVENTS.TEAM_ASSIGNED, (data: { team_id: string | null }) => {
+            setTeamId(data.team_id);
+        });
+
+        on(SOCKET_EVENTS.TEAM_SETTINGS_UPDATED, (data: TeamSettings) => {
+            setTeamAssignment(data.team_assignment);
+            if (!data.team_mode) setTeams([]);
+            else emit(SOCKET_EVENTS.GET_TEAMS);
         });
 
         // Bind to events
         on(SOCKET_EVENTS.QUESTION_ACTIVATED, (data: any) => {
+            recordQuestionStart(data.question.id);
             setActiveQuestion(transformQuestion(data.question));
             setHasResponded(false);
             setResponseResult(null);
@@ -112,23 +277,48 @@ function PlayPage() {
 
         on(SOCKET_EVENTS.PARTICIPANT_REMOVED, (data: any) => {
             if (data.participant_id === participantId) {
-                setError('You have been removed from the session');
+                setError(data.banned ? 'You have been banned from the session' : 'You have been removed from the session');
             }
         });
 
         on(SOCKET_EVENTS.QUESTION_LOCKED, (data: any) => {
-            if (activeQuestion && activeQuestion.id === data.question_id) {
+            if (activeQuestionRef.current?.id === data.question_id) {
                 setActiveQuestion(prev => prev ? { ...prev, is_locked: data.is_locked } : null);
             }
         });
 
+        on(SOCKET_EVENTS.QUESTION_TIMER, (data: QuestionTimerEvent) => {
+            setTimer({
+                question_id: data.question_id,
+                seconds_left: Math.ceil(data.remaining_ms / 1000),
+            });
+        });
+
         on(SOCKET_EVENTS.RESULTS_REVEALED, (data: any) => {
-            if (activeQuestion && activeQuestion.id === data.question_id) {
+            if (activeQuestionRef.current?.id === data.question_id) {
                 setActiveQuestion(prev => prev ? { ...prev, is_results_visible: true } : null);
                 // Results are usually for presenter but could be shown to participants too
             }
         });
 
+        on(SOCKET_EVENTS.QUESTION_UPDATED, (data: any) => {
+            if (!activeQuestionRef.current || activeQuestionRef.current.id !== data.question?.id) return;
+            setActiveQuestion(prev => prev ? { ...transformQuestion(data.question), is_active: true } : null);
+            if (data.was_reset) {
+                setHasResponded(false);
+                setResponseResult(null);
+            }
+        });
+
+        on(SOCKET_EVENTS.QUESTION_REMOVED, (data: any) => {
+            if (activeQuestionRef.current?.id === data.question_id) {
+                setActiveQuestion(null);
+                setHasResponded(false);
+                setResponseResult(null);
+                setTimer(null);
+            }
+        });
+
         on('response_submitted', (data: any) => {
             setResponseResult({
                 success: data.success,
@@ -142,11 +332,37 @@ function PlayPage() {
             });
         });
 
+        on(SOCKET_EVENTS.QNA_UPDATED, (data: { questions: QnaQuestion[]; settings?: QnaSettings; my_votes?: string[] }) => {
+            setQnaQuestions(data.questions);
+            if (data.settings) setQnaSettings(data.settings);
+            if (data.my_votes) setQnaVotes(data.my_votes);
+        });
+
+        on(SOCKET_EVENTS.QNA_VOTE_TOGGLED, (data: { qna_question_id: string; action: 'voted' | 'unvoted' }) => {
+            setQnaVotes(prev => data.action === 'voted'
+                ? [...prev, data.qna_question_id]
+                : prev.filter(id => id !== data.qna_question_id));
+        });
+
+        on(SOCKET_EVENTS.QNA_SETTINGS_UPDATED, (data: QnaSettings) => {
+            setQnaSettings(data);
+        });
+
         on(SOCKET_EVENTS.SESSION_STARTED, () => {
             setWaiting(false);
         });
 
-        on(SOCKET_EVENTS.SESSION_ENDED, () => {
+        on(SOCKET_EVENTS.SESSION_PAUSED, () => {
+            setPaused(true);
+        });
+
+        on(SOCKET_EVENTS.SESSION_RESUMED, () => {
+            setPaused(false);
+        });
+
+        on(SOCKET_EVENTS.SESSION_ENDED, (data: { personal_results?: boolean }) => {
+            setPaused(false);
+            setResultsAvailable(!!data?.personal_results);
             setWaiting(true);
             setActiveQuestion(null);
             setError('Session has ended');
@@ -154,16 +370,125 @@ function PlayPage() {
 
         return () => {
             off(SOCKET_EVENTS.SESSION_JOINED);
+            off(SOCKET_EVENTS.RESYNC_STATE);
+            off(SOCKET_EVENTS.TEAMS_UPDATED);
+            off(SOCKET_EVENTS.TEAM_ASSIGNED);
+            off(SOCKET_EVENTS.TEAM_SETTINGS_UPDATED);
             off(SOCKET_EVENTS.QUESTION_ACTIVATED);
             off(SOCKET_EVENTS.PARTICIPANT_JOINED);
             off(SOCKET_EVENTS.PARTICIPANT_LEFT);
             off(SOCKET_EVENTS.PARTICIPANT_REMOVED);
+            off(SOCKET_EVENTS.JOIN_PENDING);
+            off(SOCKET_EVENTS.JOIN_ADMITTED);
             off(SOCKET_EVENTS.QUESTION_LOCKED);
+            off(SOCKET_EVENTS.QUESTION_TIMER);
             off(SOCKET_EVENTS.RESULTS_REVEALED);
+            off(SOCKET_EVENTS.QUESTION_UPDATED);
+            off(SOCKET_EVENTS.QUESTION_REMOVED);
+            off(SOCKET_EVENTS.QNA_UPDATED);
+            off(SOCKET_EVENTS.QNA_VOTE_TOGGLED);
+            off(SOCKET_EVENTS.QNA_SETTINGS_UPDATED);
             off(SOCKET_EVENTS.SESSION_STARTED);
+            off(SOCKET_EVENTS.SESSION_PAUSED);
+            off(SOCKET_EVENTS.SESSION_RESUMED);
             off(SOCKET_EVENTS.SESSION_ENDED);
         };
-    }, [sessionId, isConnected, on, off, emit, participantId, activeQuestion, code]);
+    }, [sessionId, isConnected, on, off, emit, participantId, code, requestResync]);
+
+    // Room broadcasts are numbered; a skipped number means something was missed
+    useEffect(() => {
+        if (!isConnected) return;
+
+        return onAny((_event: string, data?: { seq?: unknown }) => {
+            if (typeof data?.seq !== 'number') return;
+
+            const last = lastSeq.current;
+            lastSeq.current = Math.max(last ?? 0, data.seq);
+            if (last !== null && data.seq > last + 1) {
+                requestResync();
+            }
+        });
+    }, [isConnected, onAny, requestResync]);
+
+    // Self-paced questions arrive one by one, each with its own server deadline
+    useEffect(() => {
+        if (!isConnected) return;
+
+        const unsubscribes = [
+            on(SOCKET_EVENTS.SELF_PACED_QUESTION, (data: {
+                question: any;
+                index: number;
+                total: number;
+                ends_at: string | null;
+                server_time: string;
+            }) => {
+                // Resumes re-send the current question; keep the answer state for it
+                if (selfPacedQuestionId.current !== data.question.id) {
+                    // A question we moved on to starts now; the first one after (re)loading may have started earlier
+                    if (selfPacedQuestionId.current) recordQuestionStart(data.question.id);
+                    selfPacedQuestionId.current = data.question.id;
+                    setActiveQuestion(transformQuestion(data.question));
+                    setHasResponded(false);
+                    setResponseResult(null);
+                }
+                setProgress({ index: data.index, total: data.total });
+                setDeadline(data.ends_at ? {
+                    question_id: data.question.id,
+                    // Measured against the server clock so a skewed device clock doesn't matter
+                    ends_at: Date.now() + (Date.parse(data.ends_at) - Date.parse(data.server_time)),
+                } : null);
+                setTimer(null);
+                setSelfPacedResult(null);
+                setWaiting(false);
+            }),
+            on(SOCKET_EVENTS.SELF_PACED_COMPLETED, (data: SelfPacedResult) => {
+                selfPacedQuestionId.current = null;
+                setSelfPacedResult(data);
+                setActiveQuestion(null);
+                setDeadline(null);
+                setTimer(null);
+                setWaiting(true);
+            }),
+        ];
+
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    }, [isConnected, on]);
+
+    // Count down the self-paced question locally; the server rejects late answers either way
+    useEffect(() => {
+        if (!deadline) return;
+
+        const tick = () => {
+            const secondsLeft = Math.max(0, Math.ceil((deadline.ends_at - Date.now()) / 1000));
+            setTimer({ question_id: deadline.question_id, seconds_left: secondsLeft });
+            if (secondsLeft === 0) {
+                setActiveQuestion(prev => prev?.id === deadline.question_id && !prev.is_locked ? { ...prev, is_locked: true } : prev);
+            }
+            return secondsLeft;
+        };
+
+        if (tick() === 0) return;
+        const interval = setInterval(() => {
+            if (tick() === 0) clearInterval(interval);
+        }, 250);
+        return () => clearInterval(interval);
+    }, [deadline]);
+
+    // Join errors that name a field (nickname taken, missing details...) are fixed on the join page;
+    // being removed, banned or turned away from the lobby ends the session for this participant
+    useEffect(() => {
+        if (!isConnected) return;
+        return on('error', (data: { code: string; message: string; details?: { field?: string } }) => {
+            if (data.details?.field) {
+                navigate(`/join/${code}`, { state: { error: data.message } });
+            } else if (['PARTICIPANT_REMOVED', 'PARTICIPANT_BANNED', 'JOIN_REJECTED'].includes(data.code)) {
+                setError(data.message);
+            } else if (data.code === 'SESSION_PAUSED') {
+                // Answered just as the host paused; the pause broadcast may still be on its way
+                setPaused(true);
+            }
+        });
+    }, [isConnected, on, navigate, code]);
 
     // Handle body class for mobile app feel
     useEffect(() => {
@@ -187,7 +512,7 @@ function PlayPage() {
         time_limit: q.time_limit || q.settings?.time_limit || null,
         is_active: q.status === 'active',
         is_locked: q.status === 'locked' || q.is_locked,
-        is_results_visible: q.status === 'revealed',
+        is_results_visible: q.status === 'revealed' || !!q.is_results_visible,
         started_at: q.started_at,
         response_count: q.response_count || 0,
     });
@@ -196,11 +521,12 @@ function PlayPage() {
     const submitResponse = useCallback((responseData: any) => {
         if (!activeQuestion || !sessionId || !participantId) return;
 
+        // The client time is only a cross-check; leave it out when unknown rather than sending 0
         emit('submit_response', {
             question_id: activeQuestion.id,
             response_data: {
                 option_index: responseData.option_index ?? responseData,
-                response_time_ms: responseData.response_time_ms || 0
+                ...(typeof responseData.response_time_ms === 'number' && { response_time_ms: responseData.response_time_ms }),
             }
         });
 
@@ -243,6 +569,68 @@ function PlayPage() {
         setHasResponded(true);
     }, [activeQuestion, sessionId, participantId, emit]);
 
+    // Ask the presenter a question
+    const askQuestion = useCallback((content: string, anonymous: boolean) => {
+        clearError();
+        emit(SOCKET_EVENTS.QNA_ASK, { content, anonymous });
+    }, [emit, clearError]);
+
+    // Upvote/un-upvote a Q&A question
+    const voteQuestion = useCallback((qnaQuestionId: string) => {
+        emit(SOCKET_EVENTS.QNA_VOTE, { qna_question_id: qnaQuestionId });
+    }, [emit]);
+
+    // Move on in a self-paced session, whether or not the question was answered
+    const nextQuestion = useCallback(() => {
+        if (!activeQuestion) return;
+        emit(SOCKET_EVENTS.SELF_PACED_NEXT, { question_id: activeQuestion.id });
+    }, [activeQuestion, emit]);
+
+    const retake = useCallback(() => {
+        clearError();
+        emit(SOCKET_EVENTS.SELF_PACED_START, { retake: true });
+    }, [emit, clearError]);
+
+    // The participant's team, once they have one
+    const renderTeam = () => {
+        const team = teams.find(t => t.id === teamId);
+        return team && (
+            <div className="text-xs font-semibold" style={{ color: team.color }}>Team {team.name}</div>
+        );
+    };
+
+    // Tab switch between the live question and Q&A, shown once Q&A has been opened
+    const showQnaTab = qnaSettings.enabled || qnaQuestions.length > 0;
+
+    const renderTabs = () => showQnaTab && (
+        <div className="tab-group mb-md">
+            <button
+                className={`tab-btn ${tab === 'question' ? 'active' : ''}`}
+                onClick={() => setTab('question')}
+            >
+                Question
+            </button>
+            <button
+                className={`tab-btn ${tab === 'qna' ? 'active' : ''}`}
+                onClick={() => setTab('qna')}
+            >
+                Q&A{qnaQuestions.length > 0 ? ` (${qnaQuestions.length})` : ''}
+            </button>
+        </div>
+    );
+
+    const renderQna = () => (
+        <QnaPanel
+            questions={qnaQuestions}
+            myVotes={qnaVotes}
+            enabled={qnaSettings.enabled}
+            allowAnonymous={qnaSettings.allow_anonymous}
+            error={socketError}
+            onAsk={askQuestion}
+            onVote={voteQuestion}
+        />
+    );
+
     // Render question based on type
     const renderQuestion = () => {
         if (!activeQuestion) return null;
@@ -307,6 +695,8 @@ function PlayPage() {
                         disabled={hasResponded || activeQuestion.is_locked}
                         hasResponded={hasResponded}
                         result={responseResult}
+                        startedAt={getQuestionStart(activeQuestion.id)}
+                        serverTimeLeft={timer?.question_id === activeQuestion.id ? timer.seconds_left : null}
                     />
                 );
 
@@ -375,8 +765,16 @@ function PlayPage() {
                     <div className="emoji-large mb-md text-error">⚠️</div>
                     <h3>Oops!</h3>
                     <p className="text-muted mt-md">{error}</p>
+                    {resultsAvailable && (
+                        <button
+                            className="btn btn-primary btn-block mt-lg"
+                            onClick={() => navigate(`/results/${sessionId}`)}
+                        >
+                            View my results
+                        </button>
+                    )}
                     <button
-                        className="btn btn-primary mt-lg"
+                        className={`btn ${resultsAvailable ? 'btn-secondary btn-block mt-md' : 'btn-primary mt-lg'}`}
                         onClick={() => navigate('/')}
                     >
                         Back to Home
@@ -387,27 +785,89 @@ function PlayPage() {
     }
 
     // Waiting state
-    if (waiting || !activeQuestion) {
+    if (waiting || !activeQuestion || awaitingAdmission || paused) {
         return (
             <div className="page page-centered participant-container">
                 <header className="participant-header">
                     <div>
                         <h3 className="text-sm font-semibold">{sessionTitle || 'MojoQuiz'}</h3>
                         <div className="text-xs text-muted">Join Code: {code?.toUpperCase()}</div>
+                        {renderTeam()}
                     </div>
                 </header>
 
                 <main className="participant-main" style={{ justifyContent: 'center', alignItems: 'center' }}>
-                    <div className="card text-center p-xl w-full max-w-md animate-slide-up">
-                        <div className="skeleton-pulse mb-lg mx-auto" style={{ height: '120px', width: '120px', borderRadius: '50%' }}></div>
-                        <h2 className="mb-md">Waiting for host...</h2>
-                        <p className="text-muted text-sm">
-                            {participantCount} participant{participantCount !== 1 ? 's' : ''} online
-                        </p>
-                        {!isConnected && (
-                            <p className="text-warning mt-md">Reconnecting...</p>
-                        )}
-                    </div>
+                    {renderTabs()}
+                    {showQnaTab && tab === 'qna' ? (
+                        <div className="w-full max-w-md">{renderQna()}</div>
+                    ) : paused && !awaitingAdmission ? (
+                        <div className="card text-center p-xl w-full max-w-md animate-slide-up">
+                            <div className="mb-lg" style={{ fontSize: '3rem' }}>⏸</div>
+                            <h2 className="mb-md">Paused</h2>
+                            <p className="text-muted text-sm">
+                                The host has paused the session. It will pick up where it left off.
+                            </p>
+                            {activeQuestion && timer?.question_id === activeQuestion.id && (
+                                <p className="text-sm mt-md">{timer.seconds_left}s left on this question</p>
+                            )}
+                            {!isConnected && (
+                                <p className="text-warning mt-md">Reconnecting...</p>
+                            )}
+                        </div>
+                    ) : selfPacedResult ? (
+                        <div className="card text-center p-xl w-full max-w-md animate-slide-up">
+                            <h2 className="mb-md">All done!</h2>
+                            <p className="text-muted mb-md">
+                                You finished all {selfPacedResult.question_count} questions
+                                {selfPacedResult.attempt_number > 1 ? ` on attempt ${selfPacedResult.attempt_number}` : ''}.
+                            </p>
+                            {selfPacedResult.total_score > 0 && (
+                                <h3 className="mb-md">{selfPacedResult.total_score} pts</h3>
+                            )}
+                            {selfPacedResult.personal_results && (
+                                <button
+                                    className="btn btn-secondary btn-block mb-sm"
+                                    onClick={() => navigate(`/results/${sessionId}`)}
+                                >
+                                    Review my answers
+                                </button>
+                            )}
+                            {selfPacedResult.can_retake && (
+                                <button className="btn btn-primary btn-block" onClick={retake}>
+                                    Try again ({selfPacedResult.attempts_left} {selfPacedResult.attempts_left === 1 ? 'attempt' : 'attempts'} left)
+                                </button>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="card text-center p-xl w-full max-w-md animate-slide-up">
+                            <div className="skeleton-pulse mb-lg mx-auto" style={{ height: '120px', width: '120px', borderRadius: '50%' }}></div>
+                            <h2 className="mb-md">
+                                {awaitingAdmission ? "You're in the waiting room" : selfPaced ? 'Loading your questions...' : 'Waiting for host...'}
+                            </h2>
+                            {awaitingAdmission ? (
+                                <p className="text-muted text-sm">The host will let you in shortly</p>
+                            ) : (
+                                <p className="text-muted text-sm">
+                                    {participantCount} participant{participantCount !== 1 ? 's' : ''} online
+                                </p>
+                            )}
+                            {teams.length > 0 && !teamId && teamAssignment === 'choose' && (
+                                <select
+                                    className="input mt-md"
+                                    value=""
+                                    onChange={(e) => e.target.value && emit(SOCKET_EVENTS.CHOOSE_TEAM, { team_id: e.target.value })}
+                                >
+                                    <option value="">Choose your team</option>
+                                    {teams.map(team => (
+                                        <option key={team.id} value={team.id}>{team.name}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {!isConnected && (
+                                <p className="text-warning mt-md">Reconnecting...</p>
+                            )}
+                        </div>
+                    )}
                 </main>
             </div>
         );
@@ -419,6 +879,7 @@ function PlayPage() {
                 <div>
                     <h3 className="text-sm font-semibold">{sessionTitle || 'MojoQuiz'}</h3>
                     <div className="text-xs text-muted">Join Code: {code?.toUpperCase()}</div>
+                    {renderTeam()}
                 </div>
                 <div className="flex items-center gap-sm">
                     <span className="text-sm">Participants: {participantCount}</span>
@@ -426,9 +887,23 @@ function PlayPage() {
             </header>
 
             <main className="participant-main">
+                {renderTabs()}
                 <div className="question-card-mobile animate-slide-up">
-                    {renderQuestion()}
+                    {showQnaTab && tab === 'qna' ? renderQna() : renderQuestion()}
                 </div>
+                {selfPaced && progress && !(showQnaTab && tab === 'qna') && (
+                    <div className="flex justify-between items-center mt-md">
+                        <span className="text-sm text-muted">Question {progress.index + 1} of {progress.total}</span>
+                        <button
+                            className={`btn ${hasResponded || activeQuestion.is_locked ? 'btn-primary' : 'btn-secondary'}`}
+                            onClick={nextQuestion}
+                        >
+                            {hasResponded || activeQuestion.is_locked
+                                ? (progress.index + 1 < progress.total ? 'Next question' : 'Finish')
+                                : 'Skip'}
+                        </button>
+                    </div>
+                )}
             </main>
 
             <footer className="participant-footer">
@@ -0,0 +1,111 @@
+/**
+ * Q&A Panel Component
+ * Lets participants ask the presenter questions and upvote others'
+ */
+
+import { useState } from 'react';
+import type { QnaQuestion } from '../../types';
+
+interface QnaPanelProps {
+    questions: QnaQuestion[];
+    myVotes: string[];
+    enabled: boolean;
+    allowAnonymous: boolean;
+    error: string | null;
+    onAsk: (content: string, anonymous: boolean) => void;
+    onVote: (qnaQuestionId: string) => void;
+}
+
+const MAX_LENGTH = 280;
+
+function QnaPanel({ questions, myVotes, enabled, allowAnonymous, error, onAsk, onVote }: QnaPanelProps) {
+    const [content, setContent] = useState('');
+    const [anonymous, setAnonymous] = useState(false);
+
+    const handleSubmit = () => {
+        const trimmed = content.trim();
+        if (!trimmed || !enabled) return;
+        onAsk(trimmed, allowAnonymous && anonymous);
+        setContent('');
+    };
+
+    return (
+        <div className="card animate-slide-up">
+            <h3 className="mb-md">Questions for the presenter</h3>
+
+            {enabled ? (
+                <>
+                    <textarea
+                        className="input textarea-noresize"
+                        placeholder="Ask a question..."
+                        rows={3}
+                        maxLength={MAX_LENGTH}
+                        value={content}
+                        onChange={(e) => setContent(e.target.value)}
+                    />
+                    <div className="flex justify-between items-center mt-sm">
+                        {allowAnonymous ? (
+                            <label className="text-sm text-muted flex items-center gap-xs">
+                                <input
+                                    type="checkbox"
+                                    checked={anonymous}
+                                    onChange={(e) => setAnonymous(e.target.checked)}
+                                />
+                                Ask anonymously
+                            </label>
+                        ) : <span />}
+                        <span className="text-xs text-muted">{content.length}/{MAX_LENGTH}</span>
+                    </div>
+                    {error && <p className="text-error text-sm mt-sm">{error}</p>}
+                    <button
+                        className="btn btn-primary btn-block mt-md"
+                        onClick={handleSubmit}
+                        disabled={!content.trim()}
+                    >
+                        Ask
+                    </button>
+                </>
+            ) : (
+                <p className="text-muted text-sm">The presenter isn't taking questions right now.</p>
+            )}
+
+            <div className="flex flex-col gap-sm mt-lg">
+                {questions.length === 0 && (
+                    <p className="text-center text-muted text-sm">No questions yet. Be the first!</p>
+                )}
+                {questions.map(q => {
+                    const voted = myVotes.includes(q.id);
+                    return (
+                        <div
+                            key={q.id}
+                            className="flex items-center gap-md"
+                            style={{
+                                padding: 'var(--spacing-sm)',
+                                borderRadius: 'var(--radius-md)',
+                                background: 'var(--color-bg-alt)',
+                                opacity: q.status === 'answered' ? 0.6 : 1,
+                            }}
+                        >
+                            <button
+                                className={`btn btn-small ${voted ? 'btn-primary' : 'btn-secondary'}`}
+                                onClick={() => onVote(q.id)}
+                                title={voted ? 'Remove your upvote' : 'Upvote'}
+                            >
+                                ▲ {q.vote_count}
+                            </button>
+                            <div className="flex-1">
+                                <div>{q.is_pinned && '📌 '}{q.content}</div>
+                                <div className="text-xs text-muted">
+                                    {q.is_anonymous ? 'Anonymous' : q.nickname || 'Participant'}
+                                    {q.status === 'answered' && ' • ✓ Answered'}
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+export default QnaPanel;
@@ -8,16 +8,17 @@ import type { Question, ResponseSubmittedEvent } from '../../types';
 
 interface QuizQuestionProps {
     question: Question;
-    onSubmit: (data: { option_index: number; response_time_ms: number }) => void;
+    onSubmit: (data: { option_index: number; response_time_ms?: number }) => void;
     disabled: boolean;
     hasResponded: boolean;
     result: ResponseSubmittedEvent | null;
+    startedAt?: number | null; // When this device saw the question start, if it did
+    serverTimeLeft?: number | null;
 }
 
-function QuizQuestion({ question, onSubmit, disabled, hasResponded, result }: QuizQuestionProps) {
+function QuizQuestion({ question, onSubmit, disabled, hasResponded, result, startedAt, serverTimeLeft }: QuizQuestionProps) {
     const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
     const [timeLeft, setTimeLeft] = useState(question.time_limit || 30);
-    const [startTime] = useState(Date.now());
     const timerRef = useRef<any>(null);
 
     // Countdown timer
@@ -39,6 +40,13 @@ function QuizQuestion({ question, onSubmit, disabled, hasResponded, result }: Qu
         };
     }, [hasResponded, disabled]);
 
+    // Server ticks are authoritative; the local countdown only fills the gaps between them
+    useEffect(() => {
+        if (serverTimeLeft !== null && serverTimeLeft !== undefined) {
+            setTimeLeft(serverTimeLeft);
+        }
+    }, [serverTimeLeft]);
+
     // Auto-submit on timeout if selected
     useEffect(() => {
         if (timeLeft === 0 && selectedIndex !== null && !hasResponded) {
@@ -46,19 +54,20 @@ function QuizQuestion({ question, onSubmit, disabled, hasResponded, result }: Qu
         }
     }, [timeLeft]);
 
+    // Unknown when the question started before this device saw it
+    const getResponseTimeMs = () => (startedAt ? Date.now() - startedAt : undefined);
+
     const handleSelect = (index: number) => {
         if (disabled || hasResponded) return;
         setSelectedIndex(index);
 
         // Auto-submit immediately for quiz
-        const responseTimeMs = Date.now() - startTime;
-        onSubmit({ option_index: index, response_time_ms: responseTimeMs });
+        onSubmit({ option_index: index, response_time_ms: getResponseTimeMs() });
     };
 
     const handleSubmit = () => {
         if (selectedIndex === null || disabled || hasResponded) return;
-        const responseTimeMs = Date.now() - startTime;
-        onSubmit({ option_index: selectedIndex, response_time_ms: responseTimeMs });
+        onSubmit({ option_index: selectedIndex, response_time_ms: getResponseTimeMs() });
     };
 
     // Timer progress for visual indicator
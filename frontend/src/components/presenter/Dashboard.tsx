@@ -50,10 +50,10 @@ function Dashboard() {
         try {
             const [statsData, sessionsData] = await Promise.all([
                 api.get('/analytics/dashboard'),
-                api.get('/library'),
+                api.get('/library?limit=6'),
             ]);
             setStats(statsData);
-            setSessions(Array.isArray(sessionsData) ? sessionsData.slice(0, 6) : []);
+            setSessions(sessionsData?.sessions ?? []);
         } catch (err: any) {
             setError(err.message || 'Failed to load dashboard');
         } finally {
@@ -4,13 +4,14 @@
  * Uses Pusher for real-time updates and PHP API for data
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import useSocket from '../../hooks/useSocket';
 import { api } from '../../hooks/useApi';
 import { QRCodeSVG } from 'qrcode.react';
-import type { Question, PollResults, WordCloudWord, LeaderboardEntry, QuestionOption } from '../../types';
+import type { Question, QuestionType, ScoringStrategy, PollResults, WordCloudWord, WordCloudDelta, LeaderboardEntry, QuestionOption, QuestionTimerEvent, TextResponse, ModerationStatus, QnaQuestion, QnaSettings, QnaStatus, ProfanitySettings, JoinField, JoinFieldType, JoinSettings, Team, TeamMember, TeamSettings, TeamLeaderboardEntry, TeamAssignment, TeamScoring, SelfPacedSettings, CoHost, CoHostRole, PresenterRole, ParticipantRosterEntry, LobbyEntry, LobbySettings } from '../../types';
 import { SOCKET_EVENTS } from '../../constants/socketEvents';
+import ProfanitySettingsForm from '../common/ProfanitySettingsForm';
 
 interface Session {
     id: string;
@@ -20,15 +21,41 @@ interface Session {
     status: string;
 }
 
+// Mirrors the server's role permissions so controls a co-host can't use are hidden
+type PresenterPermission = 'moderate' | 'drive' | 'manage';
+
+const ROLE_PERMISSIONS: Record<PresenterRole, PresenterPermission[]> = {
+    owner: ['moderate', 'drive', 'manage'],
+    full: ['moderate', 'drive', 'manage'],
+    driver: ['drive'],
+    moderator: ['moderate'],
+};
+
+// Mirrors ScoringService.getStrategies on the server; the first entry is the default
+const SCORING_STRATEGIES: Partial<Record<QuestionType, ScoringStrategy[]>> = {
+    quiz_slider: ['exact', 'proportional'],
+    quiz_order: ['exact', 'positional', 'kendall_tau'],
+};
+
+const SCORING_STRATEGY_LABELS: Record<ScoringStrategy, string> = {
+    exact: 'All or nothing',
+    proportional: 'Closer answers score more',
+    positional: 'Per item in the right place',
+    kendall_tau: 'Per pair in the right order',
+};
+
 function HostSession() {
     const { sessionId } = useParams<{ sessionId: string }>();
     const navigate = useNavigate();
-    const { isConnected, on, off, emit } = useSocket();
+    const { isConnected, on, off, emit, error: socketError, clearError } = useSocket();
 
     // State
     const [session, setSession] = useState<Session | null>(null);
     const [questions, setQuestions] = useState<Question[]>([]);
     const [activeQuestion, setActiveQuestion] = useState<Question | null>(null);
+    // Read by socket handlers, which are bound once per connection
+    const activeQuestionRef = useRef<Question | null>(null);
+    activeQuestionRef.current = activeQuestion;
     const [participantCount, setParticipantCount] = useState(0);
     const [results, setResults] = useState<PollResults | WordCloudWord[] | { x: number; y: number }[] | null>(null);
     const [responseCount, setResponseCount] = useState(0);
@@ -36,6 +63,42 @@ function HostSession() {
     const [showQRCode, setShowQRCode] = useState(false);
     const [isPresentationMode, setIsPresentationMode] = useState(false);
     const [isStarting, setIsStarting] = useState(false);
+    const [timer, setTimer] = useState<{ question_id: string; seconds_left: number } | null>(null);
+
+    // Open-ended moderation
+    const [textResponses, setTextResponses] = useState<TextResponse[]>([]);
+    const [autoApproveText, setAutoApproveText] = useState(false);
+    const [personalResults, setPersonalResults] = useState(false);
+    const [profanitySettings, setProfanitySettings] = useState<ProfanitySettings>({});
+
+    // Nickname policy and join form
+    const [joinSettings, setJoinSettings] = useState<JoinSettings>({ unique_nicknames: false, random_nicknames: false, join_fields: [] });
+
+    // Team mode
+    const [teamSettings, setTeamSettings] = useState<TeamSettings>({ team_mode: false, team_assignment: 'presenter', team_scoring: 'sum', team_best_n: 3 });
+    const [teams, setTeams] = useState<Team[]>([]);
+    const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+    const [teamLeaderboard, setTeamLeaderboard] = useState<TeamLeaderboardEntry[]>([]);
+
+    // Self-paced mode
+    const [selfPacedSettings, setSelfPacedSettings] = useState<SelfPacedSettings>({ self_paced: false, opens_at: null, closes_at: null, max_attempts: 1 });
+    const [selfPacedProgress, setSelfPacedProgress] = useState({ started: 0, completed: 0 });
+
+    // Co-hosts, and what this presenter's role lets them do
+    const [role, setRole] = useState<PresenterRole>('owner');
+    const [coHosts, setCoHosts] = useState<CoHost[]>([]);
+    const [roster, setRoster] = useState<ParticipantRosterEntry[]>([]);
+
+    // Lobby: everyone here, and who is waiting to be let in
+    const [lobby, setLobby] = useState<LobbyEntry[]>([]);
+    const [lobbySettings, setLobbySettings] = useState<LobbySettings>({ join_approval: false, allow_late_join: true });
+    const waitingToJoin = lobby.filter(p => p.admission === 'pending');
+    const [inviteNotice, setInviteNotice] = useState('');
+    const can = (permission: PresenterPermission) => ROLE_PERMISSIONS[role].includes(permission);
+
+    // Audience Q&A
+    const [qnaQuestions, setQnaQuestions] = useState<QnaQuestion[]>([]);
+    const [qnaSettings, setQnaSettings] = useState<QnaSettings>({ enabled: false, allow_anonymous: false });
 
     // Question builder state
     const [showBuilder, setShowBuilder] = useState(false);
@@ -45,6 +108,7 @@ function HostSession() {
         options: ['', '', '', ''],
         timeLimit: 30,
         correctOption: 0,
+        autoReveal: false,
     });
     const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
     const [showLeaderboard, setShowLeaderboard] = useState(false);
@@ -106,7 +170,7 @@ function HostSession() {
         time_limit: q.time_limit || q.settings?.time_limit || null,
         is_active: q.status === 'active',
         is_locked: q.status === 'locked' || q.is_locked,
-        is_results_visible: q.status === 'revealed',
+        is_results_visible: q.status === 'revealed' || !!q.is_results_visible,
         started_at: q.started_at,
         response_count: q.response_count || 0,
     });
@@ -120,6 +184,43 @@ function HostSession() {
 
         on(SOCKET_EVENTS.PRESENTER_JOINED, (data: any) => {
             setParticipantCount(data.participant_count);
+            setRole(data.role || 'owner');
+            setCoHosts(data.cohosts || []);
+            setLobby(data.lobby || []);
+            if (data.lobby_settings) {
+                setLobbySettings(data.lobby_settings);
+            }
+            // Pick up the live state another device or co-host may have moved on
+            if (data.active_question) {
+                setActiveQuestion(transformQuestion(data.active_question));
+                setResponseCount(data.response_count || 0);
+                setResults(data.results ?? null);
+            }
+            if (data.leaderboard) {
+                setLeaderboard(data.leaderboard);
+            }
+            setAutoApproveText(!!data.session?.settings?.auto_approve_text);
+            setPersonalResults(!!data.session?.settings?.personal_results);
+            setProfanitySettings(data.session?.settings?.profanity || {});
+            setJoinSettings({
+                unique_nicknames: !!data.session?.settings?.unique_nicknames,
+                random_nicknames: !!data.session?.settings?.random_nicknames,
+                join_fields: data.session?.settings?.join_fields || [],
+            });
+            setTeamSettings({
+                team_mode: !!data.session?.settings?.team_mode,
+                team_assignment: data.session?.settings?.team_assignment || 'presenter',
+                team_scoring: data.session?.settings?.team_scoring || 'sum',
+                team_best_n: data.session?.settings?.team_best_n || 3,
+            });
+            setSelfPacedSettings({
+                self_paced: !!data.session?.settings?.self_paced,
+                opens_at: data.session?.settings?.opens_at ?? null,
+                closes_at: data.session?.settings?.closes_at ?? null,
+                max_attempts: data.session?.settings?.max_attempts || 1,
+            });
+            emit(SOCKET_EVENTS.QNA_GET);
+            emit(SOCKET_EVENTS.GET_TEAMS);
         });
 
         on(SOCKET_EVENTS.PARTICIPANT_JOINED, (data: any) => {
@@ -132,20 +233,86 @@ function HostSession() {
 
         on(SOCKET_EVENTS.RESULTS_UPDATED, (data: any) => {
             setResponseCount(data.response_count);
-            if (activeQuestion && activeQuestion.id === data.question_id) {
+            if (activeQuestionRef.current?.id === data.question_id) {
                 setResults(data.results);
             }
         });
 
-        on(SOCKET_EVENTS.WORD_CLOUD_UPDATED, (data: any) => {
-            setResponseCount(data.response_count);
-            if (activeQuestion && activeQuestion.id === data.question_id) {
-                setResults(data.words.map((w: any) => ({ word: w.word, weight: w.count })));
+        on(SOCKET_EVENTS.WORD_CLOUD_SNAPSHOT, (data: { question_id: string; words: WordCloudWord[] }) => {
+            if (activeQuestionRef.current?.id === data.question_id) {
+                setResults(data.words);
             }
         });
 
+        on(SOCKET_EVENTS.WORD_CLOUD_UPDATED, (data: { question_id: string; deltas: WordCloudDelta[]; response_count: number }) => {
+            setResponseCount(data.response_count);
+            if (activeQuestionRef.current?.id !== data.question_id) return;
+            setResults(prev => applyWordCloudDeltas(Array.isArray(prev) ? prev as WordCloudWord[] : [], data.deltas));
+        });
+
         on(SOCKET_EVENTS.TEXT_RESPONSE_RECEIVED, (data: any) => {
             setResponseCount(data.response_count);
+            if (activeQuestionRef.current?.id === data.question_id && data.response) {
+                setTextResponses(prev => [...prev, data.response]);
+            }
+        });
+
+        on(SOCKET_EVENTS.MODERATION_QUEUE, (data: { question_id: string; responses: TextResponse[] }) => {
+            if (activeQuestionRef.current?.id === data.question_id) {
+                setTextResponses(data.responses);
+            }
+        });
+
+        on(SOCKET_EVENTS.TEXT_RESPONSES_MODERATED, (data: { question_id: string; responses: TextResponse[] }) => {
+            if (activeQuestionRef.current?.id !== data.question_id) return;
+            const updated = new Map(data.responses.map(r => [r.id, r]));
+            setTextResponses(prev => prev.map(r => updated.get(r.id) ?? r));
+        });
+
+        on(SOCKET_EVENTS.MODERATION_SETTINGS_UPDATED, (data: { auto_approve_text: boolean }) => {
+            setAutoApproveText(data.auto_approve_text);
+        });
+
+        on(SOCKET_EVENTS.PROFANITY_SETTINGS_UPDATED, (data: { settings: ProfanitySettings }) => {
+            setProfanitySettings(data.settings);
+        });
+
+        on(SOCKET_EVENTS.JOIN_SETTINGS_UPDATED, (data: JoinSettings) => {
+            setJoinSettings(data);
+        });
+
+        on(SOCKET_EVENTS.TEAM_SETTINGS_UPDATED, (data: TeamSettings) => {
+            setTeamSettings(data);
+        });
+
+        on(SOCKET_EVENTS.TEAMS_UPDATED, (data: { teams: Team[]; participants?: TeamMember[] }) => {
+            setTeams(data.teams);
+            if (data.participants) setTeamMembers(data.participants);
+        });
+
+        on(SOCKET_EVENTS.TEAM_LEADERBOARD_UPDATED, (data: { teams: TeamLeaderboardEntry[] }) => {
+            setTeamLeaderboard(data.teams);
+        });
+
+        on(SOCKET_EVENTS.RESULTS_SETTINGS_UPDATED, (data: { personal_results: boolean }) => {
+            setPersonalResults(data.personal_results);
+        });
+
+        on(SOCKET_EVENTS.SELF_PACED_SETTINGS_UPDATED, (data: SelfPacedSettings) => {
+            setSelfPacedSettings(data);
+        });
+
+        on(SOCKET_EVENTS.SELF_PACED_PROGRESS, (data: { started: number; completed: number }) => {
+            setSelfPacedProgress(data);
+        });
+
+        on(SOCKET_EVENTS.QNA_UPDATED, (data: { questions: QnaQuestion[]; settings?: QnaSettings }) => {
+            setQnaQuestions(data.questions);
+            if (data.settings) setQnaSettings(data.settings);
+        });
+
+        on(SOCKET_EVENTS.QNA_SETTINGS_UPDATED, (data: QnaSettings) => {
+            setQnaSettings(data);
         });
 
         on(SOCKET_EVENTS.LEADERBOARD_UPDATED, (data: any) => {
@@ -159,13 +326,20 @@ function HostSession() {
         });
 
         on(SOCKET_EVENTS.QUESTION_LOCKED, (data: any) => {
-            if (activeQuestion && activeQuestion.id === data.question_id) {
+            if (activeQuestionRef.current?.id === data.question_id) {
                 setActiveQuestion(prev => prev ? { ...prev, is_locked: data.is_locked } : null);
             }
         });
 
+        on(SOCKET_EVENTS.QUESTION_TIMER, (data: QuestionTimerEvent) => {
+            setTimer({
+                question_id: data.question_id,
+                seconds_left: Math.ceil(data.remaining_ms / 1000),
+            });
+        });
+
         on(SOCKET_EVENTS.RESULTS_REVEALED, (data: any) => {
-            if (activeQuestion && activeQuestion.id === data.question_id) {
+            if (activeQuestionRef.current?.id === data.question_id) {
                 setActiveQuestion(prev => prev ? { ...prev, is_results_visible: true } : null);
                 setResults(data.results);
             }
@@ -175,27 +349,136 @@ function HostSession() {
             setSession(prev => (prev ? { ...prev, status: 'live' } : prev));
         });
 
+        on(SOCKET_EVENTS.SESSION_PAUSED, () => {
+            setSession(prev => (prev ? { ...prev, status: 'paused' } : prev));
+        });
+
+        on(SOCKET_EVENTS.SESSION_RESUMED, () => {
+            setSession(prev => (prev ? { ...prev, status: 'live' } : prev));
+        });
+
+        on(SOCKET_EVENTS.SESSION_ENDED, () => {
+            setSession(prev => (prev ? { ...prev, status: 'ended' } : prev));
+            setTimer(null);
+        });
+
+        on(SOCKET_EVENTS.LOBBY_UPDATED, (data: { participants: LobbyEntry[] }) => {
+            setLobby(data.participants);
+        });
+
+        on(SOCKET_EVENTS.LOBBY_SETTINGS_UPDATED, (data: LobbySettings) => {
+            setLobbySettings(data);
+        });
+
+        on(SOCKET_EVENTS.PARTICIPANTS_LIST, (data: { participants: ParticipantRosterEntry[] }) => {
+            setRoster(data.participants);
+        });
+
+        on(SOCKET_EVENTS.COHOSTS_UPDATED, (data: { cohosts: CoHost[] }) => {
+            setCoHosts(data.cohosts);
+        });
+
+        on(SOCKET_EVENTS.COHOST_INVITED, (data: { cohost: CoHost; email_sent: boolean }) => {
+            setInviteNotice(data.email_sent
+                ? `Invitation sent to ${data.cohost.email}`
+                : `${data.cohost.email} was added, but the email could not be sent. Share the session link with them.`);
+        });
+
+        on(SOCKET_EVENTS.PRESENTER_ROLE_UPDATED, (data: { role: CoHostRole | null }) => {
+            if (data.role) {
+                setRole(data.role);
+            } else {
+                alert('You are no longer a co-host of this session');
+                navigate('/dashboard');
+            }
+        });
+
         on(SOCKET_EVENTS.QUESTION_ADDED, (data: any) => {
             if (data?.question) {
                 setQuestions(prev => [...prev, transformQuestion(data.question)]);
             }
         });
 
+        on(SOCKET_EVENTS.QUESTION_UPDATED, (data: any) => {
+            if (!data?.question) return;
+            const updated = transformQuestion(data.question);
+            setQuestions(prev => prev.map(q => q.id === updated.id ? { ...q, ...updated, is_active: q.is_active } : q));
+            setActiveQuestion(prev => prev?.id === updated.id ? { ...prev, ...updated, is_active: true } : prev);
+            if (data.was_reset && activeQuestionRef.current?.id === updated.id) {
+                setResults(null);
+                setResponseCount(0);
+            }
+        });
+
+        on(SOCKET_EVENTS.QUESTION_REMOVED, (data: any) => {
+            setQuestions(prev => prev.filter(q => q.id !== data.question_id));
+            if (activeQuestionRef.current?.id === data.question_id) {
+                setActiveQuestion(null);
+                setResults(null);
+                setTimer(null);
+            }
+        });
+
+        on(SOCKET_EVENTS.QUESTIONS_REORDERED, (data: any) => {
+            const order: string[] = data?.question_ids || [];
+            setQuestions(prev => [...prev].sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id)));
+        });
+
         return () => {
             off(SOCKET_EVENTS.PRESENTER_JOINED);
             off(SOCKET_EVENTS.PARTICIPANT_JOINED);
             off(SOCKET_EVENTS.PARTICIPANT_LEFT);
             off(SOCKET_EVENTS.RESULTS_UPDATED);
             off(SOCKET_EVENTS.WORD_CLOUD_UPDATED);
+            off(SOCKET_EVENTS.WORD_CLOUD_SNAPSHOT);
             off(SOCKET_EVENTS.TEXT_RESPONSE_RECEIVED);
+            off(SOCKET_EVENTS.MODERATION_QUEUE);
+            off(SOCKET_EVENTS.TEXT_RESPONSES_MODERATED);
+            off(SOCKET_EVENTS.MODERATION_SETTINGS_UPDATED);
+            off(SOCKET_EVENTS.PROFANITY_SETTINGS_UPDATED);
+            off(SOCKET_EVENTS.JOIN_SETTINGS_UPDATED);
+            off(SOCKET_EVENTS.TEAM_SETTINGS_UPDATED);
+            off(SOCKET_EVENTS.TEAMS_UPDATED);
+            off(SOCKET_EVENTS.TEAM_LEADERBOARD_UPDATED);
+            off(SOCKET_EVENTS.RESULTS_SETTINGS_UPDATED);
+            off(SOCKET_EVENTS.SELF_PACED_SETTINGS_UPDATED);
+            off(SOCKET_EVENTS.SELF_PACED_PROGRESS);
+            off(SOCKET_EVENTS.QNA_UPDATED);
+            off(SOCKET_EVENTS.QNA_SETTINGS_UPDATED);
             off(SOCKET_EVENTS.LEADERBOARD_UPDATED);
             off(SOCKET_EVENTS.QUESTION_ACTIVATED);
             off(SOCKET_EVENTS.QUESTION_LOCKED);
+            off(SOCKET_EVENTS.QUESTION_TIMER);
             off(SOCKET_EVENTS.RESULTS_REVEALED);
             off(SOCKET_EVENTS.SESSION_STARTED);
+            off(SOCKET_EVENTS.SESSION_PAUSED);
+            off(SOCKET_EVENTS.SESSION_RESUMED);
+            off(SOCKET_EVENTS.SESSION_ENDED);
+            off(SOCKET_EVENTS.LOBBY_UPDATED);
+            off(SOCKET_EVENTS.LOBBY_SETTINGS_UPDATED);
+            off(SOCKET_EVENTS.PARTICIPANTS_LIST);
+            off(SOCKET_EVENTS.COHOSTS_UPDATED);
+            off(SOCKET_EVENTS.COHOST_INVITED);
+            off(SOCKET_EVENTS.PRESENTER_ROLE_UPDATED);
             off(SOCKET_EVENTS.QUESTION_ADDED);
+            off(SOCKET_EVENTS.QUESTION_UPDATED);
+            off(SOCKET_EVENTS.QUESTION_REMOVED);
+            off(SOCKET_EVENTS.QUESTIONS_REORDERED);
         };
-    }, [sessionId, isConnected, on, off, emit, activeQuestion]);
+    }, [sessionId, isConnected, on, off, emit, navigate]);
+
+    // Load the current cloud whenever a word cloud question comes up; live deltas build on it
+    useEffect(() => {
+        if (!isConnected || !activeQuestion || activeQuestion.question_type !== 'word_cloud') return;
+        emit(SOCKET_EVENTS.GET_WORD_CLOUD, { question_id: activeQuestion.id });
+    }, [isConnected, activeQuestion?.id, activeQuestion?.question_type, emit]);
+
+    // Load the moderation queue whenever an open-ended question comes up
+    useEffect(() => {
+        setTextResponses([]);
+        if (!isConnected || !activeQuestion || activeQuestion.question_type !== 'open_ended') return;
+        emit(SOCKET_EVENTS.GET_MODERATION_QUEUE, { question_id: activeQuestion.id });
+    }, [isConnected, activeQuestion?.id, activeQuestion?.question_type, emit]);
 
     // Create new question
     const handleCreateQuestion = async (shouldClose = true) => {
@@ -212,6 +495,7 @@ function HostSession() {
                 options: optionsArray,
                 correctAnswer: newQuestion.type.startsWith('quiz_') ? newQuestion.correctOption : undefined,
                 timeLimit: newQuestion.type.startsWith('quiz_') ? newQuestion.timeLimit : undefined,
+                settings: newQuestion.type.startsWith('quiz_') ? { auto_reveal: newQuestion.autoReveal } : undefined,
             });
 
             // Reset builder
@@ -222,6 +506,7 @@ function HostSession() {
                 options: ['', '', '', ''],
                 timeLimit: 30,
                 correctOption: 0,
+                autoReveal: false,
             });
 
             if (shouldClose) {
@@ -276,6 +561,56 @@ function HostSession() {
         }
     };
 
+    // Save a question edit; confirms before discarding responses already collected
+    const saveQuestionEdit = async (question: Question, updates: Record<string, unknown>) => {
+        try {
+            await api.updateQuestion(sessionId!, question.id, updates);
+        } catch (err: any) {
+            if (!err.message?.includes('already has responses')) {
+                alert(err.message || 'Failed to update question');
+                return;
+            }
+            if (!window.confirm('This question already has responses. Discard them and save the edit?')) return;
+            try {
+                await api.updateQuestion(sessionId!, question.id, { ...updates, reset: true });
+            } catch (retryErr: any) {
+                alert(retryErr.message || 'Failed to update question');
+            }
+        }
+    };
+
+    const editQuestionText = async (question: Question) => {
+        const text = window.prompt('Edit question', question.question_text);
+        if (!text || !text.trim() || text.trim() === question.question_text) return;
+        await saveQuestionEdit(question, { questionText: text.trim() });
+    };
+
+    const setScoringStrategy = async (question: Question, strategy: ScoringStrategy) => {
+        await saveQuestionEdit(question, { settings: { ...question.settings, scoring_strategy: strategy } });
+    };
+
+    const deleteQuestion = async (question: Question) => {
+        if (!window.confirm('Delete this question and all of its responses?')) return;
+        try {
+            await api.deleteQuestion(sessionId!, question.id);
+        } catch (err: any) {
+            alert(err.message || 'Failed to delete question');
+        }
+    };
+
+    const moveQuestion = async (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= questions.length) return;
+
+        const ids = questions.map(q => q.id);
+        [ids[index], ids[target]] = [ids[target], ids[index]];
+        try {
+            await api.reorderQuestions(sessionId!, ids);
+        } catch (err: any) {
+            alert(err.message || 'Failed to reorder questions');
+        }
+    };
+
     // Activate a question
     const activateQuestion = useCallback((questionId: string) => {
         emit('activate_question', { question_id: questionId });
@@ -293,8 +628,103 @@ function HostSession() {
         emit('show_results', { question_id: activeQuestion.id });
     }, [activeQuestion, emit]);
 
+    const moderateResponse = useCallback((responseId: string, status: ModerationStatus) => {
+        emit(SOCKET_EVENTS.MODERATE_RESPONSE, { response_id: responseId, status });
+    }, [emit]);
+
+    const approveAllResponses = useCallback(() => {
+        if (!activeQuestion) return;
+        emit(SOCKET_EVENTS.APPROVE_ALL_RESPONSES, { question_id: activeQuestion.id });
+    }, [activeQuestion, emit]);
+
+    const toggleAutoApprove = useCallback(() => {
+        emit(SOCKET_EVENTS.UPDATE_MODERATION_SETTINGS, { auto_approve_text: !autoApproveText });
+    }, [autoApproveText, emit]);
+
+    const togglePersonalResults = useCallback(() => {
+        emit(SOCKET_EVENTS.UPDATE_RESULTS_SETTINGS, { personal_results: !personalResults });
+    }, [personalResults, emit]);
+
+    const updateProfanitySettings = useCallback((settings: ProfanitySettings) => {
+        emit(SOCKET_EVENTS.UPDATE_PROFANITY_SETTINGS, settings);
+    }, [emit]);
+
+    const updateJoinSettings = useCallback((updates: Partial<JoinSettings>) => {
+        emit(SOCKET_EVENTS.UPDATE_JOIN_SETTINGS, updates);
+    }, [emit]);
+
+    const updateTeamSettings = useCallback((updates: Partial<TeamSettings>) => {
+        emit(SOCKET_EVENTS.UPDATE_TEAM_SETTINGS, updates);
+    }, [emit]);
+
+    const createTeams = useCallback((names: string[]) => {
+        emit(SOCKET_EVENTS.CREATE_TEAMS, { names });
+    }, [emit]);
+
+    const deleteTeam = useCallback((teamId: string) => {
+        emit(SOCKET_EVENTS.DELETE_TEAM, { team_id: teamId });
+    }, [emit]);
+
+    const assignTeam = useCallback((participantId: string, teamId: string | null) => {
+        emit(SOCKET_EVENTS.ASSIGN_TEAM, { participant_id: participantId, team_id: teamId });
+    }, [emit]);
+
+    const autoBalanceTeams = useCallback(() => {
+        emit(SOCKET_EVENTS.AUTO_BALANCE_TEAMS);
+    }, [emit]);
+
+    const updateSelfPacedSettings = useCallback((updates: Partial<SelfPacedSettings>) => {
+        emit(SOCKET_EVENTS.UPDATE_SELF_PACED_SETTINGS, updates);
+    }, [emit]);
+
+    const updateQnaQuestion = useCallback((qnaQuestionId: string, updates: { status?: QnaStatus; is_pinned?: boolean }) => {
+        emit(SOCKET_EVENTS.QNA_UPDATE, { qna_question_id: qnaQuestionId, ...updates });
+    }, [emit]);
+
+    const updateQnaSettings = useCallback((updates: Partial<QnaSettings>) => {
+        emit(SOCKET_EVENTS.QNA_SETTINGS, updates);
+    }, [emit]);
+
+    const inviteCoHost = useCallback((email: string, coHostRole: CoHostRole) => {
+        setInviteNotice('');
+        emit(SOCKET_EVENTS.INVITE_COHOST, { email, role: coHostRole });
+    }, [emit]);
+
+    const removeCoHost = useCallback((coHostId: string) => {
+        emit(SOCKET_EVENTS.REMOVE_COHOST, { cohost_id: coHostId });
+    }, [emit]);
+
+    const admitParticipants = useCallback((participantIds: string[] | null) => {
+        emit(SOCKET_EVENTS.ADMIT_PARTICIPANTS, participantIds ? { participant_ids: participantIds } : { all: true });
+    }, [emit]);
+
+    const rejectParticipant = useCallback((participantId: string) => {
+        emit(SOCKET_EVENTS.REJECT_PARTICIPANT, { participant_id: participantId });
+    }, [emit]);
+
+    const updateLobbySettings = useCallback((updates: Partial<LobbySettings>) => {
+        emit(SOCKET_EVENTS.UPDATE_LOBBY_SETTINGS, updates);
+    }, [emit]);
+
+    const fetchParticipants = useCallback(() => {
+        emit(SOCKET_EVENTS.GET_PARTICIPANTS);
+    }, [emit]);
+
+    const removeParticipant = useCallback((participant: ParticipantRosterEntry, ban: boolean) => {
+        const name = participant.nickname || 'this participant';
+        const message = ban
+            ? `Ban ${name}? They and anyone new from the same network can't join again this session.`
+            : `Remove ${name} from the session?`;
+        if (!window.confirm(message)) return;
+        emit(SOCKET_EVENTS.REMOVE_PARTICIPANT, { participant_id: participant.participant_id, ban });
+    }, [emit]);
+
+    const restoreParticipant = useCallback((participantId: string) => {
+        emit(SOCKET_EVENTS.RESTORE_PARTICIPANT, { participant_id: participantId });
+    }, [emit]);
+
     const startSession = useCallback(async () => {
-        if (!sessionId || session?.status === 'live') return;
+        if (!sessionId || session?.status === 'live' || session?.status === 'paused') return;
         setIsStarting(true);
         try {
             await api.startSession(sessionId);
@@ -306,6 +736,15 @@ function HostSession() {
         }
     }, [sessionId, session?.status]);
 
+    // Pause/resume: the server freezes the countdown and confirms to everyone
+    const pauseSession = useCallback(() => {
+        emit(SOCKET_EVENTS.PAUSE_SESSION);
+    }, [emit]);
+
+    const resumeSession = useCallback(() => {
+        emit(SOCKET_EVENTS.RESUME_SESSION);
+    }, [emit]);
+
     // End session
     const endSession = useCallback(() => {
         if (window.confirm('Are you sure you want to end this session?')) {
@@ -347,6 +786,9 @@ function HostSession() {
                             </button>
                         </span>
                         <span className="text-muted">Participants: {participantCount}</span>
+                        {role !== 'owner' && (
+                            <span className="text-muted">You: {COHOST_ROLES.find(r => r.value === role)?.label}</span>
+                        )}
                     </div>
                 </div>
                 <div className="host-actions">
@@ -361,12 +803,22 @@ function HostSession() {
                             {showLeaderboard ? 'Back to Question' : 'Leaderboard'}
                         </button>
                     )}
-                    {session?.status !== 'live' && session?.status !== 'ended' && (
+                    {can('drive') && session?.status !== 'live' && session?.status !== 'paused' && session?.status !== 'ended' && (
                         <button className="btn btn-primary" onClick={startSession} disabled={isStarting}>
                             {isStarting ? 'Starting...' : 'Start Session'}
                         </button>
                     )}
-                    {!isPresentationMode && (
+                    {can('drive') && session?.status === 'live' && !selfPacedSettings.self_paced && (
+                        <button className="btn btn-secondary" onClick={pauseSession}>
+                            Pause
+                        </button>
+                    )}
+                    {can('drive') && session?.status === 'paused' && (
+                        <button className="btn btn-primary" onClick={resumeSession}>
+                            Resume
+                        </button>
+                    )}
+                    {!isPresentationMode && can('manage') && (
                         <>
                             <button className="btn btn-secondary" onClick={() => setShowBuilder(true)}>
                                 Add Question
@@ -379,33 +831,64 @@ function HostSession() {
                 </div>
             </header>
 
+            {socketError && (
+                <div className="card mb-md flex justify-between items-center">
+                    <span className="text-error text-sm">{socketError}</span>
+                    <button className="btn btn-secondary btn-small" onClick={clearError}>Dismiss</button>
+                </div>
+            )}
+
             <div className={`host-content ${isPresentationMode ? 'presentation-active' : ''}`}>
                 {/* 1. Left Sidebar: Question Navigation */}
                 {!isPresentationMode && (
                     <aside className="card questions-sidebar">
                         <div className="flex justify-between items-center mb-md">
                             <h3 className="m-0">Questions</h3>
-                            <button className="btn btn-small btn-secondary" onClick={() => setShowBuilder(true)}>
-                                + Add
-                            </button>
+                            {can('manage') && (
+                                <button className="btn btn-small btn-secondary" onClick={() => setShowBuilder(true)}>
+                                    + Add
+                                </button>
+                            )}
                         </div>
                         {questions.length === 0 ? (
                             <p className="text-muted">No questions yet.</p>
                         ) : (
                             <div className="flex flex-col gap-sm">
                                 {questions.map((q, index) => (
-                                    <button
-                                        key={q.id}
-                                        onClick={() => activateQuestion(q.id)}
-                                        className={`question-item ${activeQuestion?.id === q.id ? 'question-item-active' : ''}`}
-                                    >
-                                        <div className="question-item-type">
-                                            {index + 1}. {q.question_type.toUpperCase()}
-                                        </div>
-                                        <div className="question-item-text">
-                                            {q.question_text.length > 40 ? q.question_text.substring(0, 40) + '...' : q.question_text}
-                                        </div>
-                                    </button>
+                                    <div key={q.id} className="flex flex-col gap-xs">
+                                        <button
+                                            onClick={() => activateQuestion(q.id)}
+                                            disabled={!can('drive')}
+                                            className={`question-item ${activeQuestion?.id === q.id ? 'question-item-active' : ''}`}
+                                        >
+                                            <div className="question-item-type">
+                                                {index + 1}. {q.question_type.toUpperCase()}
+                                            </div>
+                                            <div className="question-item-text">
+                                                {q.question_text.length > 40 ? q.question_text.substring(0, 40) + '...' : q.question_text}
+                                            </div>
+                                        </button>
+                                        {can('manage') && (SCORING_STRATEGIES[q.question_type]?.length ?? 0) > 1 && (
+                                            <select
+                                                className="input text-sm"
+                                                value={q.settings?.scoring_strategy || SCORING_STRATEGIES[q.question_type]![0]}
+                                                onChange={(e) => setScoringStrategy(q, e.target.value as ScoringStrategy)}
+                                                aria-label="Scoring"
+                                            >
+                                                {SCORING_STRATEGIES[q.question_type]!.map(strategy => (
+                                                    <option key={strategy} value={strategy}>{SCORING_STRATEGY_LABELS[strategy]}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                        {can('manage') && (
+                                            <div className="flex gap-xs justify-end">
+                                                <button className="btn btn-secondary btn-icon btn-small" title="Move up" disabled={index === 0} onClick={() => moveQuestion(index, -1)}>↑</button>
+                                                <button className="btn btn-secondary btn-icon btn-small" title="Move down" disabled={index === questions.length - 1} onClick={() => moveQuestion(index, 1)}>↓</button>
+                                                <button className="btn btn-secondary btn-icon btn-small" title="Edit" onClick={() => editQuestionText(q)}>✏️</button>
+                                                <button className="btn btn-secondary btn-icon btn-small" title="Delete" onClick={() => deleteQuestion(q)}>🗑️</button>
+                                            </div>
+                                        )}
+                                    </div>
                                 ))}
                             </div>
                         )}
@@ -414,7 +897,16 @@ function HostSession() {
 
                 {/* 2. Main Display Area (Center) */}
                 <main className={`card display-main ${isPresentationMode ? 'presentation-main' : ''}`}>
-                    {!activeQuestion ? (
+                    {!activeQuestion && lobby.length > 0 ? (
+                        <LobbyView
+                            lobby={lobby}
+                            joinCode={session?.join_code || ''}
+                            isLive={session?.status === 'live' || session?.status === 'paused'}
+                            canModerate={can('moderate') && !isPresentationMode}
+                            onAdmit={admitParticipants}
+                            onReject={rejectParticipant}
+                        />
+                    ) : !activeQuestion ? (
                         <div className="display-empty">
                             <div>
                                 <h2 className="mt-md">Select a question to display</h2>
@@ -424,7 +916,10 @@ function HostSession() {
                     ) : (
                         <div className="display-content">
                             {showLeaderboard ? (
-                                <LeaderboardDisplay leaderboard={leaderboard} />
+                                <>
+                                    {teamSettings.team_mode && <TeamPodium teams={teamLeaderboard} />}
+                                    <LeaderboardDisplay leaderboard={leaderboard} />
+                                </>
                             ) : (
                                 <>
                                     <h2 className="display-question">
@@ -450,6 +945,10 @@ function HostSession() {
                                         />
                                     )}
 
+                                    {results && activeQuestion.question_type === 'open_ended' && (
+                                        <TextWallDisplay responses={results as unknown as TextResponse[]} />
+                                    )}
+
                                     {results && activeQuestion.question_type === 'pin_image' && (
                                         <PinImageResultsDisplay
                                             results={results as unknown as { x: number, y: number }[]}
@@ -477,11 +976,19 @@ function HostSession() {
                                     <span className="stat-label">Responses</span>
                                     <span className="stat-value">{responseCount}</span>
                                 </div>
+                                {activeQuestion && timer?.question_id === activeQuestion.id && (
+                                    <div className="stat-card">
+                                        <span className="stat-label">{session?.status === 'paused' ? 'Paused' : 'Time Left'}</span>
+                                        <span className={`stat-value ${timer.seconds_left <= 5 ? 'text-error' : ''}`}>
+                                            {timer.seconds_left}s
+                                        </span>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
                         {/* Quick Action Panel */}
-                        {activeQuestion && (
+                        {activeQuestion && can('drive') && (
                             <div className="control-panel">
                                 <h4 className="mb-md">Quick Controls</h4>
                                 <div className="flex flex-col gap-sm">
@@ -502,6 +1009,94 @@ function HostSession() {
                             </div>
                         )}
 
+                        {activeQuestion?.question_type === 'open_ended' && can('moderate') && (
+                            <ModerationQueuePanel
+                                responses={textResponses}
+                                autoApprove={autoApproveText}
+                                onModerate={moderateResponse}
+                                onApproveAll={approveAllResponses}
+                                onToggleAutoApprove={toggleAutoApprove}
+                            />
+                        )}
+
+                        {can('moderate') && (
+                            <QnaModerationPanel
+                                questions={qnaQuestions}
+                                settings={qnaSettings}
+                                onUpdate={updateQnaQuestion}
+                                onUpdateSettings={updateQnaSettings}
+                            />
+                        )}
+
+                        {(can('manage') || (can('moderate') && waitingToJoin.length > 0)) && (
+                            <LobbyPanel
+                                settings={lobbySettings}
+                                waiting={waitingToJoin}
+                                canManage={can('manage')}
+                                canModerate={can('moderate')}
+                                onUpdateSettings={updateLobbySettings}
+                                onAdmit={admitParticipants}
+                                onReject={rejectParticipant}
+                            />
+                        )}
+
+                        {can('moderate') && (
+                            <ParticipantsPanel
+                                participants={roster}
+                                onOpen={fetchParticipants}
+                                onRemove={removeParticipant}
+                                onRestore={restoreParticipant}
+                            />
+                        )}
+
+                        <CoHostsPanel
+                            coHosts={coHosts}
+                            canManage={can('manage')}
+                            notice={inviteNotice}
+                            onInvite={inviteCoHost}
+                            onRemove={removeCoHost}
+                        />
+
+                        {can('manage') && (
+                            <>
+                                <JoinSettingsPanel settings={joinSettings} onUpdate={updateJoinSettings} />
+
+                                <div className="control-panel">
+                                    <label className="flex items-center gap-sm text-sm">
+                                        <input type="checkbox" checked={personalResults} onChange={togglePersonalResults} />
+                                        Let participants review their answers after the session
+                                    </label>
+                                </div>
+
+                                <SelfPacedPanel
+                                    settings={selfPacedSettings}
+                                    progress={selfPacedProgress}
+                                    onUpdate={updateSelfPacedSettings}
+                                />
+
+                                <TeamsPanel
+                                    settings={teamSettings}
+                                    teams={teams}
+                                    members={teamMembers}
+                                    onUpdateSettings={updateTeamSettings}
+                                    onCreate={createTeams}
+                                    onDelete={deleteTeam}
+                                    onAssign={assignTeam}
+                                    onAutoBalance={autoBalanceTeams}
+                                />
+
+                                <details className="control-panel">
+                                    <summary className="font-semibold cursor-pointer">Profanity Filter</summary>
+                                    <p className="text-xs text-muted mt-sm mb-md">Added to your organization's lists for this session only.</p>
+                                    <ProfanitySettingsForm
+                                        settings={profanitySettings}
+                                        allowInherit
+                                        onSave={updateProfanitySettings}
+                                    />
+                                </details>
+                            </>
+                        )}
+
                     </aside>
                 )}
             </div>
@@ -620,6 +1215,29 @@ function HostSession() {
                                     </div>
                                 )}
 
+                                {newQuestion.type.startsWith('quiz_') && (
+                                    <div className="mb-md">
+                                        <label htmlFor="time-limit" className="form-label">Time Limit (seconds)</label>
+                                        <input
+                                            id="time-limit"
+                                            className="input"
+                                            type="number"
+                                            min={5}
+                                            max={300}
+                                            value={newQuestion.timeLimit}
+                                            onChange={(e) => setNewQuestion({ ...newQuestion, timeLimit: parseInt(e.target.value, 10) || 30 })}
+                                        />
+                                        <label className="flex items-center gap-sm mt-sm">
+                                            <input
+                                                type="checkbox"
+                                                checked={newQuestion.autoReveal}
+                                                onChange={(e) => setNewQuestion({ ...newQuestion, autoReveal: e.target.checked })}
+                                            />
+                                            Reveal results automatically when time runs out
+                                        </label>
+                                    </div>
+                                )}
+
                                 {newQuestion.type === 'quiz_tf' && (
                                     <div className="mb-md">
                                         <label className="form-label">Correct Answer</label>
@@ -763,6 +1381,33 @@ function LeaderboardDisplay({ leaderboard }: { leaderboard: LeaderboardEntry[] }
     );
 }
 
+// Team Podium: top three teams above the player leaderboard
+function TeamPodium({ teams }: { teams: TeamLeaderboardEntry[] }) {
+    if (teams.length === 0) return null;
+
+    return (
+        <div className="leaderboard-container mb-xl">
+            <h2 className="mb-xl">Top Teams</h2>
+            <div className="leaderboard-list">
+                {teams.slice(0, 3).map((team) => (
+                    <div
+                        key={team.team_id}
+                        className={`leaderboard-item rank-${team.rank}`}
+                        style={{ borderLeft: `6px solid ${team.color}` }}
+                    >
+                        <div className="leaderboard-rank">{team.rank}</div>
+                        <div className="leaderboard-name">
+                            {team.name}
+                            <span className="text-xs text-muted"> • {team.member_count} {team.member_count === 1 ? 'player' : 'players'}</span>
+                        </div>
+                        <div className="leaderboard-score">{team.score} pts</div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
 // Poll Results Display
 function PollResultsDisplay({ results, options }: { results: PollResults; options: { id: string; text: string }[] }) {
     const total = Object.values(results).reduce((sum, count) => sum + count, 0);
@@ -798,6 +1443,17 @@ function PollResultsDisplay({ results, options }: { results: PollResults; option
 }
 
 // Word Cloud Display
+function applyWordCloudDeltas(words: WordCloudWord[], deltas: WordCloudDelta[]): WordCloudWord[] {
+    const weights = new Map(words.map(w => [w.word, w.weight]));
+    for (const { word, delta } of deltas) {
+        weights.set(word, (weights.get(word) || 0) + delta);
+    }
+    return [...weights]
+        .filter(([, weight]) => weight > 0)
+        .map(([word, weight]) => ({ word, weight }))
+        .sort((a, b) => b.weight - a.weight);
+}
+
 function WordCloudDisplay({ words }: { words: WordCloudWord[] }) {
     const maxWeight = Math.max(...words.map(w => w.weight), 1);
     const colors = ['#ef4444', '#3b82f6', '#22c55e', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6'];
@@ -863,6 +1519,742 @@ function RankingResultsDisplay({ results, options }: { results: { [key: string]:
 }
 
 // Pin Image Results Display
+function TextWallDisplay({ responses }: { responses: TextResponse[] }) {
+    if (responses.length === 0) {
+        return <p className="text-muted text-center mt-lg">No approved responses yet</p>;
+    }
+
+    return (
+        <div className="flex flex-wrap gap-md justify-center mt-lg">
+            {responses.map(r => (
+                <div
+                    key={r.id}
+                    className={`card p-md max-w-xs ${r.moderation_status === 'highlighted' ? 'border-2 border-primary shadow-glow' : ''}`}
+                >
+                    {r.content}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+const MODERATION_TABS: { status: ModerationStatus; label: string }[] = [
+    { status: 'pending', label: 'Pending' },
+    { status: 'approved', label: 'Approved' },
+    { status: 'highlighted', label: 'Highlighted' },
+    { status: 'hidden', label: 'Hidden' },
+];
+
+function ModerationQueuePanel({ responses, autoApprove, onModerate, onApproveAll, onToggleAutoApprove }: {
+    responses: TextResponse[];
+    autoApprove: boolean;
+    onModerate: (responseId: string, status: ModerationStatus) => void;
+    onApproveAll: () => void;
+    onToggleAutoApprove: () => void;
+}) {
+    const [tab, setTab] = useState<ModerationStatus>('pending');
+    const visible = responses.filter(r => r.moderation_status === tab);
+    const pendingCount = responses.filter(r => r.moderation_status === 'pending').length;
+
+    return (
+        <div className="control-panel">
+            <div className="flex justify-between items-center mb-sm">
+                <h4>Moderation</h4>
+                <button className="btn btn-secondary btn-small" onClick={onApproveAll} disabled={pendingCount === 0}>
+                    Approve all ({pendingCount})
+                </button>
+            </div>
+            <label className="flex items-center gap-sm text-sm mb-md">
+                <input type="checkbox" checked={autoApprove} onChange={onToggleAutoApprove} />
+                Auto-approve unless profanity
+            </label>
+            <div className="tab-group mb-sm">
+                {MODERATION_TABS.map(t => (
+                    <button
+                        key={t.status}
+                        className={`tab-btn ${tab === t.status ? 'active' : ''}`}
+                        onClick={() => setTab(t.status)}
+                    >
+                        {t.label} ({responses.filter(r => r.moderation_status === t.status).length})
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-col gap-xs max-h-80 overflow-y-auto">
+                {visible.length === 0 && <p className="text-muted text-sm">Nothing here</p>}
+                {visible.map(r => (
+                    <div key={r.id} className="p-sm bg-bg-alt rounded-lg border border-border text-sm">
+                        <p className="mb-xs">{r.content}</p>
+                        <div className="flex gap-xs justify-end">
+                            {r.moderation_status !== 'approved' && (
+                                <button className="btn btn-secondary btn-small" title="Approve" onClick={() => onModerate(r.id, 'approved')}>✓</button>
+                            )}
+                            {r.moderation_status !== 'highlighted' && (
+                                <button className="btn btn-secondary btn-small" title="Highlight" onClick={() => onModerate(r.id, 'highlighted')}>⭐</button>
+                            )}
+                            {r.moderation_status !== 'hidden' && (
+                                <button className="btn btn-secondary btn-small" title="Hide" onClick={() => onModerate(r.id, 'hidden')}>🚫</button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+const QNA_TABS: { status: QnaStatus; label: string }[] = [
+    { status: 'open', label: 'Open' },
+    { status: 'answered', label: 'Answered' },
+    { status: 'archived', label: 'Archived' },
+];
+
+function QnaModerationPanel({ questions, settings, onUpdate, onUpdateSettings }: {
+    questions: QnaQuestion[];
+    settings: QnaSettings;
+    onUpdate: (qnaQuestionId: string, updates: { status?: QnaStatus; is_pinned?: boolean }) => void;
+    onUpdateSettings: (updates: Partial<QnaSettings>) => void;
+}) {
+    const [tab, setTab] = useState<QnaStatus>('open');
+    const visible = questions.filter(q => q.status === tab);
+
+    return (
+        <div className="control-panel">
+            <h4 className="mb-sm">Audience Q&A</h4>
+            <label className="flex items-center gap-sm text-sm mb-xs">
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={() => onUpdateSettings({ enabled: !settings.enabled })}
+                />
+                Accept questions
+            </label>
+            <label className="flex items-center gap-sm text-sm mb-md">
+                <input
+                    type="checkbox"
+                    checked={settings.allow_anonymous}
+                    onChange={() => onUpdateSettings({ allow_anonymous: !settings.allow_anonymous })}
+                />
+                Allow anonymous questions
+            </label>
+            <div className="tab-group mb-sm">
+                {QNA_TABS.map(t => (
+                    <button
+                        key={t.status}
+                        className={`tab-btn ${tab === t.status ? 'active' : ''}`}
+                        onClick={() => setTab(t.status)}
+                    >
+                        {t.label} ({questions.filter(q => q.status === t.status).length})
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-col gap-xs max-h-80 overflow-y-auto">
+                {visible.length === 0 && <p className="text-muted text-sm">Nothing here</p>}
+                {visible.map(q => (
+                    <div key={q.id} className="p-sm bg-bg-alt rounded-lg border border-border text-sm">
+                        <p className="mb-xs">{q.is_pinned && '📌 '}{q.content}</p>
+                        <div className="flex justify-between items-center">
+                            <span className="text-xs text-muted">
+                                ▲ {q.vote_count} • {q.is_anonymous ? 'Anonymous' : q.nickname || 'Participant'}
+                            </span>
+                            <div className="flex gap-xs">
+                                <button
+                                    className="btn btn-secondary btn-small"
+                                    title={q.is_pinned ? 'Unpin' : 'Pin'}
+                                    onClick={() => onUpdate(q.id, { is_pinned: !q.is_pinned })}
+                                >
+                                    📌
+                                </button>
+                                {q.status !== 'answered' && (
+                                    <button className="btn btn-secondary btn-small" title="Mark answered" onClick={() => onUpdate(q.id, { status: 'answered' })}>✓</button>
+                                )}
+                                {q.status !== 'open' && (
+                                    <button className="btn btn-secondary btn-small" title="Reopen" onClick={() => onUpdate(q.id, { status: 'open' })}>↩</button>
+                                )}
+                                {q.status !== 'archived' && (
+                                    <button className="btn btn-secondary btn-small" title="Archive" onClick={() => onUpdate(q.id, { status: 'archived' })}>🗄</button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+const JOIN_FIELD_TYPES: { type: JoinFieldType; label: string }[] = [
+    { type: 'text', label: 'Text' },
+    { type: 'email', label: 'Email' },
+    { type: 'select', label: 'Choice' },
+];
+
+function toFieldKey(label: string): string {
+    const key = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return (/^[a-z]/.test(key) ? key : `field_${key}`).substring(0, 30);
+}
+
+function JoinSettingsPanel({ settings, onUpdate }: {
+    settings: JoinSettings;
+    onUpdate: (updates: Partial<JoinSettings>) => void;
+}) {
+    const [label, setLabel] = useState('');
+    const [type, setType] = useState<JoinFieldType>('text');
+    const [options, setOptions] = useState('');
+    const [required, setRequired] = useState(false);
+
+    const addField = () => {
+        const trimmed = label.trim();
+        if (!trimmed) return;
+
+        const field: JoinField = { key: toFieldKey(trimmed), label: trimmed, type, required };
+        if (type === 'select') {
+            field.options = options.split(',').map(o => o.trim()).filter(Boolean);
+        }
+        onUpdate({ join_fields: [...settings.join_fields, field] });
+        setLabel('');
+        setOptions('');
+    };
+
+    return (
+        <details className="control-panel">
+            <summary className="font-semibold cursor-pointer">Joining</summary>
+            <label className="flex items-center gap-sm text-sm mt-sm mb-xs">
+                <input
+                    type="checkbox"
+                    checked={settings.unique_nicknames}
+                    onChange={() => onUpdate({ unique_nicknames: !settings.unique_nicknames })}
+                />
+                Require unique nicknames
+            </label>
+            <label className="flex items-center gap-sm text-sm mb-md">
+                <input
+                    type="checkbox"
+                    checked={settings.random_nicknames}
+                    onChange={() => onUpdate({ random_nicknames: !settings.random_nicknames })}
+                />
+                Assign random fun nicknames
+            </label>
+
+            <h5 className="mb-xs">Join form fields</h5>
+            <div className="flex flex-col gap-xs mb-sm">
+                {settings.join_fields.length === 0 && <p className="text-muted text-sm">Only a nickname is asked for</p>}
+                {settings.join_fields.map(field => (
+                    <div key={field.key} className="flex justify-between items-center text-sm">
+                        <span>
+                            {field.label}
+                            <span className="text-xs text-muted"> • {field.type}{field.required ? ' • required' : ''}</span>
+                        </span>
+                        <button
+                            className="btn btn-secondary btn-small"
+                            title="Remove field"
+                            onClick={() => onUpdate({ join_fields: settings.join_fields.filter(f => f.key !== field.key) })}
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-col gap-xs">
+                <div className="flex gap-xs">
+                    <input
+                        className="input flex-1"
+                        placeholder="Field label, e.g. Team"
+                        value={label}
+                        onChange={(e) => setLabel(e.target.value)}
+                        maxLength={60}
+                    />
+                    <select className="input w-auto" value={type} onChange={(e) => setType(e.target.value as JoinFieldType)}>
+                        {JOIN_FIELD_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                    </select>
+                </div>
+                {type === 'select' && (
+                    <input
+                        className="input"
+                        placeholder="Options, comma separated"
+                        value={options}
+                        onChange={(e) => setOptions(e.target.value)}
+                    />
+                )}
+                <div className="flex justify-between items-center">
+                    <label className="flex items-center gap-sm text-sm">
+                        <input type="checkbox" checked={required} onChange={() => setRequired(!required)} />
+                        Required
+                    </label>
+                    <button className="btn btn-secondary btn-small" onClick={addField} disabled={!label.trim()}>
+                        Add field
+                    </button>
+                </div>
+            </div>
+        </details>
+    );
+}
+
+// datetime-local inputs work in the presenter's local time; settings are stored as ISO
+function toLocalInput(iso: string | null): string {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+    return value ? new Date(value).toISOString() : null;
+}
+
+function SelfPacedPanel({ settings, progress, onUpdate }: {
+    settings: SelfPacedSettings;
+    progress: { started: number; completed: number };
+    onUpdate: (updates: Partial<SelfPacedSettings>) => void;
+}) {
+    return (
+        <details className="control-panel">
+            <summary className="font-semibold cursor-pointer">Self-Paced</summary>
+            <label className="flex items-center gap-sm text-sm mt-sm mb-xs">
+                <input
+                    type="checkbox"
+                    checked={settings.self_paced}
+                    onChange={() => onUpdate({ self_paced: !settings.self_paced })}
+                />
+                Participants go through the questions on their own
+            </label>
+            <p className="text-xs text-muted mb-md">Brainstorm questions are skipped; timers run per participant.</p>
+
+            {settings.self_paced && (
+                <div className="flex flex-col gap-xs">
+                    <label className="flex justify-between items-center gap-sm text-sm">
+                        Opens
+                        <input
+                            type="datetime-local"
+                            className="input text-xs py-xs px-sm w-auto"
+                            value={toLocalInput(settings.opens_at)}
+                            onChange={(e) => onUpdate({ opens_at: fromLocalInput(e.target.value) })}
+                        />
+                    </label>
+                    <label className="flex justify-between items-center gap-sm text-sm">
+                        Closes
+                        <input
+                            type="datetime-local"
+                            className="input text-xs py-xs px-sm w-auto"
+                            value={toLocalInput(settings.closes_at)}
+                            onChange={(e) => onUpdate({ closes_at: fromLocalInput(e.target.value) })}
+                        />
+                    </label>
+                    <label className="flex justify-between items-center gap-sm text-sm">
+                        Attempts per participant
+                        <input
+                            type="number"
+                            className="input text-xs py-xs px-sm w-auto"
+                            min={1}
+                            max={100}
+                            value={settings.max_attempts}
+                            onChange={(e) => {
+                                const value = parseInt(e.target.value, 10);
+                                if (value >= 1) onUpdate({ max_attempts: value });
+                            }}
+                        />
+                    </label>
+                    <p className="text-sm text-muted mt-xs">
+                        {progress.started} started • {progress.completed} finished
+                    </p>
+                </div>
+            )}
+        </details>
+    );
+}
+
+function LobbyAvatar({ entry }: { entry: LobbyEntry }) {
+    return (
+        <span
+            className="flex items-center justify-center font-semibold"
+            style={{
+                width: '2rem',
+                height: '2rem',
+                borderRadius: '50%',
+                background: entry.avatar_color,
+                color: '#fff',
+                flexShrink: 0,
+            }}
+        >
+            {(entry.nickname || '?').charAt(0).toUpperCase()}
+        </span>
+    );
+}
+
+function LobbyView({ lobby, joinCode, isLive, canModerate, onAdmit, onReject }: {
+    lobby: LobbyEntry[];
+    joinCode: string;
+    isLive: boolean;
+    canModerate: boolean;
+    onAdmit: (participantIds: string[] | null) => void;
+    onReject: (participantId: string) => void;
+}) {
+    const admitted = lobby.filter(p => p.admission === 'admitted');
+    const waiting = lobby.filter(p => p.admission === 'pending');
+
+    return (
+        <div className="display-content">
+            <h2 className="display-question">{isLive ? 'Select a question to display' : 'Waiting room'}</h2>
+            <p className="text-muted mb-lg">
+                Join with code <strong className="join-code">{joinCode}</strong> • {admitted.length} here
+                {waiting.length > 0 && `, ${waiting.length} waiting to be let in`}
+            </p>
+
+            <div className="flex flex-wrap gap-sm">
+                {admitted.map(p => (
+                    <span key={p.participant_id} className="card flex items-center gap-sm animate-slide-up" style={{ padding: '0.5rem 0.75rem' }}>
+                        <LobbyAvatar entry={p} />
+                        {p.nickname || 'Anonymous'}
+                    </span>
+                ))}
+            </div>
+
+            {waiting.length > 0 && (
+                <>
+                    <div className="flex justify-between items-center mt-lg mb-sm">
+                        <h4 className="m-0">Waiting to join</h4>
+                        {canModerate && (
+                            <button className="btn btn-primary btn-small" onClick={() => onAdmit(null)}>
+                                Admit all ({waiting.length})
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap gap-sm">
+                        {waiting.map(p => (
+                            <span key={p.participant_id} className="card flex items-center gap-sm" style={{ padding: '0.5rem 0.75rem', opacity: 0.8 }}>
+                                <LobbyAvatar entry={p} />
+                                {p.nickname || 'Anonymous'}
+                                {canModerate && (
+                                    <>
+                                        <button className="btn btn-success btn-small" onClick={() => onAdmit([p.participant_id])}>Admit</button>
+                                        <button className="btn btn-secondary btn-small" onClick={() => onReject(p.participant_id)}>Reject</button>
+                                    </>
+                                )}
+                            </span>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
+
+function LobbyPanel({ settings, waiting, canManage, canModerate, onUpdateSettings, onAdmit, onReject }: {
+    settings: LobbySettings;
+    waiting: LobbyEntry[];
+    canManage: boolean;
+    canModerate: boolean;
+    onUpdateSettings: (updates: Partial<LobbySettings>) => void;
+    onAdmit: (participantIds: string[] | null) => void;
+    onReject: (participantId: string) => void;
+}) {
+    return (
+        <details className="control-panel" open={waiting.length > 0}>
+            <summary className="font-semibold cursor-pointer">
+                Waiting room{waiting.length > 0 ? ` (${waiting.length})` : ''}
+            </summary>
+            {canManage && (
+                <>
+                    <label className="flex items-center gap-sm text-sm mt-sm mb-xs">
+                        <input
+                            type="checkbox"
+                            checked={settings.join_approval}
+                            onChange={() => onUpdateSettings({ join_approval: !settings.join_approval })}
+                        />
+                        Approve everyone who joins
+                    </label>
+                    <label className="flex items-center gap-sm text-sm mb-md">
+                        <input
+                            type="checkbox"
+                            checked={settings.allow_late_join}
+                            onChange={() => onUpdateSettings({ allow_late_join: !settings.allow_late_join })}
+                        />
+                        Let people join after the start without approval
+                    </label>
+                </>
+            )}
+
+            {canModerate && waiting.length > 0 && (
+                <div className="flex flex-col gap-xs mt-sm">
+                    {waiting.map(p => (
+                        <div key={p.participant_id} className="flex justify-between items-center gap-sm text-sm">
+                            <span className="flex items-center gap-xs truncate">
+                                <span style={{ color: p.avatar_color }}>●</span> {p.nickname || 'Anonymous'}
+                            </span>
+                            <span className="flex gap-xs">
+                                <button className="btn btn-success btn-small" onClick={() => onAdmit([p.participant_id])}>Admit</button>
+                                <button className="btn btn-secondary btn-small" onClick={() => onReject(p.participant_id)}>Reject</button>
+                            </span>
+                        </div>
+                    ))}
+                    <button className="btn btn-primary btn-small mt-xs" onClick={() => onAdmit(null)}>Admit all</button>
+                </div>
+            )}
+        </details>
+    );
+}
+
+function ParticipantsPanel({ participants, onOpen, onRemove, onRestore }: {
+    participants: ParticipantRosterEntry[];
+    onOpen: () => void;
+    onRemove: (participant: ParticipantRosterEntry, ban: boolean) => void;
+    onRestore: (participantId: string) => void;
+}) {
+    const active = participants.filter(p => !p.is_removed);
+    const removed = participants.filter(p => p.is_removed);
+
+    return (
+        <details className="control-panel" onToggle={e => (e.currentTarget as HTMLDetailsElement).open && onOpen()}>
+            <summary className="font-semibold cursor-pointer">Participants</summary>
+            <div className="flex justify-end mt-sm">
+                <button className="btn btn-secondary btn-small" onClick={onOpen}>Refresh</button>
+            </div>
+            {active.length === 0 ? (
+                <p className="text-xs text-muted mt-sm">Nobody has joined yet.</p>
+            ) : (
+                <div className="flex flex-col gap-xs mt-sm">
+                    {active.map(p => (
+                        <div key={p.participant_id} className="flex justify-between items-center gap-sm text-sm">
+                            <span className={`truncate ${p.is_connected ? '' : 'text-muted'}`}>{p.nickname || 'Anonymous'}</span>
+                            <span className="flex gap-xs">
+                                <button className="btn btn-secondary btn-small" onClick={() => onRemove(p, false)}>Remove</button>
+                                <button className="btn btn-danger btn-small" onClick={() => onRemove(p, true)}>Ban</button>
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {removed.length > 0 && (
+                <>
+                    <h4 className="text-sm mt-md mb-xs">Removed</h4>
+                    <div className="flex flex-col gap-xs">
+                        {removed.map(p => (
+                            <div key={p.participant_id} className="flex justify-between items-center gap-sm text-sm">
+                                <span className="truncate text-muted">
+                                    {p.nickname || 'Anonymous'}{p.is_banned && ' (banned)'}
+                                </span>
+                                <button className="btn btn-secondary btn-small" onClick={() => onRestore(p.participant_id)}>Undo</button>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </details>
+    );
+}
+
+const COHOST_ROLES: { value: CoHostRole; label: string }[] = [
+    { value: 'moderator', label: 'Moderator' },
+    { value: 'driver', label: 'Question driver' },
+    { value: 'full', label: 'Full control' },
+];
+
+function CoHostsPanel({ coHosts, canManage, notice, onInvite, onRemove }: {
+    coHosts: CoHost[];
+    canManage: boolean;
+    notice: string;
+    onInvite: (email: string, role: CoHostRole) => void;
+    onRemove: (coHostId: string) => void;
+}) {
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<CoHostRole>('moderator');
+
+    const invite = () => {
+        if (!email.trim()) return;
+        onInvite(email.trim(), role);
+        setEmail('');
+    };
+
+    return (
+        <details className="control-panel">
+            <summary className="font-semibold cursor-pointer">Co-hosts ({coHosts.length})</summary>
+            {coHosts.length === 0 ? (
+                <p className="text-xs text-muted mt-sm">No co-hosts yet.</p>
+            ) : (
+                <div className="flex flex-col gap-xs mt-sm">
+                    {coHosts.map(c => (
+                        <div key={c.id} className="flex justify-between items-center gap-sm text-sm">
+                            <span className="truncate">{c.email}</span>
+                            <span className="flex items-center gap-xs">
+                                <span className="text-xs text-muted">{COHOST_ROLES.find(r => r.value === c.role)?.label}</span>
+                                {canManage && (
+                                    <button className="btn btn-secondary btn-icon btn-small" title="Remove" onClick={() => onRemove(c.id)}>✕</button>
+                                )}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {canManage && (
+                <div className="flex flex-col gap-xs mt-md">
+                    <input
+                        type="email"
+                        className="input text-sm"
+                        placeholder="colleague@example.com"
+                        value={email}
+                        onChange={e => setEmail(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && invite()}
+                    />
+                    <div className="flex gap-xs">
+                        <select
+                            className="input text-xs py-xs px-sm"
+                            value={role}
+                            onChange={e => setRole(e.target.value as CoHostRole)}
+                        >
+                            {COHOST_ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                        </select>
+                        <button className="btn btn-primary btn-small" onClick={invite} disabled={!email.trim()}>
+                            Invite
+                        </button>
+                    </div>
+                    {notice && <p className="text-xs text-muted">{notice}</p>}
+                </div>
+            )}
+        </details>
+    );
+}
+
+const TEAM_ASSIGNMENTS: { value: TeamAssignment; label: string }[] = [
+    { value: 'presenter', label: 'Assigned by me' },
+    { value: 'choose', label: 'Chosen when joining' },
+    { value: 'auto', label: 'Auto-balanced' },
+];
+
+const TEAM_SCORING: { value: TeamScoring; label: string }[] = [
+    { value: 'sum', label: 'Sum of scores' },
+    { value: 'average', label: 'Average score' },
+    { value: 'best_n', label: 'Best players only' },
+];
+
+function TeamsPanel({ settings, teams, members, onUpdateSettings, onCreate, onDelete, onAssign, onAutoBalance }: {
+    settings: TeamSettings;
+    teams: Team[];
+    members: TeamMember[];
+    onUpdateSettings: (updates: Partial<TeamSettings>) => void;
+    onCreate: (names: string[]) => void;
+    onDelete: (teamId: string) => void;
+    onAssign: (participantId: string, teamId: string | null) => void;
+    onAutoBalance: () => void;
+}) {
+    const [names, setNames] = useState('');
+
+    const addTeams = () => {
+        const list = names.split(',').map(n => n.trim()).filter(Boolean);
+        if (list.length === 0) return;
+        onCreate(list);
+        setNames('');
+    };
+
+    return (
+        <details className="control-panel">
+            <summary className="font-semibold cursor-pointer">Teams</summary>
+            <label className="flex items-center gap-sm text-sm mt-sm mb-md">
+                <input
+                    type="checkbox"
+                    checked={settings.team_mode}
+                    onChange={() => onUpdateSettings({ team_mode: !settings.team_mode })}
+                />
+                Team mode
+            </label>
+
+            {settings.team_mode && (
+                <>
+                    <div className="flex flex-col gap-xs mb-md">
+                        <label className="flex justify-between items-center gap-sm text-sm">
+                            Teams are
+                            <select
+                                className="input text-xs py-xs px-sm w-auto"
+                                value={settings.team_assignment}
+                                onChange={(e) => onUpdateSettings({ team_assignment: e.target.value as TeamAssignment })}
+                            >
+                                {TEAM_ASSIGNMENTS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex justify-between items-center gap-sm text-sm">
+                            Team score
+                            <select
+                                className="input text-xs py-xs px-sm w-auto"
+                                value={settings.team_scoring}
+                                onChange={(e) => onUpdateSettings({ team_scoring: e.target.value as TeamScoring })}
+                            >
+                                {TEAM_SCORING.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                            </select>
+                        </label>
+                        {settings.team_scoring === 'best_n' && (
+                            <label className="flex justify-between items-center gap-sm text-sm">
+                                Players counted per team
+                                <input
+                                    type="number"
+                                    className="input text-xs py-xs px-sm w-auto"
+                                    min={1}
+                                    max={50}
+                                    value={settings.team_best_n}
+                                    onChange={(e) => {
+                                        const value = parseInt(e.target.value, 10);
+                                        if (value >= 1) onUpdateSettings({ team_best_n: value });
+                                    }}
+                                />
+                            </label>
+                        )}
+                    </div>
+
+                    <div className="flex flex-col gap-xs mb-sm">
+                        {teams.length === 0 && <p className="text-muted text-sm">No teams yet</p>}
+                        {teams.map(team => (
+                            <div key={team.id} className="flex justify-between items-center text-sm">
+                                <span>
+                                    <span style={{ color: team.color }}>●</span> {team.name}
+                                    <span className="text-xs text-muted"> • {team.member_count || 0}</span>
+                                </span>
+                                <button className="btn btn-secondary btn-small" title="Delete team" onClick={() => onDelete(team.id)}>
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex gap-xs mb-md">
+                        <input
+                            className="input flex-1"
+                            placeholder="Team names, comma separated"
+                            value={names}
+                            onChange={(e) => setNames(e.target.value)}
+                        />
+                        <button className="btn btn-secondary btn-small" onClick={addTeams} disabled={!names.trim()}>
+                            Add
+                        </button>
+                    </div>
+
+                    {teams.length > 0 && members.length > 0 && (
+                        <>
+                            <div className="flex justify-between items-center mb-xs">
+                                <h5>Players</h5>
+                                <button className="btn btn-secondary btn-small" onClick={onAutoBalance}>
+                                    Auto-balance
+                                </button>
+                            </div>
+                            <div className="flex flex-col gap-xs">
+                                {members.map(member => (
+                                    <label key={member.participant_id} className="flex justify-between items-center gap-sm text-sm">
+                                        {member.nickname || 'Anonymous'}
+                                        <select
+                                            className="input text-xs py-xs px-sm w-auto"
+                                            value={member.team_id || ''}
+                                            onChange={(e) => onAssign(member.participant_id, e.target.value || null)}
+                                        >
+                                            <option value="">No team</option>
+                                            {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                                        </select>
+                                    </label>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+        </details>
+    );
+}
+
 function PinImageResultsDisplay({ results, imageUrl }: { results: { x: number, y: number }[], imageUrl: string }) {
     return (
         <div className="pin-image-results">
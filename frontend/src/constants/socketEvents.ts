@@ -4,18 +4,90 @@ export const SOCKET_EVENTS = {
     SESSION_JOINED: 'session_joined',
     SESSION_STARTED: 'session_started',
     SESSION_ENDED: 'session_ended',
+    PAUSE_SESSION: 'pause_session',
+    RESUME_SESSION: 'resume_session',
+    SESSION_PAUSED: 'session_paused',
+    SESSION_RESUMED: 'session_resumed',
     QUESTION_ADDED: 'question_added',
+    QUESTION_UPDATED: 'question_updated',
+    QUESTION_REMOVED: 'question_removed',
+    QUESTIONS_REORDERED: 'questions_reordered',
     QUESTION_ACTIVATED: 'question_activated',
     QUESTION_LOCKED: 'question_locked',
+    QUESTION_TIMER: 'question_timer',
     RESULTS_REVEALED: 'results_revealed',
     RESULTS_UPDATED: 'results_updated',
     WORD_CLOUD_UPDATED: 'word_cloud_updated',
+    GET_WORD_CLOUD: 'get_word_cloud',
+    WORD_CLOUD_SNAPSHOT: 'word_cloud_snapshot',
     TEXT_RESPONSE_RECEIVED: 'text_response_received',
     LEADERBOARD_UPDATED: 'leaderboard_updated',
+    TEAM_LEADERBOARD_UPDATED: 'team_leaderboard_updated',
+    GET_TEAMS: 'get_teams',
+    TEAMS_UPDATED: 'teams_updated',
+    TEAM_ASSIGNED: 'team_assigned',
+    UPDATE_TEAM_SETTINGS: 'update_team_settings',
+    TEAM_SETTINGS_UPDATED: 'team_settings_updated',
+    CREATE_TEAMS: 'create_teams',
+    DELETE_TEAM: 'delete_team',
+    ASSIGN_TEAM: 'assign_team',
+    AUTO_BALANCE_TEAMS: 'auto_balance_teams',
+    CHOOSE_TEAM: 'choose_team',
+    UPDATE_SELF_PACED_SETTINGS: 'update_self_paced_settings',
+    SELF_PACED_SETTINGS_UPDATED: 'self_paced_settings_updated',
+    SELF_PACED_START: 'self_paced_start',
+    SELF_PACED_NEXT: 'self_paced_next',
+    SELF_PACED_QUESTION: 'self_paced_question',
+    SELF_PACED_COMPLETED: 'self_paced_completed',
+    SELF_PACED_PROGRESS: 'self_paced_progress',
+    UPDATE_RESULTS_SETTINGS: 'update_results_settings',
+    RESULTS_SETTINGS_UPDATED: 'results_settings_updated',
+    RESYNC: 'resync',
+    RESYNC_STATE: 'resync_state',
+    INVITE_COHOST: 'invite_cohost',
+    COHOST_INVITED: 'cohost_invited',
+    REMOVE_COHOST: 'remove_cohost',
+    COHOSTS_UPDATED: 'cohosts_updated',
+    PRESENTER_ROLE_UPDATED: 'presenter_role_updated',
     PARTICIPANT_JOINED: 'participant_joined',
+    REMOVE_PARTICIPANT: 'remove_participant',
+    RESTORE_PARTICIPANT: 'restore_participant',
+    GET_PARTICIPANTS: 'get_participants',
+    PARTICIPANTS_LIST: 'participants_list',
+    JOIN_PENDING: 'join_pending',
+    JOIN_ADMITTED: 'join_admitted',
+    ADMIT_PARTICIPANTS: 'admit_participants',
+    REJECT_PARTICIPANT: 'reject_participant',
+    LOBBY_UPDATED: 'lobby_updated',
+    UPDATE_LOBBY_SETTINGS: 'update_lobby_settings',
+    LOBBY_SETTINGS_UPDATED: 'lobby_settings_updated',
     PARTICIPANT_LEFT: 'participant_left',
     PARTICIPANT_REMOVED: 'participant_removed',
     END_SESSION: 'end_session',
+    LATENCY_PING: 'latency_ping',
+    MODERATE_RESPONSE: 'moderate_response',
+    APPROVE_ALL_RESPONSES: 'approve_all_responses',
+    GET_MODERATION_QUEUE: 'get_moderation_queue',
+    MODERATION_QUEUE: 'moderation_queue',
+    TEXT_RESPONSES_MODERATED: 'text_responses_moderated',
+    UPDATE_MODERATION_SETTINGS: 'update_moderation_settings',
+    MODERATION_SETTINGS_UPDATED: 'moderation_settings_updated',
+    UPDATE_PROFANITY_SETTINGS: 'update_profanity_settings',
+    PROFANITY_SETTINGS_UPDATED: 'profanity_settings_updated',
+    UPDATE_JOIN_SETTINGS: 'update_join_settings',
+    JOIN_SETTINGS_UPDATED: 'join_settings_updated',
+    QNA_GET: 'qna_get',
+    QNA_ASK: 'qna_ask',
+    QNA_ASKED: 'qna_asked',
+    QNA_VOTE: 'qna_vote',
+    QNA_VOTE_TOGGLED: 'qna_vote_toggled',
+    QNA_UPDATE: 'qna_update',
+    QNA_UPDATED: 'qna_updated',
+    QNA_SETTINGS: 'qna_settings',
+    QNA_SETTINGS_UPDATED: 'qna_settings_updated',
 } as const;
 
+// Snapshot format this client understands; sent with every resync request
+export const RESYNC_PROTOCOL_VERSION = 1;
+
 export type SocketEventName = (typeof SOCKET_EVENTS)[keyof typeof SOCKET_EVENTS];
@@ -4,6 +4,7 @@
  */
 
 import { useState, useCallback } from 'react';
+import type { ProfanitySettings } from '../types';
 
 // API base URL - change this for production
 const API_BASE = import.meta.env.VITE_API_URL || '';
@@ -110,6 +111,13 @@ export const api = {
         });
     },
 
+    async put(endpoint: string, body: any) {
+        return this.request(endpoint, {
+            method: 'PUT',
+            body: JSON.stringify(body),
+        });
+    },
+
     async delete(endpoint: string) {
         return this.request(endpoint, { method: 'DELETE' });
     },
@@ -169,6 +177,26 @@ export const api = {
         });
     },
 
+    async updateQuestion(sessionId: string, questionId: string, data: any) {
+        return this.patch(`sessions/${sessionId}/questions/${questionId}`, data);
+    },
+
+    async deleteQuestion(sessionId: string, questionId: string) {
+        return this.delete(`sessions/${sessionId}/questions/${questionId}`);
+    },
+
+    async reorderQuestions(sessionId: string, questionIds: string[]) {
+        return this.request(`sessions/${sessionId}/questions/order`, {
+            method: 'PUT',
+            body: JSON.stringify({ questionIds }),
+        });
+    },
+
+    // Parse a CSV, GIFT or Aiken question bank; nothing is saved
+    async previewQuestionImport(format: 'csv' | 'gift' | 'aiken', content: string) {
+        return this.post('sessions/questions/import', { format, content });
+    },
+
     async extractQuestions(sessionId: string, sourceText: string) {
         return this.request(`sessions/${sessionId}/extract-questions`, {
             method: 'POST',
@@ -187,6 +215,13 @@ export const api = {
         return this.request(`questions/${questionId}/results`);
     },
 
+    // A participant's own answers and rank, identified by their participant cookie
+    async getMyResults(sessionId: string) {
+        return this.request(`sessions/${sessionId}/my-results`, {
+            headers: { 'X-Participant-Cookie': localStorage.getItem('participantCookie') || '' },
+        });
+    },
+
     // Leaderboard
     async getLeaderboard(sessionId: string, limit = 10) {
         return this.get(`sessions/${sessionId}/leaderboard?limit=${limit}`);
@@ -214,6 +249,14 @@ export const api = {
     async getAdminAuditLogs() {
         return this.get('admin/audit-logs');
     },
+
+    async getProfanitySettings() {
+        return this.get('admin/profanity');
+    },
+
+    async updateProfanitySettings(settings: ProfanitySettings) {
+        return this.put('admin/profanity', settings);
+    },
 };
 
 export function useApi() {
@@ -5,6 +5,7 @@
 
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { SOCKET_EVENTS } from '../constants/socketEvents';
 
 const getSocketUrl = () => {
     const url = import.meta.env.VITE_API_URL || '';
@@ -60,6 +61,11 @@ export function useSocket(options: UseSocketOptions = {}) {
             setIsConnected(false);
         });
 
+        // Answer latency probes straight away so the server can measure our round trip
+        socket.on(SOCKET_EVENTS.LATENCY_PING, (_data: unknown, ack?: () => void) => {
+            ack?.();
+        });
+
         socket.on('error', (data: { code: string; message: string }) => {
             console.error('Socket error:', data);
             setError(data.message);
@@ -90,6 +96,18 @@ export function useSocket(options: UseSocketOptions = {}) {
         };
     }, []);
 
+    // Subscribe to every incoming event
+    const onAny = useCallback((callback: (event: string, ...args: any[]) => void) => {
+        if (socketRef.current) {
+            socketRef.current.onAny(callback);
+        }
+        return () => {
+            if (socketRef.current) {
+                socketRef.current.offAny(callback);
+            }
+        };
+    }, []);
+
     // Unsubscribe from event
     const off = useCallback((event: string, callback?: (...args: any[]) => void) => {
         if (socketRef.current) {
@@ -108,6 +126,7 @@ export function useSocket(options: UseSocketOptions = {}) {
         error,
         emit,
         on,
+        onAny,
         off,
         clearError,
     };
@@ -5,19 +5,24 @@
  * 1. User Management (Role assignment)
  * 2. Audit Log Viewer (Action tracking)
  * 3. Stats Overview
+ * 4. Content Filter (profanity block/allow lists)
  */
 
 import React, { useState, useEffect } from 'react';
 import { api } from '../../hooks/useApi';
 import DashboardLayout from '../../layouts/DashboardLayout';
 import { motion, AnimatePresence } from 'framer-motion';
+import ProfanitySettingsForm from '../../components/common/ProfanitySettingsForm';
+import type { ProfanitySettings } from '../../types';
 
 const AdminPage: React.FC = () => {
     const [users, setUsers] = useState<any[]>([]);
     const [logs, setLogs] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<'users' | 'logs'>('users');
+    const [profanity, setProfanity] = useState<ProfanitySettings>({});
+    const [savingProfanity, setSavingProfanity] = useState(false);
+    const [activeTab, setActiveTab] = useState<'users' | 'logs' | 'filter'>('users');
 
     useEffect(() => {
         loadData();
@@ -27,12 +32,14 @@ const AdminPage: React.FC = () => {
         setLoading(true);
         setError(null);
         try {
-            const [usersData, logsData] = await Promise.all([
+            const [usersData, logsData, profanityData] = await Promise.all([
                 api.getUsers(),
-                api.getAdminAuditLogs()
+                api.getAdminAuditLogs(),
+                api.getProfanitySettings().catch(() => ({}))
             ]);
             setUsers(usersData);
             setLogs(logsData);
+            setProfanity(profanityData);
         } catch (err: any) {
             console.error('Failed to load admin data:', err);
             setError(err.message || 'Failed to load administrative data');
@@ -50,6 +57,17 @@ const AdminPage: React.FC = () => {
         }
     };
 
+    const handleProfanitySave = async (settings: ProfanitySettings) => {
+        setSavingProfanity(true);
+        try {
+            setProfanity(await api.updateProfanitySettings(settings));
+        } catch (err: any) {
+            alert('Failed to save filter settings: ' + err.message);
+        } finally {
+            setSavingProfanity(false);
+        }
+    };
+
     return (
         <DashboardLayout>
             <div className="admin-header mb-xl">
@@ -79,6 +97,12 @@ const AdminPage: React.FC = () => {
                 >
                     Security Audit Logs
                 </button>
+                <button
+                    className={`tab-btn pb-sm px-sm font-semibold transition-all ${activeTab === 'filter' ? 'text-primary border-b-2 border-primary' : 'text-muted hover:text-text'}`}
+                    onClick={() => setActiveTab('filter')}
+                >
+                    Content Filter
+                </button>
             </div>
 
             <AnimatePresence mode="wait">
@@ -140,6 +164,17 @@ const AdminPage: React.FC = () => {
                                     </tbody>
                                 </table>
                             </div>
+                        ) : activeTab === 'filter' ? (
+                            <div className="p-lg max-w-[600px]">
+                                <p className="text-sm text-muted mb-md">
+                                    These lists apply to every session in your organization. Presenters can add to them per session.
+                                </p>
+                                <ProfanitySettingsForm
+                                    settings={profanity}
+                                    saving={savingProfanity}
+                                    onSave={handleProfanitySave}
+                                />
+                            </div>
                         ) : (
                             <div className="overflow-x-auto">
                                 <table className="w-full text-left">
@@ -16,10 +16,35 @@ interface QuestionDraft {
     question_text: string;
     question_type: string;
     options: string[];
-    correct_answer?: number;
+    correct_answer?: number | string;
     time_limit?: number;
+    settings?: Record<string, unknown>;
 }
 
+type ImportFormat = 'csv' | 'gift' | 'aiken';
+
+// Shape returned by the import preview endpoint
+interface ImportPreview {
+    questions: {
+        line: number;
+        question: {
+            questionType: string;
+            questionText: string;
+            options?: { id: string; text: string }[] | null;
+            correctAnswer?: number | string | null;
+            timeLimit?: number | null;
+            settings?: Record<string, unknown> | null;
+        };
+    }[];
+    errors: { line: number; error: string }[];
+}
+
+const IMPORT_FORMATS: { value: ImportFormat; label: string; accept: string }[] = [
+    { value: 'csv', label: 'CSV / Spreadsheet', accept: '.csv,.tsv,.txt' },
+    { value: 'gift', label: 'Moodle GIFT', accept: '.gift,.txt' },
+    { value: 'aiken', label: 'Aiken', accept: '.txt' },
+];
+
 const MODES = [
     { value: 'engagement' as SessionMode, label: 'Engagement', desc: 'Polls, Word Clouds, Scale Ratings', icon: '📊' },
     { value: 'quiz' as SessionMode, label: 'Quiz', desc: 'Timed Questions, Leaderboard, Scoring', icon: '🏆' },
@@ -43,6 +68,14 @@ function CreateSession() {
     const [newQuestion, setNewQuestion] = useState('');
     const [newQuestionType, setNewQuestionType] = useState('poll');
 
+    // Bulk import
+    const [showImport, setShowImport] = useState(false);
+    const [importFormat, setImportFormat] = useState<ImportFormat>('csv');
+    const [importText, setImportText] = useState('');
+    const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+    const [importSelection, setImportSelection] = useState<Set<number>>(new Set());
+    const [importing, setImporting] = useState(false);
+
     const totalSteps = 4;
 
     const canProceed = () => {
@@ -69,6 +102,54 @@ function CreateSession() {
         setQuestions(questions.filter(q => q.id !== id));
     };
 
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setImportText(await file.text());
+        setImportPreview(null);
+    };
+
+    const handlePreviewImport = async () => {
+        setImporting(true);
+        setError('');
+        try {
+            const preview: ImportPreview = await api.previewQuestionImport(importFormat, importText);
+            setImportPreview(preview);
+            setImportSelection(new Set(preview.questions.map((_, i) => i)));
+        } catch (err: any) {
+            setError(err.message || 'Failed to read questions');
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const toggleImportSelection = (index: number) => {
+        const next = new Set(importSelection);
+        if (next.has(index)) next.delete(index);
+        else next.add(index);
+        setImportSelection(next);
+    };
+
+    const addImportedQuestions = () => {
+        if (!importPreview) return;
+        const drafts = importPreview.questions
+            .filter((_, i) => importSelection.has(i))
+            .map(({ line, question }) => ({
+                id: `q-${Date.now()}-${line}`,
+                question_text: question.questionText,
+                question_type: question.questionType,
+                options: question.options?.map(o => o.text) ?? [],
+                correct_answer: question.correctAnswer ?? undefined,
+                time_limit: question.timeLimit ?? undefined,
+                settings: question.settings ?? undefined,
+            }));
+        setQuestions([...questions, ...drafts]);
+        setImportPreview(null);
+        setImportText('');
+        setShowImport(false);
+    };
+
     const handleLaunch = async (asDraft = false) => {
         setLoading(true);
         setError('');
@@ -77,12 +158,15 @@ function CreateSession() {
             const data = await api.createSession(title.trim(), mode, presenterId, user?.id);
 
             // Create questions if any
-            for (const q of questions) {
-                await api.post(`sessions/${data.sessionId}/questions`, {
-                    question_text: q.question_text,
-                    question_type: q.question_type,
+            for (const [i, q] of questions.entries()) {
+                await api.createQuestion(data.sessionId, {
+                    questionText: q.question_text,
+                    questionType: q.question_type,
                     options: q.options.length > 0 ? q.options.map((text, i) => ({ id: `opt-${i}`, text })) : null,
-                    time_limit: q.time_limit || 30,
+                    correctAnswer: q.correct_answer ?? null,
+                    timeLimit: q.time_limit || 30,
+                    settings: q.settings,
+                    displayOrder: i,
                 });
             }
 
@@ -224,6 +308,93 @@ function CreateSession() {
                                         </button>
                                     </div>
                                 </div>
+
+                                <div className="mt-lg pt-lg border-t border-border">
+                                    {!showImport ? (
+                                        <button className="btn btn-secondary w-full text-sm" onClick={() => setShowImport(true)}>
+                                            📥 Import from CSV, GIFT or Aiken
+                                        </button>
+                                    ) : (
+                                        <div className="flex flex-col gap-md">
+                                            <div className="flex justify-between items-center">
+                                                <label className="form-label text-sm font-bold">Import questions</label>
+                                                <button className="text-muted text-sm" onClick={() => { setShowImport(false); setImportPreview(null); }}>✕</button>
+                                            </div>
+                                            <div className="flex gap-sm">
+                                                <select
+                                                    className="input text-sm"
+                                                    value={importFormat}
+                                                    onChange={(e) => { setImportFormat(e.target.value as ImportFormat); setImportPreview(null); }}
+                                                    title="Import format"
+                                                >
+                                                    {IMPORT_FORMATS.map(f => (
+                                                        <option key={f.value} value={f.value}>{f.label}</option>
+                                                    ))}
+                                                </select>
+                                                <input
+                                                    type="file"
+                                                    className="input text-sm"
+                                                    accept={IMPORT_FORMATS.find(f => f.value === importFormat)?.accept}
+                                                    onChange={handleImportFile}
+                                                    title="Choose a file"
+                                                />
+                                            </div>
+                                            <textarea
+                                                className="input text-sm font-mono"
+                                                rows={5}
+                                                placeholder={importFormat === 'csv'
+                                                    ? 'type,question,options,correct,time_limit\nquiz_mc,Capital of France?,Berlin|Paris|Rome,Paris,20'
+                                                    : 'Paste your questions here...'}
+                                                value={importText}
+                                                onChange={(e) => { setImportText(e.target.value); setImportPreview(null); }}
+                                            />
+                                            <button
+                                                className="btn btn-secondary text-sm"
+                                                onClick={handlePreviewImport}
+                                                disabled={importing || !importText.trim()}
+                                            >
+                                                {importing ? 'Reading...' : 'Preview'}
+                                            </button>
+
+                                            {error && !importPreview && (
+                                                <div className="p-md bg-error/10 text-error rounded-lg text-sm">{error}</div>
+                                            )}
+
+                                            {importPreview && (
+                                                <div className="flex flex-col gap-sm">
+                                                    <div className="flex flex-col gap-xs max-h-64 overflow-y-auto pr-xs">
+                                                        {importPreview.questions.map(({ line, question }, i) => (
+                                                            <label key={line} className="flex items-center gap-md p-sm bg-bg-alt rounded-lg border border-border text-sm cursor-pointer">
+                                                                <input
+                                                                    type="checkbox"
+                                                                    checked={importSelection.has(i)}
+                                                                    onChange={() => toggleImportSelection(i)}
+                                                                />
+                                                                <span className="text-[10px] text-muted">L{line}</span>
+                                                                <span className="flex-1 line-clamp-1">{question.questionText}</span>
+                                                                <span className="text-[9px] uppercase font-bold text-muted bg-border px-sm rounded py-0.5">{question.questionType}</span>
+                                                            </label>
+                                                        ))}
+                                                    </div>
+                                                    {importPreview.errors.length > 0 && (
+                                                        <div className="p-md bg-error/10 text-error rounded-lg text-xs flex flex-col gap-xs max-h-32 overflow-y-auto">
+                                                            {importPreview.errors.map((issue, i) => (
+                                                                <div key={i}>Line {issue.line}: {issue.error}</div>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                    <button
+                                                        className="btn btn-primary text-sm"
+                                                        onClick={addImportedQuestions}
+                                                        disabled={importSelection.size === 0}
+                                                    >
+                                                        Add {importSelection.size} Question{importSelection.size !== 1 ? 's' : ''}
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
                         )}
 
@@ -1,32 +1,190 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { api } from '../../hooks/useApi';
+import { useAuth } from '../../hooks/useAuth';
 
 import DashboardLayout from '../../layouts/DashboardLayout';
 import { motion, AnimatePresence } from 'framer-motion';
 
+interface LibraryFolder {
+    id: string;
+    name: string;
+    parent_id: string | null;
+    item_count: number;
+}
+
+// Folder filter: every session, only unfiled ones, or a specific folder
+type FolderFilter = 'all' | 'unfiled' | string;
+
+type LibraryTab = 'my-sessions' | 'templates' | 'trash';
+
+const PAGE_SIZE = 24;
+const TEMPLATE_CATEGORIES = ['icebreaker', 'retrospective', 'education', 'feedback', 'training', 'other'];
+const SEARCH_DEBOUNCE_MS = 300;
+
 const LibraryPage: React.FC<{ defaultTab?: 'my-sessions' | 'templates' }> = ({ defaultTab }) => {
     const navigate = useNavigate();
+    const { user } = useAuth();
     const [sessions, setSessions] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
-    const [activeTab, setActiveTab] = useState<'my-sessions' | 'templates'>(defaultTab || 'my-sessions');
+    const [activeTab, setActiveTab] = useState<LibraryTab>(defaultTab || 'my-sessions');
+    const [retentionDays, setRetentionDays] = useState<number | null>(null);
 
     // Enterprise Data Table State
     const [searchQuery, setSearchQuery] = useState('');
+    const [debouncedSearch, setDebouncedSearch] = useState('');
     const [filterMode, setFilterMode] = useState<string>('all');
+    const [filterStatus, setFilterStatus] = useState<string>('all');
+    const [sortBy, setSortBy] = useState<'created_at' | 'play_count' | 'last_played_at'>('created_at');
+    const [favoritesOnly, setFavoritesOnly] = useState(false);
+    const [templateCategory, setTemplateCategory] = useState<string>('all');
+    const [importing, setImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
+
+    // Folders
+    const [folders, setFolders] = useState<LibraryFolder[]>([]);
+    const [selectedFolder, setSelectedFolder] = useState<FolderFilter>('all');
+    const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+    const [dropTarget, setDropTarget] = useState<FolderFilter | null>(null);
+
+    useEffect(() => {
+        const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [searchQuery]);
 
     useEffect(() => {
         fetchSessions();
+    }, [activeTab, debouncedSearch, filterMode, filterStatus, sortBy, favoritesOnly, selectedFolder, templateCategory]);
+
+    useEffect(() => {
+        if (activeTab === 'my-sessions') fetchFolders();
     }, [activeTab]);
 
+    const fetchFolders = async () => {
+        try {
+            setFolders(await api.get('/library/folders'));
+        } catch (err) {
+            console.error('Failed to load folders:', err);
+        }
+    };
+
+    const handleCreateFolder = async (parentId?: string) => {
+        const name = window.prompt(parentId ? 'New subfolder name' : 'New folder name');
+        if (!name?.trim()) return;
+        try {
+            await api.post('/library/folders', { name: name.trim(), parentId });
+            if (parentId) setExpandedFolders(prev => new Set(prev).add(parentId));
+            fetchFolders();
+        } catch (err: any) {
+            alert(err.message || 'Failed to create folder');
+        }
+    };
+
+    const handleRenameFolder = async (folder: LibraryFolder) => {
+        const name = window.prompt('Rename folder', folder.name);
+        if (!name?.trim() || name.trim() === folder.name) return;
+        try {
+            await api.patch(`/library/folders/${folder.id}`, { name: name.trim() });
+            fetchFolders();
+        } catch (err: any) {
+            alert(err.message || 'Failed to rename folder');
+        }
+    };
+
+    const handleDeleteFolder = async (folder: LibraryFolder) => {
+        if (!window.confirm(`Delete "${folder.name}"? Its sessions and subfolders will move to the top level.`)) return;
+        try {
+            await api.delete(`/library/folders/${folder.id}`);
+            if (selectedFolder === folder.id) setSelectedFolder('all');
+            setSessions(sessions.map(s => s.folder_id === folder.id ? { ...s, folder_id: null } : s));
+            fetchFolders();
+        } catch (err: any) {
+            alert(err.message || 'Failed to delete folder');
+        }
+    };
+
+    const toggleExpanded = (folderId: string) => {
+        setExpandedFolders(prev => {
+            const next = new Set(prev);
+            if (next.has(folderId)) next.delete(folderId); else next.add(folderId);
+            return next;
+        });
+    };
+
+    // Drag a session card onto a folder (or "Unfiled") to move it
+    const handleDrop = async (e: React.DragEvent, folderId: string | null) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const sessionId = e.dataTransfer.getData('text/session-id');
+        const session = sessions.find(s => s.id === sessionId);
+        if (!session || (session.folder_id ?? null) === folderId) return;
+
+        try {
+            await api.patch(`/library/${sessionId}/folder`, { folderId });
+            // Drop it from view if it no longer belongs to the folder being browsed
+            setSessions(selectedFolder === 'all'
+                ? sessions.map(s => s.id === sessionId ? { ...s, folder_id: folderId } : s)
+                : sessions.filter(s => s.id !== sessionId));
+            fetchFolders();
+        } catch (err: any) {
+            alert(err.message || 'Failed to move session');
+        }
+    };
+
+    const dropProps = (target: FolderFilter, folderId: string | null) => ({
+        onDragOver: (e: React.DragEvent) => {
+            e.preventDefault();
+            setDropTarget(target);
+        },
+        onDragLeave: () => setDropTarget(null),
+        onDrop: (e: React.DragEvent) => handleDrop(e, folderId),
+    });
+
+    const handleToggleFavorite = async (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        try {
+            const { is_favorite } = await api.post(`/library/${id}/favorite`, {});
+            setSessions(favoritesOnly && !is_favorite
+                ? sessions.filter(s => s.id !== id)
+                : sessions.map(s => s.id === id ? { ...s, is_favorite } : s));
+        } catch (err) {
+            alert('Failed to update favorite');
+        }
+    };
+
+    const buildLibraryQuery = (cursor?: string) => {
+        const params = new URLSearchParams({ sort: sortBy, limit: String(PAGE_SIZE) });
+        if (debouncedSearch) params.set('q', debouncedSearch);
+        if (filterMode !== 'all') params.set('mode', filterMode);
+        if (filterStatus !== 'all') params.set('status', filterStatus);
+        if (favoritesOnly) params.set('favorite', 'true');
+        if (selectedFolder === 'unfiled') params.set('folder', 'none');
+        else if (selectedFolder !== 'all') params.set('folder', selectedFolder);
+        if (cursor) params.set('cursor', cursor);
+        return `/library?${params.toString()}`;
+    };
+
     const fetchSessions = async () => {
         setLoading(true);
         setError('');
         try {
-            const endpoint = activeTab === 'my-sessions' ? '/library' : '/library/templates';
-            const data = await api.get(endpoint);
-            setSessions(data);
+            if (activeTab === 'my-sessions') {
+                const data = await api.get(buildLibraryQuery());
+                setSessions(data.sessions);
+                setNextCursor(data.nextCursor);
+            } else if (activeTab === 'trash') {
+                const data = await api.get('/library/trash');
+                setSessions(data.sessions);
+                setRetentionDays(data.retentionDays);
+                setNextCursor(null);
+            } else {
+                const query = templateCategory !== 'all' ? `?category=${encodeURIComponent(templateCategory)}` : '';
+                setSessions(await api.get(`/library/templates${query}`));
+                setNextCursor(null);
+            }
         } catch (err: any) {
             setError('Failed to load sessions. Please try again.');
         } finally {
@@ -34,9 +192,23 @@ const LibraryPage: React.FC<{ defaultTab?: 'my-sessions' | 'templates' }> = ({ d
         }
     };
 
+    const loadMore = async () => {
+        if (!nextCursor) return;
+        setLoadingMore(true);
+        try {
+            const data = await api.get(buildLibraryQuery(nextCursor));
+            setSessions(prev => [...prev, ...data.sessions]);
+            setNextCursor(data.nextCursor);
+        } catch (err) {
+            alert('Failed to load more sessions');
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
     const handleDelete = async (e: React.MouseEvent, id: string) => {
         e.stopPropagation();
-        if (!window.confirm('Are you sure you want to delete this session?')) return;
+        if (!window.confirm('Move this session to the trash?')) return;
         try {
             await api.delete(`/library/${id}`);
             setSessions(sessions.filter(s => s.id !== id));
@@ -45,6 +217,27 @@ const LibraryPage: React.FC<{ defaultTab?: 'my-sessions' | 'templates' }> = ({ d
         }
     };
 
+    const handleRestore = async (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        try {
+            await api.post(`/library/${id}/restore`, {});
+            setSessions(sessions.filter(s => s.id !== id));
+        } catch (err) {
+            alert('Failed to restore session');
+        }
+    };
+
+    const handleDeleteForever = async (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        if (!window.confirm('Delete this session forever? Its questions and all responses will be lost.')) return;
+        try {
+            await api.delete(`/library/${id}/permanent`);
+            setSessions(sessions.filter(s => s.id !== id));
+        } catch (err) {
+            alert('Failed to delete session');
+        }
+    };
+
     const handleDuplicate = async (e: React.MouseEvent, id: string) => {
         e.stopPropagation();
         try {
@@ -55,7 +248,92 @@ const LibraryPage: React.FC<{ defaultTab?: 'my-sessions' | 'templates' }> = ({ d
         }
     };
 
+    const handleExport = async (e: React.MouseEvent, session: any) => {
+        e.stopPropagation();
+        try {
+            const deck = await api.get(`/library/${session.id}/export`);
+            const url = URL.createObjectURL(new Blob([JSON.stringify(deck, null, 2)], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${session.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'session'}.deck.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            alert('Failed to export session');
+        }
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        let deck: unknown;
+        try {
+            deck = JSON.parse(await file.text());
+        } catch {
+            alert('That file is not valid JSON');
+            return;
+        }
+
+        setImporting(true);
+        try {
+            const result = await api.post('/library/import', { deck });
+            const skipped = result.errors.map((err: any) => `#${err.index + 1} ${err.questionText || ''}`.trim());
+            alert(skipped.length > 0
+                ? `Imported ${result.imported} questions. Skipped ${skipped.length} invalid: ${skipped.join(', ')}`
+                : `Imported ${result.imported} questions`);
+            if (activeTab === 'my-sessions') setSessions(prev => [result.session, ...prev]);
+        } catch (err: any) {
+            alert(err.message || 'Failed to import deck');
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const handleUseTemplate = async (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        try {
+            const newSession = await api.post(`/library/templates/${id}/use`, {});
+            navigate(`/host/${newSession.id}`);
+        } catch (err) {
+            alert('Failed to create session from template');
+        }
+    };
+
+    const handlePublishTemplate = async (e: React.MouseEvent, session: any) => {
+        e.stopPropagation();
+        const category = window.prompt(`Template category (${TEMPLATE_CATEGORIES.join(', ')})`, 'other');
+        if (!category?.trim()) return;
+        const tags = window.prompt('Tags, separated by commas (optional)', '') ?? '';
+        const visibility = window.confirm('Share this template publicly? Cancel keeps it private to you.') ? 'public' : 'private';
+        try {
+            await api.post(`/library/${session.id}/template`, {
+                category: category.trim(),
+                tags: tags.split(',').map(t => t.trim()).filter(Boolean),
+                visibility,
+            });
+            alert(`"${session.title}" was published to Templates`);
+        } catch (err: any) {
+            alert(err.message || 'Failed to publish template');
+        }
+    };
+
+    const handleDeleteTemplate = async (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        if (!window.confirm('Move this template to the trash?')) return;
+        try {
+            await api.delete(`/library/templates/${id}`);
+            setSessions(sessions.filter(s => s.id !== id));
+        } catch (err) {
+            alert('Failed to delete template');
+        }
+    };
+
+    // Library results come back filtered from the server; templates and trash are short lists
     const filteredSessions = useMemo(() => {
+        if (activeTab === 'my-sessions') return sessions;
+
         let result = [...sessions];
 
         if (searchQuery) {
@@ -70,7 +348,41 @@ const LibraryPage: React.FC<{ defaultTab?: 'my-sessions' | 'templates' }> = ({ d
         }
 
         return result;
-    }, [sessions, searchQuery, filterMode]);
+    }, [sessions, searchQuery, filterMode, activeTab]);
+
+    const childFolders = (parentId: string | null) => folders.filter(f => (f.parent_id ?? null) === parentId);
+
+    const renderFolder = (folder: LibraryFolder, depth: number): React.ReactNode => {
+        const children = childFolders(folder.id);
+        const isExpanded = expandedFolders.has(folder.id);
+
+        return (
+            <div key={folder.id}>
+                <div
+                    className={`folder-node flex items-center gap-xs py-xs px-sm rounded cursor-pointer group ${selectedFolder === folder.id ? 'bg-primary/10 text-primary font-semibold' : 'hover:bg-bg-alt'} ${dropTarget === folder.id ? 'ring-2 ring-primary' : ''}`}
+                    style={{ paddingLeft: `${depth * 12 + 8}px` }}
+                    onClick={() => setSelectedFolder(folder.id)}
+                    {...dropProps(folder.id, folder.id)}
+                >
+                    <button
+                        className="text-xs text-muted w-4"
+                        onClick={(e) => { e.stopPropagation(); toggleExpanded(folder.id); }}
+                        title={isExpanded ? 'Collapse' : 'Expand'}
+                    >
+                        {children.length > 0 ? (isExpanded ? '▾' : '▸') : ''}
+                    </button>
+                    <span className="flex-1 truncate">📁 {folder.name}</span>
+                    <span className="text-xs text-muted">{folder.item_count}</span>
+                    <span className="hidden group-hover:flex gap-xs">
+                        <button className="text-xs" title="New subfolder" onClick={(e) => { e.stopPropagation(); handleCreateFolder(folder.id); }}>➕</button>
+                        <button className="text-xs" title="Rename" onClick={(e) => { e.stopPropagation(); handleRenameFolder(folder); }}>✏️</button>
+                        <button className="text-xs" title="Delete folder" onClick={(e) => { e.stopPropagation(); handleDeleteFolder(folder); }}>🗑️</button>
+                    </span>
+                </div>
+                {isExpanded && children.map(child => renderFolder(child, depth + 1))}
+            </div>
+        );
+    };
 
     return (
         <DashboardLayout>
@@ -79,6 +391,23 @@ const LibraryPage: React.FC<{ defaultTab?: 'my-sessions' | 'templates' }> = ({ d
                     <h1 className="text-3xl font-bold mb-xs">Your Library</h1>
                     <p className="text-muted">Manage and launch your interactive sessions.</p>
                 </div>
+                <div>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleImportFile}
+                    />
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={importing}
+                        title="Import a session from a .deck.json file"
+                    >
+                        {importing ? 'Importing...' : '📥 Import Deck'}
+                    </button>
+                </div>
             </div>
 
             <div className="tabs mb-lg flex gap-md border-b border-border">
@@ -92,10 +421,22 @@ const LibraryPage: React.FC<{ defaultTab?: 'my-sessions' | 'templates' }> = ({ d
                     className={`tab-btn pb-sm px-sm font-semibold transition-all ${activeTab === 'templates' ? 'text-primary border-b-2 border-primary' : 'text-muted hover:text-text'}`}
                     onClick={() => setActiveTab('templates')}
                 >
-                    Sample Templates
+                    Templates
+                </button>
+                <button
+                    className={`tab-btn pb-sm px-sm font-semibold transition-all ${activeTab === 'trash' ? 'text-primary border-b-2 border-primary' : 'text-muted hover:text-text'}`}
+                    onClick={() => setActiveTab('trash')}
+                >
+                    Trash
                 </button>
             </div>
 
+            {activeTab === 'trash' && retentionDays !== null && (
+                <p className="text-sm text-muted mb-lg">
+                    Sessions in the trash are deleted forever after {retentionDays} days.
+                </p>
+            )}
+
             <div className="library-controls mb-xl flex flex-wrap gap-md items-center">
                 <div className="search-box flex-1 min-w-[300px]">
                     <input
@@ -114,81 +455,259 @@ const LibraryPage: React.FC<{ defaultTab?: 'my-sessions' | 'templates' }> = ({ d
                         title="Filter by mode"
                     >
                         <option value="all">All Types</option>
+                        <option value="engagement">Engagement</option>
                         <option value="quiz">Quiz</option>
-                        <option value="poll">Poll</option>
-                        <option value="word_cloud">Word Cloud</option>
+                        <option value="mixed">Mixed</option>
                     </select>
                 </div>
+                {activeTab === 'my-sessions' && (
+                    <>
+                        <div className="filter-box">
+                            <select
+                                className="input w-auto"
+                                value={filterStatus}
+                                onChange={(e) => setFilterStatus(e.target.value)}
+                                title="Filter by status"
+                            >
+                                <option value="all">Any Status</option>
+                                <option value="active">Active</option>
+                                <option value="live">Live</option>
+                                <option value="paused">Paused</option>
+                                <option value="ended">Ended</option>
+                            </select>
+                        </div>
+                        <div className="filter-box">
+                            <select
+                                className="input w-auto"
+                                value={sortBy}
+                                onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                                title="Sort sessions"
+                            >
+                                <option value="created_at">Newest</option>
+                                <option value="last_played_at">Recently Played</option>
+                                <option value="play_count">Most Played</option>
+                            </select>
+                        </div>
+                    </>
+                )}
+                {activeTab === 'templates' && (
+                    <div className="filter-box">
+                        <select
+                            className="input w-auto"
+                            value={templateCategory}
+                            onChange={(e) => setTemplateCategory(e.target.value)}
+                            title="Filter by category"
+                        >
+                            <option value="all">All Categories</option>
+                            {TEMPLATE_CATEGORIES.map(category => (
+                                <option key={category} value={category}>
+                                    {category.charAt(0).toUpperCase() + category.slice(1)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                {activeTab === 'my-sessions' && (
+                    <button
+                        className={`btn btn-small ${favoritesOnly ? 'btn-primary' : 'btn-secondary'}`}
+                        onClick={() => setFavoritesOnly(!favoritesOnly)}
+                        title="Show favourites only"
+                    >
+                        ★ Favourites
+                    </button>
+                )}
             </div>
 
-            {loading ? (
-                <div className="flex justify-center py-2xl">
-                    <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
-                </div>
-            ) : error ? (
-                <div className="alert alert-error card p-md border-error text-error">{error}</div>
-            ) : filteredSessions.length === 0 ? (
-                <div className="empty-library card py-2xl text-center">
-                    <p className="text-muted mb-md">No sessions found matching your search.</p>
-                    <button onClick={() => { setSearchQuery(''); setFilterMode('all'); }} className="btn btn-secondary">Clear Filters</button>
-                </div>
-            ) : (
-                <div className="session-grid">
-                    <AnimatePresence>
-                        {filteredSessions.map((session) => (
-                            <motion.div
-                                key={session.id}
-                                layout
-                                initial={{ opacity: 0, scale: 0.9 }}
-                                animate={{ opacity: 1, scale: 1 }}
-                                exit={{ opacity: 0, scale: 0.9 }}
-                                whileHover={{ y: -5, boxShadow: 'var(--shadow-z4)' }}
-                                className="session-card group"
-                                onClick={() => navigate(`/host/${session.id}`)}
-                            >
-                                <div className="session-card-header mb-sm">
-                                    <h3 className="session-card-title font-bold text-lg group-hover:text-primary transition-colors">
-                                        {session.title}
-                                    </h3>
-                                    <span className={`status-badge status-badge-${session.status === 'active' || session.status === 'live' ? 'active' : 'draft'}`}>
-                                        {session.status === 'active' || session.status === 'live' ? 'Live' : 'Draft'}
-                                    </span>
-                                </div>
-
-                                <div className="session-card-meta flex gap-md text-sm text-muted mb-lg">
-                                    <span className="flex items-center gap-xs">🏷️ {session.mode.replace('_', ' ')}</span>
-                                    <span className="flex items-center gap-xs">📅 {new Date(session.created_at).toLocaleDateString()}</span>
-                                </div>
-
-                                <div className="session-card-footer flex justify-between items-center mt-auto">
-                                    <div className="flex gap-xs">
-                                        <button
-                                            onClick={(e) => handleDuplicate(e, session.id)}
-                                            className="btn btn-secondary btn-icon btn-small"
-                                            title="Duplicate"
-                                        >
-                                            📋
-                                        </button>
-                                        <button
-                                            onClick={(e) => handleDelete(e, session.id)}
-                                            className="btn btn-secondary btn-icon btn-small hover:bg-error/10 hover:text-error"
-                                            title="Delete"
-                                        >
-                                            🗑️
-                                        </button>
-                                    </div>
-                                    <button
-                                        className="btn btn-primary btn-small shadow-sm"
-                                        onClick={() => navigate(`/host/${session.id}`)}
+            <div className="library-body flex gap-lg items-start">
+                {activeTab === 'my-sessions' && (
+                    <aside className="library-folders card p-md w-64 shrink-0">
+                        <div className="flex justify-between items-center mb-sm">
+                            <span className="text-xs uppercase font-bold text-muted">Folders</span>
+                            <button className="btn btn-secondary btn-icon btn-small" title="New folder" onClick={() => handleCreateFolder()}>➕</button>
+                        </div>
+                        <div
+                            className={`folder-node py-xs px-sm rounded cursor-pointer ${selectedFolder === 'all' ? 'bg-primary/10 text-primary font-semibold' : 'hover:bg-bg-alt'}`}
+                            onClick={() => setSelectedFolder('all')}
+                        >
+                            🗂️ All Sessions
+                        </div>
+                        <div
+                            className={`folder-node py-xs px-sm rounded cursor-pointer ${selectedFolder === 'unfiled' ? 'bg-primary/10 text-primary font-semibold' : 'hover:bg-bg-alt'} ${dropTarget === 'unfiled' ? 'ring-2 ring-primary' : ''}`}
+                            onClick={() => setSelectedFolder('unfiled')}
+                            {...dropProps('unfiled', null)}
+                        >
+                            📄 Unfiled
+                        </div>
+                        {childFolders(null).map(folder => renderFolder(folder, 0))}
+                    </aside>
+                )}
+
+                <div className="library-content flex-1 min-w-0">
+
+                    {loading ? (
+                        <div className="flex justify-center py-2xl">
+                            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+                        </div>
+                    ) : error ? (
+                        <div className="alert alert-error card p-md border-error text-error">{error}</div>
+                    ) : filteredSessions.length === 0 ? (
+                        <div className="empty-library card py-2xl text-center">
+                            <p className="text-muted mb-md">No sessions found matching your search.</p>
+                            <button onClick={() => { setSearchQuery(''); setFilterMode('all'); setFilterStatus('all'); setFavoritesOnly(false); setSelectedFolder('all'); }} className="btn btn-secondary">Clear Filters</button>
+                        </div>
+                    ) : (
+                        <div className="session-grid">
+                            <AnimatePresence>
+                                {filteredSessions.map((session) => (
+                                    <motion.div
+                                        key={session.id}
+                                        layout
+                                        initial={{ opacity: 0, scale: 0.9 }}
+                                        animate={{ opacity: 1, scale: 1 }}
+                                        exit={{ opacity: 0, scale: 0.9 }}
+                                        whileHover={{ y: -5, boxShadow: 'var(--shadow-z4)' }}
+                                        className="session-card group"
+                                        onClick={() => activeTab === 'my-sessions' && navigate(`/host/${session.id}`)}
+                                        draggable={activeTab === 'my-sessions'}
+                                        // framer-motion reserves onDragStart for its own gestures; the capture handler reaches the DOM
+                                        onDragStartCapture={(e: React.DragEvent) => e.dataTransfer.setData('text/session-id', session.id)}
                                     >
-                                        Launch
-                                    </button>
-                                </div>
-                            </motion.div>
-                        ))}
-                    </AnimatePresence>
+                                        <div className="session-card-header mb-sm">
+                                            <h3 className="session-card-title font-bold text-lg group-hover:text-primary transition-colors">
+                                                {session.title}
+                                            </h3>
+                                            {activeTab === 'templates' ? (
+                                                <span className="status-badge status-badge-draft">
+                                                    {session.is_builtin ? 'Built-in' : session.template_category || 'Template'}
+                                                </span>
+                                            ) : (
+                                                <span className={`status-badge status-badge-${session.status === 'active' || session.status === 'live' || session.status === 'paused' ? 'active' : 'draft'}`}>
+                                                    {session.status === 'paused' ? 'Paused' : session.status === 'active' || session.status === 'live' ? 'Live' : 'Draft'}
+                                                </span>
+                                            )}
+                                        </div>
+
+                                        <div className="session-card-meta flex gap-md text-sm text-muted mb-lg">
+                                            <span className="flex items-center gap-xs">🏷️ {session.mode.replace('_', ' ')}</span>
+                                            <span className="flex items-center gap-xs">📅 {new Date(session.created_at).toLocaleDateString()}</span>
+                                            {activeTab === 'trash' && session.deleted_at && (
+                                                <span className="flex items-center gap-xs">🗑️ {new Date(session.deleted_at).toLocaleDateString()}</span>
+                                            )}
+                                            {activeTab === 'templates' && (
+                                                <span className="flex items-center gap-xs">❓ {session.question_count} questions</span>
+                                            )}
+                                        </div>
+
+                                        {activeTab === 'templates' && session.description && (
+                                            <p className="text-sm text-muted mb-md">{session.description}</p>
+                                        )}
+                                        {activeTab === 'templates' && session.tags?.length > 0 && (
+                                            <div className="flex flex-wrap gap-xs mb-md">
+                                                {session.tags.map((tag: string) => (
+                                                    <span key={tag} className="text-xs px-sm py-xs rounded bg-bg-alt text-muted">#{tag}</span>
+                                                ))}
+                                            </div>
+                                        )}
+
+                                        {activeTab === 'templates' ? (
+                                            <div className="session-card-footer flex justify-between items-center mt-auto">
+                                                <div className="flex gap-xs">
+                                                    {session.user_id === user?.id && (
+                                                        <button
+                                                            onClick={(e) => handleDeleteTemplate(e, session.id)}
+                                                            className="btn btn-secondary btn-icon btn-small hover:bg-error/10 hover:text-error"
+                                                            title="Delete template"
+                                                        >
+                                                            🗑️
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                <button
+                                                    className="btn btn-primary btn-small shadow-sm"
+                                                    onClick={(e) => handleUseTemplate(e, session.id)}
+                                                >
+                                                    Use Template
+                                                </button>
+                                            </div>
+                                        ) : activeTab === 'trash' ? (
+                                            <div className="session-card-footer flex justify-between items-center mt-auto">
+                                                <button
+                                                    onClick={(e) => handleDeleteForever(e, session.id)}
+                                                    className="btn btn-secondary btn-small hover:bg-error/10 hover:text-error"
+                                                >
+                                                    Delete Forever
+                                                </button>
+                                                <button
+                                                    className="btn btn-primary btn-small shadow-sm"
+                                                    onClick={(e) => handleRestore(e, session.id)}
+                                                >
+                                                    Restore
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div className="session-card-footer flex justify-between items-center mt-auto">
+                                                <div className="flex gap-xs">
+                                                    {activeTab === 'my-sessions' && (
+                                                        <button
+                                                            onClick={(e) => handleToggleFavorite(e, session.id)}
+                                                            className={`btn btn-secondary btn-icon btn-small ${session.is_favorite ? 'text-warning' : ''}`}
+                                                            title={session.is_favorite ? 'Remove from favourites' : 'Add to favourites'}
+                                                        >
+                                                            {session.is_favorite ? '★' : '☆'}
+                                                        </button>
+                                                    )}
+                                                    <button
+                                                        onClick={(e) => handleExport(e, session)}
+                                                        className="btn btn-secondary btn-icon btn-small"
+                                                        title="Export as JSON"
+                                                    >
+                                                        💾
+                                                    </button>
+                                                    <button
+                                                        onClick={(e) => handlePublishTemplate(e, session)}
+                                                        className="btn btn-secondary btn-icon btn-small"
+                                                        title="Publish as template"
+                                                    >
+                                                        📤
+                                                    </button>
+                                                    <button
+                                                        onClick={(e) => handleDuplicate(e, session.id)}
+                                                        className="btn btn-secondary btn-icon btn-small"
+                                                        title="Duplicate"
+                                                    >
+                                                        📋
+                                                    </button>
+                                                    <button
+                                                        onClick={(e) => handleDelete(e, session.id)}
+                                                        className="btn btn-secondary btn-icon btn-small hover:bg-error/10 hover:text-error"
+                                                        title="Delete"
+                                                    >
+                                                        🗑️
+                                                    </button>
+                                                </div>
+                                                <button
+                                                    className="btn btn-primary btn-small shadow-sm"
+                                                    onClick={() => navigate(`/host/${session.id}`)}
+                                                >
+                                                    Launch
+                                                </button>
+                                            </div>
+                                        )}
+                                    </motion.div>
+                                ))}
+                            </AnimatePresence>
+                        </div>
+                    )}
+
+                    {!loading && nextCursor && (
+                        <div className="flex justify-center mt-xl">
+                            <button className="btn btn-secondary" onClick={loadMore} disabled={loadingMore}>
+                                {loadingMore ? 'Loading...' : 'Load More'}
+                            </button>
+                        </div>
+                    )}
                 </div>
-            )}
+            </div>
         </DashboardLayout>
     );
 };
@@ -70,8 +70,12 @@ export interface QuestionSettings {
     max_words?: number;
     points?: number;
     tolerance?: number;
+    auto_reveal?: boolean;
+    scoring_strategy?: ScoringStrategy;
 }
 
+export type ScoringStrategy = 'exact' | 'positional' | 'kendall_tau' | 'proportional';
+
 // Results types
 export interface PollResults {
     [optionIndex: string]: number;
@@ -82,6 +86,193 @@ export interface WordCloudWord {
     weight: number;
 }
 
+export interface WordCloudDelta {
+    word: string;
+    delta: number;
+}
+
+export type ModerationStatus = 'pending' | 'approved' | 'hidden' | 'highlighted';
+
+export interface TextResponse {
+    id: string;
+    question_id: string;
+    participant_id: string;
+    content: string;
+    moderation_status: ModerationStatus;
+    moderated_at: string | null;
+    submitted_at: string;
+}
+
+export type QnaStatus = 'open' | 'answered' | 'archived';
+
+export interface QnaQuestion {
+    id: string;
+    session_id: string;
+    participant_id: string | null;
+    nickname: string | null;
+    content: string;
+    is_anonymous: boolean;
+    status: QnaStatus;
+    is_pinned: boolean;
+    vote_count: number;
+    created_at: string;
+    answered_at: string | null;
+}
+
+export interface QnaSettings {
+    enabled: boolean;
+    allow_anonymous: boolean;
+}
+
+export type JoinFieldType = 'text' | 'email' | 'select';
+
+export interface JoinField {
+    key: string;
+    label: string;
+    type: JoinFieldType;
+    required?: boolean;
+    options?: string[];
+}
+
+export interface JoinSettings {
+    unique_nicknames: boolean;
+    random_nicknames: boolean;
+    join_fields: JoinField[];
+}
+
+export type TeamAssignment = 'presenter' | 'choose' | 'auto';
+export type TeamScoring = 'sum' | 'average' | 'best_n';
+
+export interface TeamSettings {
+    team_mode: boolean;
+    team_assignment: TeamAssignment;
+    team_scoring: TeamScoring;
+    team_best_n: number;
+}
+
+export interface Team {
+    id: string;
+    name: string;
+    color: string;
+    member_count?: number;
+}
+
+export interface TeamMember {
+    participant_id: string;
+    nickname: string;
+    team_id: string | null;
+}
+
+export interface TeamLeaderboardEntry {
+    team_id: string;
+    name: string;
+    color: string;
+    score: number;
+    member_count: number;
+    rank: number;
+}
+
+// Colleagues invited to help run a session; the owner has every control
+export type CoHostRole = 'moderator' | 'driver' | 'full';
+export type PresenterRole = 'owner' | CoHostRole;
+
+export interface CoHost {
+    id: string;
+    session_id: string;
+    email: string;
+    role: CoHostRole;
+    invited_by: string | null;
+    created_at: string;
+}
+
+// Lobby: who has been let in, and who is waiting for the presenter
+export type Admission = 'admitted' | 'pending' | 'rejected';
+
+export interface LobbyEntry {
+    participant_id: string;
+    nickname: string | null;
+    avatar_color: string;
+    admission: Admission;
+    joined_at: string;
+}
+
+export interface LobbySettings {
+    join_approval: boolean;
+    allow_late_join: boolean;
+}
+
+// A participant as the presenter's participant list shows them
+export interface ParticipantRosterEntry {
+    participant_id: string;
+    nickname: string | null;
+    is_connected: boolean;
+    is_removed: boolean;
+    is_banned: boolean;
+    joined_at: string;
+}
+
+export interface SelfPacedSettings {
+    self_paced: boolean;
+    opens_at: string | null;
+    closes_at: string | null;
+    max_attempts: number;
+}
+
+export interface SelfPacedResult {
+    attempt_number: number;
+    attempts_left: number;
+    can_retake: boolean;
+    total_score: number;
+    question_count: number;
+    personal_results: boolean;
+}
+
+// Full participant state, sent after a reconnect or a missed event
+export interface ResyncState {
+    version: number;
+    seq: number;
+    server_time: string;
+    session: { id: string; title: string; status: 'active' | 'live' | 'paused' | 'ended' };
+    participant: { id: string; nickname: string | null; team_id: string | null; total_score: number; rank: number | null };
+    participant_count: number;
+    active_question: any | null; // Server shape, as in session_joined
+    has_responded: boolean;
+    response: { is_correct: boolean | null; score: number } | null;
+    remaining_ms: number | null;
+    personal_results: boolean;
+    self_paced: SelfPacedSettings | null;
+}
+
+export interface AnswerReview {
+    question_id: string;
+    question_text: string;
+    question_type: QuestionType;
+    answer: string | null;
+    correct_answer: string | null;
+    is_correct: boolean | null;
+    score: number;
+    response_time_ms: number | null;
+}
+
+export interface PersonalResults {
+    session_id: string;
+    session_title: string;
+    nickname: string | null;
+    total_score: number;
+    rank: number | null;
+    participant_count: number;
+    answers: AnswerReview[];
+}
+
+export type ProfanityInputType = 'words' | 'text' | 'ideas' | 'qna' | 'nicknames';
+export type ProfanityAction = 'reject' | 'mask' | 'moderate';
+
+export interface ProfanitySettings {
+    block_words?: string[];
+    allow_words?: string[];
+    actions?: Partial<Record<ProfanityInputType, ProfanityAction>>;
+}
+
 export interface ScaleStatistics {
     count: number;
     average: number;
@@ -111,6 +302,14 @@ export interface QuestionActivatedEvent {
     server_time: string;
 }
 
+export interface QuestionTimerEvent {
+    question_id: string;
+    remaining_ms: number;
+    ends_at: string | null; // null while the session is paused
+    paused?: boolean;
+    server_time: string;
+}
+
 export interface ResponseSubmittedEvent {
     success: boolean;
     question_id: string;